@@ -21,6 +21,10 @@ import {
   initializeThreadEventManager,
   cleanupThreadEventManager,
 } from "./utils/nostr/threadEventManager";
+import {
+  initializeLocalSearchIndex,
+  cleanupLocalSearchIndex,
+} from "./utils/search/queryCacheIndexer";
 import { createAppRouter } from "./router";
 
 function App() {
@@ -57,6 +61,15 @@ function App() {
     };
   }, [queryClient]);
 
+  // Index notes entering the query cache for offline search
+  useEffect(() => {
+    initializeLocalSearchIndex(queryClient);
+
+    return () => {
+      cleanupLocalSearchIndex();
+    };
+  }, [queryClient]);
+
   // Metadata store initialization removed - now handled by TanStack Query persistence
 
   // Expose QueryClient globally for prefetch utilities
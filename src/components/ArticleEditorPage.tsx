@@ -0,0 +1,726 @@
+import React, { useCallback, useContext, useEffect, useMemo, useState } from "react";
+import { useNavigate, useSearch } from "@tanstack/react-router";
+import type { Event } from "nostr-tools";
+import { NostrContext } from "../contexts/NostrContext";
+import { useRelayManager } from "../hooks/useRelayManager";
+import { useMultipleRelayInfo } from "../hooks/useRelayInfo";
+import { useNostrFeedState } from "../hooks/useNostrFeedState";
+import { useDisplayNames } from "../hooks/useDisplayNames";
+import { usePowState } from "../stores/powStore";
+import { DEFAULT_RELAY_URLS } from "../utils/nostr/constants";
+import type { RelayInfo } from "../utils/nostr/relayInfo";
+import { determinePowTargetBits } from "../utils/nostr/powConfig";
+import {
+  filterRelaysByEventKind,
+  filterRelaysByEventKindAndCapabilities,
+  publishArticle,
+  publishDeletion,
+} from "../utils/nostr/publish";
+import {
+  ARTICLE_DRAFT_KIND,
+  ARTICLE_KIND,
+  EMPTY_ARTICLE,
+  encodeArticleAddress,
+  fetchArticle,
+  fetchArticleDrafts,
+  parseArticleAddress,
+  parseArticleEvent,
+  slugifyIdentifier,
+  type ArticleFields,
+} from "../utils/nostr/articles";
+import { isAcceptedByAnyRelay } from "../utils/nostr/publishQueue";
+import { hasInMemorySecretKey } from "../utils/nostr/nip07";
+import PostPublishView, { type PublishState } from "./PostPublishView";
+import FileUploader from "./FileUploader";
+import { BasicMarkdown } from "./ArticlePage";
+
+type ViewMode = "write" | "preview" | "split";
+
+const inputStyle: React.CSSProperties = {
+  width: "100%",
+  boxSizing: "border-box",
+  backgroundColor: "var(--app-bg-color)",
+  color: "var(--text-color)",
+  border: "1px dotted var(--border-color)",
+  padding: "0.5rem",
+  fontSize: "var(--font-size-sm)",
+};
+
+const labelStyle: React.CSSProperties = {
+  display: "flex",
+  flexDirection: "column",
+  gap: "0.25rem",
+  fontSize: "var(--font-size-xs)",
+  color: "var(--text-muted)",
+  textTransform: "uppercase",
+  letterSpacing: "0.05em",
+  textAlign: "start",
+};
+
+const buttonStyle: React.CSSProperties = {
+  backgroundColor: "transparent",
+  color: "var(--text-color)",
+  border: "1px dotted var(--border-color)",
+  padding: "0.25rem 0.75rem",
+  fontSize: "var(--font-size-sm)",
+  textTransform: "uppercase",
+  cursor: "pointer",
+  minHeight: "unset",
+};
+
+// datetime-local wants local time without a zone
+const toLocalInputValue = (seconds: number) => {
+  const d = new Date(seconds * 1000);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(
+    d.getHours()
+  )}:${pad(d.getMinutes())}`;
+};
+
+const ArticleEditorPage: React.FC = () => {
+  const navigate = useNavigate();
+  const search = useSearch({ strict: false }) as { edit?: string };
+  const { nostrClient, pubkey: ctxPubkey } = useContext(NostrContext);
+  const state = useNostrFeedState();
+  const { activeSession } = usePowState();
+
+  const { relayUrls, writeRelays, relayPermissions } = useRelayManager({
+    nostrClient,
+    initialRelays: DEFAULT_RELAY_URLS,
+    pubkeyHex: ctxPubkey,
+  });
+  const { relayInfos } = useMultipleRelayInfo({
+    relayUrls: writeRelays,
+    enabled: true,
+  });
+  const { getDisplayNameForPubkey } = useDisplayNames(relayUrls);
+
+  const [fields, setFields] = useState<ArticleFields>(EMPTY_ARTICLE);
+  const [hashtagInput, setHashtagInput] = useState("");
+  // Follows the title until the user edits it; fixed once the article exists
+  const [identifierTouched, setIdentifierTouched] = useState(false);
+  const [isExisting, setIsExisting] = useState(false);
+  // Tags of the loaded event that the editor doesn't manage
+  const [preservedTags, setPreservedTags] = useState<string[][]>([]);
+  // Last kind 30024 draft for this d tag, removed once the article is published
+  const [draftEvent, setDraftEvent] = useState<Event | null>(null);
+  const [drafts, setDrafts] = useState<Event[]>([]);
+  const [showDrafts, setShowDrafts] = useState(false);
+  const [viewMode, setViewMode] = useState<ViewMode>(
+    state.isMobile ? "write" : "split"
+  );
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [showPublishView, setShowPublishView] = useState(false);
+  const [publishState, setPublishState] = useState<PublishState>("idle");
+  const [publishMessage, setPublishMessage] = useState("");
+  const [queuedEventId, setQueuedEventId] = useState<string | undefined>();
+  const [publishedAddress, setPublishedAddress] = useState<string | null>(null);
+
+  const loadEvent = useCallback((event: Event) => {
+    const parsed = parseArticleEvent(event);
+    setFields(parsed);
+    setHashtagInput(parsed.hashtags.join(", "));
+    setIdentifierTouched(true);
+    setPreservedTags(event.tags);
+    if (event.kind === ARTICLE_DRAFT_KIND) {
+      setDraftEvent(event);
+    } else {
+      setIsExisting(true);
+    }
+  }, []);
+
+  // Open an existing article or draft from ?edit=<naddr>
+  useEffect(() => {
+    if (!search.edit || !nostrClient || relayUrls.length === 0) return;
+    const address = parseArticleAddress(search.edit);
+    if (!address) {
+      setError("Invalid article address");
+      return;
+    }
+    if (ctxPubkey && address.pubkey !== ctxPubkey) {
+      setError("Only your own articles can be edited");
+      return;
+    }
+    let cancelled = false;
+    setIsLoading(true);
+    void fetchArticle({
+      pool: nostrClient,
+      relayUrls: Array.from(new Set([...(address.relays ?? []), ...relayUrls])),
+      pubkey: address.pubkey,
+      identifier: address.identifier,
+      kind: address.kind,
+    }).then((event) => {
+      if (cancelled) return;
+      if (event) loadEvent(event);
+      else setError("Article not found");
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [search.edit, nostrClient, relayUrls, ctxPubkey, loadEvent]);
+
+  const loadDrafts = useCallback(async () => {
+    if (!nostrClient || !ctxPubkey) return;
+    setDrafts(
+      await fetchArticleDrafts({ pool: nostrClient, relayUrls, pubkey: ctxPubkey })
+    );
+  }, [nostrClient, ctxPubkey, relayUrls]);
+
+  const updateField = useCallback(
+    <K extends keyof ArticleFields>(key: K, value: ArticleFields[K]) => {
+      setFields((prev) => {
+        const next = { ...prev, [key]: value };
+        if (key === "title" && !identifierTouched) {
+          next.identifier = slugifyIdentifier(String(value));
+        }
+        return next;
+      });
+    },
+    [identifierTouched]
+  );
+
+  const handleFileUploaded = useCallback(
+    (tags: string[][]) => {
+      const url = tags.find((t) => t[0] === "url")?.[1];
+      const mime = tags.find((t) => t[0] === "m")?.[1] || "";
+      if (!url) return;
+      // Images go into the body as markdown; the first one doubles as the cover
+      const snippet = mime.startsWith("image/") ? `![](${url})` : url;
+      setFields((prev) => ({
+        ...prev,
+        image: prev.image || (mime.startsWith("image/") ? url : ""),
+        content: `${prev.content.replace(/\s*$/, "")}${
+          prev.content.trim() ? "\n\n" : ""
+        }${snippet}\n`,
+      }));
+    },
+    []
+  );
+
+  const getFilteredRelays = useCallback(
+    (kind: number) => {
+      const relayInfoMap = new Map<string, RelayInfo>();
+      relayInfos.forEach((result, url) => {
+        if (result.info) relayInfoMap.set(url, result.info);
+      });
+      const filtered =
+        relayPermissions && relayInfoMap.size > 0
+          ? filterRelaysByEventKindAndCapabilities(
+              writeRelays,
+              relayPermissions,
+              relayInfoMap,
+              kind
+            )
+          : relayPermissions
+            ? filterRelaysByEventKind(writeRelays, relayPermissions, kind)
+            : writeRelays;
+      return { filtered, relayInfoMap };
+    },
+    [relayInfos, relayPermissions, writeRelays]
+  );
+
+  const currentFields = useMemo(
+    (): ArticleFields => ({
+      ...fields,
+      hashtags: hashtagInput.split(/[,\s]+/).filter(Boolean),
+    }),
+    [fields, hashtagInput]
+  );
+
+  const canSave =
+    !!nostrClient &&
+    !!ctxPubkey &&
+    writeRelays.length > 0 &&
+    currentFields.identifier.trim().length > 0 &&
+    !isPublishing;
+  const canPublish =
+    canSave &&
+    currentFields.title.trim().length > 0 &&
+    currentFields.content.trim().length > 0;
+
+  const handleSaveDraft = useCallback(async () => {
+    if (!canSave || !nostrClient) return;
+    setError(null);
+    setStatusMessage("Saving draft...");
+    setIsPublishing(true);
+    try {
+      // Private drafts aren't mined; PoW only matters for the published article
+      const { filtered, relayInfoMap } = getFilteredRelays(ARTICLE_DRAFT_KIND);
+      const { event, delivery } = await publishArticle({
+        pool: nostrClient,
+        relayUrls: filtered,
+        fields: currentFields,
+        draft: true,
+        preservedTags,
+        relayPermissions,
+        relayInfoMap,
+      });
+      setDraftEvent(event);
+      setIdentifierTouched(true);
+      setStatusMessage(
+        isAcceptedByAnyRelay(delivery)
+          ? `Draft saved at ${new Date().toLocaleTimeString()}`
+          : "Draft saved to outbox; retrying when relays are reachable"
+      );
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to save draft");
+      setStatusMessage(null);
+    } finally {
+      setIsPublishing(false);
+    }
+  }, [
+    canSave,
+    nostrClient,
+    getFilteredRelays,
+    currentFields,
+    preservedTags,
+    relayPermissions,
+  ]);
+
+  const handlePublish = useCallback(async () => {
+    if (!canPublish || !nostrClient || !ctxPubkey) return;
+    setError(null);
+    setIsPublishing(true);
+    setShowPublishView(true);
+    setPublishState("publishing");
+    setPublishMessage("Preparing to sign...");
+    try {
+      const { filtered, relayInfoMap } = getFilteredRelays(ARTICLE_KIND);
+      const powBits = await determinePowTargetBits(filtered, {
+        defaultBits: 16,
+        relayInfoMap,
+      });
+      if (powBits && powBits > 0) {
+        setPublishMessage("Mining PoW...");
+        // Ensure the status view paints before mining begins
+        await new Promise((r) => requestAnimationFrame(() => r(null)));
+      }
+      // published_at marks the first publication and survives later edits
+      const articleFields: ArticleFields = {
+        ...currentFields,
+        publishedAt: currentFields.publishedAt ?? Math.floor(Date.now() / 1000),
+      };
+      const { event, delivery } = await publishArticle({
+        pool: nostrClient,
+        relayUrls: filtered,
+        fields: articleFields,
+        preservedTags,
+        relayPermissions,
+        relayInfoMap,
+        powTargetBits: powBits,
+      });
+      setQueuedEventId(event.id);
+      setFields(articleFields);
+      setIsExisting(true);
+      setPublishedAddress(
+        encodeArticleAddress(ctxPubkey, articleFields.identifier.trim())
+      );
+      setPublishState("success");
+      setPublishMessage(
+        isAcceptedByAnyRelay(delivery)
+          ? "Article published"
+          : "Article saved to outbox; retrying when relays are reachable"
+      );
+
+      // The draft has served its purpose
+      if (draftEvent && parseArticleEvent(draftEvent).identifier === articleFields.identifier.trim()) {
+        void publishDeletion({
+          pool: nostrClient,
+          relayUrls: filtered,
+          targets: [
+            {
+              id: draftEvent.id,
+              kind: ARTICLE_DRAFT_KIND,
+              pubkey: draftEvent.pubkey,
+              tags: draftEvent.tags,
+            },
+          ],
+          authorPubkey: ctxPubkey,
+        }).catch((e) => console.error("Failed to delete article draft:", e));
+        setDraftEvent(null);
+      }
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : "Failed to publish article";
+      setError(msg);
+      setPublishState("error");
+      setPublishMessage(msg);
+    } finally {
+      setIsPublishing(false);
+    }
+  }, [
+    canPublish,
+    nostrClient,
+    ctxPubkey,
+    getFilteredRelays,
+    currentFields,
+    preservedTags,
+    relayPermissions,
+    draftEvent,
+  ]);
+
+  const previewTitle = currentFields.title.trim() || "Untitled";
+
+  return (
+    <div
+      className="nostr-feed"
+      style={{
+        width: "100%",
+        height: "100%",
+        flex: 1,
+        display: "flex",
+        flexDirection: "column",
+        backgroundColor: "var(--app-bg-color)",
+        overflowY: "auto",
+      }}
+    >
+      <div
+        style={{
+          width: "100%",
+          maxWidth: state.isMobile ? "100%" : "1200px",
+          margin: state.isMobile ? "0" : "0 auto",
+          display: "flex",
+          flexDirection: "column",
+          padding: "0.5rem",
+          boxSizing: "border-box",
+          gap: "0.75rem",
+        }}
+      >
+        {/* Header */}
+        <div
+          style={{
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "space-between",
+            minHeight: "2.5rem",
+            borderBottom: "1px solid var(--border-color)",
+            gap: "0.5rem",
+          }}
+        >
+          <div
+            style={{
+              cursor: "pointer",
+              color: "var(--text-color)",
+              fontSize: "0.875rem",
+              textTransform: "uppercase",
+              letterSpacing: "0.1em",
+            }}
+            onClick={() => navigate({ to: "/create" })}
+          >
+            {"< Create"}
+          </div>
+          <div
+            style={{
+              color: "var(--text-color)",
+              fontSize: "1rem",
+              fontWeight: 600,
+            }}
+          >
+            {isExisting ? "Edit article" : "New article"}
+          </div>
+          <button
+            style={buttonStyle}
+            onClick={() => {
+              setShowDrafts((v) => !v);
+              if (!showDrafts) void loadDrafts();
+            }}
+          >
+            Drafts
+          </button>
+        </div>
+
+        {showDrafts && (
+          <div
+            style={{
+              border: "1px dotted var(--border-color)",
+              fontSize: "var(--font-size-sm)",
+              color: "var(--text-color)",
+            }}
+          >
+            {drafts.length === 0 ? (
+              <div style={{ padding: "0.5rem", color: "var(--text-muted)" }}>
+                No article drafts on your relays
+              </div>
+            ) : (
+              drafts.map((draft) => {
+                const parsed = parseArticleEvent(draft);
+                return (
+                  <div
+                    key={draft.id}
+                    onClick={() => {
+                      loadEvent(draft);
+                      setShowDrafts(false);
+                    }}
+                    style={{
+                      padding: "0.5rem",
+                      borderBottom: "1px solid var(--border-color)",
+                      cursor: "pointer",
+                      display: "flex",
+                      justifyContent: "space-between",
+                      gap: "0.5rem",
+                    }}
+                  >
+                    <span>{parsed.title || parsed.identifier || "Untitled"}</span>
+                    <span style={{ color: "var(--text-muted)" }}>
+                      {new Date(draft.created_at * 1000).toLocaleString()}
+                    </span>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        )}
+
+        {showPublishView ? (
+          <PostPublishView
+            publishState={publishState}
+            publishMessage={publishMessage}
+            isSigning={false}
+            relayStatuses={[]}
+            broadcastingComplete={publishState === "success"}
+            isMobile={state.isMobile}
+            queuedEventId={queuedEventId}
+            onViewNote={() => {
+              if (publishedAddress) {
+                navigate({ to: `/article/${publishedAddress}` });
+              }
+            }}
+            onTryAgain={() => setShowPublishView(false)}
+            error={error || undefined}
+            powUpdateKey={activeSession ? activeSession.nonce : 0}
+            onRetryWithAuth={handlePublish}
+            showAuthOptions={true}
+            currentPubkeyHex={ctxPubkey || undefined}
+            getDisplayNameForPubkey={getDisplayNameForPubkey}
+          />
+        ) : isLoading ? (
+          <div style={{ color: "var(--text-muted)", padding: "1rem" }}>
+            Loading article...
+          </div>
+        ) : (
+          <>
+            {/* Metadata */}
+            <div
+              style={{
+                display: "grid",
+                gridTemplateColumns: state.isMobile ? "1fr" : "1fr 1fr",
+                gap: "0.5rem",
+              }}
+            >
+              <label style={labelStyle}>
+                Title
+                <input
+                  style={inputStyle}
+                  value={fields.title}
+                  onChange={(e) => updateField("title", e.target.value)}
+                  placeholder="Article title"
+                />
+              </label>
+              <label style={labelStyle}>
+                Identifier (d tag)
+                <input
+                  style={inputStyle}
+                  value={fields.identifier}
+                  disabled={isExisting}
+                  title={
+                    isExisting
+                      ? "Editing keeps the same d tag so the article is replaced"
+                      : undefined
+                  }
+                  onChange={(e) => {
+                    setIdentifierTouched(true);
+                    updateField("identifier", e.target.value);
+                  }}
+                  placeholder="my-article"
+                />
+              </label>
+              <label style={{ ...labelStyle, gridColumn: "1 / -1" }}>
+                Summary
+                <textarea
+                  style={{ ...inputStyle, resize: "vertical", minHeight: "3rem" }}
+                  value={fields.summary}
+                  onChange={(e) => updateField("summary", e.target.value)}
+                />
+              </label>
+              <label style={labelStyle}>
+                Cover image URL
+                <input
+                  style={inputStyle}
+                  value={fields.image}
+                  onChange={(e) => updateField("image", e.target.value)}
+                  placeholder="https://"
+                />
+              </label>
+              <label style={labelStyle}>
+                Published at
+                <input
+                  type="datetime-local"
+                  style={inputStyle}
+                  value={
+                    fields.publishedAt ? toLocalInputValue(fields.publishedAt) : ""
+                  }
+                  onChange={(e) => {
+                    const ms = e.target.value
+                      ? new Date(e.target.value).getTime()
+                      : NaN;
+                    updateField(
+                      "publishedAt",
+                      Number.isFinite(ms) ? Math.floor(ms / 1000) : undefined
+                    );
+                  }}
+                />
+              </label>
+              <label style={{ ...labelStyle, gridColumn: "1 / -1" }}>
+                Hashtags
+                <input
+                  style={inputStyle}
+                  value={hashtagInput}
+                  onChange={(e) => setHashtagInput(e.target.value)}
+                  placeholder="nostr, writing"
+                />
+              </label>
+            </div>
+
+            <FileUploader
+              onFileUploaded={handleFileUploaded}
+              onUploadError={setError}
+              onUploadStart={() => setError(null)}
+              disabled={!ctxPubkey && !hasInMemorySecretKey()}
+              maxFileSize={10 * 1024 * 1024}
+              acceptedTypes={["image/*", "video/*"]}
+              isMobile={state.isMobile}
+            />
+
+            {/* Body editor and preview */}
+            <div style={{ display: "flex", gap: "0.5rem" }}>
+              {(["write", "preview", "split"] as ViewMode[])
+                .filter((mode) => !state.isMobile || mode !== "split")
+                .map((mode) => (
+                  <button
+                    key={mode}
+                    style={{
+                      ...buttonStyle,
+                      borderStyle: viewMode === mode ? "solid" : "dotted",
+                    }}
+                    onClick={() => setViewMode(mode)}
+                  >
+                    {mode}
+                  </button>
+                ))}
+            </div>
+            <div
+              style={{
+                display: "flex",
+                gap: "1rem",
+                alignItems: "stretch",
+                minHeight: "50vh",
+              }}
+            >
+              {viewMode !== "preview" && (
+                <textarea
+                  style={{
+                    ...inputStyle,
+                    flex: 1,
+                    minHeight: "50vh",
+                    resize: "vertical",
+                    fontFamily: "monospace",
+                    lineHeight: 1.5,
+                  }}
+                  value={fields.content}
+                  onChange={(e) => updateField("content", e.target.value)}
+                  placeholder="Write in markdown..."
+                />
+              )}
+              {viewMode !== "write" && (
+                <div
+                  style={{
+                    flex: 1,
+                    minWidth: 0,
+                    textAlign: "left",
+                    color: "var(--text-color)",
+                    borderLeft:
+                      viewMode === "split"
+                        ? "1px dotted var(--border-color)"
+                        : "none",
+                    paddingLeft: viewMode === "split" ? "1rem" : 0,
+                  }}
+                >
+                  <div style={{ fontSize: "2rem", lineHeight: 1.1 }}>
+                    {previewTitle}
+                  </div>
+                  {fields.summary && (
+                    <div
+                      style={{
+                        margin: "0.5rem 0 1rem 0",
+                        color: "var(--muted-text-color)",
+                      }}
+                    >
+                      {fields.summary}
+                    </div>
+                  )}
+                  {fields.image && (
+                    <img
+                      src={fields.image}
+                      alt="cover"
+                      style={{ width: "100%", height: "auto", display: "block" }}
+                    />
+                  )}
+                  <BasicMarkdown content={fields.content} />
+                </div>
+              )}
+            </div>
+
+            {/* Actions */}
+            <div
+              style={{
+                display: "flex",
+                justifyContent: "space-between",
+                alignItems: "center",
+                gap: "0.5rem",
+                flexWrap: "wrap",
+              }}
+            >
+              <span
+                style={{
+                  fontSize: "var(--font-size-xs)",
+                  color: error ? "var(--text-failure)" : "var(--text-muted)",
+                }}
+              >
+                {error || statusMessage || ""}
+              </span>
+              <div style={{ display: "flex", gap: "0.5rem" }}>
+                <button
+                  style={{
+                    ...buttonStyle,
+                    cursor: canSave ? "pointer" : "not-allowed",
+                  }}
+                  disabled={!canSave}
+                  onClick={handleSaveDraft}
+                >
+                  Save draft
+                </button>
+                <button
+                  style={{
+                    ...buttonStyle,
+                    border: "1px solid var(--border-color)",
+                    cursor: canPublish ? "pointer" : "not-allowed",
+                  }}
+                  disabled={!canPublish}
+                  onClick={handlePublish}
+                >
+                  {isExisting ? "Republish" : "Publish"}
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ArticleEditorPage;
@@ -771,7 +771,7 @@ const ArticlePage: React.FC = () => {
   const params = useParams({ strict: false });
   const addr = (params as any).addr as string | undefined;
   const navigate = useNavigate();
-  const { nostrClient } = useContext(NostrContext) as any;
+  const { nostrClient, pubkey: ctxPubkey } = useContext(NostrContext) as any;
   const { relayUrls } = useRelayManager({ nostrClient, initialRelays: [] });
   const state = useNostrFeedState();
   const { getDisplayNameForPubkey } = useDisplayNames(relayUrls);
@@ -1102,6 +1102,30 @@ const ArticlePage: React.FC = () => {
                       >
                         {formattedAuthorDisplayName || "Article"}
                       </div>
+                      {ctxPubkey && event.pubkey === ctxPubkey && (
+                        <div
+                          onClick={() =>
+                            navigate({
+                              to: "/write",
+                              search: {
+                                edit: `${event.kind}:${event.pubkey}:${
+                                  event.tags.find((t) => t[0] === "d")?.[1] ?? ""
+                                }`,
+                              },
+                            })
+                          }
+                          style={{
+                            marginTop: "0.35rem",
+                            fontSize: "0.85rem",
+                            textTransform: "uppercase",
+                            letterSpacing: "0.06em",
+                            color: "var(--text-color)",
+                            cursor: "pointer",
+                          }}
+                        >
+                          Edit article
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
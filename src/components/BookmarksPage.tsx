@@ -1,14 +1,41 @@
-import React, { useCallback, useMemo, useRef, useState } from "react";
+import React, { useCallback, useContext, useMemo, useRef, useState } from "react";
 import { useNavigate } from "@tanstack/react-router";
 import { nip19 } from "nostr-tools";
 import { useBookmarks } from "../hooks/useBookmarks";
+import { useBookmarkSync } from "../hooks/useBookmarkSync";
+import { useRelayManager } from "../hooks/useRelayManager";
+import { NostrContext } from "../contexts/NostrContext";
+import { bookmarksService } from "../utils/bookmarks/bookmarksService";
 import { useScrollRestoration } from "../hooks/useScrollRestoration";
 import { EnhancedImageGallery } from "./media/EnhancedImageGallery";
 
+const headerButtonStyle: React.CSSProperties = {
+  background: "none",
+  border: "1px dotted var(--border-color)",
+  color: "var(--text-color)",
+  cursor: "pointer",
+  padding: "0.125rem 0.5rem",
+  fontSize: "var(--font-size-xs)",
+  textTransform: "uppercase",
+};
+
 const BookmarksPage: React.FC = () => {
   const navigate = useNavigate();
   const { bookmarks, removeBookmark } = useBookmarks();
   const containerRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  const { nostrClient, pubkey } = useContext(NostrContext);
+  const { relayUrls, relayPermissions } = useRelayManager({
+    nostrClient,
+    initialRelays: [],
+    pubkeyHex: pubkey,
+  });
+  const { sync, isSyncing, canSync, error: syncError } = useBookmarkSync(
+    relayUrls,
+    relayPermissions
+  );
 
   // Use scroll restoration hook for the bookmarks page
   useScrollRestoration(containerRef, "bookmarks");
@@ -68,6 +95,52 @@ const BookmarksPage: React.FC = () => {
     [removeBookmark]
   );
 
+  const handleSync = useCallback(async () => {
+    const result = await sync();
+    if (result) {
+      setStatusMessage(
+        `Synced: ${result.added} added, ${result.removed} removed`
+      );
+    }
+  }, [sync]);
+
+  const handleExport = useCallback(() => {
+    const blob = new Blob([bookmarksService.exportBookmarks()], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `bookmarks-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, []);
+
+  const handleImportFile = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = "";
+      if (!file) return;
+      try {
+        const { added, rejected } = bookmarksService.importBookmarks(
+          await file.text()
+        );
+        setStatusMessage(
+          `Imported ${added} new bookmark${added === 1 ? "" : "s"}` +
+            (rejected > 0
+              ? `, skipped ${rejected} invalid entr${rejected === 1 ? "y" : "ies"}`
+              : "")
+        );
+      } catch (error) {
+        console.error("Failed to import bookmarks:", error);
+        setStatusMessage(
+          error instanceof Error ? error.message : "Failed to import bookmarks"
+        );
+      }
+    },
+    []
+  );
+
   // Image gallery handlers
   const handleImageLoad = useCallback((url: string) => {
     imagesLoadingRef.current.delete(url);
@@ -173,7 +246,62 @@ const BookmarksPage: React.FC = () => {
               >
                 📖 My Bookmarks ({sortedBookmarks.length})
               </div>
+
+              <div
+                style={{
+                  marginLeft: "auto",
+                  display: "flex",
+                  gap: "0.5rem",
+                  fontSize: "var(--font-size-xs)",
+                }}
+              >
+                {canSync && (
+                  <button
+                    onClick={handleSync}
+                    disabled={isSyncing}
+                    style={headerButtonStyle}
+                    title="Sync with your bookmark list on relays"
+                  >
+                    {isSyncing ? "Syncing..." : "Sync"}
+                  </button>
+                )}
+                <button
+                  onClick={handleExport}
+                  disabled={sortedBookmarks.length === 0}
+                  style={headerButtonStyle}
+                  title="Download bookmarks as JSON"
+                >
+                  Export
+                </button>
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  style={headerButtonStyle}
+                  title="Import bookmarks from a JSON export"
+                >
+                  Import
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  onChange={handleImportFile}
+                  style={{ display: "none" }}
+                />
+              </div>
             </div>
+            {(statusMessage || syncError) && (
+              <div
+                style={{
+                  padding: "0.25rem 1rem",
+                  fontSize: "var(--font-size-xs)",
+                  color: syncError ? "var(--btn-accent)" : "var(--text-muted)",
+                  textAlign: "start",
+                  borderBottom: "1px solid var(--border-color)",
+                }}
+              >
+                {syncError ? `Sync failed: ${syncError}` : statusMessage}
+              </div>
+            )}
           </div>
         </div>
 
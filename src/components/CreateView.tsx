@@ -28,6 +28,17 @@ import { navigateBackOrHome } from "../utils/modalUrlState";
 import { invalidateCurrentUserProfileNotes } from "../utils/nostr/queryInvalidation";
 import { useQueryClient } from "@tanstack/react-query";
 import { useMentionAutocomplete } from "../hooks/useMentionAutocomplete";
+import { useDraft } from "../hooks/useDraft";
+import SchedulePicker from "./ui/SchedulePicker";
+import ContentWarningPicker from "./ui/ContentWarningPicker";
+import ZapSplitPicker from "./ui/ZapSplitPicker";
+import { withContentWarning } from "../utils/nostr/contentWarning";
+import { withZapSplits, type ZapSplit } from "../utils/nostr/zapSplits";
+import {
+  enqueuePublish,
+  isAcceptedByAnyRelay,
+  publishNow,
+} from "../utils/nostr/publishQueue";
 import MentionDropdown from "./ui/MentionDropdown";
 import {
   insertMention,
@@ -108,6 +119,21 @@ const CreateView: React.FC = () => {
   const [broadcastingComplete, setBroadcastingComplete] = useState(false);
   const [relayStatuses, setRelayStatuses] = useState<RelayPublishStatus[]>([]);
   const [uploadedFileTags, setUploadedFileTags] = useState<string[][]>([]);
+  // Auto-save to the drafts store, keyed as a standalone note
+  const { discardDraft } = useDraft({
+    type: "note",
+    content,
+    setContent,
+    uploadTags: uploadedFileTags,
+    setUploadTags: setUploadedFileTags,
+  });
+  // Optional publish time; scheduled posts go through the publish queue
+  const [scheduledAt, setScheduledAt] = useState<number | null>(null);
+  // NIP-36 content warning reason; null when the post has none
+  const [contentWarning, setContentWarning] = useState<string | null>(null);
+  // NIP-57 zap split recipients for the published note
+  const [zapSplits, setZapSplits] = useState<ZapSplit[]>([]);
+  const [queuedEventId, setQueuedEventId] = useState<string | undefined>();
   // No local cache stats required here
   const [publishState, setPublishState] = useState<
     "idle" | "publishing" | "success" | "error"
@@ -438,13 +464,23 @@ const CreateView: React.FC = () => {
         setIsSigning(true);
       }
 
+      // A schedule time that has already passed just publishes now
+      const isScheduled = scheduledAt !== null && scheduledAt > Date.now();
+
       const signed = await (
         await import("../utils/nostr/nip07")
       ).nip07SignEvent(
         {
           kind: 1,
           content: content.trim(),
-          tags: uploadedFileTags,
+          tags: withZapSplits(
+            withContentWarning(uploadedFileTags, contentWarning),
+            zapSplits
+          ),
+          // Scheduled notes carry their publish time (and PoW is mined for it)
+          created_at: isScheduled
+            ? Math.floor((scheduledAt as number) / 1000)
+            : undefined,
         },
         {
           powTargetBits: powBits,
@@ -461,82 +497,46 @@ const CreateView: React.FC = () => {
 
       setIsSigning(false);
 
+      if (isScheduled) {
+        // Hand the signed event to the outbox; it publishes in the background
+        await enqueuePublish({
+          event: signed,
+          relayUrls: filteredRelayUrls,
+          publishAt: scheduledAt as number,
+        });
+        setQueuedEventId(signed.id);
+        setPublishState("success");
+        setPublishMessage(
+          `Scheduled for ${new Date(scheduledAt as number).toLocaleString()}`
+        );
+        setBroadcastingComplete(true);
+        setScheduledAt(null);
+        setContentWarning(null);
+        setZapSplits([]);
+        clearPersistedContent();
+        void discardDraft();
+        return;
+      }
+
       // Broadcast to relays
       setPublishMessage("Broadcasting to relays...");
       setPublishState("publishing");
 
-      // Publish to each relay in parallel, collect results
-      const withTimeout = <T,>(p: Promise<T>, ms: number): Promise<T> => {
-        return new Promise<T>((resolve, reject) => {
-          const t = setTimeout(() => reject(new Error("publish-timeout")), ms);
-          p.then(
-            (v) => {
-              clearTimeout(t);
-              resolve(v);
-            },
-            (e) => {
-              clearTimeout(t);
-              reject(e);
-            }
-          );
-        });
-      };
-      const publishPromises = filteredRelayUrls.map(async (relayUrl, index) => {
-        try {
-          await withTimeout(
-            nostrClient!.publish([relayUrl], signed as any),
-            8000
-          );
-          return { relayUrl, success: true, index };
-        } catch (e: any) {
-          return {
-            relayUrl,
-            success: false,
-            error: e?.message || String(e),
-            index,
-          };
-        }
-      });
-      const results = await Promise.allSettled(publishPromises);
-      // Progressive UI updates similar to ProfileEditModal
-      results.forEach((res, i) => {
-        if (res.status === "fulfilled") {
-          const { success, error, index } = res.value as any;
-          setTimeout(
-            () => {
-              setRelayStatuses((prev) =>
-                prev.map((s, idx) =>
-                  idx === index
-                    ? {
-                        ...s,
-                        status: success ? "success" : "failed",
-                        error: success
-                          ? undefined
-                          : typeof error === "string"
-                            ? error
-                            : "Unknown error",
-                      }
-                    : s
-                )
-              );
-            },
-            (i + 1) * 600
-          );
-        }
-      });
-      // Wait for UI updates to complete
-      await new Promise((r) =>
-        setTimeout(r, (filteredRelayUrls.length + 1) * 800)
+      // Publish through the outbox; PostPublishView follows the per-relay
+      // receipts and relays that fail keep retrying in the background
+      setQueuedEventId(signed.id);
+      const delivery = await publishNow(
+        nostrClient!,
+        signed,
+        filteredRelayUrls
       );
-      const successCount = results.filter(
-        (r) => r.status === "fulfilled" && (r as any).value.success
-      ).length;
-      if (successCount === 0) {
-        throw new Error("All relay publishes failed");
-      }
       setBroadcastingComplete(true);
       setPublishState("success");
-      setPublishMessage("Published to some relays");
+      setPublishMessage(
+        isAcceptedByAnyRelay(delivery)
+          ? "Published to some relays"
+          : "Saved to outbox; retrying when relays are reachable"
+      );
 
       // Invalidate cache for current user's profile notes so they see their new note immediately
       if (ctxPubkey) {
@@ -544,7 +544,10 @@ const CreateView: React.FC = () => {
       }
 
       // Clear persisted content since post was successful
+      setContentWarning(null);
+      setZapSplits([]);
       clearPersistedContent();
+      void discardDraft();
       // Store last id for navigation
       try {
         (window as any)._nostree_lastNoteId = signed.id;
@@ -569,6 +572,10 @@ const CreateView: React.FC = () => {
     hexPubkey,
     relayPermissions,
     clearPersistedContent,
+    discardDraft,
+    scheduledAt,
+    contentWarning,
+    zapSplits,
     relayInfos,
     ctxPubkey,
     queryClient,
@@ -648,6 +655,54 @@ const CreateView: React.FC = () => {
               {"< Back"}
             </button>
 
+            {/* Saved drafts */}
+            <button
+              onClick={() => navigate({ to: "/drafts" })}
+              style={{
+                backgroundColor: "transparent",
+                color: "var(--text-color)",
+                border: "1px dotted var(--border-color)",
+                fontSize: "var(--font-size-base)",
+                textTransform: "uppercase",
+                borderRadius: "0",
+                whiteSpace: "nowrap",
+                height: state.isMobile ? "1.5rem" : "2rem",
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "center",
+                minHeight: "unset",
+                padding: " 0.75rem",
+                marginLeft: "0.5rem",
+              }}
+              title="Saved drafts"
+            >
+              Drafts
+            </button>
+
+            {/* Long-form (NIP-23) editor */}
+            <button
+              onClick={() => navigate({ to: "/write", search: { edit: "" } })}
+              style={{
+                backgroundColor: "transparent",
+                color: "var(--text-color)",
+                border: "1px dotted var(--border-color)",
+                fontSize: "var(--font-size-base)",
+                textTransform: "uppercase",
+                borderRadius: "0",
+                whiteSpace: "nowrap",
+                height: state.isMobile ? "1.5rem" : "2rem",
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "center",
+                minHeight: "unset",
+                padding: " 0.75rem",
+                marginLeft: "0.5rem",
+              }}
+              title="Write a long-form article"
+            >
+              Article
+            </button>
+
             {/* Center title */}
             {!state.isMobile && (
               <div
@@ -914,6 +969,23 @@ const CreateView: React.FC = () => {
                           acceptedTypes={["image/*", "video/*"]}
                           isMobile={state.isMobile}
                         />
+                        <SchedulePicker
+                          value={scheduledAt}
+                          onChange={setScheduledAt}
+                          disabled={isPosting}
+                        />
+                        <ContentWarningPicker
+                          value={contentWarning}
+                          onChange={setContentWarning}
+                          disabled={isPosting}
+                        />
+                        <ZapSplitPicker
+                          value={zapSplits}
+                          onChange={setZapSplits}
+                          getDisplayNameForPubkey={getDisplayNameForPubkey}
+                          disabled={isPosting}
+                          isMobile={state.isMobile}
+                        />
                         <div
                           style={{
                             width: "100%",
@@ -975,6 +1047,7 @@ const CreateView: React.FC = () => {
                       relayStatuses={relayStatuses}
                       broadcastingComplete={broadcastingComplete}
                       isMobile={state.isMobile}
+                      queuedEventId={queuedEventId}
                       onViewNote={() => {
                         const id = (window as any)._nostree_lastNoteId;
                         if (id) {
@@ -0,0 +1,234 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "@tanstack/react-router";
+import { nip19 } from "nostr-tools";
+import {
+  DRAFTS_CHANGED_EVENT,
+  draftsService,
+  type Draft,
+} from "../utils/drafts/draftsService";
+
+const DRAFT_TYPE_LABELS: Record<Draft["type"], string> = {
+  note: "New note",
+  reply: "Reply",
+  quote: "Quote",
+};
+
+const DraftsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const isMobileLayout = window.innerWidth <= 768;
+
+  const loadDrafts = useCallback(async () => {
+    setDrafts(await draftsService.listDrafts());
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    void loadDrafts();
+    const handleChange = () => {
+      void loadDrafts();
+    };
+    window.addEventListener(DRAFTS_CHANGED_EVENT, handleChange);
+    return () => window.removeEventListener(DRAFTS_CHANGED_EVENT, handleChange);
+  }, [loadDrafts]);
+
+  const formatDate = useCallback((timestamp: number) => {
+    return new Date(timestamp).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    });
+  }, []);
+
+  // Reopen the composer the draft came from
+  const handleResume = useCallback(
+    (draft: Draft) => {
+      if (draft.type === "note" || !draft.targetId) {
+        navigate({ to: "/create" });
+        return;
+      }
+      let encodedId = draft.targetId;
+      try {
+        encodedId = nip19.noteEncode(draft.targetId);
+      } catch {
+        // Fall back to the hex id
+      }
+      navigate({
+        to: `/note/${encodedId}`,
+        search:
+          draft.type === "reply"
+            ? { reply: draft.targetId }
+            : { repost: draft.targetId },
+        state: true,
+      });
+    },
+    [navigate]
+  );
+
+  const handleDiscard = useCallback(
+    (e: React.MouseEvent, key: string) => {
+      e.stopPropagation();
+      void draftsService.deleteDraft(key);
+    },
+    []
+  );
+
+  return (
+    <div
+      className="drafts-page"
+      style={{
+        width: "100%",
+        height: "100%",
+        flex: 1,
+        display: "flex",
+        flexDirection: "column",
+        backgroundColor: "var(--app-bg-color)",
+        overflow: "hidden",
+      }}
+    >
+      <div
+        style={{
+          width: "100%",
+          maxWidth: isMobileLayout ? "100%" : "1000px",
+          margin: isMobileLayout ? "0" : "0 auto",
+          display: "flex",
+          flexDirection: "column",
+          flex: 1,
+          overflow: "hidden",
+        }}
+      >
+        {/* Header */}
+        <div
+          style={{
+            display: "flex",
+            alignItems: "center",
+            width: "100%",
+            position: "relative",
+            padding: "0.5rem",
+            minHeight: "2.5rem",
+            borderBottom: "1px solid var(--border-color)",
+          }}
+        >
+          <div
+            style={{
+              cursor: "pointer",
+              color: "var(--text-color)",
+              fontSize: "0.875rem",
+              textTransform: "uppercase",
+              letterSpacing: "0.1em",
+              marginLeft: "0.5rem",
+            }}
+            onClick={() => navigate({ to: "/create" })}
+          >
+            <span>{"< Create"}</span>
+          </div>
+          <div
+            style={{
+              position: "absolute",
+              left: "50%",
+              transform: "translateX(-50%)",
+              color: "var(--text-color)",
+              fontSize: "1rem",
+              fontWeight: 600,
+            }}
+          >
+            📝 Drafts ({drafts.length})
+          </div>
+        </div>
+
+        {/* Draft list */}
+        <div style={{ flex: 1, overflowY: "auto", width: "100%" }}>
+          {!isLoading && drafts.length === 0 ? (
+            <div
+              style={{
+                textAlign: "center",
+                padding: "3rem 1rem",
+                color: "var(--text-muted)",
+                fontSize: "var(--font-size-sm)",
+              }}
+            >
+              <p style={{ fontSize: "1.5rem", marginBottom: "1rem" }}>
+                No drafts
+              </p>
+              <p>Unsent notes, replies and quotes are saved here automatically</p>
+            </div>
+          ) : (
+            drafts.map((draft) => (
+              <div
+                key={draft.key}
+                onClick={() => handleResume(draft)}
+                style={{
+                  padding: "1rem",
+                  borderBottom: "1px solid var(--border-color)",
+                  cursor: "pointer",
+                  display: "flex",
+                  flexDirection: "column",
+                  gap: "0.5rem",
+                }}
+              >
+                <div
+                  style={{
+                    display: "flex",
+                    justifyContent: "space-between",
+                    alignItems: "center",
+                    fontSize: "var(--font-size-xs)",
+                    color: "var(--text-muted)",
+                  }}
+                >
+                  <span>
+                    {DRAFT_TYPE_LABELS[draft.type]}
+                    {draft.uploadTags.some((t) => t[0] === "url") &&
+                      ` · ${draft.uploadTags.filter((t) => t[0] === "url").length} attachment(s)`}
+                    {draft.mentionTags.length > 0 &&
+                      ` · ${draft.mentionTags.length} mention(s)`}
+                  </span>
+                  <div
+                    style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}
+                  >
+                    <span>{formatDate(draft.updatedAt)}</span>
+                    <button
+                      onClick={(e) => handleDiscard(e, draft.key)}
+                      style={{
+                        background: "none",
+                        border: "none",
+                        color: "var(--text-muted)",
+                        cursor: "pointer",
+                        fontSize: "1.25rem",
+                        padding: "0",
+                      }}
+                      title="Discard draft"
+                    >
+                      ×
+                    </button>
+                  </div>
+                </div>
+                <div
+                  style={{
+                    textAlign: "start",
+                    fontSize: "var(--font-size-sm)",
+                    color: "var(--text-color)",
+                    lineHeight: "1.5",
+                    whiteSpace: "pre-wrap",
+                    display: "-webkit-box",
+                    WebkitLineClamp: 3,
+                    WebkitBoxOrient: "vertical",
+                    overflow: "hidden",
+                  }}
+                >
+                  {draft.content.length > 200
+                    ? draft.content.substring(0, 200) + "..."
+                    : draft.content}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DraftsPage;
@@ -2,6 +2,12 @@ import React, { useState, useCallback, useRef } from "react";
 import { BlossomUploader } from "@nostrify/nostrify/uploaders";
 import { NSecSigner } from "@nostrify/nostrify";
 import { useUIStore } from "./lib/useUIStore";
+import MediaLibrary from "./MediaLibrary";
+import {
+  getMirrorTargets,
+  mirrorBlobToServers,
+  type BlossomMirrorResult,
+} from "../utils/nostr/blossom";
 
 interface FileUploaderProps {
   onFileUploaded: (tags: string[][]) => void;
@@ -20,8 +26,20 @@ interface UploadedFile {
   tags: string[][];
   uploading: boolean;
   error?: string;
+  // BUD-04 copies on the non-primary servers
+  mirrors?: BlossomMirrorResult[];
 }
 
+const DEFAULT_BLOSSOM_SERVER_URLS = ["https://blossom.primal.net/"];
+
+const serverLabel = (server: string): string => {
+  try {
+    return new URL(server).host;
+  } catch {
+    return server;
+  }
+};
+
 export const FileUploader: React.FC<FileUploaderProps> = ({
   onFileUploaded,
   onUploadError,
@@ -34,6 +52,7 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
 }) => {
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [isDragOver, setIsDragOver] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Get the primary Blossom server URL from settings
@@ -42,11 +61,11 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
     "https://blossom.primal.net/";
 
   // Get all Blossom server URLs for error handling
-  const blossomServerUrls = useUIStore((s) => s.blossomServerUrls) || [
-    "https://blossom.primal.net/",
-  ];
+  const blossomServerUrls = useUIStore(
+    (s) => s.blossomServerUrls || DEFAULT_BLOSSOM_SERVER_URLS
+  );
 
-  const validateFile = (file: File): string | null => {
+  const validateFile = useCallback((file: File): string | null => {
     if (file.size > maxFileSize) {
       return `File size must be less than ${Math.round(
         maxFileSize / (1024 * 1024)
@@ -67,7 +86,7 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
     }
 
     return null;
-  };
+  }, [maxFileSize, acceptedTypes]);
 
   const createPreview = (file: File): string => {
     if (file.type.startsWith("image/")) {
@@ -76,7 +95,7 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
     return "";
   };
 
-  const uploadFile = async (file: File): Promise<string[][]> => {
+  const uploadFile = useCallback(async (file: File): Promise<string[][]> => {
     // Check file size limits for the primary server
     const checkFileSizeLimits = (file: File, serverUrl: string) => {
       if (serverUrl.includes("nostr.build")) {
@@ -293,7 +312,40 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
       // Re-throw the original error if we can't provide a better message
       throw error;
     }
-  };
+  }, [primaryBlossomServerUrl, blossomServerUrls]);
+
+  // Copy a finished upload to the other configured servers, reporting each one
+  const mirrorUpload = useCallback((file: File, tags: string[][]) => {
+    const url = tags.find((t) => t[0] === "url")?.[1];
+    const sha256 = tags.find((t) => t[0] === "x")?.[1];
+    const targets = getMirrorTargets(primaryBlossomServerUrl, blossomServerUrls);
+    if (!url || !sha256 || targets.length === 0) return;
+
+    const updateMirrors = (
+      update: (mirrors: BlossomMirrorResult[]) => BlossomMirrorResult[]
+    ) =>
+      setUploadedFiles((prev) =>
+        prev.map((f) =>
+          f.file === file ? { ...f, mirrors: update(f.mirrors || []) } : f
+        )
+      );
+
+    updateMirrors(() =>
+      targets.map((server) => ({ server, status: "pending" as const }))
+    );
+    void mirrorBlobToServers(
+      primaryBlossomServerUrl,
+      blossomServerUrls,
+      url,
+      sha256,
+      {
+        onResult: (result) =>
+          updateMirrors((mirrors) =>
+            mirrors.map((m) => (m.server === result.server ? result : m))
+          ),
+      }
+    );
+  }, [primaryBlossomServerUrl, blossomServerUrls]);
 
   const handleFileSelect = useCallback(
     async (files: FileList | null) => {
@@ -348,6 +400,7 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
           );
 
           onFileUploaded(tags);
+          mirrorUpload(uploadedFile.file, tags);
         } catch (error) {
           const errorMessage =
             error instanceof Error ? error.message : "Upload failed";
@@ -368,8 +421,9 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
     },
     [
       disabled,
-      maxFileSize,
-      acceptedTypes,
+      validateFile,
+      uploadFile,
+      mirrorUpload,
       onFileUploaded,
       onUploadError,
       onUploadStart,
@@ -493,6 +547,32 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
         )}
       </div>
 
+      <div style={{ textAlign: "left", marginBottom: "0.5rem" }}>
+        <button
+          type="button"
+          onClick={() => setShowLibrary((open) => !open)}
+          style={{
+            background: "none",
+            border: "none",
+            color: "var(--text-color-secondary)",
+            cursor: "pointer",
+            fontSize: "0.75rem",
+            textDecoration: "underline",
+            padding: 0,
+            minHeight: "unset",
+          }}
+        >
+          {showLibrary ? "Hide media library" : "Media library"}
+        </button>
+      </div>
+      {showLibrary && (
+        <MediaLibrary
+          onSelect={onFileUploaded}
+          disabled={disabled}
+          isMobile={isMobile}
+        />
+      )}
+
       {/* Uploaded Files */}
       {uploadedFiles.length > 0 && (
         <div style={{ marginBottom: isMobile ? "0.5rem" : "1rem" }}>
@@ -617,6 +697,28 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
                         ✓ Uploaded
                       </div>
                     )}
+
+                  {uploadedFile.mirrors?.map((mirror) => (
+                    <div
+                      key={mirror.server}
+                      style={{
+                        fontSize: "0.75rem",
+                        color:
+                          mirror.status === "failed"
+                            ? "var(--error-color)"
+                            : mirror.status === "mirrored"
+                              ? "var(--success-color)"
+                              : "var(--text-color-secondary)",
+                      }}
+                      title={mirror.error}
+                    >
+                      {mirror.status === "pending"
+                        ? `Mirroring to ${serverLabel(mirror.server)}...`
+                        : mirror.status === "mirrored"
+                          ? `✓ Mirrored to ${serverLabel(mirror.server)}`
+                          : `✗ ${serverLabel(mirror.server)}: ${mirror.error}`}
+                    </div>
+                  ))}
                 </div>
 
                 {/* Remove Button */}
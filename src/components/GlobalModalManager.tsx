@@ -13,6 +13,7 @@ import {
 import ReplyModal from "./ReplyModal";
 import RepostModal from "./RepostModal";
 import ZapModal from "./ZapModal";
+import RelayAuthPrompt from "./RelayAuthPrompt";
 import { useUserZaps } from "../hooks/useUserZaps";
 import { CACHE_KEYS } from "../utils/cacheKeys";
 
@@ -118,6 +119,9 @@ const GlobalModalManager: React.FC<GlobalModalManagerProps> = ({
           }}
         />
       )}
+
+      {/* Relay AUTH (NIP-42) prompt for relays set to "ask" */}
+      <RelayAuthPrompt />
     </>
   );
 };
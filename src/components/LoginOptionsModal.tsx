@@ -3,6 +3,7 @@ import { NostrContext } from "../contexts/NostrContext";
 import { useUserContactsContext } from "../contexts/UserContactsContext";
 import { hasNip07 } from "../utils/nostr/nip07";
 import LoadingSpinner from "./ui/LoadingSpinner";
+import RemoteSignerLogin from "./RemoteSignerLogin";
 
 interface LoginOptionsModalProps {
   isOpen: boolean;
@@ -25,6 +26,7 @@ const LoginOptionsModal: React.FC<LoginOptionsModalProps> = ({
   const [hasSavedAccounts, setHasSavedAccounts] = React.useState(false);
   const [isLoading, setIsLoading] = React.useState(false);
   const [loadingStep, setLoadingStep] = React.useState<string>("");
+  const [showRemoteSigner, setShowRemoteSigner] = React.useState(false);
 
   // Check for saved accounts on mount
   React.useEffect(() => {
@@ -35,6 +37,55 @@ const LoginOptionsModal: React.FC<LoginOptionsModalProps> = ({
     }
   }, [isOpen, listSavedAccounts]);
 
+  // After login, wait for contacts to load so Following is ready
+  const finishLogin = async () => {
+    setLoadingStep("Fetching contacts...");
+    try {
+      const start = Date.now();
+      const timeoutMs = 12000; // 12s max wait
+      // Repeatedly prompt refetch while waiting
+      try {
+        contactsCtx.refetch();
+      } catch {}
+      while (Date.now() - start < timeoutMs) {
+        const hasContacts =
+          Array.isArray(contactsCtx.contacts) &&
+          contactsCtx.contacts.length > 0;
+        if (hasContacts) break;
+        setLoadingStep("Fetching contacts...");
+        await new Promise((r) => setTimeout(r, 300));
+        try {
+          contactsCtx.refetch();
+        } catch {}
+      }
+    } catch {}
+
+    console.log("🔄 LoginOptionsModal: Calling onSuccess...");
+    setLoadingStep("Finalizing login...");
+    // Only call onSuccess - it will handle closing the modal
+    onSuccess();
+    console.log("🔄 LoginOptionsModal: onSuccess called");
+  };
+
+  const handleRemoteSignerConnecting = (step: string) => {
+    setIsLoading(true);
+    setLoadingStep(step);
+  };
+
+  const handleRemoteSignerConnected = async () => {
+    try {
+      await finishLogin();
+    } finally {
+      setIsLoading(false);
+      setLoadingStep("");
+    }
+  };
+
+  const handleRemoteSignerError = () => {
+    setIsLoading(false);
+    setLoadingStep("");
+  };
+
   const handleNip07SignIn = async () => {
     if (!hasNip07()) return;
 
@@ -50,33 +101,7 @@ const LoginOptionsModal: React.FC<LoginOptionsModalProps> = ({
         "🔄 LoginOptionsModal: signInWithNip07 completed successfully"
       );
 
-      // After login, wait for contacts to load so Following is ready
-      setLoadingStep("Fetching contacts...");
-      try {
-        const start = Date.now();
-        const timeoutMs = 12000; // 12s max wait
-        // Repeatedly prompt refetch while waiting
-        try {
-          contactsCtx.refetch();
-        } catch {}
-        while (Date.now() - start < timeoutMs) {
-          const hasContacts =
-            Array.isArray(contactsCtx.contacts) &&
-            contactsCtx.contacts.length > 0;
-          if (hasContacts) break;
-          setLoadingStep("Fetching contacts...");
-          await new Promise((r) => setTimeout(r, 300));
-          try {
-            contactsCtx.refetch();
-          } catch {}
-        }
-      } catch {}
-
-      console.log("🔄 LoginOptionsModal: Calling onSuccess...");
-      setLoadingStep("Finalizing login...");
-      // Only call onSuccess - it will handle closing the modal
-      onSuccess();
-      console.log("🔄 LoginOptionsModal: onSuccess called");
+      await finishLogin();
     } catch (error) {
       console.error("NIP-07 sign in failed:", error);
     } finally {
@@ -177,6 +202,11 @@ const LoginOptionsModal: React.FC<LoginOptionsModalProps> = ({
           <br />
           <strong>Nsec Secret Key:</strong> Enter your private key directly
           (stored locally in your browser).
+          <br />
+          <br />
+          <strong>Remote Signer (NIP-46):</strong> Keep your key in a signer
+          app or bunker and approve requests from there. Works where
+          extensions don't, such as iOS home screen apps.
         </p>
 
         {isLoading && (
@@ -295,6 +325,40 @@ const LoginOptionsModal: React.FC<LoginOptionsModalProps> = ({
           >
             Nsec Secret Key
           </button>
+
+          <button
+            onClick={() => setShowRemoteSigner((v) => !v)}
+            disabled={isLoading}
+            style={{
+              backgroundColor: "transparent",
+              border: "1px dotted var(--border-color)",
+              color: "var(--text-color)",
+              padding: "0.75rem",
+              cursor: "pointer",
+              fontSize: "var(--font-size-sm)",
+              textAlign: "left",
+              opacity: isLoading ? 0.6 : 1,
+            }}
+            onMouseEnter={(e) => {
+              if (!isLoading) {
+                e.currentTarget.style.backgroundColor = "var(--hover-bg)";
+              }
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = "transparent";
+            }}
+          >
+            Remote Signer (NIP-46)
+          </button>
+
+          {showRemoteSigner && (
+            <RemoteSignerLogin
+              disabled={isLoading}
+              onConnecting={handleRemoteSignerConnecting}
+              onConnected={handleRemoteSignerConnected}
+              onError={handleRemoteSignerError}
+            />
+          )}
         </div>
 
         <div
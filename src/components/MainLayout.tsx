@@ -11,6 +11,9 @@ import type { Metadata } from "../types/nostr/types";
 
 import { NostrContext } from "../contexts/NostrContext";
 import { useRelayManager } from "../hooks/useRelayManager";
+import { useBookmarkSync } from "../hooks/useBookmarkSync";
+import { startPublishQueue } from "../utils/nostr/publishQueue";
+import { loadRecordedDeletions } from "../utils/nostr/queryInvalidation";
 import { useCurrentUserMetadata } from "../hooks/useMetadataQuery";
 import { DEFAULT_RELAY_URLS } from "../utils/nostr/constants";
 
@@ -94,6 +97,7 @@ const MainLayout: React.FC = () => {
   const {
     relayStatuses,
     relayUrls,
+    relayPermissions,
     addRelay,
     removeRelay,
     cycleRelayPermission,
@@ -111,6 +115,20 @@ const MainLayout: React.FC = () => {
     relayUrls: ctxPubkey ? relayUrls : [],
   });
 
+  // Deletions recorded in earlier sessions stay hidden
+  useEffect(() => {
+    void loadRecordedDeletions();
+  }, []);
+
+  // Background publisher for scheduled and retried posts
+  useEffect(() => {
+    if (!nostrClient) return;
+    return startPublishQueue(() => nostrClient);
+  }, [nostrClient]);
+
+  // Keep local bookmarks in sync with the NIP-51 bookmark list
+  useBookmarkSync(ctxPubkey ? relayUrls : [], relayPermissions, { auto: true });
+
   // Preload metadata for all following contacts to show in mention suggestions
   const { addDisplayNamesFromMetadata } = useDisplayNames(relayUrls);
   useFollowingMetadataPreload({
@@ -265,6 +283,7 @@ const MainLayout: React.FC = () => {
         "showReplies",
         "showReposts",
         "nsfwBlock",
+        "nsfwMode",
         "customHashtags",
         "currentIndex",
         "showProfileMeta",
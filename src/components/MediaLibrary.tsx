@@ -0,0 +1,268 @@
+import React, { useContext, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { NostrContext } from "../contexts/NostrContext";
+import { useUIStore } from "./lib/useUIStore";
+import { CACHE_KEYS } from "../utils/cacheKeys";
+import ConfirmDeleteModal from "./ui/ConfirmDeleteModal";
+import {
+  blobToFileTags,
+  deleteBlob,
+  listBlobs,
+  type BlobDescriptor,
+} from "../utils/nostr/blossom";
+
+interface MediaLibraryProps {
+  // Receives the same NIP-94 tags as a fresh upload
+  onSelect: (tags: string[][]) => void;
+  disabled?: boolean;
+  isMobile?: boolean;
+}
+
+const serverLabel = (server: string): string => {
+  try {
+    return new URL(server).host;
+  } catch {
+    return server;
+  }
+};
+
+// File name as the server serves it, e.g. "<sha256>.png", shortened
+const blobLabel = (blob: BlobDescriptor): string => {
+  const name = blob.url.split("/").pop() || blob.sha256;
+  return name.length > 20 ? `${name.slice(0, 8)}…${name.slice(-8)}` : name;
+};
+
+const formatSize = (bytes: number): string =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)}MB`
+    : `${Math.max(1, Math.round(bytes / 1024))}KB`;
+
+const linkButtonStyle: React.CSSProperties = {
+  background: "none",
+  border: "none",
+  color: "var(--accent-color)",
+  cursor: "pointer",
+  fontSize: "0.75rem",
+  padding: "0.25rem",
+  minHeight: "unset",
+};
+
+/**
+ * Blobs we have stored on each configured Blossom server (BUD-02 list).
+ * Past uploads can be inserted into the note being written or deleted from
+ * a server.
+ */
+export const MediaLibrary: React.FC<MediaLibraryProps> = ({
+  onSelect,
+  disabled = false,
+  isMobile = false,
+}) => {
+  const { pubkey } = useContext(NostrContext);
+  const queryClient = useQueryClient();
+  const blossomServerUrls = useUIStore((s) => s.blossomServerUrls) || [
+    "https://blossom.primal.net/",
+  ];
+  const primaryBlossomServerUrl =
+    useUIStore((s) => s.primaryBlossomServerUrl) ||
+    "https://blossom.primal.net/";
+
+  const [selectedServer, setSelectedServer] = useState(
+    blossomServerUrls.includes(primaryBlossomServerUrl)
+      ? primaryBlossomServerUrl
+      : blossomServerUrls[0]
+  );
+  const [deleting, setDeleting] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<BlobDescriptor | null>(
+    null
+  );
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const {
+    data: blobs = [],
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: CACHE_KEYS.BLOSSOM_BLOBS(selectedServer || "", pubkey || ""),
+    enabled: Boolean(selectedServer && pubkey),
+    queryFn: () => listBlobs(selectedServer, pubkey as string),
+    staleTime: 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+    retry: false,
+  });
+
+  const handleDelete = async (blob: BlobDescriptor) => {
+    setActionError(null);
+    setDeleting(blob.sha256);
+    try {
+      await deleteBlob(selectedServer, blob.sha256);
+      queryClient.setQueryData<BlobDescriptor[]>(
+        CACHE_KEYS.BLOSSOM_BLOBS(selectedServer, pubkey || ""),
+        (prev) => (prev || []).filter((b) => b.sha256 !== blob.sha256)
+      );
+    } catch (err) {
+      console.error("Failed to delete blob:", err);
+      setActionError(
+        err instanceof Error ? `Delete failed: ${err.message}` : "Delete failed"
+      );
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  if (!pubkey) return null;
+
+  return (
+    <div
+      style={{
+        border: "1px solid var(--border-color)",
+        padding: "0.5rem",
+        marginBottom: isMobile ? "0.5rem" : "1rem",
+        textAlign: "left",
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          gap: "0.25rem",
+          marginBottom: "0.5rem",
+        }}
+      >
+        {blossomServerUrls.map((server) => {
+          const selected = server === selectedServer;
+          return (
+            <button
+              key={server}
+              type="button"
+              onClick={() => {
+                setActionError(null);
+                setSelectedServer(server);
+              }}
+              style={{
+                background: "none",
+                border: `1px ${selected ? "solid" : "dotted"} var(--border-color)`,
+                color: "var(--text-color)",
+                fontWeight: selected ? 700 : 400,
+                cursor: "pointer",
+                fontSize: "0.75rem",
+                padding: "0.125rem 0.5rem",
+                minHeight: "unset",
+              }}
+            >
+              {serverLabel(server)}
+            </button>
+          );
+        })}
+      </div>
+
+      {isLoading && (
+        <div style={{ fontSize: "0.75rem", color: "var(--text-color-muted)" }}>
+          Loading files...
+        </div>
+      )}
+      {error && (
+        <div style={{ fontSize: "0.75rem", color: "var(--error-color)" }}>
+          Could not list files:{" "}
+          {error instanceof Error ? error.message : String(error)}
+        </div>
+      )}
+      {actionError && (
+        <div style={{ fontSize: "0.75rem", color: "var(--error-color)" }}>
+          {actionError}
+        </div>
+      )}
+      {!isLoading && !error && blobs.length === 0 && (
+        <div style={{ fontSize: "0.75rem", color: "var(--text-color-muted)" }}>
+          No files on this server yet
+        </div>
+      )}
+
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          gap: "0.25rem",
+          maxHeight: "16rem",
+          overflowY: "auto",
+        }}
+      >
+        {blobs.map((blob) => (
+          <div
+            key={blob.sha256}
+            style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}
+          >
+            <div
+              style={{
+                width: "40px",
+                height: "40px",
+                flexShrink: 0,
+                overflow: "hidden",
+                backgroundColor: "var(--background-color-secondary)",
+              }}
+            >
+              {blob.type?.startsWith("image/") && (
+                <img
+                  src={blob.url}
+                  alt=""
+                  loading="lazy"
+                  style={{ width: "100%", height: "100%", objectFit: "cover" }}
+                />
+              )}
+            </div>
+            <div style={{ flex: 1, minWidth: 0, fontSize: "0.75rem" }}>
+              <div
+                style={{
+                  overflow: "hidden",
+                  textOverflow: "ellipsis",
+                  whiteSpace: "nowrap",
+                }}
+              >
+                {blob.url}
+              </div>
+              <div style={{ color: "var(--text-color-secondary)" }}>
+                {[
+                  blob.type,
+                  blob.size > 0 ? formatSize(blob.size) : null,
+                  blob.uploaded > 0
+                    ? new Date(blob.uploaded * 1000).toLocaleDateString()
+                    : null,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={() => onSelect(blobToFileTags(blob))}
+              disabled={disabled}
+              style={linkButtonStyle}
+            >
+              INSERT
+            </button>
+            <button
+              type="button"
+              onClick={() => setPendingDelete(blob)}
+              disabled={deleting === blob.sha256}
+              style={{ ...linkButtonStyle, color: "var(--error-color, #ff4444)" }}
+            >
+              {deleting === blob.sha256 ? "..." : "DELETE"}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {pendingDelete && (
+        <ConfirmDeleteModal
+          isOpen
+          onClose={() => setPendingDelete(null)}
+          onConfirm={() => void handleDelete(pendingDelete)}
+          itemName={blobLabel(pendingDelete)}
+          itemType={`file from ${serverLabel(selectedServer)}`}
+          isMobile={isMobile}
+        />
+      )}
+    </div>
+  );
+};
+
+export default MediaLibrary;
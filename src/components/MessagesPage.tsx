@@ -0,0 +1,492 @@
+import React, { useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import { useLocation, useNavigate, useSearch } from "@tanstack/react-router";
+import { nip19 } from "nostr-tools";
+import { NostrContext } from "../contexts/NostrContext";
+import { useRelayManager } from "../hooks/useRelayManager";
+import { useDisplayNames } from "../hooks/useDisplayNames";
+import { useDirectMessages } from "../hooks/useDirectMessages";
+import { convertPubkeyToHex } from "../utils/nostr/pubkeyUtils";
+import { formatRelativeTime } from "../utils/nostr/utils";
+import { navigateHome } from "../utils/modalUrlState";
+import { useUIStore } from "./lib/useUIStore";
+import LoadingTextPlaceholder from "./ui/LoadingTextPlaceholder";
+import { SettingsButton } from "./settings/SettingsButton";
+
+const toNpub = (hex: string): string => {
+  try {
+    return nip19.npubEncode(hex);
+  } catch {
+    return hex;
+  }
+};
+
+const MessagesPage: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const uiIsDarkMode = useUIStore((s) => s.isDarkMode);
+  const { peer: peerParam = "" } = useSearch({ strict: false }) as { peer?: string };
+  const { pubkey, nostrClient, loginMethod } = useContext(NostrContext);
+  const { relayUrls } = useRelayManager({
+    nostrClient,
+    initialRelays: [],
+    pubkeyHex: pubkey,
+  });
+  const { getDisplayNameForPubkey, fetchDisplayNames } = useDisplayNames(relayUrls);
+  const {
+    conversations,
+    isLoading,
+    error,
+    refetch,
+    getConversation,
+    sendMessage,
+    isSending,
+    sendError,
+  } = useDirectMessages(relayUrls);
+
+  const [draft, setDraft] = useState("");
+  const [newPeerInput, setNewPeerInput] = useState("");
+  const [newPeerError, setNewPeerError] = useState<string | null>(null);
+  const threadEndRef = useRef<HTMLDivElement>(null);
+
+  const isMobileLayout = window.innerWidth <= 768;
+  const headerTextColor = uiIsDarkMode ? "var(--text-color)" : "var(--ibm-cream)";
+  const headerBackgroundColor = uiIsDarkMode ? "var(--app-bg-color)" : "var(--ibm-burgundy)";
+
+  const peerHex = useMemo(() => {
+    const hex = convertPubkeyToHex(peerParam);
+    return hex && /^[0-9a-f]{64}$/.test(hex) ? hex : null;
+  }, [peerParam]);
+
+  const activeConversation = peerHex ? getConversation(peerHex) : undefined;
+  const activeMessages = useMemo(
+    () => activeConversation?.messages ?? [],
+    [activeConversation]
+  );
+
+  // Resolve display names for everyone we're talking to
+  useEffect(() => {
+    const peers = conversations.map((c) => c.peer);
+    if (peerHex) peers.push(peerHex);
+    if (peers.length > 0) fetchDisplayNames(peers);
+  }, [conversations, peerHex, fetchDisplayNames]);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    threadEndRef.current?.scrollIntoView({ block: "end" });
+  }, [activeMessages.length, peerHex]);
+
+  const openConversation = useCallback(
+    (peer: string) => {
+      navigate({ to: "/messages", search: { peer: toNpub(peer) } });
+    },
+    [navigate]
+  );
+
+  const handleStartConversation = useCallback(() => {
+    const hex = convertPubkeyToHex(newPeerInput.trim());
+    if (!hex || !/^[0-9a-f]{64}$/.test(hex)) {
+      setNewPeerError("Enter a valid npub or hex public key");
+      return;
+    }
+    setNewPeerError(null);
+    setNewPeerInput("");
+    openConversation(hex);
+  }, [newPeerInput, openConversation]);
+
+  const handleSend = useCallback(async () => {
+    if (!peerHex || !draft.trim() || isSending) return;
+    const lastIncoming = [...activeMessages].reverse().find((m) => m.sender === peerHex);
+    try {
+      await sendMessage(peerHex, draft.trim(), lastIncoming?.id);
+      setDraft("");
+    } catch (err) {
+      console.error("Failed to send direct message:", err);
+    }
+  }, [peerHex, draft, isSending, activeMessages, sendMessage]);
+
+  const header = (
+    <div
+      style={{
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "flex-start",
+        width: "100%",
+        position: "relative",
+        backgroundColor: headerBackgroundColor,
+        padding: "0.5rem",
+        minHeight: "2.5rem",
+      }}
+    >
+      <div
+        style={{
+          cursor: "pointer",
+          color: headerTextColor,
+          fontSize: "0.875rem",
+          textTransform: "uppercase",
+          letterSpacing: "0.1em",
+          display: "inline-block",
+          minWidth: "50px",
+          minHeight: "10px",
+          marginLeft: "0.5rem",
+        }}
+        onClick={() =>
+          peerHex
+            ? navigate({ to: "/messages", search: { peer: "" } })
+            : navigateHome(navigate, location)
+        }
+      >
+        <span>{peerHex ? "< Messages" : "< Feed"}</span>
+      </div>
+
+      <div
+        style={{
+          position: "absolute",
+          left: "50%",
+          transform: "translateX(-50%)",
+          color: headerTextColor,
+          fontSize: "0.875rem",
+          textTransform: "uppercase",
+          letterSpacing: "0.1em",
+          maxWidth: isMobileLayout ? "50vw" : undefined,
+          whiteSpace: "nowrap",
+          overflow: "hidden",
+          textOverflow: "ellipsis",
+        }}
+      >
+        {peerHex ? getDisplayNameForPubkey(peerHex) : "Messages"}
+      </div>
+    </div>
+  );
+
+  if (!pubkey) {
+    return (
+      <div
+        style={{
+          padding: isMobileLayout ? "2rem 0.5rem" : "2rem",
+          maxWidth: "1000px",
+          margin: "0 auto",
+          textAlign: "left",
+          color: "var(--text-color)",
+          backgroundColor: "var(--bg-color)",
+          minHeight: "100vh",
+        }}
+      >
+        <h2 style={{ marginBottom: "1rem" }}>Login Required</h2>
+        <p style={{ color: "var(--app-text-secondary)" }}>
+          Please log in with your nsec or NIP-07 extension to read your
+          messages.
+        </p>
+      </div>
+    );
+  }
+
+  const canDecrypt = loginMethod === "nip07" || loginMethod === "nsec" || loginMethod === "nip46";
+
+  return (
+    <div
+      className="messages-page"
+      style={{
+        width: "100%",
+        height: "100%",
+        flex: 1,
+        display: "flex",
+        flexDirection: "column",
+        backgroundColor: "var(--app-bg-color)",
+        overflow: "hidden",
+      }}
+    >
+      <div
+        style={{
+          width: "100%",
+          maxWidth: isMobileLayout ? "100%" : "1000px",
+          margin: isMobileLayout ? "0" : "0 auto",
+          display: "flex",
+          flexDirection: "column",
+          flex: 1,
+          overflow: "hidden",
+        }}
+      >
+        {header}
+
+        {!canDecrypt ? (
+          <div
+            style={{
+              padding: "2rem 1rem",
+              color: "var(--text-muted)",
+              fontSize: "var(--font-size-sm)",
+              textAlign: "start",
+            }}
+          >
+            Direct messages are end-to-end encrypted. Sign in with your nsec, a
+            NIP-07 extension or a remote signer to read and send them.
+          </div>
+        ) : peerHex ? (
+          /* Per-peer thread */
+          <>
+            <div
+              style={{
+                flex: 1,
+                overflowY: "auto",
+                overflowX: "hidden",
+                padding: "1rem",
+                display: "flex",
+                flexDirection: "column",
+                gap: "0.5rem",
+              }}
+            >
+              {isLoading && activeMessages.length === 0 ? (
+                <LoadingTextPlaceholder type="custom" customLength={24} />
+              ) : activeMessages.length === 0 ? (
+                <div
+                  style={{
+                    color: "var(--text-muted)",
+                    fontSize: "var(--font-size-sm)",
+                    textAlign: "center",
+                    padding: "2rem 0",
+                  }}
+                >
+                  No messages yet. Say hello.
+                </div>
+              ) : (
+                activeMessages.map((message) => {
+                  const mine = message.sender === pubkey;
+                  return (
+                    <div
+                      key={message.id}
+                      style={{
+                        alignSelf: mine ? "flex-end" : "flex-start",
+                        maxWidth: isMobileLayout ? "85%" : "70%",
+                        padding: "0.5rem 0.75rem",
+                        border: "1px solid var(--border-color)",
+                        backgroundColor: mine
+                          ? "var(--app-secondary-bg-color)"
+                          : "var(--app-bg-color)",
+                        color: "var(--text-color)",
+                        fontSize: "var(--font-size-sm)",
+                        textAlign: "start",
+                        whiteSpace: "pre-wrap",
+                        wordBreak: "break-word",
+                      }}
+                    >
+                      <div>{message.content}</div>
+                      <div
+                        style={{
+                          marginTop: "0.25rem",
+                          fontSize: "var(--font-size-xs)",
+                          color: "var(--text-muted)",
+                          textAlign: mine ? "end" : "start",
+                        }}
+                      >
+                        {formatRelativeTime(message.created_at)}
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+              <div ref={threadEndRef} />
+            </div>
+
+            {/* Composer */}
+            <div
+              style={{
+                borderTop: "1px solid var(--border-color)",
+                padding: "0.5rem",
+                display: "flex",
+                flexDirection: "column",
+                gap: "0.5rem",
+              }}
+            >
+              {sendError && (
+                <div style={{ color: "var(--btn-accent)", fontSize: "var(--font-size-xs)", textAlign: "start" }}>
+                  {sendError}
+                </div>
+              )}
+              <div style={{ display: "flex", gap: "0.5rem", alignItems: "flex-end" }}>
+                <textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+                      e.preventDefault();
+                      handleSend();
+                    }
+                  }}
+                  placeholder="Write an encrypted message..."
+                  rows={isMobileLayout ? 2 : 3}
+                  disabled={isSending}
+                  style={{
+                    flex: 1,
+                    resize: "none",
+                    backgroundColor: "var(--app-bg-color)",
+                    color: "var(--text-color)",
+                    border: "1px dotted var(--border-color)",
+                    padding: "0.5rem",
+                    fontSize: "var(--font-size-sm)",
+                    fontFamily: "inherit",
+                  }}
+                />
+                <SettingsButton
+                  onClick={handleSend}
+                  disabled={isSending || draft.trim().length === 0}
+                  style={{ width: "auto", padding: "0.5rem 1rem" }}
+                >
+                  {isSending ? "Sending..." : "Send"}
+                </SettingsButton>
+              </div>
+            </div>
+          </>
+        ) : (
+          /* Conversation list */
+          <div
+            style={{
+              flex: 1,
+              overflowY: "auto",
+              overflowX: "hidden",
+              display: "flex",
+              flexDirection: "column",
+            }}
+          >
+            <div
+              style={{
+                display: "flex",
+                gap: "0.5rem",
+                padding: "0.75rem",
+                borderBottom: "1px solid var(--border-color)",
+                alignItems: "center",
+              }}
+            >
+              <input
+                type="text"
+                value={newPeerInput}
+                onChange={(e) => {
+                  setNewPeerInput(e.target.value);
+                  setNewPeerError(null);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleStartConversation();
+                }}
+                placeholder="npub or hex pubkey"
+                style={{
+                  flex: 1,
+                  minWidth: 0,
+                  backgroundColor: "var(--app-bg-color)",
+                  color: "var(--text-color)",
+                  border: "1px dotted var(--border-color)",
+                  padding: "0.4rem 0.5rem",
+                  fontSize: "var(--font-size-sm)",
+                }}
+              />
+              <SettingsButton
+                onClick={handleStartConversation}
+                disabled={newPeerInput.trim().length === 0}
+                style={{ width: "auto", padding: "0.4rem 0.75rem" }}
+              >
+                New
+              </SettingsButton>
+              <SettingsButton
+                onClick={() => refetch()}
+                style={{ width: "auto", padding: "0.4rem 0.75rem" }}
+              >
+                Refresh
+              </SettingsButton>
+            </div>
+            {newPeerError && (
+              <div
+                style={{
+                  color: "var(--btn-accent)",
+                  fontSize: "var(--font-size-xs)",
+                  padding: "0.25rem 0.75rem",
+                  textAlign: "start",
+                }}
+              >
+                {newPeerError}
+              </div>
+            )}
+
+            {error && (
+              <div
+                style={{
+                  color: "var(--btn-accent)",
+                  fontSize: "var(--font-size-sm)",
+                  padding: "1rem",
+                  textAlign: "start",
+                }}
+              >
+                {error}
+              </div>
+            )}
+
+            {isLoading ? (
+              <div style={{ padding: "1rem" }}>
+                <LoadingTextPlaceholder type="custom" customLength={32} />
+              </div>
+            ) : conversations.length === 0 ? (
+              <div
+                style={{
+                  textAlign: "center",
+                  padding: "3rem 1rem",
+                  color: "var(--text-muted)",
+                  fontSize: "var(--font-size-sm)",
+                }}
+              >
+                <p style={{ marginBottom: "0.5rem" }}>No conversations yet</p>
+                <p style={{ fontSize: "0.85em", opacity: 0.7 }}>
+                  Paste an npub above to start an encrypted conversation
+                </p>
+              </div>
+            ) : (
+              conversations.map((conversation) => {
+                const last = conversation.messages[conversation.messages.length - 1];
+                return (
+                  <div
+                    key={conversation.peer}
+                    onClick={() => openConversation(conversation.peer)}
+                    style={{
+                      padding: "0.75rem 1rem",
+                      borderBottom: "1px solid var(--border-color)",
+                      cursor: "pointer",
+                      display: "flex",
+                      flexDirection: "column",
+                      gap: "0.25rem",
+                      textAlign: "start",
+                    }}
+                  >
+                    <div
+                      style={{
+                        display: "flex",
+                        justifyContent: "space-between",
+                        fontSize: "var(--font-size-sm)",
+                        color: "var(--text-color)",
+                      }}
+                    >
+                      <span>{getDisplayNameForPubkey(conversation.peer)}</span>
+                      <span style={{ color: "var(--text-muted)", fontSize: "var(--font-size-xs)" }}>
+                        {formatRelativeTime(conversation.lastMessageAt)}
+                      </span>
+                    </div>
+                    {last && (
+                      <div
+                        style={{
+                          fontSize: "var(--font-size-xs)",
+                          color: "var(--text-muted)",
+                          whiteSpace: "nowrap",
+                          overflow: "hidden",
+                          textOverflow: "ellipsis",
+                        }}
+                      >
+                        {last.sender === pubkey ? "You: " : ""}
+                        {last.content}
+                      </div>
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MessagesPage;
@@ -1,11 +1,7 @@
 import React, { useState, useCallback, useContext } from "react";
 import { NostrContext } from "../contexts/NostrContext";
 import { hasNip07, hasInMemorySecretKey } from "../utils/nostr/nip07";
-import {
-  publishMuteList,
-  publishUnmuteList,
-  fetchUserMuteList,
-} from "../utils/nostr/publish";
+import { useMuteList } from "../hooks/useMuteList";
 import type { Metadata, RelayPermission } from "../types/nostr/types";
 
 interface MuteConfirmationModalProps {
@@ -38,6 +34,7 @@ const MuteConfirmationModal: React.FC<MuteConfirmationModalProps> = ({
   const { nostrClient, pubkey, loginMethod } = useContext(NostrContext);
   const [isMuting, setIsMuting] = useState(false);
   const [error, setError] = useState<string>("");
+  const { addMute, removeMute } = useMuteList(relayUrls, relayPermissions);
 
   const canSign = hasNip07() || hasInMemorySecretKey();
   const isNsecSession = loginMethod === "nsec";
@@ -68,29 +65,12 @@ const MuteConfirmationModal: React.FC<MuteConfirmationModalProps> = ({
         onActionConfirmed(!isCurrentlyMuted);
       }
 
+      // Rewrites the whole kind 10000 list, keeping words, hashtags,
+      // threads and private entries intact
       if (isCurrentlyMuted) {
-        // Unmute the user
-        const currentMuteList = await fetchUserMuteList({
-          pool: nostrClient,
-          relayUrls,
-          userPubkey: pubkey,
-        });
-
-        await publishUnmuteList({
-          pool: nostrClient,
-          relayUrls,
-          relayPermissions,
-          pubkeyToUnmute: pubkeyToMute,
-          existingMutedPubkeys: currentMuteList,
-        });
+        await removeMute(["p", pubkeyToMute]);
       } else {
-        // Mute the user
-        await publishMuteList({
-          pool: nostrClient,
-          relayUrls,
-          relayPermissions,
-          pubkeyToMute,
-        });
+        await addMute(["p", pubkeyToMute]);
       }
 
       onClose();
@@ -117,8 +97,8 @@ const MuteConfirmationModal: React.FC<MuteConfirmationModalProps> = ({
     canSign,
     isNsecSession,
     isUnlocked,
-    relayUrls,
-    relayPermissions,
+    addMute,
+    removeMute,
     pubkeyToMute,
     onClose,
     onShowUnlockKey,
@@ -23,7 +23,17 @@ import { useOutboxRelayManager } from "../hooks/useOutboxRelayManager";
 // import { DEFAULT_RELAY_URLS } from "../utils/nostr/constants";
 
 // Relay selector constant
-import { FOLLOWING_RELAY_OPTION } from "./feed/RelaySelector";
+import {
+  FOLLOWING_RELAY_OPTION,
+  LIST_RELAY_OPTION_PREFIX,
+  type FollowSetOption,
+} from "./feed/RelaySelector";
+import { useNostrLists } from "../hooks/useNostrLists";
+import {
+  getListAddress,
+  getListPubkeys,
+  getListTitle,
+} from "../utils/nostr/lists";
 
 // Legacy hooks for UI state and functionality
 import { useNostrFeedSetup } from "../hooks/useNostrFeedSetup";
@@ -235,6 +245,7 @@ const NostrifyFeedMigration: React.FC = () => {
     userContacts,
     contactsLoading,
     mutedPubkeys,
+    muteFilter,
     relayStatuses,
     // isRelayConfigStable, // Property doesn't exist on setup
   } = setup;
@@ -292,6 +303,13 @@ const NostrifyFeedMigration: React.FC = () => {
     }
   }, [userContacts, normalizeContactsToPubkeys]);
 
+  // Follows (and ourselves) bypass the minimum proof-of-work filter
+  const minPowBits = useUIStore((s) => s.minPowBits ?? 0);
+  const powExemptPubkeys = useMemo(() => {
+    const follows = normalizeContactsToPubkeys(userContacts);
+    return ctxPubkey ? [...follows, ctxPubkey] : follows;
+  }, [userContacts, normalizeContactsToPubkeys, ctxPubkey]);
+
   // Filter out indexer relays for display in RelaySelector - only show read and read/write relays
   const displayRelayUrls = useMemo(() => {
     return nostrifyRelayUrls.filter((url) => {
@@ -321,6 +339,29 @@ const NostrifyFeedMigration: React.FC = () => {
   // Check if "following" relay option is selected
   const isFollowingMode = selectedRelay === FOLLOWING_RELAY_OPTION;
 
+  // NIP-51 follow sets as an alternative author source
+  const { followSets, getListByAddress } = useNostrLists(
+    displayRelayUrls,
+    relayPermissions
+  );
+  const followSetOptions = useMemo<FollowSetOption[]>(
+    () =>
+      followSets.map((list) => ({
+        address: getListAddress(list),
+        title: getListTitle(list),
+        count: getListPubkeys(list).length,
+      })),
+    [followSets]
+  );
+  const isListMode = Boolean(selectedRelay?.startsWith(LIST_RELAY_OPTION_PREFIX));
+  const selectedListAuthors = useMemo(() => {
+    if (!isListMode) return [];
+    const list = getListByAddress(selectedRelay.slice(LIST_RELAY_OPTION_PREFIX.length));
+    return list ? getListPubkeys(list) : [];
+  }, [isListMode, selectedRelay, getListByAddress]);
+  // Author-based modes query the regular relays rather than a single relay
+  const isAuthorMode = isFollowingMode || isListMode;
+
   // Build feed filter for Nostrify
   const feedFilter = useMemo(() => {
     const baseFilter: any = {
@@ -333,6 +374,14 @@ const NostrifyFeedMigration: React.FC = () => {
       baseFilter["#t"] = uiCustomHashtags;
     }
 
+    // When a follow set is selected, its members are the authors
+    if (isListMode && selectedListAuthors.length > 0) {
+      return {
+        ...baseFilter,
+        authors: selectedListAuthors,
+      };
+    }
+
     // When following mode is active, filter by authors
     if (isFollowingMode) {
       // Prefer fresh contacts; fall back to sticky cache if a transient refetch produced []
@@ -361,6 +410,8 @@ const NostrifyFeedMigration: React.FC = () => {
     return baseFilter;
   }, [
     isFollowingMode,
+    isListMode,
+    selectedListAuthors,
     userContacts,
     uiCustomHashtags,
     uiLongFormMode,
@@ -452,6 +503,10 @@ const NostrifyFeedMigration: React.FC = () => {
   // For following mode, wait for contacts to actually load before enabling feed
   // Outbox discovery can happen in the background - we'll use regular relays initially
   const shouldEnableFeed = useMemo(() => {
+    // A follow set feed waits for the list to load so it never falls back to global
+    if (isListMode) {
+      return selectedListAuthors.length > 0;
+    }
     if (!isFollowingMode) {
       return true; // Non-following modes always enabled
     }
@@ -490,6 +545,8 @@ const NostrifyFeedMigration: React.FC = () => {
     return true;
   }, [
     isFollowingMode,
+    isListMode,
+    selectedListAuthors.length,
     ctxPubkey,
     userContacts,
     contactsLoading,
@@ -521,7 +578,7 @@ const NostrifyFeedMigration: React.FC = () => {
   } = useNostrifyFeed({
     // When in following mode, query ONLY regular relays (no outbox union)
     // When a specific relay is selected, use only that relay
-    relayUrls: isFollowingMode
+    relayUrls: isAuthorMode
       ? displayRelayUrls
       : selectedRelay
         ? [selectedRelay] // Use selected relay as single-item array
@@ -529,7 +586,7 @@ const NostrifyFeedMigration: React.FC = () => {
     filter: feedFilter,
     enabled: shouldEnableFeed,
     // Unified page size across devices
-    pageSize: isFollowingMode ? 30 : 20,
+    pageSize: isAuthorMode ? 30 : 20,
     // Let TanStack Virtual handle memory management - it only renders visible items
     // Manual page pruning causes jittering when pages get removed from the data array
     maxPagesInMemory: undefined, // No limit - Virtual handles this efficiently
@@ -537,7 +594,10 @@ const NostrifyFeedMigration: React.FC = () => {
     showReposts: uiShowReposts,
     nsfwBlock: uiNsfwBlock,
     mutedPubkeys,
+    muteFilter,
     customHashtags: uiCustomHashtags,
+    minPowBits,
+    powExemptPubkeys,
   });
 
   // Debug notes being returned
@@ -630,7 +690,9 @@ const NostrifyFeedMigration: React.FC = () => {
         new: newSelectedRelay,
         mode: isNewFollowing
           ? "Following (uses regular relays)"
-          : "Single Relay",
+          : newSelectedRelay.startsWith(LIST_RELAY_OPTION_PREFIX)
+            ? "Follow set (uses regular relays)"
+            : "Single Relay",
       });
 
       setSelectedRelay(newSelectedRelay);
@@ -713,12 +775,12 @@ const NostrifyFeedMigration: React.FC = () => {
 
   // Calculate actual relay count for loading text (reflects what's actually being queried)
   const actualRelayCount = useMemo(() => {
-    if (!isFollowingMode && selectedRelay) {
+    if (!isAuthorMode && selectedRelay) {
       // When a specific relay is selected, only query that one relay
       return 1;
     }
 
-    if (isFollowingMode) {
+    if (isAuthorMode) {
       // Following now uses only regular relays displayed in the selector
       return displayRelayUrls.length;
     }
@@ -726,7 +788,7 @@ const NostrifyFeedMigration: React.FC = () => {
     // Fallback to all relays
     return nostrifyRelayUrls.length;
   }, [
-    isFollowingMode,
+    isAuthorMode,
     selectedRelay,
     displayRelayUrls.length,
     nostrifyRelayUrls.length,
@@ -1335,9 +1397,11 @@ const NostrifyFeedMigration: React.FC = () => {
               message={
                 isFollowingMode
                   ? `Loading notes from ${normalizeContactsToPubkeys(userContacts).length || followingAuthorsRef.current.length || 0} contacts...`
-                  : selectedRelay
-                    ? `Loading notes from ${selectedRelay.replace(/^wss?:\/\//, "").replace(/\/$/, "")}...`
-                    : `Loading notes from ${actualRelayCount} relay${actualRelayCount === 1 ? "" : "s"}...`
+                  : isListMode
+                    ? `Loading notes from ${selectedListAuthors.length} people in this list...`
+                    : selectedRelay
+                      ? `Loading notes from ${selectedRelay.replace(/^wss?:\/\//, "").replace(/\/$/, "")}...`
+                      : `Loading notes from ${actualRelayCount} relay${actualRelayCount === 1 ? "" : "s"}...`
               }
               alignWithSplash={true}
             />
@@ -1455,6 +1519,7 @@ const NostrifyFeedMigration: React.FC = () => {
               userPubkey={ctxPubkey}
               hasContacts={hasContacts}
               contactsLoading={contactsLoading}
+              followSets={followSetOptions}
             />
           )}
           <div
@@ -1613,6 +1678,7 @@ const NostrifyFeedMigration: React.FC = () => {
                 userPubkey={ctxPubkey}
                 hasContacts={hasContacts}
                 contactsLoading={contactsLoading}
+                followSets={followSetOptions}
               />
             )}
           </div>
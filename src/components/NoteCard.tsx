@@ -42,6 +42,20 @@ import {
   type RelayConnectionPool,
 } from "../utils/nostr/relayConnectionPool";
 import { prefetchThread } from "../utils/thread/prefetch";
+import { publishDeletion } from "../utils/nostr/publish";
+import { removeDeletedEventsFromCaches } from "../utils/nostr/queryInvalidation";
+import ConfirmDeleteModal from "./ui/ConfirmDeleteModal";
+import ReportModal from "./ReportModal";
+import { CollapsedNotePlaceholder } from "./notecard/ContentGate";
+import { useNoteReports } from "../hooks/useNoteReports";
+import { describeReportSummary } from "../utils/nostr/reports";
+import {
+  describeContentWarning,
+  getContentWarning,
+} from "../utils/nostr/contentWarning";
+import { isNsfwNote } from "../utils/nsfwFilter";
+import { getZapSplits } from "../utils/nostr/zapSplits";
+import { useUIStore } from "./lib/useUIStore";
 
 interface NoteCardProps {
   note: Note;
@@ -317,11 +331,18 @@ const NoteCardComponent: React.FC<NoteCardProps> = ({
   const hasNoteText = textContent.trim().length > 0;
   const hasMediaError = note.mediaLoadError;
 
+  // Zap split recipients share the note's zap total with its author
+  const zapSplitRecipients = useMemo(
+    () => getZapSplits(note.tags).map((split) => split.pubkey),
+    [note.tags]
+  );
+
   // Safely call useZapTotalsQuery with validated data
   const { data: zapTotals } = useZapTotalsQuery({
     noteId: note.id || null,
     relayUrls: readRelayUrls,
     noteAuthorPubkey: note.pubkey || undefined,
+    splitRecipients: zapSplitRecipients,
   });
 
   const totalSats = zapTotals?.totalSats || 0;
@@ -618,9 +639,124 @@ const NoteCardComponent: React.FC<NoteCardProps> = ({
     triggerHaptic,
   ]);
 
+  // NIP-09 deletion of the user's own events (notes, reposts, reactions)
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const canDelete = Boolean(myPubkey && isValidNote && note.pubkey === myPubkey);
+
+  // NIP-56 reports by trusted reporters hide or blur the note
+  const isOwnNote = Boolean(myPubkey && actionTargetNote.pubkey === myPubkey);
+  const { summary: reportSummary, mode: reportFilterMode } = useNoteReports(
+    actionTargetNote.id || null,
+    readRelayUrls,
+    nostrClient,
+    isValidNote && !isOwnNote
+  );
+  const [showReportedNote, setShowReportedNote] = useState(false);
+  const reportLabel =
+    reportSummary.count > 0 ? describeReportSummary(reportSummary) : null;
+  const [showReportModal, setShowReportModal] = useState(false);
+
+  // NIP-36 content warnings always get a shroud; notes the NSFW heuristics
+  // flag only do in blur mode (hide mode drops them from feeds instead)
+  const nsfwMode = useUIStore((s) => s.nsfwMode);
+  const sensitiveLabel = useMemo(() => {
+    const warning = getContentWarning(actionTargetNote.tags);
+    if (warning !== null) return describeContentWarning(warning);
+    if (
+      nsfwMode === "blur" &&
+      !isOwnNote &&
+      isNsfwNote({
+        content: actionTargetNote.content || "",
+        tags: actionTargetNote.tags || [],
+        pubkey: actionTargetNote.pubkey,
+      })
+    ) {
+      return "Sensitive content";
+    }
+    return null;
+  }, [actionTargetNote, nsfwMode, isOwnNote]);
+  const blurLabel =
+    sensitiveLabel ?? (reportFilterMode === "blur" ? reportLabel : null);
+
+  const deleteOwnEvents = useCallback(
+    async (targets: Array<{ id: string; kind: number; pubkey: string; tags?: string[][] }>) => {
+      const publishRelays =
+        writeRelayUrls && writeRelayUrls.length > 0
+          ? writeRelayUrls
+          : readRelayUrls;
+      if (!nostrClient || !Array.isArray(publishRelays) || publishRelays.length === 0) {
+        setActionError("No relays configured");
+        return false;
+      }
+      try {
+        setActionError(null);
+        const { event } = await publishDeletion({
+          pool: nostrClient,
+          relayUrls: publishRelays,
+          targets,
+          authorPubkey: myPubkey,
+          relayPermissions,
+        });
+        removeDeletedEventsFromCaches(queryClient, event);
+        return true;
+      } catch (e) {
+        console.error("❌ publishDeletion failed:", e);
+        setActionError(e instanceof Error ? e.message : "Failed to delete");
+        return false;
+      }
+    },
+    [nostrClient, writeRelayUrls, readRelayUrls, myPubkey, relayPermissions, queryClient]
+  );
+
+  const deleteItemName = useMemo(() => {
+    // Reposts carry the original event as JSON; name them by the reposted text instead
+    const text = (note.kind === 6 ? repostOriginal?.content : safeContent) || "";
+    if (!text) return note.id.slice(0, 12);
+    return text.length > 60 ? `${text.slice(0, 60)}…` : text;
+  }, [note.kind, note.id, repostOriginal, safeContent]);
+
+  const performDelete = useCallback(async () => {
+    try {
+      triggerHaptic();
+    } catch {
+      // Haptics unsupported
+    }
+    await deleteOwnEvents([
+      { id: note.id, kind: note.kind ?? 1, pubkey: note.pubkey, tags: note.tags },
+    ]);
+  }, [deleteOwnEvents, note.id, note.kind, note.pubkey, note.tags, triggerHaptic]);
+
+  const handleConfirmDelete = useCallback(async () => {
+    setShowDeleteConfirm(false);
+    if (await needsUnlock()) {
+      modalContext.showUnlockModal("Delete", performDelete);
+      return;
+    }
+    await performDelete();
+  }, [needsUnlock, modalContext, performDelete]);
+
+  // Removing a like deletes the user's own kind 7 reaction
+  const performUnlike = useCallback(async () => {
+    const reactionId = reactionData?.myReactionId;
+    if (!reactionId || !myPubkey) return;
+    const deleted = await deleteOwnEvents([
+      { id: reactionId, kind: 7, pubkey: myPubkey },
+    ]);
+    if (deleted) {
+      queryClient.invalidateQueries({
+        queryKey: CACHE_KEYS.REACTION_COUNTS(actionTargetNote.id),
+      });
+    }
+  }, [reactionData?.myReactionId, myPubkey, deleteOwnEvents, queryClient, actionTargetNote.id]);
+
   const handleLike = useCallback(async () => {
-    // Avoid duplicate likes from this client session: no toggle behavior for now
     if (hasLikedByMe) {
+      if (!reactionData?.myReactionId) return;
+      if (await needsUnlock()) {
+        modalContext.showUnlockModal("Remove like", performUnlike);
+        return;
+      }
+      await performUnlike();
       return;
     }
 
@@ -648,6 +784,8 @@ const NoteCardComponent: React.FC<NoteCardProps> = ({
     }
   }, [
     hasLikedByMe,
+    reactionData?.myReactionId,
+    performUnlike,
     isAuthenticatedForSigning,
     needsUnlock,
     performLike,
@@ -1013,7 +1151,19 @@ const NoteCardComponent: React.FC<NoteCardProps> = ({
         </div>
       )}
 
-      {isValidNote && (
+      {isValidNote &&
+        reportLabel &&
+        reportFilterMode === "hide" &&
+        !showReportedNote && (
+          <CollapsedNotePlaceholder
+            label={reportLabel}
+            onShow={() => setShowReportedNote(true)}
+            isMobile={isMobile}
+          />
+        )}
+
+      {isValidNote &&
+        !(reportLabel && reportFilterMode === "hide" && !showReportedNote) && (
         <NoteContentContainer
           note={note}
           actionTargetNote={actionTargetNote}
@@ -1074,6 +1224,32 @@ const NoteCardComponent: React.FC<NoteCardProps> = ({
           recipientName={getDisplayNameForPubkey(note.pubkey)}
           isBookmarked={isBookmarked(note.id)}
           toggleBookmark={handleToggleBookmark}
+          onDelete={canDelete ? () => setShowDeleteConfirm(true) : undefined}
+          onReport={
+            myPubkey && !isOwnNote ? () => setShowReportModal(true) : undefined
+          }
+          blurLabel={blurLabel}
+        />
+      )}
+
+      {showReportModal && (
+        <ReportModal
+          isOpen={showReportModal}
+          onClose={() => setShowReportModal(false)}
+          target={{ pubkey: actionTargetNote.pubkey, eventId: actionTargetNote.id }}
+          targetLabel={`"${deleteItemName}"`}
+          isMobile={isMobile}
+        />
+      )}
+
+      {canDelete && (
+        <ConfirmDeleteModal
+          isOpen={showDeleteConfirm}
+          onClose={() => setShowDeleteConfirm(false)}
+          onConfirm={handleConfirmDelete}
+          itemName={deleteItemName}
+          itemType={note.kind === 6 ? "repost" : "note"}
+          isMobile={isMobile}
         />
       )}
 
@@ -1083,6 +1259,7 @@ const NoteCardComponent: React.FC<NoteCardProps> = ({
           noteId={note.id}
           relayUrls={readRelayUrls}
           noteAuthorPubkey={note.pubkey}
+          splitRecipients={zapSplitRecipients}
           getDisplayNameForPubkey={getDisplayNameForPubkey}
           isDarkMode={
             document.documentElement.getAttribute("data-theme") === "dark"
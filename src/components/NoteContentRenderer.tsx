@@ -6,6 +6,8 @@ import NostrLinkText from "./NostrLinkText";
 import { CORSImage } from "./media/CORSImage";
 import { MediaGallery } from "./media/MediaGallery";
 import { formatMediaUrl } from "../utils/formatMediaUrl";
+import { BlurOverlay } from "./notecard/ContentGate";
+import { describeContentWarning } from "../utils/nostr/contentWarning";
 
 interface NoteContentRendererProps {
   content: string;
@@ -20,6 +22,8 @@ interface NoteContentRendererProps {
   onHashtagClick?: (hashtag: string) => void;
   renderNoteLinkAsThread?: boolean;
   noteLinkLabel?: string;
+  // NIP-36 reason ('' when none given); content stays shrouded until clicked
+  contentWarning?: string | null;
   // MediaGallery props
   noteId?: string;
   index?: number;
@@ -47,6 +51,7 @@ const NoteContentRenderer: React.FC<NoteContentRendererProps> = ({
   onHashtagClick,
   renderNoteLinkAsThread = false,
   noteLinkLabel,
+  contentWarning = null,
   // MediaGallery props
   noteId = "unknown",
   index = 0,
@@ -62,6 +67,7 @@ const NoteContentRenderer: React.FC<NoteContentRendererProps> = ({
     {}
   );
   const [loadingUrls, setLoadingUrls] = useState<Record<string, boolean>>({});
+  const [isWarningDismissed, setIsWarningDismissed] = useState(false);
 
   const imageUrls = extractImageUrls(content);
   const videoUrls = extractVideoUrls(content);
@@ -273,8 +279,23 @@ const NoteContentRenderer: React.FC<NoteContentRendererProps> = ({
     );
   };
 
+  const isShrouded = contentWarning !== null && !isWarningDismissed;
+
   return (
-    <div style={style} className={className}>
+    <div
+      style={
+        isShrouded
+          ? { ...style, position: "relative", minHeight: "4rem" }
+          : style
+      }
+      className={className}
+    >
+      {isShrouded && (
+        <BlurOverlay
+          label={describeContentWarning(contentWarning)}
+          onReveal={() => setIsWarningDismissed(true)}
+        />
+      )}
       {renderTextWithMediaLinks(content)}
       {/* Use MediaGallery for multiple images/videos when media mode is on */}
       {imageMode && (imageUrls.length > 0 || videoUrls.length > 0) && (
@@ -89,6 +89,22 @@ const NotificationsHeader: React.FC<NotificationsHeaderProps> = ({
       </div>
 
       <div style={{ marginLeft: "auto", display: "flex", gap: "0.5rem" }}>
+        <button
+          onClick={() => navigate({ to: "/messages", search: { peer: "" } })}
+          style={{
+            backgroundColor: "transparent",
+            color: getTextColor(),
+            fontSize: "0.875rem",
+            textTransform: "uppercase",
+            letterSpacing: "0.1em",
+            padding: "0.25rem 0.5rem",
+            border: "none",
+            cursor: "pointer",
+          }}
+          title="Direct messages"
+        >
+          DMs
+        </button>
         <div
           style={{
             display: "flex",
@@ -1,6 +1,7 @@
-import React, { useContext, useRef } from "react";
+import React, { useContext, useMemo, useRef } from "react";
 import { NostrContext } from "../contexts/NostrContext";
 import { useRelayManager } from "../hooks/useRelayManager";
+import { useMuteList } from "../hooks/useMuteList";
 import { useNotificationsNostrify } from "../hooks/useNotificationsNostrify";
 import { useNotificationsPaginationNostrify } from "../hooks/useNotificationsNostrify";
 import { useDisplayNames } from "../hooks/useDisplayNames";
@@ -27,7 +28,7 @@ const NotificationsPage: React.FC = () => {
   });
   const { getDisplayNameForPubkey } = useDisplayNames(relayUrls);
   const {
-    items,
+    items: allItems,
     unreadCount,
     markAllAsRead,
     isLoading,
@@ -36,6 +37,16 @@ const NotificationsPage: React.FC = () => {
     isFetchingNextPage,
     fetchNextPage,
   } = useNotificationsNostrify({ relayUrls });
+  const { muteFilter } = useMuteList(relayUrls);
+  const items = useMemo(
+    () =>
+      allItems.filter(
+        (item) =>
+          !muteFilter.isPubkeyMuted(item.actor) &&
+          !(item.event && muteFilter.isNoteMuted(item.event))
+      ),
+    [allItems, muteFilter]
+  );
 
   // Use pagination hook with session persistence
   const { visibleCount, handleLoadMore } = useNotificationsPaginationNostrify(
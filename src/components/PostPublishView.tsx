@@ -1,4 +1,4 @@
-import React, { useMemo, useState, useContext } from "react";
+import React, { useCallback, useMemo, useState, useContext } from "react";
 import { TreeList, TreeListItem } from "./settings/TreeListItem";
 import LoadingTextPlaceholder from "./ui/LoadingTextPlaceholder";
 import { usePowState } from "../stores/powStore";
@@ -10,6 +10,15 @@ import { hasNip07 } from "../utils/nostr/nip07";
 import { nip19 } from "nostr-tools";
 import UserInfoCard from "./UserInfoCard";
 import { relayFailureLearning } from "../utils/nostr/relayFailureLearning";
+import {
+  usePublishQueueStore,
+  type PublishQueueStoreState,
+} from "../stores/publishQueueStore";
+import type { RelayPublishOutcome } from "../utils/nostr/relayConnectionPool";
+import {
+  MAX_PUBLISH_ATTEMPTS,
+  canRetryRelay,
+} from "../utils/nostr/publishQueue";
 
 export type PublishState = "idle" | "publishing" | "success" | "error";
 
@@ -17,6 +26,8 @@ export interface RelayPublishStatus {
   url: string;
   status: "pending" | "success" | "failed";
   error?: string;
+  // Extra context, e.g. when a queued relay will be retried
+  detail?: string;
 }
 
 export interface PostPublishViewProps {
@@ -36,13 +47,31 @@ export interface PostPublishViewProps {
   showAuthOptions?: boolean; // Whether to show auth options in error state
   currentPubkeyHex?: string; // Current user's pubkey for unlock modal
   getDisplayNameForPubkey?: (pubkey: string) => string; // Display name function
+  queuedEventId?: string; // Show live per-relay results from the publish queue
 }
 
+const formatQueueTime = (ms: number) =>
+  new Date(ms).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+// Expected time left from the combined hash rate, e.g. "45s", "12m", "3h"
+const formatEta = (seconds: number) => {
+  if (seconds < 90) return `${Math.max(1, Math.round(seconds))}s`;
+  if (seconds < 90 * 60) return `${Math.round(seconds / 60)}m`;
+  return `${Math.round(seconds / 3600)}h`;
+};
+
+const OUTCOME_LABELS: Record<RelayPublishOutcome, string> = {
+  ok: "OK",
+  rejected: "REJECTED",
+  timeout: "TIMEOUT",
+  error: "ERROR",
+};
+
 const PostPublishView: React.FC<PostPublishViewProps> = ({
   publishState,
   publishMessage,
   isSigning,
-  relayStatuses,
+  relayStatuses: relayStatusesProp,
   broadcastingComplete,
   isMobile,
   onViewNote,
@@ -54,10 +83,38 @@ const PostPublishView: React.FC<PostPublishViewProps> = ({
   showAuthOptions = false,
   currentPubkeyHex,
   getDisplayNameForPubkey = () => "Unknown",
+  queuedEventId,
 }) => {
   // Get POW state from store
   const { activeSession } = usePowState();
 
+  // Queued publishes report per-relay progress through the queue store
+  const selectQueuedEntry = useCallback(
+    (s: PublishQueueStoreState) =>
+      queuedEventId ? s.entries[queuedEventId] ?? null : null,
+    [queuedEventId]
+  );
+  const queuedEntry = usePublishQueueStore(selectQueuedEntry);
+  const relayStatuses = useMemo((): RelayPublishStatus[] => {
+    if (!queuedEntry) return relayStatusesProp;
+    return Object.entries(queuedEntry.relays).map(([url, relay]) => {
+      const retrying = relay.status === "failed" && canRetryRelay(relay);
+      let detail: string | undefined;
+      if (relay.attempts === 0 && queuedEntry.publishAt > Date.now()) {
+        detail = `scheduled for ${formatQueueTime(queuedEntry.publishAt)}`;
+      } else if (retrying) {
+        detail = `retry ${relay.attempts + 1}/${MAX_PUBLISH_ATTEMPTS} at ${formatQueueTime(relay.nextAttemptAt)}`;
+      }
+      return {
+        url,
+        status: retrying ? "pending" : relay.status,
+        error: relay.error,
+        detail,
+      };
+    });
+  }, [queuedEntry, relayStatusesProp]);
+  const [showDeliveryReport, setShowDeliveryReport] = useState(false);
+
   // Authentication state for error handling
   const {
     listSavedAccounts,
@@ -106,6 +163,7 @@ const PostPublishView: React.FC<PostPublishViewProps> = ({
     const targetBits = activeSession?.targetBits || 0;
     const hashesPerSecond = activeSession?.hashesPerSecond || 0;
     const estimatedTimeRemaining = activeSession?.estimatedTimeRemaining || 0;
+    const workerCount = activeSession?.workerCount || 1;
 
     return {
       isMining,
@@ -116,20 +174,10 @@ const PostPublishView: React.FC<PostPublishViewProps> = ({
       targetBits,
       hashesPerSecond,
       estimatedTimeRemaining,
+      workerCount,
     };
-  }, [
-    activeSession?.isMining,
-    activeSession?.isComplete,
-    activeSession?.progress,
-    activeSession?.nonce,
-    activeSession?.currentBits,
-    activeSession?.targetBits,
-    activeSession?.hashesPerSecond,
-    activeSession?.estimatedTimeRemaining,
-    activeSession?.sessionId,
-    // Add direct activeSession reference to catch any other changes
-    activeSession,
-  ]);
+    // The session object is replaced on every progress update
+  }, [activeSession]);
 
   // Authentication handlers
   const handleAuthAction = async () => {
@@ -354,8 +402,16 @@ const PostPublishView: React.FC<PostPublishViewProps> = ({
               {miningState.isMining
                 ? `Attempts: ${miningState.nonce.toLocaleString()} (~${miningState.hashesPerSecond.toFixed(
                     0
-                  )} H/s)`
-                : `Found at nonce ${miningState.nonce.toLocaleString()}`}
+                  )} H/s${
+                    miningState.workerCount > 1
+                      ? ` on ${miningState.workerCount} workers`
+                      : ""
+                  }${
+                    miningState.estimatedTimeRemaining > 0
+                      ? `, ~${formatEta(miningState.estimatedTimeRemaining)} left`
+                      : ""
+                  })`
+                : `Found after ${miningState.nonce.toLocaleString()} attempts`}
             </span>
           </div>
         ) : isSigning ? (
@@ -428,6 +484,19 @@ const PostPublishView: React.FC<PostPublishViewProps> = ({
                 )}
               </span>
             </div>
+            {relayStatus.detail && (
+              <div
+                style={{
+                  fontSize: "0.7rem",
+                  color: "var(--text-color)",
+                  opacity: 0.7,
+                  textAlign: "start",
+                }}
+              >
+                {relayStatus.detail}
+                {relayStatus.error ? ` (${relayStatus.error})` : ""}
+              </div>
+            )}
             {relayStatus.status === "failed" && relayStatus.error && (
               <div
                 style={{
@@ -514,6 +583,88 @@ const PostPublishView: React.FC<PostPublishViewProps> = ({
         </div>
       )}
 
+      {/* Delivery report: what each relay answered for a queued publish */}
+      {queuedEntry && (
+        <div style={{ marginTop: "0.5rem", textAlign: "start" }}>
+          <button
+            onClick={() => setShowDeliveryReport((v) => !v)}
+            style={{
+              background: "none",
+              border: "none",
+              color: "var(--text-color)",
+              fontSize: "0.75rem",
+              cursor: "pointer",
+              padding: 0,
+              textTransform: "uppercase",
+              letterSpacing: "0.05em",
+            }}
+          >
+            {showDeliveryReport ? "▾" : "▸"} Delivery report
+          </button>
+          {showDeliveryReport && (
+            <div
+              style={{
+                marginTop: "0.25rem",
+                padding: "0.5rem",
+                border: "1px dotted var(--border-color)",
+                fontSize: "0.7rem",
+                color: "var(--text-color)",
+                display: "flex",
+                flexDirection: "column",
+                gap: "0.5rem",
+              }}
+            >
+              {Object.entries(queuedEntry.relays).map(([url, relay]) => (
+                <div key={url}>
+                  <div
+                    style={{
+                      display: "flex",
+                      justifyContent: "space-between",
+                      gap: "0.5rem",
+                    }}
+                  >
+                    <span style={{ wordBreak: "break-all" }}>{url}</span>
+                    <span
+                      style={{
+                        whiteSpace: "nowrap",
+                        color:
+                          relay.status === "success"
+                            ? "var(--text-success)"
+                            : relay.outcome
+                              ? "var(--text-failure)"
+                              : "var(--text-color)",
+                      }}
+                    >
+                      {relay.outcome
+                        ? OUTCOME_LABELS[relay.outcome]
+                        : "WAITING"}
+                      {relay.attempts > 1 &&
+                        ` · ${relay.attempts}/${MAX_PUBLISH_ATTEMPTS} tries`}
+                    </span>
+                  </div>
+                  {relay.message && (
+                    <div style={{ opacity: 0.7 }}>
+                      {relay.status === "success" ? "OK" : "Reason"}: &quot;
+                      {relay.message}&quot;
+                    </div>
+                  )}
+                  {relay.notices?.map((notice, i) => (
+                    <div key={i} style={{ opacity: 0.7 }}>
+                      NOTICE: &quot;{notice}&quot;
+                    </div>
+                  ))}
+                  {relay.rejected && (
+                    <div style={{ opacity: 0.7 }}>
+                      Relay refused the event; not retrying
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {broadcastingComplete && (
         <div style={{ marginTop: "1rem", textAlign: "center" }}>
           <div
@@ -327,6 +327,9 @@ const ProfileView: React.FC = () => {
     // If logged in with nsec, they can follow
     if (loginMethod === "nsec") return true;
 
+    // If logged in with a remote signer (NIP-46), they can follow
+    if (loginMethod === "nip46") return true;
+
     // If they have a pubkey but no login method, they can't follow
     return false;
   }, [userPubkey, loginMethod]);
@@ -0,0 +1,84 @@
+import React, { useCallback } from "react";
+import {
+  useRelayAuthStore,
+  type RelayAuthDecision,
+  type RelayAuthStoreState,
+} from "../stores/relayAuthStore";
+import { resolveRelayAuthRequest } from "../utils/nostr/relayAuth";
+
+const selectFirstPending = (s: RelayAuthStoreState) => s.pending[0] ?? null;
+
+const buttonStyle: React.CSSProperties = {
+  backgroundColor: "transparent",
+  border: "1px dotted var(--border-color)",
+  color: "var(--text-color)",
+  padding: "0.5rem 0.75rem",
+  cursor: "pointer",
+  fontSize: "var(--font-size-sm)",
+};
+
+/**
+ * Asks the user whether to authenticate (NIP-42) to relays whose policy is "ask"
+ */
+const RelayAuthPrompt: React.FC = () => {
+  const request = useRelayAuthStore(selectFirstPending);
+
+  const decide = useCallback(
+    (decision: RelayAuthDecision) => {
+      if (request) resolveRelayAuthRequest(request.id, decision);
+    },
+    [request]
+  );
+
+  if (!request) return null;
+
+  const host = request.relayUrl.replace(/^wss?:\/\//, "");
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        bottom: "1rem",
+        left: "50%",
+        transform: "translateX(-50%)",
+        width: "calc(100% - 2rem)",
+        maxWidth: "420px",
+        backgroundColor: "var(--app-bg-color)",
+        border: "1px dotted var(--border-color)",
+        padding: "1rem",
+        zIndex: 10001,
+        textAlign: "left",
+      }}
+      role="dialog"
+      aria-label="Relay authentication request"
+    >
+      <div
+        style={{
+          color: "var(--text-color)",
+          fontSize: "var(--font-size-sm)",
+          marginBottom: "0.75rem",
+          lineHeight: 1.4,
+        }}
+      >
+        <strong>{host}</strong> asks you to authenticate. This signs a
+        short-lived event proving you own your key to this relay.
+      </div>
+      <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap" }}>
+        <button style={buttonStyle} onClick={() => decide("once")}>
+          Allow once
+        </button>
+        <button style={buttonStyle} onClick={() => decide("always")}>
+          Always
+        </button>
+        <button style={buttonStyle} onClick={() => decide("deny")}>
+          Not now
+        </button>
+        <button style={buttonStyle} onClick={() => decide("never")}>
+          Never
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RelayAuthPrompt;
@@ -2,6 +2,22 @@ import React, { useState, useEffect } from "react";
 import type { RelayStatus } from "../types/nostr/types";
 import { useOutboxRelayManager } from "../hooks/useOutboxRelayManager";
 import { useOutboxDiscoveryStatus } from "./OutboxDiscoveryManager";
+import {
+  useRelayAuthStore,
+  type RelayAuthStatus,
+  type RelayAuthStoreState,
+} from "../stores/relayAuthStore";
+import { normalizeAuthRelayUrl } from "../utils/nostr/relayAuth";
+
+const selectAuthStatuses = (s: RelayAuthStoreState) => s.statuses;
+
+const AUTH_STATUS_LABELS: Record<RelayAuthStatus, string> = {
+  challenged: "Auth requested",
+  authenticating: "Authenticating...",
+  authenticated: "Authenticated",
+  failed: "Auth failed",
+  denied: "Auth declined",
+};
 
 interface RelayStatusLightsProps {
   relayStatuses: RelayStatus[];
@@ -16,6 +32,11 @@ const RelayStatusLights: React.FC<RelayStatusLightsProps> = ({
   // Get outbox discovery status
   const { isDiscovering } = useOutboxDiscoveryStatus();
 
+  // NIP-42 AUTH state per relay
+  const authStatuses = useRelayAuthStore(selectAuthStatuses);
+  const getAuthStatus = (url: string): RelayAuthStatus | undefined =>
+    authStatuses[normalizeAuthRelayUrl(url)];
+
   // Detect mobile on resize
   useEffect(() => {
     const handleResize = () => {
@@ -173,6 +194,7 @@ const RelayStatusLights: React.FC<RelayStatusLightsProps> = ({
           const isDynamicRelay = !!dynamicMetrics;
 
           let backgroundColor = "var(--relay-disconnected)";
+          const isAuthenticated = getAuthStatus(relay.url) === "authenticated";
 
           if (isDynamicRelay && dynamicMetrics) {
             // Calculate success rate for dynamic relays
@@ -213,6 +235,10 @@ const RelayStatusLights: React.FC<RelayStatusLightsProps> = ({
                 maxHeight: indicatorSize,
                 borderRadius: "0",
                 backgroundColor,
+                // Authenticated relays get a contrasting inner frame
+                boxShadow: isAuthenticated
+                  ? "inset 0 0 0 1px var(--app-bg-color)"
+                  : undefined,
                 transition: "background-color 0.2s ease",
               }}
             />
@@ -343,6 +369,19 @@ const RelayStatusLights: React.FC<RelayStatusLightsProps> = ({
                       {relayUrl.replace("wss://", "")}
                       {isDynamicRelay && " (Dynamic)"}
                     </div>
+                    {getAuthStatus(relayUrl) && (
+                      <div
+                        style={{
+                          color: "var(--text-color-secondary)",
+                          fontSize: "0.75rem",
+                          marginTop: "0.125rem",
+                          textAlign: "left",
+                        }}
+                      >
+                        {getAuthStatus(relayUrl) === "authenticated" ? "🔐 " : ""}
+                        {AUTH_STATUS_LABELS[getAuthStatus(relayUrl)!]}
+                      </div>
+                    )}
                     {isDynamicRelay && dynamicMetrics && (
                       <div
                         style={{
@@ -0,0 +1,231 @@
+import React, { useCallback, useContext, useEffect, useRef, useState } from "react";
+import { NostrContext } from "../contexts/NostrContext";
+import {
+  createNostrConnectRequest,
+  type NostrConnectRequest,
+} from "../utils/nostr/nip46";
+
+interface RemoteSignerLoginProps {
+  disabled?: boolean;
+  onConnecting: (step: string) => void;
+  onConnected: () => Promise<void> | void;
+  onError: () => void;
+}
+
+const buttonStyle = (enabled: boolean): React.CSSProperties => ({
+  backgroundColor: "transparent",
+  border: "1px dotted var(--border-color)",
+  color: "var(--text-color)",
+  padding: "0.5rem 0.75rem",
+  cursor: enabled ? "pointer" : "not-allowed",
+  fontSize: "var(--font-size-sm)",
+  opacity: enabled ? 1 : 0.5,
+  whiteSpace: "nowrap",
+});
+
+/**
+ * NIP-46 login: paste a bunker:// URI, or hand a nostrconnect:// URI to a signer app
+ */
+const RemoteSignerLogin: React.FC<RemoteSignerLoginProps> = ({
+  disabled = false,
+  onConnecting,
+  onConnected,
+  onError,
+}) => {
+  const { signInWithBunker, signInWithNostrConnect } = useContext(NostrContext);
+  const [bunkerInput, setBunkerInput] = useState("");
+  const [connectRequest, setConnectRequest] =
+    useState<NostrConnectRequest | null>(null);
+  const [authUrl, setAuthUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop listening for a nostrconnect reply when the panel goes away
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const handleAuth = useCallback((url: string) => {
+    setAuthUrl(url);
+    try {
+      window.open(url, "_blank", "noopener,noreferrer");
+    } catch {
+      // Popup blocked; the link rendered below still works
+    }
+  }, []);
+
+  const handleBunkerConnect = useCallback(async () => {
+    if (!bunkerInput.trim()) return;
+    setError(null);
+    setAuthUrl(null);
+    onConnecting("Connecting to remote signer...");
+    try {
+      await signInWithBunker(bunkerInput.trim(), { onauth: handleAuth });
+      setBunkerInput("");
+      await onConnected();
+    } catch (err) {
+      console.error("Remote signer login failed:", err);
+      setError(err instanceof Error ? err.message : "Failed to connect to remote signer");
+      onError();
+    }
+  }, [bunkerInput, signInWithBunker, handleAuth, onConnecting, onConnected, onError]);
+
+  const handleStartNostrConnect = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const request = createNostrConnectRequest();
+    setConnectRequest(request);
+    setError(null);
+    setAuthUrl(null);
+    setCopied(false);
+
+    try {
+      await signInWithNostrConnect(request, {
+        onauth: handleAuth,
+        signal: controller.signal,
+      });
+      if (controller.signal.aborted) return;
+      onConnecting("Connected to remote signer...");
+      setConnectRequest(null);
+      await onConnected();
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("nostrconnect login failed:", err);
+      setError(err instanceof Error ? err.message : "Signer app did not connect");
+      setConnectRequest(null);
+      onError();
+    }
+  }, [signInWithNostrConnect, handleAuth, onConnecting, onConnected, onError]);
+
+  const handleCancelNostrConnect = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setConnectRequest(null);
+  }, []);
+
+  const handleCopy = useCallback(async () => {
+    if (!connectRequest) return;
+    try {
+      await navigator.clipboard.writeText(connectRequest.uri);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  }, [connectRequest]);
+
+  const inputStyle: React.CSSProperties = {
+    flex: 1,
+    minWidth: 0,
+    backgroundColor: "var(--app-bg-color)",
+    color: "var(--text-color)",
+    border: "1px dotted var(--border-color)",
+    padding: "0.5rem",
+    fontSize: "var(--font-size-sm)",
+  };
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        gap: "0.75rem",
+        padding: "0.75rem",
+        border: "1px dotted var(--border-color)",
+        textAlign: "left",
+      }}
+    >
+      <div style={{ display: "flex", gap: "0.5rem" }}>
+        <input
+          type="text"
+          value={bunkerInput}
+          onChange={(e) => setBunkerInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleBunkerConnect();
+          }}
+          placeholder="bunker://... or name@domain"
+          autoComplete="off"
+          autoCapitalize="off"
+          spellCheck={false}
+          disabled={disabled}
+          style={inputStyle}
+        />
+        <button
+          onClick={handleBunkerConnect}
+          disabled={disabled || !bunkerInput.trim()}
+          style={buttonStyle(!disabled && !!bunkerInput.trim())}
+        >
+          Connect
+        </button>
+      </div>
+
+      {connectRequest ? (
+        <div style={{ display: "flex", flexDirection: "column", gap: "0.5rem" }}>
+          <div
+            style={{
+              fontSize: "var(--font-size-sm)",
+              color: "var(--text-color)",
+              opacity: 0.8,
+            }}
+          >
+            Open this link in your signer app, or copy it there. Waiting for
+            approval...
+          </div>
+          <textarea
+            readOnly
+            value={connectRequest.uri}
+            rows={3}
+            onFocus={(e) => e.currentTarget.select()}
+            style={{ ...inputStyle, resize: "none", fontFamily: "monospace", wordBreak: "break-all" }}
+          />
+          <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap" }}>
+            <a
+              href={connectRequest.uri}
+              style={{ ...buttonStyle(true), textDecoration: "none" }}
+            >
+              Open signer app
+            </a>
+            <button onClick={handleCopy} style={buttonStyle(true)}>
+              {copied ? "Copied" : "Copy"}
+            </button>
+            <button onClick={handleCancelNostrConnect} style={buttonStyle(true)}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={handleStartNostrConnect}
+          disabled={disabled}
+          style={{ ...buttonStyle(!disabled), textAlign: "left" }}
+        >
+          Connect with nostrconnect://
+        </button>
+      )}
+
+      {authUrl && (
+        <div style={{ fontSize: "var(--font-size-sm)", color: "var(--text-color)" }}>
+          Your signer needs approval:{" "}
+          <a
+            href={authUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            style={{ color: "var(--link-color)" }}
+          >
+            open authorization page
+          </a>
+        </div>
+      )}
+
+      {error && (
+        <div style={{ fontSize: "var(--font-size-sm)", color: "var(--btn-accent)" }}>
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RemoteSignerLogin;
@@ -53,6 +53,17 @@ import { hasInMemorySecretKey } from "../utils/nostr/nip07";
 import { CACHE_KEYS } from "../utils/cacheKeys";
 
 import { useMentionAutocomplete } from "../hooks/useMentionAutocomplete";
+import { useDraft } from "../hooks/useDraft";
+import SchedulePicker from "./ui/SchedulePicker";
+import ContentWarningPicker from "./ui/ContentWarningPicker";
+import ZapSplitPicker from "./ui/ZapSplitPicker";
+import { buildContentWarningTag } from "../utils/nostr/contentWarning";
+import { buildZapSplitTags, type ZapSplit } from "../utils/nostr/zapSplits";
+import {
+  enqueuePublish,
+  isAcceptedByAnyRelay,
+  publishNow,
+} from "../utils/nostr/publishQueue";
 import MentionDropdown from "./ui/MentionDropdown";
 import {
   insertMention,
@@ -124,6 +135,21 @@ export const ReplyModal: React.FC<ReplyModalProps> = ({
   const [publishedReplyId, setPublishedReplyId] = useState<string | null>(null);
   const [showPostPublishView, setShowPostPublishView] = useState(false);
   const [uploadedFileTags, setUploadedFileTags] = useState<string[][]>([]);
+  // Optional publish time; scheduled replies go through the publish queue
+  const [scheduledAt, setScheduledAt] = useState<number | null>(null);
+  // NIP-36 content warning reason; null when the post has none
+  const [contentWarning, setContentWarning] = useState<string | null>(null);
+  // NIP-57 zap split recipients for the published note
+  const [zapSplits, setZapSplits] = useState<ZapSplit[]>([]);
+  const [queuedEventId, setQueuedEventId] = useState<string | undefined>();
+  const { discardDraft } = useDraft({
+    type: "reply",
+    targetId: parentNoteId,
+    content,
+    setContent,
+    uploadTags: uploadedFileTags,
+    setUploadTags: setUploadedFileTags,
+  });
   const [isNoteExpanded, setIsNoteExpanded] = useState(false);
   const [showMoreButton, setShowMoreButton] = useState<boolean>(false);
   const noteTextRef = useRef<HTMLDivElement | null>(null);
@@ -490,6 +516,10 @@ export const ReplyModal: React.FC<ReplyModalProps> = ({
 
       // Add uploaded file tags
       tags.push(...uploadedFileTags);
+      if (contentWarning !== null) {
+        tags.push(buildContentWarningTag(contentWarning));
+      }
+      tags.push(...buildZapSplitTags(zapSplits));
 
       // Sign the reply event
       console.log("🔑 Starting reply signing process...");
@@ -500,12 +530,23 @@ export const ReplyModal: React.FC<ReplyModalProps> = ({
       });
       console.log("  PoW bits:", powBits);
 
+      // A schedule time that has already passed just publishes now
+      const isScheduled = scheduledAt !== null && scheduledAt > Date.now();
+
       let signed;
       try {
         signed = await (
           await import("../utils/nostr/nip07")
         ).nip07SignEvent(
-          { kind: 1, content: content.trim(), tags },
+          {
+            kind: 1,
+            content: content.trim(),
+            tags,
+            // Scheduled replies carry their publish time (and PoW is mined for it)
+            created_at: isScheduled
+              ? Math.floor((scheduledAt as number) / 1000)
+              : undefined,
+          },
           {
             powTargetBits: powBits,
             signal: ac.signal,
@@ -527,6 +568,28 @@ export const ReplyModal: React.FC<ReplyModalProps> = ({
 
       setIsSigning(false);
 
+      if (isScheduled) {
+        // Hand the signed event to the outbox; it publishes in the background
+        await enqueuePublish({
+          event: signed,
+          relayUrls: filteredRelayUrls,
+          publishAt: scheduledAt as number,
+        });
+        setQueuedEventId(signed.id);
+        setPublishedReplyId(signed.id);
+        setPublishState("success");
+        setPublishMessage(
+          `Reply scheduled for ${new Date(scheduledAt as number).toLocaleString()}`
+        );
+        setBroadcastingComplete(true);
+        setScheduledAt(null);
+        setContentWarning(null);
+        setZapSplits([]);
+        clearPersistedContent();
+        void discardDraft();
+        return;
+      }
+
       // Broadcast to relays manually (same as CreateView)
       setPublishMessage("Broadcasting to relays...");
 
@@ -555,72 +618,13 @@ export const ReplyModal: React.FC<ReplyModalProps> = ({
         filteredRelayUrls.map((url) => ({ url, status: "pending" as const }))
       );
 
-      // Publish to each relay in parallel, collect results
-      const withTimeout = <T,>(p: Promise<T>, ms: number): Promise<T> => {
-        return new Promise<T>((resolve, reject) => {
-          const t = setTimeout(() => reject(new Error("publish-timeout")), ms);
-          p.then(
-            (v) => {
-              clearTimeout(t);
-              resolve(v);
-            },
-            (e) => {
-              clearTimeout(t);
-              reject(e);
-            }
-          );
-        });
-      };
-
-      const publishPromises = filteredRelayUrls.map(async (relayUrl, index) => {
-        try {
-          await withTimeout(
-            nostrClient!.publish([relayUrl], signed as any),
-            8000
-          );
-          return { relayUrl, success: true, index };
-        } catch (e: any) {
-          return {
-            relayUrl,
-            success: false,
-            error: e?.message || String(e),
-            index,
-          };
-        }
-      });
-
-      const results = await Promise.allSettled(publishPromises);
-
-      // Progressive UI updates for relay statuses
-      results.forEach((res, i) => {
-        if (res.status === "fulfilled") {
-          const { success, error, index } = res.value as any;
-          setTimeout(
-            () => {
-              setRelayStatuses((prev) =>
-                prev.map((s, idx) =>
-                  idx === index
-                    ? {
-                        ...s,
-                        status: success ? "success" : "failed",
-                        error: success
-                          ? undefined
-                          : typeof error === "string"
-                            ? error
-                            : "Unknown error",
-                      }
-                    : s
-                )
-              );
-            },
-            (i + 1) * 600
-          );
-        }
-      });
-
-      // Wait for UI updates to complete
-      await new Promise((r) =>
-        setTimeout(r, (filteredRelayUrls.length + 1) * 800)
+      // Publish through the outbox; PostPublishView follows the per-relay
+      // receipts and relays that fail keep retrying in the background
+      setQueuedEventId(signed.id);
+      const delivery = await publishNow(
+        nostrClient!,
+        signed,
+        filteredRelayUrls
       );
 
       setPublishedReplyId(signed.id);
@@ -778,7 +782,7 @@ export const ReplyModal: React.FC<ReplyModalProps> = ({
         // 4) Optimistically prepend into current user's profile feed first page if present
         if (ctxPubkey) {
           // Build partial prefix of profile feed query keys used by useNostrifyFeed
-          // Key format: ['nostrify-feed', authorKey, kindsKey, relayKey, flagsKey, hashtagsKey, mutedLen, pageSize]
+          // Key format: ['nostrify-feed', authorKey, kindsKey, relayKey, flagsKey, hashtagsKey, mutedLen, muteKey, pageSize]
           // We match authorKey = ctxPubkey and kindsKey containing '1' or '1,6'
           queryClient.setQueriesData(
             {
@@ -976,7 +980,11 @@ export const ReplyModal: React.FC<ReplyModalProps> = ({
         } catch {}
       } catch {}
       setPublishState("success");
-      setPublishMessage("Reply published successfully");
+      setPublishMessage(
+        isAcceptedByAnyRelay(delivery)
+          ? "Reply published successfully"
+          : "Reply saved to outbox; retrying when relays are reachable"
+      );
       setBroadcastingComplete(true);
 
       // Invalidate cache for current user's profile notes so they see their new reply immediately
@@ -985,7 +993,10 @@ export const ReplyModal: React.FC<ReplyModalProps> = ({
       }
 
       // Clear persisted content since reply was successful
+      setContentWarning(null);
+      setZapSplits([]);
       clearPersistedContent();
+      void discardDraft();
 
       // Keep the modal open to show success state - user can click "View Thread" when ready
     } catch (e: any) {
@@ -1017,6 +1028,10 @@ export const ReplyModal: React.FC<ReplyModalProps> = ({
     ctxPubkey,
     relayPermissions,
     triggerHaptic,
+    discardDraft,
+    scheduledAt,
+    contentWarning,
+    zapSplits,
   ]);
 
   const handlePost = useCallback(async () => {
@@ -1274,6 +1289,7 @@ export const ReplyModal: React.FC<ReplyModalProps> = ({
               relayStatuses={relayStatuses}
               broadcastingComplete={broadcastingComplete}
               isMobile={isMobile}
+              queuedEventId={queuedEventId}
               onViewNote={() => {
                 if (publishedReplyId) {
                   try {
@@ -1651,6 +1667,23 @@ export const ReplyModal: React.FC<ReplyModalProps> = ({
                         acceptedTypes={["image/*", "video/*"]}
                         isMobile={isMobile}
                       />
+                      <SchedulePicker
+                        value={scheduledAt}
+                        onChange={setScheduledAt}
+                        disabled={isPosting}
+                      />
+                      <ContentWarningPicker
+                        value={contentWarning}
+                        onChange={setContentWarning}
+                        disabled={isPosting}
+                      />
+                      <ZapSplitPicker
+                        value={zapSplits}
+                        onChange={setZapSplits}
+                        getDisplayNameForPubkey={getDisplayNameForPubkey}
+                        disabled={isPosting}
+                        isMobile={isMobile}
+                      />
                       <div style={{ width: "100%" }}>
                         <div
                           style={{
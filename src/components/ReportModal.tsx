@@ -0,0 +1,210 @@
+import React, { useCallback, useContext, useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { NostrContext } from "../contexts/NostrContext";
+import { useModalContext } from "../contexts/ModalContext";
+import { useRelayManager } from "../hooks/useRelayManager";
+import { useAuthenticationCheck } from "../utils/authenticationUtils";
+import { publishReport } from "../utils/nostr/publish";
+import {
+  REPORT_TYPES,
+  REPORT_TYPE_LABELS,
+  type ReportTarget,
+  type ReportType,
+} from "../utils/nostr/reports";
+import { CACHE_KEYS } from "../utils/cacheKeys";
+import { FormModal } from "./ui/Modal";
+import { Button } from "./ui/Button";
+
+interface ReportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  target: ReportTarget;
+  // Shown in the header: a display name or a note excerpt
+  targetLabel: string;
+  isMobile?: boolean;
+}
+
+const MAX_REASON_LENGTH = 500;
+
+/**
+ * Composer for NIP-56 reports about a note (target.eventId set) or a profile
+ */
+const ReportModal: React.FC<ReportModalProps> = ({
+  isOpen,
+  onClose,
+  target,
+  targetLabel,
+  isMobile = false,
+}) => {
+  const { nostrClient, pubkey } = useContext(NostrContext);
+  const { relayUrls, writeRelays, relayPermissions } = useRelayManager({
+    nostrClient,
+    initialRelays: [],
+    pubkeyHex: pubkey,
+  });
+  const { needsUnlock } = useAuthenticationCheck();
+  const modalContext = useModalContext();
+  const queryClient = useQueryClient();
+
+  const [reportType, setReportType] = useState<ReportType>("spam");
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start fresh each time the composer opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setReportType("spam");
+    setReason("");
+    setError(null);
+  }, [isOpen]);
+
+  const isNote = Boolean(target.eventId);
+
+  const performReport = useCallback(async () => {
+    const publishRelays = writeRelays.length > 0 ? writeRelays : relayUrls;
+    if (!nostrClient || publishRelays.length === 0) {
+      setError("No relays configured");
+      return;
+    }
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await publishReport({
+        pool: nostrClient,
+        relayUrls: publishRelays,
+        target,
+        reportType,
+        reason,
+        relayPermissions,
+      });
+      if (target.eventId) {
+        queryClient.invalidateQueries({
+          queryKey: CACHE_KEYS.NOTE_REPORTS(target.eventId),
+        });
+      }
+      onClose();
+    } catch (err) {
+      console.error("Failed to publish report:", err);
+      setError(err instanceof Error ? err.message : "Failed to send report");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [
+    nostrClient,
+    writeRelays,
+    relayUrls,
+    target,
+    reportType,
+    reason,
+    relayPermissions,
+    queryClient,
+    onClose,
+  ]);
+
+  const handleSubmit = useCallback(async () => {
+    if (!pubkey) {
+      setError("You must be signed in to report");
+      return;
+    }
+    if (await needsUnlock()) {
+      modalContext.showUnlockModal("Report", performReport);
+      return;
+    }
+    await performReport();
+  }, [pubkey, needsUnlock, modalContext, performReport]);
+
+  return (
+    <FormModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={isNote ? "Report Note" : "Report User"}
+      size="sm"
+      isMobile={isMobile}
+    >
+      <div style={{ display: "flex", flexDirection: "column", gap: "0.75rem" }}>
+        <div
+          style={{
+            color: "var(--text-color)",
+            opacity: 0.8,
+            fontSize: "var(--font-size-sm)",
+            textAlign: "start",
+            wordBreak: "break-word",
+          }}
+        >
+          {targetLabel}
+        </div>
+
+        <div
+          role="radiogroup"
+          aria-label="Report type"
+          style={{ display: "flex", flexDirection: "column", gap: "0.25rem" }}
+        >
+          {REPORT_TYPES.map((type) => (
+            <label
+              key={type}
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: "0.5rem",
+                fontSize: "var(--font-size-sm)",
+                color: "var(--text-color)",
+                cursor: "pointer",
+              }}
+            >
+              <input
+                type="radio"
+                name="report-type"
+                value={type}
+                checked={reportType === type}
+                onChange={() => setReportType(type)}
+              />
+              {REPORT_TYPE_LABELS[type]}
+            </label>
+          ))}
+        </div>
+
+        <textarea
+          value={reason}
+          onChange={(e) => setReason(e.target.value.slice(0, MAX_REASON_LENGTH))}
+          placeholder="Additional details (optional, public)"
+          rows={3}
+          style={{
+            width: "100%",
+            boxSizing: "border-box",
+            resize: "vertical",
+            backgroundColor: "var(--app-bg-color)",
+            color: "var(--text-color)",
+            border: "1px dotted var(--border-color)",
+            padding: "0.5rem",
+            fontSize: "var(--font-size-sm)",
+            borderRadius: 0,
+          }}
+        />
+
+        {error && (
+          <div
+            style={{
+              color: "var(--btn-accent)",
+              fontSize: "var(--font-size-sm)",
+              textAlign: "start",
+            }}
+          >
+            {error}
+          </div>
+        )}
+
+        <div style={{ display: "flex", gap: "12px", justifyContent: "flex-end" }}>
+          <Button variant="ghost" onClick={onClose} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting ? "Reporting..." : "Report"}
+          </Button>
+        </div>
+      </div>
+    </FormModal>
+  );
+};
+
+export default ReportModal;
@@ -34,6 +34,7 @@ import { usePersistentInput } from "../hooks/usePersistentInput";
 import { useIosKeyboardFix } from "../hooks/useIosKeyboardFix";
 
 import { useMentionAutocomplete } from "../hooks/useMentionAutocomplete";
+import { useDraft } from "../hooks/useDraft";
 import MentionDropdown from "./ui/MentionDropdown";
 import {
   insertMention,
@@ -55,6 +56,10 @@ interface RepostModalProps {
   onHashtagClick?: (hashtag: string) => void;
 }
 
+// Quote reposts don't take attachments
+const NO_UPLOADS: string[][] = [];
+const ignoreUploads = () => {};
+
 export const RepostModal: React.FC<RepostModalProps> = ({
   parentNoteId,
   parentNote,
@@ -88,6 +93,14 @@ export const RepostModal: React.FC<RepostModalProps> = ({
     `repost-modal-${parentNoteId}`,
     ""
   );
+  const { discardDraft } = useDraft({
+    type: "quote",
+    targetId: parentNoteId,
+    content,
+    setContent,
+    uploadTags: NO_UPLOADS,
+    setUploadTags: ignoreUploads,
+  });
   const [isPosting, setIsPosting] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [isTextExpanded, setIsTextExpanded] = useState<boolean>(false);
@@ -454,6 +467,7 @@ export const RepostModal: React.FC<RepostModalProps> = ({
 
       // Clear persisted content since repost was successful
       clearPersistedContent();
+      void discardDraft();
 
       // Keep the modal open to show success state briefly, then close
       setTimeout(() => {
@@ -484,6 +498,7 @@ export const RepostModal: React.FC<RepostModalProps> = ({
     listSavedAccounts,
     triggerHaptic,
     ctxPubkey,
+    discardDraft,
   ]);
 
   const handlePost = useCallback(async () => {
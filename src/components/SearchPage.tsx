@@ -1,20 +1,35 @@
 import React from "react";
 import { useNavigate, useLocation } from "@tanstack/react-router";
-import { parseSearchInput } from "../utils/search/parse";
+import {
+  isEmptySearchQuery,
+  parseSearchInput,
+  parseSearchQuery,
+  type SearchQuery,
+} from "../utils/search/parse";
+import {
+  eventToSearchNote,
+  mergeSearchResults,
+  resolveSearchRelays,
+  searchNotes,
+} from "../utils/search/notes";
+import { searchLocalIndex } from "../workers/searchIndexBridge";
 import { searchPeopleCached, resolveNip05 } from "../utils/search/people";
 import SearchPeopleList from "./SearchPeopleList";
 import { NostrContext } from "../contexts/NostrContext";
 import { useRelayManager } from "../hooks/useRelayManager";
+import { useMuteList } from "../hooks/useMuteList";
 import { DEFAULT_RELAY_URLS } from "../utils/nostr/constants";
 // import { useUnifiedBatchMetadata } from "../hooks/useUnifiedMetadata"; // Removed - using original metadata system
 import { useDisplayNames } from "../hooks/useDisplayNames";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { CACHE_KEYS } from "../utils/cacheKeys";
-import { extractImageUrls, extractVideoUrls } from "../utils/nostr/utils";
 import type { Filter, Event } from "nostr-tools";
 import { getGlobalRelayPool } from "../utils/nostr/relayConnectionPool";
 import type { Note } from "../types/nostr/types";
-import NoteItem from "./profile/NoteItem";
+import { NoteCard } from "./NoteCard";
+import { NoteCardErrorBoundary } from "./ErrorBoundary";
+import { useNostrFeedState } from "../hooks/useNostrFeedState";
+import { useUIStore } from "./lib/useUIStore";
 import LoadingText from "./ui/LoadingText";
 import SearchHeader from "./SearchHeader";
 import { useUniversalHashtagHandler } from "../utils/hashtagNavigation";
@@ -47,27 +62,34 @@ const SearchPageComponent: React.FC = () => {
   const [resolving, setResolving] = React.useState<boolean>(false);
   const [peopleVisible, setPeopleVisible] = React.useState<number>(20);
   const [notesResults, setNotesResults] = React.useState<Note[]>([]);
-  const [notesVisible, setNotesVisible] = React.useState<number>(10);
+  const [noteQuery, setNoteQuery] = React.useState<SearchQuery | null>(null);
+  const [notesUntil, setNotesUntil] = React.useState<number | null>(null);
+  const [localHitCount, setLocalHitCount] = React.useState<number>(0);
   const [isLoadingNotes, setIsLoadingNotes] = React.useState<boolean>(false);
   const [notesError, setNotesError] = React.useState<string | null>(null);
-  const [expandedNotes, setExpandedNotes] = React.useState<
-    Record<string, boolean>
-  >({});
-  const [showMoreForNote, setShowMoreForNote] = React.useState<
-    Record<string, boolean>
-  >({});
   const [isSearchingPeople, setIsSearchingPeople] =
     React.useState<boolean>(false);
   const [searchRelaysUsed, setSearchRelaysUsed] = React.useState<string[]>([]);
 
   // Relays and display names cache
   const { nostrClient, pubkey } = React.useContext(NostrContext) as any;
-  const { relayUrls } = useRelayManager({
-    nostrClient,
-    initialRelays: DEFAULT_RELAY_URLS,
-    pubkeyHex: pubkey,
-  });
+  const { relayUrls, relayPermissions, readRelays, writeRelays } =
+    useRelayManager({
+      nostrClient,
+      initialRelays: DEFAULT_RELAY_URLS,
+      pubkeyHex: pubkey,
+    });
+  const { muteFilter } = useMuteList(readRelays, relayPermissions);
+  const visibleNotes = React.useMemo(
+    () => notesResults.filter((note) => !muteFilter.isNoteMuted(note)),
+    [notesResults, muteFilter]
+  );
   const queryClient = useQueryClient();
+  const feedState = useNostrFeedState();
+  const { useAscii, useColor } = useUIStore((s) => ({
+    useAscii: s.useAscii,
+    useColor: s.useColor,
+  }));
   const { getDisplayNameForPubkey, addDisplayNamesFromMetadata } =
     useDisplayNames(relayUrls);
 
@@ -90,131 +112,107 @@ const SearchPageComponent: React.FC = () => {
     []
   );
 
-  // Execute search (triggered by button or enter key)
-  const executeSearch = React.useCallback(
-    (searchQuery: string) => {
-      const q = searchQuery.trim();
-
-      // Update URL to reflect current search
-      navigate({
-        to: "/search",
-        search: { q: q || "", type: searchParams.type || "notes" },
-        replace: true,
-      });
-
-      // Prevent searches on empty query
-      if (!q) {
-        setPeopleResults([]);
-        setNotesResults([]);
+  // People search logic
+  const executePeopleSearch = React.useCallback(
+    (q: string, parsed: any) => {
+      if (parsed.type === "nip05") {
+        setIsSearchingPeople(true);
+        const cachedMatches = searchPeopleCached(q, 20);
+        setPeopleResults(cachedMatches);
         setPeopleVisible(20);
-        setNotesVisible(10);
-        setPeopleCacheMiss(false);
-        setIsSearchingPeople(false);
-        setSearchRelaysUsed([]);
-        setNotesError(null);
+        // Always resolve NIP-05 in parallel
+        setResolving(true);
+        resolveNip05(q).then((res) => {
+          setResolving(false);
+          if (res.pubkeyHex) {
+            const pk = res.pubkeyHex as string;
+            setPeopleResults((prev) => {
+              if (prev.includes(pk)) return prev;
+              return [pk, ...prev];
+            });
+          }
+        });
         return;
       }
 
-      setIsSearching(true);
-      const parsed = parseSearchInput(q);
-
-      // Execute people search
+      // For person/ambiguous_hex/unknown types
       if (
-        parsed.type === "nip05" ||
         parsed.type === "person" ||
         parsed.type === "ambiguous_hex" ||
         parsed.type === "unknown"
       ) {
-        executePeopleSearch(q, parsed);
-      }
+        setIsSearchingPeople(true);
+        const cachedMatches = searchPeopleCached(q, 100);
+        setPeopleResults(cachedMatches);
+        setPeopleVisible(20);
+        setPeopleCacheMiss(cachedMatches.length === 0 && q.length >= 2);
 
-      // Execute notes search
-      if (parsed.type !== "person" && parsed.type !== "nip05") {
-        executeNotesSearch(q, parsed);
-      }
+        // Fallback: if nothing in cache, try NIP-50 search
+        if (cachedMatches.length === 0 && q.length >= 2) {
+          (async () => {
+            try {
+              setIsFetchingPeopleRemote(true);
+              const pool = getGlobalRelayPool();
+              const searchRelays = await resolveSearchRelays(relayPermissions);
+              const filter: any = { kinds: [0], search: q, limit: 50 };
+              let events: Event[] = [];
+              try {
+                events = await pool.querySync(searchRelays, filter);
+                setSearchRelaysUsed(searchRelays);
+              } catch {}
 
-      setIsSearching(false);
+              if (events && events.length > 0) {
+                const uniquePubkeys = Array.from(
+                  new Set(
+                    (events as any[])
+                      .map((ev) => (ev as any).pubkey)
+                      .filter(Boolean)
+                  )
+                );
+                setPeopleResults(uniquePubkeys);
+                setPeopleCacheMiss(false);
+              }
+            } catch {
+            } finally {
+              setIsFetchingPeopleRemote(false);
+            }
+          })();
+        }
+      }
     },
-    [navigate, searchParams.type]
+    [relayPermissions]
   );
 
-  // People search logic
-  const executePeopleSearch = React.useCallback((q: string, parsed: any) => {
-    if (parsed.type === "nip05") {
-      setIsSearchingPeople(true);
-      const cachedMatches = searchPeopleCached(q, 20);
-      setPeopleResults(cachedMatches);
-      setPeopleVisible(20);
-      // Always resolve NIP-05 in parallel
-      setResolving(true);
-      resolveNip05(q).then((res) => {
-        setResolving(false);
-        if (res.pubkeyHex) {
-          const pk = res.pubkeyHex as string;
-          setPeopleResults((prev) => {
-            if (prev.includes(pk)) return prev;
-            return [pk, ...prev];
-          });
-        }
+  // Fetch a page of text/operator search results. Text goes to the NIP-50
+  // search relays; operator-only queries also work on the user's read relays.
+  const fetchNotesPage = React.useCallback(
+    async (query: SearchQuery, until?: number) => {
+      const searchRelays = await resolveSearchRelays(relayPermissions);
+      const relays = query.text
+        ? searchRelays
+        : Array.from(new Set([...readRelays, ...searchRelays]));
+      const page = await searchNotes({
+        pool: getGlobalRelayPool(),
+        relays,
+        query,
+        until,
       });
-      return;
-    }
-
-    // For person/ambiguous_hex/unknown types
-    if (
-      parsed.type === "person" ||
-      parsed.type === "ambiguous_hex" ||
-      parsed.type === "unknown"
-    ) {
-      setIsSearchingPeople(true);
-      const cachedMatches = searchPeopleCached(q, 100);
-      setPeopleResults(cachedMatches);
-      setPeopleVisible(20);
-      setPeopleCacheMiss(cachedMatches.length === 0 && q.length >= 2);
-
-      // Fallback: if nothing in cache, try NIP-50 search
-      if (cachedMatches.length === 0 && q.length >= 2) {
-        (async () => {
-          try {
-            setIsFetchingPeopleRemote(true);
-            const pool = getGlobalRelayPool();
-            const searchRelays = [
-              "wss://relay.nostr.band",
-              "wss://search.nos.today",
-            ];
-            const filter: any = { kinds: [0], search: q, limit: 50 };
-            let events: Event[] = [];
-            try {
-              events = await pool.querySync(searchRelays, filter);
-              setSearchRelaysUsed(searchRelays);
-            } catch {}
-
-            if (events && events.length > 0) {
-              const uniquePubkeys = Array.from(
-                new Set(
-                  (events as any[])
-                    .map((ev) => (ev as any).pubkey)
-                    .filter(Boolean)
-                )
-              );
-              setPeopleResults(uniquePubkeys);
-              setPeopleCacheMiss(false);
-            }
-          } catch {
-          } finally {
-            setIsFetchingPeopleRemote(false);
-          }
-        })();
-      }
-    }
-  }, []);
+      page.notes.forEach((note) =>
+        queryClient.setQueryData(CACHE_KEYS.NOTE(note.id), note)
+      );
+      return page;
+    },
+    [relayPermissions, readRelays, queryClient]
+  );
 
   // Notes search logic
   const executeNotesSearch = React.useCallback(
     (q: string, parsed: any) => {
       setNotesError(null);
       setNotesResults([]);
-      setNotesVisible(10);
+      setNotesUntil(null);
+      setNoteQuery(null);
+      setLocalHitCount(0);
       setIsLoadingNotes(true);
 
       const pool = getGlobalRelayPool();
@@ -256,22 +254,7 @@ const SearchPageComponent: React.FC = () => {
             } as any;
             const events: Event[] = await pool.querySync(augmented, filter);
             if (events && events.length > 0) {
-              const ev = events[0] as any;
-              const imageUrls = extractImageUrls(ev.content);
-              const videoUrls = extractVideoUrls(ev.content);
-
-              const mapped: Note = {
-                id: ev.id,
-                content: ev.content || "",
-                pubkey: ev.pubkey,
-                created_at: ev.created_at,
-                kind: (ev as any).kind,
-                tags: ev.tags || [],
-                imageUrls,
-                videoUrls,
-                receivedAt: Date.now(),
-              } as Note;
-
+              const mapped = eventToSearchNote(events[0]);
               queryClient.setQueryData(CACHE_KEYS.NOTE(mapped.id), mapped);
               setNotesResults([mapped]);
             } else {
@@ -279,42 +262,32 @@ const SearchPageComponent: React.FC = () => {
               setNotesError("Note not found");
             }
           } else {
-            // Text search: fetch recent notes and filter
-            const RECENT_LIMIT = 200;
-            const filter: Filter = { kinds: [1], limit: RECENT_LIMIT } as any;
-            const events: Event[] = await pool.querySync(relayUrls, filter);
-            const qLower = q.toLowerCase();
-            const uniqueById = new Map<string, any>();
-            (events || []).forEach((ev: any) => {
-              const content: string = ev?.content || "";
-              if (content.toLowerCase().includes(qLower)) {
-                if (!uniqueById.has(ev.id)) uniqueById.set(ev.id, ev);
-              }
-            });
-            const mapped: Note[] = Array.from(uniqueById.values())
-              .map((ev: any) => {
-                const imageUrls = extractImageUrls(ev.content);
-                const videoUrls = extractVideoUrls(ev.content);
-
-                const note: Note = {
-                  id: ev.id,
-                  content: ev.content || "",
-                  pubkey: ev.pubkey,
-                  created_at: ev.created_at,
-                  kind: (ev as any).kind,
-                  tags: ev.tags || [],
-                  imageUrls,
-                  videoUrls,
-                  receivedAt: Date.now(),
-                };
-
-                queryClient.setQueryData(CACHE_KEYS.NOTE(note.id), note);
-                return note;
-              })
-              .sort((a, b) => (b.created_at || 0) - (a.created_at || 0))
-              .slice(0, 50);
-            setNotesResults(mapped);
-            if (mapped.length === 0) setNotesError("No notes found");
+            const query = parseSearchQuery(q);
+            if (isEmptySearchQuery(query)) {
+              setNotesError("Add search words, a #hashtag or from:npub");
+              return;
+            }
+            setNoteQuery(query);
+
+            // Notes seen earlier on this device show up before relays answer
+            const localHits = (await searchLocalIndex(query)).map(
+              eventToSearchNote
+            );
+            setLocalHitCount(localHits.length);
+            setNotesResults(localHits);
+
+            let page;
+            try {
+              page = await fetchNotesPage(query);
+            } catch (e) {
+              if (localHits.length === 0) throw e;
+              console.warn("Relay search failed, showing local results:", e);
+              return;
+            }
+            const merged = mergeSearchResults(localHits, page.notes);
+            setNotesResults(merged);
+            setNotesUntil(page.nextUntil);
+            if (merged.length === 0) setNotesError("No notes found");
           }
         } catch (e: any) {
           setNotesError(e?.message || "Failed to load notes");
@@ -323,7 +296,81 @@ const SearchPageComponent: React.FC = () => {
         }
       })();
     },
-    [relayUrls, queryClient, buildAugmentedRelays]
+    [relayUrls, queryClient, buildAugmentedRelays, fetchNotesPage]
+  );
+
+  // Next page of results from the last cursor; overlapping notes are merged by id
+  const handleLoadMoreNotes = React.useCallback(async () => {
+    if (!noteQuery || notesUntil === null || isLoadingNotes) return;
+    setIsLoadingNotes(true);
+    try {
+      const page = await fetchNotesPage(noteQuery, notesUntil);
+      setNotesResults((prev) => mergeSearchResults(prev, page.notes));
+      setNotesUntil(page.nextUntil);
+    } catch (e: any) {
+      setNotesError(e?.message || "Failed to load notes");
+    } finally {
+      setIsLoadingNotes(false);
+    }
+  }, [noteQuery, notesUntil, isLoadingNotes, fetchNotesPage]);
+
+  // Execute search (triggered by button or enter key)
+  const executeSearch = React.useCallback(
+    (searchQuery: string) => {
+      const q = searchQuery.trim();
+
+      // Update URL to reflect current search
+      navigate({
+        to: "/search",
+        search: { q: q || "", type: searchParams.type || "notes" },
+        replace: true,
+      });
+
+      // Prevent searches on empty query
+      if (!q) {
+        setPeopleResults([]);
+        setNotesResults([]);
+        setPeopleVisible(20);
+        setNotesUntil(null);
+        setNoteQuery(null);
+        setLocalHitCount(0);
+        setPeopleCacheMiss(false);
+        setIsSearchingPeople(false);
+        setSearchRelaysUsed([]);
+        setNotesError(null);
+        return;
+      }
+
+      setIsSearching(true);
+      const parsed = parseSearchInput(q);
+      // Queries with operators (from:, #tag, since: ...) are note searches only
+      const hasOperators =
+        parsed.type === "unknown" &&
+        parseSearchQuery(q).text !== q.split(/\s+/).join(" ");
+
+      // Execute people search
+      if (
+        !hasOperators &&
+        (parsed.type === "nip05" ||
+          parsed.type === "person" ||
+          parsed.type === "ambiguous_hex" ||
+          parsed.type === "unknown")
+      ) {
+        executePeopleSearch(q, parsed);
+      } else {
+        setPeopleResults([]);
+        setPeopleCacheMiss(false);
+        setIsSearchingPeople(false);
+      }
+
+      // Execute notes search
+      if (parsed.type !== "person" && parsed.type !== "nip05") {
+        executeNotesSearch(q, parsed);
+      }
+
+      setIsSearching(false);
+    },
+    [navigate, searchParams.type, executePeopleSearch, executeNotesSearch]
   );
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -346,13 +393,13 @@ const SearchPageComponent: React.FC = () => {
     setPeopleResults([]);
     setNotesResults([]);
     setPeopleVisible(20);
-    setNotesVisible(10);
+    setNotesUntil(null);
+    setNoteQuery(null);
+    setLocalHitCount(0);
     setPeopleCacheMiss(false);
     setIsSearchingPeople(false);
     setSearchRelaysUsed([]);
     setNotesError(null);
-    setExpandedNotes({});
-    setShowMoreForNote({});
     // Clear URL parameters
     navigate({
       to: "/search",
@@ -422,17 +469,6 @@ const SearchPageComponent: React.FC = () => {
   const batchMetadata = metadataQuery.data || {};
   const isLoadingMetadata = metadataQuery.isFetching;
 
-  const handleExpandNote = React.useCallback((noteId: string) => {
-    setExpandedNotes((prev) => ({ ...prev, [noteId]: true }));
-  }, []);
-
-  const handleSetShowMore = React.useCallback(
-    (noteId: string, shouldShow: boolean) => {
-      setShowMoreForNote((prev) => ({ ...prev, [noteId]: shouldShow }));
-    },
-    []
-  );
-
   const isMobile = window.innerWidth <= 768;
 
   return (
@@ -494,7 +530,7 @@ const SearchPageComponent: React.FC = () => {
               value={value}
               onChange={handleChange}
               onKeyDown={handleKeyDown}
-              placeholder="Search npubs, nprofiles, notes, nevents, NIP-05..."
+              placeholder="Search notes, npubs, NIP-05... (from: #tag since: kind: has:image)"
               style={{
                 height: "2rem",
                 backgroundColor: "transparent",
@@ -512,7 +548,7 @@ const SearchPageComponent: React.FC = () => {
               onClick={handleClear}
               disabled={
                 !value.trim() &&
-                notesResults.length === 0 &&
+                visibleNotes.length === 0 &&
                 peopleResults.length === 0
               }
               title="Clear search"
@@ -531,19 +567,19 @@ const SearchPageComponent: React.FC = () => {
                 border: "none",
                 color:
                   value.trim() ||
-                  notesResults.length > 0 ||
+                  visibleNotes.length > 0 ||
                   peopleResults.length > 0
                     ? "var(--text-color)"
                     : "var(--border-color)",
                 cursor:
                   value.trim() ||
-                  notesResults.length > 0 ||
+                  visibleNotes.length > 0 ||
                   peopleResults.length > 0
                     ? "pointer"
                     : "default",
                 opacity:
                   value.trim() ||
-                  notesResults.length > 0 ||
+                  visibleNotes.length > 0 ||
                   peopleResults.length > 0
                     ? 1
                     : 0.6,
@@ -587,7 +623,7 @@ const SearchPageComponent: React.FC = () => {
 
         {/* Search Tips - Show only on initial state, no search performed yet */}
         {!queryFromUrl &&
-          notesResults.length === 0 &&
+          visibleNotes.length === 0 &&
           peopleResults.length === 0 &&
           !isSearching &&
           !resolving &&
@@ -660,8 +696,8 @@ const SearchPageComponent: React.FC = () => {
                       <strong>Note ID</strong> - 64-character hex event IDs
                     </TreeListItem>
                     <TreeListItem isLast>
-                      <strong>Text search</strong> - Search note content
-                      (limited to recent notes on your relays)
+                      <strong>Text search</strong> - Notes and articles via
+                      your Indexer (NIP-50) relays
                     </TreeListItem>
                   </TreeList>
                 </div>
@@ -683,17 +719,21 @@ const SearchPageComponent: React.FC = () => {
                       links or full NIP-05 addresses for best results
                     </TreeListItem>
                     <TreeListItem>
-                      <strong>Text search:</strong> Limited to recent notes from
-                      your connected relays. Try searching by hashtags or
-                      keywords
+                      <strong>Operators:</strong>{" "}
+                      <code style={{ opacity: 0.7 }}>from:npub1...</code>,{" "}
+                      <code style={{ opacity: 0.7 }}>#tag</code>,{" "}
+                      <code style={{ opacity: 0.7 }}>since:2024-01-01</code>,{" "}
+                      <code style={{ opacity: 0.7 }}>until:</code>,{" "}
+                      <code style={{ opacity: 0.7 }}>kind:article</code> and{" "}
+                      <code style={{ opacity: 0.7 }}>has:image</code>
                     </TreeListItem>
                     <TreeListItem>
                       <strong>How to search:</strong> Press Enter or click 🔍
                       button to search
                     </TreeListItem>
                     <TreeListItem isLast>
-                      <strong>Relay coverage:</strong> Results depend on which
-                      relays you're connected to
+                      <strong>Relay coverage:</strong> Mark relays as Index in
+                      settings to choose where text searches go
                     </TreeListItem>
                   </TreeList>
                 </div>
@@ -703,7 +743,7 @@ const SearchPageComponent: React.FC = () => {
 
         {/* No Results Message - Show when search was performed but nothing found */}
         {queryFromUrl &&
-          notesResults.length === 0 &&
+          visibleNotes.length === 0 &&
           peopleResults.length === 0 &&
           !isSearching &&
           !resolving &&
@@ -890,7 +930,7 @@ const SearchPageComponent: React.FC = () => {
         )}
 
         {/* Notes/Events results section */}
-        {notesResults.length > 0 && !isSearching && (
+        {visibleNotes.length > 0 && !isSearching && (
           <div
             style={{
               width: "100%",
@@ -916,7 +956,19 @@ const SearchPageComponent: React.FC = () => {
                     gap: "0.5rem",
                   }}
                 >
-                  <span>Notes ({notesResults.length})</span>
+                  <span>Notes ({visibleNotes.length})</span>
+                  {localHitCount > 0 && (
+                    <span
+                      style={{
+                        fontWeight: 400,
+                        textTransform: "none",
+                        fontSize: "var(--font-size-sm)",
+                        opacity: 0.7,
+                      }}
+                    >
+                      {localHitCount} seen on this device
+                    </span>
+                  )}
                   {isLoadingNotes && (
                     <LoadingText
                       length={6}
@@ -926,33 +978,41 @@ const SearchPageComponent: React.FC = () => {
                   )}
                 </div>
               </div>
-              <ul
-                style={{
-                  position: "relative",
-                  margin: "0 0 0 1.5rem",
-                  padding: 0,
-                  listStyleType: "none",
-                }}
-              >
-                {notesResults.slice(0, notesVisible).map((note) => {
-                  return (
-                    <NoteItem
-                      key={note.id}
-                      note={note}
-                      isExpanded={!!expandedNotes[note.id]}
-                      showMoreForNote={!!showMoreForNote[note.id]}
-                      onExpand={() => handleExpandNote(note.id)}
-                      onSetShowMore={handleSetShowMore}
-                      useAscii={false}
-                      useColor={true}
-                      getDisplayNameForPubkey={getDisplayNameForPubkey}
-                      onHashtagClick={handleHashtagClick}
-                      readRelays={relayUrls}
-                    />
-                  );
-                })}
-              </ul>
-              {notesResults.length > notesVisible && (
+              <div style={{ width: "100%" }}>
+                {visibleNotes.map((note, index) => (
+                  <NoteCardErrorBoundary key={note.id}>
+                    <div
+                      data-note-id={note.id}
+                      style={{
+                        width: "100%",
+                        borderBottom: "1px dotted var(--border-color)",
+                      }}
+                    >
+                      <NoteCard
+                        note={note}
+                        index={index}
+                        metadata={feedState.metadata}
+                        asciiCache={feedState.asciiCache}
+                        isDarkMode={feedState.isDarkMode}
+                        useAscii={useAscii}
+                        useColor={useColor}
+                        isMobile={feedState.isMobile}
+                        copiedPubkeys={feedState.copiedPubkeys}
+                        setCopiedPubkeys={feedState.setCopiedPubkeys}
+                        setFullScreenImage={feedState.setFullScreenImage}
+                        onAsciiRendered={() => {}}
+                        onMediaLoadError={() => {}}
+                        getDisplayNameForPubkey={getDisplayNameForPubkey}
+                        imageMode={feedState.imageMode}
+                        readRelayUrls={readRelays}
+                        writeRelayUrls={writeRelays}
+                        onHashtagClick={handleHashtagClick}
+                      />
+                    </div>
+                  </NoteCardErrorBoundary>
+                ))}
+              </div>
+              {noteQuery && notesUntil !== null && (
                 <div
                   style={{
                     display: "flex",
@@ -962,21 +1022,26 @@ const SearchPageComponent: React.FC = () => {
                   }}
                 >
                   <button
-                    onClick={() => setNotesVisible((c) => c + 10)}
+                    onClick={handleLoadMoreNotes}
+                    disabled={isLoadingNotes}
                     style={{
                       backgroundColor: "transparent",
                       color: "var(--text-color)",
                       border: "1px dotted var(--border-color)",
                       padding: "0.5rem 1rem",
-                      cursor: "pointer",
+                      cursor: isLoadingNotes ? "default" : "pointer",
                       fontSize: "var(--font-size-sm)",
                     }}
                   >
-                    View more
+                    {isLoadingNotes ? (
+                      <LoadingText length={6} speed="normal" />
+                    ) : (
+                      "Load more"
+                    )}
                   </button>
                 </div>
               )}
-              {isLoadingNotes && notesResults.length === 0 && (
+              {isLoadingNotes && visibleNotes.length === 0 && (
                 <div
                   style={{
                     color: "var(--text-color)",
@@ -993,7 +1058,7 @@ const SearchPageComponent: React.FC = () => {
                   <LoadingText length={10} speed="normal" />
                 </div>
               )}
-              {notesError && notesResults.length === 0 && (
+              {notesError && visibleNotes.length === 0 && (
                 <div
                   style={{
                     color: "var(--text-color)",
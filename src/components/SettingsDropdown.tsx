@@ -41,6 +41,9 @@ import {
   type ModalState,
 } from "../utils/modalUrlState";
 import { BookmarksSection } from "./settings/BookmarksSection";
+import { ListsSection } from "./settings/ListsSection";
+import { MuteListSection } from "./settings/MuteListSection";
+import { KeymapSection } from "./settings/KeymapSection";
 
 interface SettingsDropdownProps {
   cacheStats: {
@@ -769,6 +772,12 @@ const SettingsDropdown = ({
 
                 <BookmarksSection isMobile={isMobile} />
 
+                <ListsSection isMobile={isMobile} />
+
+                <MuteListSection isMobile={isMobile} />
+
+                {!isMobile && <KeymapSection isMobile={isMobile} />}
+
                 <CacheSection
                   cacheStats={{
                     totalNotes: cacheBreakdown.breakdown.feedQueries,
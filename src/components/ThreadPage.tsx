@@ -11,6 +11,7 @@ import { nip19 } from "nostr-tools";
 import ThreadHeader from "./ThreadHeader";
 import { useUIStore } from "./lib/useUIStore";
 import { useRelayManager } from "../hooks/useRelayManager";
+import { useMuteList } from "../hooks/useMuteList";
 import { useDisplayNames } from "../hooks/useDisplayNames";
 import { NostrContext } from "../contexts/NostrContext";
 import { useUniversalHashtagHandler } from "../utils/hashtagNavigation";
@@ -22,8 +23,29 @@ import { buildFlattenedThread } from "../utils/thread/flatten";
 import ThreadSummary from "./thread/ThreadSummary";
 import { useThreadStore } from "../state/threadStore";
 import { useThreadLoader } from "../hooks/useThreadLoader";
+import { useLiveThreadReplies } from "../hooks/useLiveThreadReplies";
 import { useScrollRestoration } from "../hooks/useScrollRestoration";
 import { prefetchThread } from "../utils/thread/prefetch";
+import type { Note } from "../types/nostr/types";
+import {
+  DEFAULT_THREAD_SORT_MODE,
+  getNewReplyIds,
+  sortReplies,
+  type ThreadSortMode,
+} from "../utils/thread/sort";
+import ThreadSortBar from "./thread/ThreadSortBar";
+import NewRepliesIndicator from "./thread/NewRepliesIndicator";
+import { useReplyEngagement } from "../hooks/useReplyEngagement";
+import { useUserContactsContext } from "../contexts/UserContactsContext";
+import {
+  setThreadLastVisit,
+  setThreadSortMode,
+  uiStore,
+} from "./lib/uiStore";
+
+// Stable fallbacks so the memos below don't rerun while a thread is loading
+const NO_CHILDREN: string[] = [];
+const NO_CHILDREN_BY_PARENT: Record<string, string[]> = {};
 
 const ThreadPage: React.FC = () => {
   const { noteId } = useParams({ strict: false }) as { noteId: string };
@@ -36,6 +58,7 @@ const ThreadPage: React.FC = () => {
     pubkeyHex: pubkey,
   });
   const { getDisplayNameForPubkey } = useDisplayNames(relayUrls);
+  const { muteFilter } = useMuteList(relayUrls);
   const { useAscii, useColor, imageMode, vimMode } = useUIStore((s: any) => ({
     useAscii: s.useAscii,
     useColor: s.useColor,
@@ -82,6 +105,7 @@ const ThreadPage: React.FC = () => {
 
   // Store accessors
   const setCurrentParentId = useThreadStore((s: any) => s.setCurrentParentId);
+  const revealPending = useThreadStore((s) => s.revealPending);
   const threadState = useThreadStore(
     useCallback((s: any) => s.threads[effectiveRootId as string] || null, [
       effectiveRootId,
@@ -90,8 +114,79 @@ const ThreadPage: React.FC = () => {
   const status = threadState?.status || { isLoading: false, hasMore: false, lastUpdated: 0 };
   const notesById = threadState?.notesById as Map<string, any> | undefined;
   const currentParentId = threadState?.currentParentId as string | null | undefined;
-  const directChildrenIds = (threadState?.directChildrenIds || []) as string[];
-  const childrenIdMap = (threadState?.childrenIdMap || {}) as Record<string, string[]>;
+  const directChildrenIds = (threadState?.directChildrenIds || NO_CHILDREN) as string[];
+  const childrenIdMap = (threadState?.childrenIdMap || NO_CHILDREN_BY_PARENT) as Record<string, string[]>;
+  const pendingNotes = threadState?.pending?.notes as Note[] | undefined;
+
+  const sortMode: ThreadSortMode =
+    useUIStore(
+      (s) => s.threadSortModes?.[effectiveRootId as string]
+    ) || DEFAULT_THREAD_SORT_MODE;
+  const { isFollowing } = useUserContactsContext();
+
+  // Every reply loaded for this thread, for engagement and new-reply markers
+  const threadReplies = useMemo((): Note[] => {
+    if (!notesById) return [];
+    return (Array.from(notesById.values()) as Note[]).filter(
+      (n) => n.id !== effectiveRootId && !muteFilter.isNoteMuted(n)
+    );
+  }, [notesById, effectiveRootId, muteFilter]);
+
+  const getEngagement = useReplyEngagement(
+    threadReplies,
+    relayUrls,
+    sortMode === "top",
+    pubkey
+  );
+
+  const sortNotes = useCallback(
+    (notes: Note[]) =>
+      sortReplies(notes, sortMode, {
+        getEngagement,
+        isFollowing,
+        myPubkey: pubkey,
+      }),
+    [sortMode, getEngagement, isFollowing, pubkey]
+  );
+
+  // Previous visit to this thread, read once so markers survive this visit
+  const lastVisitAt = useMemo(
+    () => uiStore.state.threadLastVisits?.[effectiveRootId as string] ?? null,
+    [effectiveRootId]
+  );
+
+  useEffect(() => {
+    if (!effectiveRootId) return;
+    const rootId = effectiveRootId as string;
+    setThreadLastVisit(rootId, Math.floor(Date.now() / 1000));
+    return () => setThreadLastVisit(rootId, Math.floor(Date.now() / 1000));
+  }, [effectiveRootId]);
+
+  const newReplyIds = useMemo(
+    () => getNewReplyIds(threadReplies, lastVisitAt, pubkey),
+    [threadReplies, lastVisitAt, pubkey]
+  );
+
+  // Cycle through rendered new replies in page order
+  const lastJumpedReplyRef = useRef<string | null>(null);
+  const jumpToNewReply = useCallback((direction: 1 | -1) => {
+    const elements = Array.from(
+      document.querySelectorAll<HTMLElement>('[data-new-reply="true"]')
+    );
+    if (elements.length === 0) return;
+    const current = elements.findIndex(
+      (el) => el.getAttribute("data-note-id") === lastJumpedReplyRef.current
+    );
+    const nextIndex =
+      current === -1
+        ? direction === 1
+          ? 0
+          : elements.length - 1
+        : (current + direction + elements.length) % elements.length;
+    const target = elements[nextIndex];
+    lastJumpedReplyRef.current = target.getAttribute("data-note-id");
+    target.scrollIntoView({ behavior: "smooth", block: "start" });
+  }, []);
 
   const safeParentNote = useMemo(() => {
     if (!notesById || !currentParentId) return null;
@@ -102,9 +197,9 @@ const ThreadPage: React.FC = () => {
     if (!notesById || !directChildrenIds) return [] as any[];
     const arr = directChildrenIds
       .map((id) => notesById.get(id))
-      .filter((n) => Boolean(n));
-    return arr as any[];
-  }, [notesById, directChildrenIds]);
+      .filter((n) => Boolean(n) && !muteFilter.isNoteMuted(n));
+    return sortNotes(arr as any[]);
+  }, [notesById, directChildrenIds, muteFilter, sortNotes]);
 
   const threadStructure = useMemo(() => {
     if (!notesById || !childrenIdMap) return null as Map<string, any[]> | null;
@@ -112,11 +207,11 @@ const ThreadPage: React.FC = () => {
     for (const [pid, childIds] of Object.entries(childrenIdMap)) {
       const children = (childIds || [])
         .map((cid) => notesById.get(cid))
-        .filter((n) => Boolean(n));
+        .filter((n) => Boolean(n) && !muteFilter.isNoteMuted(n));
       if (children.length > 0) map.set(pid, children as any[]);
     }
     return map;
-  }, [notesById, childrenIdMap]);
+  }, [notesById, childrenIdMap, muteFilter]);
 
   // Always-expanded set derived from structure
   const expandedNestedReplies = useMemo(() => {
@@ -142,6 +237,19 @@ const ThreadPage: React.FC = () => {
     enabled: Boolean(effectiveRootId && relayUrls.length),
   });
 
+  useLiveThreadReplies({
+    rootId: effectiveRootId as string,
+    relayUrls,
+    nostrClient,
+    myPubkey: pubkey,
+    enabled: Boolean(effectiveRootId && relayUrls.length),
+  });
+
+  const pendingReplyCount = useMemo(
+    () => (pendingNotes || []).filter((n) => !muteFilter.isNoteMuted(n)).length,
+    [pendingNotes, muteFilter]
+  );
+
   const prefetchThreadFn = useCallback(
     (targetNoteId: string) => {
       if (!targetNoteId) return;
@@ -399,6 +507,8 @@ const ThreadPage: React.FC = () => {
             });
         }
       }}
+      onNextNewReply={() => jumpToNewReply(1)}
+      onPreviousNewReply={() => jumpToNewReply(-1)}
       onBackToFeed={() => {
         try {
           const s: any = { ...(window.history.state || {}) };
@@ -671,6 +781,22 @@ const ThreadPage: React.FC = () => {
                           padding: isMobileLayout ? "0" : "1rem",
                         }}
                       >
+                        <NewRepliesIndicator
+                          count={pendingReplyCount}
+                          onReveal={() => revealPending(effectiveRootId as string)}
+                          isMobile={isMobileLayout}
+                        />
+                        {comments.length > 0 && (
+                          <ThreadSortBar
+                            sortMode={sortMode}
+                            onSortModeChange={(mode) =>
+                              setThreadSortMode(effectiveRootId as string, mode)
+                            }
+                            newReplyCount={newReplyIds.size}
+                            onNextNewReply={() => jumpToNewReply(1)}
+                            isLoggedIn={Boolean(pubkey)}
+                          />
+                        )}
                         <CommentsList
                           isLoadingComments={status.isLoading && comments.length === 0}
                           comments={comments}
@@ -706,6 +832,8 @@ const ThreadPage: React.FC = () => {
                           onMediaLoadError={handleMediaLoadError}
                           onImageDimensionsLoaded={handleImageDimensionsLoaded}
                           prefetchThreadFn={prefetchThreadFn}
+                          sortReplies={sortNotes}
+                          newReplyIds={newReplyIds}
                         />
                       </div>
                     )}
@@ -6,6 +6,7 @@ interface ZapCommentsProps {
   noteId: string;
   relayUrls: string[];
   noteAuthorPubkey?: string;
+  splitRecipients?: string[];
   getDisplayNameForPubkey: (pubkey: string) => string;
   isDarkMode?: boolean;
 }
@@ -14,6 +15,7 @@ const ZapComments: React.FC<ZapCommentsProps> = ({
   noteId,
   relayUrls,
   noteAuthorPubkey,
+  splitRecipients,
   getDisplayNameForPubkey,
   isDarkMode = false,
 }) => {
@@ -21,6 +23,7 @@ const ZapComments: React.FC<ZapCommentsProps> = ({
     noteId,
     relayUrls,
     noteAuthorPubkey,
+    splitRecipients,
   });
 
   // Filter receipts that have comments
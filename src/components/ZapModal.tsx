@@ -9,6 +9,28 @@ import {
   getCurrentPubkeyHex,
 } from "../utils/nostr/pubkeyUtils";
 import { useNostrifyNote } from "../hooks/useNostrifyThread";
+import {
+  getZapSplits,
+  splitZapAmount,
+  type ZapSplitShare,
+} from "../utils/nostr/zapSplits";
+
+type SplitPaymentStatus = "pending" | "sending" | "paid" | "failed";
+
+interface SplitPayment extends ZapSplitShare {
+  status: SplitPaymentStatus;
+  error?: string;
+}
+
+const SPLIT_STATUS_LABELS: Record<SplitPaymentStatus, string> = {
+  pending: "Waiting",
+  sending: "Sending…",
+  paid: "Paid",
+  failed: "Failed",
+};
+
+const isKeyLockedError = (message: string) =>
+  message.includes("Key is locked") || message.includes("unlock your NSEC key");
 
 interface ZapModalProps {
   noteId: string;
@@ -50,14 +72,141 @@ const ZapModal: React.FC<ZapModalProps> = ({
   const [zapComment, setZapComment] = useState("");
   const [showUnlockModal, setShowUnlockModal] = useState(false);
   const [zapError, setZapError] = useState<string | null>(null);
+  // Per-recipient progress when the note declares zap splits
+  const [splitPayments, setSplitPayments] = useState<SplitPayment[] | null>(
+    null
+  );
 
-  // Resolve recipient pubkey if not provided (e.g., when opened from global modal)
+  // Load the target note for its zap split tags, and for the recipient when
+  // none was provided (e.g., when opened from global modal)
   const { note: targetNote } = useNostrifyNote({
     noteId,
     relayUrls,
-    enabled: isOpen && !recipientPubkey,
+    enabled: isOpen,
   });
   const effectiveRecipientPubkey = recipientPubkey || targetNote?.pubkey || "";
+  const zapSplits = useMemo(
+    () => getZapSplits(targetNote?.tags),
+    [targetNote?.tags]
+  );
+  // Re-splitting a partly paid zap would pay the finished shares again
+  const hasUnpaidShares =
+    !!splitPayments &&
+    splitPayments.some((p) => p.status === "paid") &&
+    splitPayments.some((p) => p.status !== "paid");
+  const splitPreview = useMemo(
+    () => splitZapAmount(Number(zapAmount), zapSplits),
+    [zapAmount, zapSplits]
+  );
+
+  const sendZapWithTimeout = useCallback(
+    async (request: Parameters<typeof sendZap>[0]) => {
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+      // Add timeout protection to prevent indefinite hanging
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(() => {
+          reject(
+            new Error(
+              "Zap request timed out. Please open your Nostr extension/NWC wallet to approve the request, check your connection, and try again."
+            )
+          );
+        }, 60000); // 60 second timeout to allow user approval
+      });
+      try {
+        return await Promise.race([sendZap(request), timeoutPromise]);
+      } finally {
+        if (timeoutId !== undefined) {
+          clearTimeout(timeoutId);
+        }
+      }
+    },
+    [sendZap]
+  );
+
+  const triggerZapHaptic = useCallback(() => {
+    // 🎯 TRIGGER HAPTIC AFTER SUCCESSFUL ZAP (outside user gesture context)
+    console.log("🎯 Triggering haptic feedback for successful zap");
+    try {
+      triggerHaptic();
+      console.log("✅ Haptic feedback triggered successfully for zap");
+    } catch (error) {
+      console.error("❌ Haptic feedback failed for zap:", error);
+    }
+  }, [triggerHaptic]);
+
+  /**
+   * Pay each split recipient in turn. A retry only re-sends the shares that
+   * have not been paid yet.
+   */
+  const handleSplitZap = useCallback(async () => {
+    const comment = zapComment.trim() || undefined;
+    let payments: SplitPayment[] =
+      splitPayments && splitPayments.some((p) => p.status !== "paid")
+        ? splitPayments
+        : splitPreview.map((share) => ({ ...share, status: "pending" }));
+    const update = (index: number, patch: Partial<SplitPayment>) => {
+      payments = payments.map((p, i) => (i === index ? { ...p, ...patch } : p));
+      setSplitPayments(payments);
+    };
+    setSplitPayments(payments);
+
+    let paidNow = 0;
+    for (let i = 0; i < payments.length; i++) {
+      if (payments[i].status === "paid") continue;
+      update(i, { status: "sending", error: undefined });
+      try {
+        const result = await sendZapWithTimeout({
+          amount: payments[i].amount,
+          comment,
+          recipientPubkey: payments[i].pubkey,
+          eventId: noteId,
+        });
+        if (result.success) {
+          paidNow += payments[i].amount;
+          update(i, { status: "paid" });
+        } else {
+          update(i, {
+            status: "failed",
+            error: result.error || "Failed to send zap",
+          });
+        }
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Failed to send zap";
+        if (isKeyLockedError(message)) {
+          update(i, { status: "pending" });
+          setShowUnlockModal(true);
+          break;
+        }
+        update(i, { status: "failed", error: message });
+      }
+    }
+
+    if (paidNow > 0) {
+      triggerZapHaptic();
+      onZapSuccess?.(paidNow);
+    }
+    const failed = payments.filter((p) => p.status === "failed").length;
+    if (payments.every((p) => p.status === "paid")) {
+      onClose();
+      setZapComment("");
+      setSplitPayments(null);
+    } else if (failed > 0) {
+      const errorMsg = `${failed} of ${payments.length} split payments failed`;
+      setZapError(errorMsg);
+      onZapError?.(errorMsg);
+    }
+  }, [
+    zapComment,
+    splitPayments,
+    splitPreview,
+    sendZapWithTimeout,
+    noteId,
+    triggerZapHaptic,
+    onZapSuccess,
+    onZapError,
+    onClose,
+  ]);
 
   const handleZap = useCallback(async () => {
     if (!walletInfo.connected) {
@@ -74,7 +223,15 @@ const ZapModal: React.FC<ZapModalProps> = ({
 
     setIsZapping(true);
     setZapError(null); // Clear any previous errors
-    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    if (splitPreview.length > 0) {
+      try {
+        await handleSplitZap();
+      } finally {
+        setIsZapping(false);
+      }
+      return;
+    }
 
     try {
       if (!effectiveRecipientPubkey) {
@@ -82,35 +239,15 @@ const ZapModal: React.FC<ZapModalProps> = ({
           "Unable to load note author. Please wait for the note to load and try again."
         );
       }
-      // Add timeout protection to prevent indefinite hanging
-      const zapPromise = sendZap({
+      const result = await sendZapWithTimeout({
         amount: numericAmount,
         comment: zapComment.trim() || undefined,
         recipientPubkey: effectiveRecipientPubkey,
         eventId: noteId,
       });
 
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        timeoutId = setTimeout(() => {
-          reject(
-            new Error(
-              "Zap request timed out. Please open your Nostr extension/NWC wallet to approve the request, check your connection, and try again."
-            )
-          );
-        }, 60000); // 60 second timeout to allow user approval
-      });
-
-      const result = await Promise.race([zapPromise, timeoutPromise]);
-
       if (result.success) {
-        // 🎯 TRIGGER HAPTIC AFTER SUCCESSFUL ZAP (outside user gesture context)
-        console.log("🎯 Triggering haptic feedback for successful zap");
-        try {
-          triggerHaptic();
-          console.log("✅ Haptic feedback triggered successfully for zap");
-        } catch (error) {
-          console.error("❌ Haptic feedback failed for zap:", error);
-        }
+        triggerZapHaptic();
 
         onZapSuccess?.(numericAmount);
         onClose();
@@ -125,10 +262,7 @@ const ZapModal: React.FC<ZapModalProps> = ({
         error instanceof Error ? error.message : "Failed to send zap";
 
       // Check if this is a key unlock error
-      if (
-        errorMessage.includes("Key is locked") ||
-        errorMessage.includes("unlock your NSEC key")
-      ) {
+      if (isKeyLockedError(errorMessage)) {
         setIsZapping(false);
         setShowUnlockModal(true);
         return;
@@ -148,12 +282,11 @@ const ZapModal: React.FC<ZapModalProps> = ({
       onZapError?.(displayError);
     } finally {
       setIsZapping(false);
-      if (timeoutId !== undefined) {
-        clearTimeout(timeoutId);
-      }
     }
   }, [
-    sendZap,
+    sendZapWithTimeout,
+    handleSplitZap,
+    splitPreview.length,
     walletInfo.connected,
     zapAmount,
     zapComment,
@@ -162,7 +295,7 @@ const ZapModal: React.FC<ZapModalProps> = ({
     onZapSuccess,
     onZapError,
     onClose,
-    triggerHaptic,
+    triggerZapHaptic,
   ]);
 
   const handleUnlockSuccess = useCallback(async () => {
@@ -272,7 +405,16 @@ const ZapModal: React.FC<ZapModalProps> = ({
             type="number"
             pattern="\d*"
             value={zapAmount}
-            onChange={(e) => setZapAmount(e.target.value)}
+            onChange={(e) => {
+              setZapAmount(e.target.value);
+              setSplitPayments(null);
+            }}
+            disabled={isZapping || hasUnpaidShares}
+            title={
+              hasUnpaidShares
+                ? "Locked until the remaining split payments are sent"
+                : undefined
+            }
             min="1"
             style={{
               width: "100%",
@@ -311,6 +453,53 @@ const ZapModal: React.FC<ZapModalProps> = ({
           />
         </div>
 
+        {splitPreview.length > 0 && (
+          <div style={{ marginBottom: "16px", color: "var(--text-color)" }}>
+            <div style={{ marginBottom: "8px" }}>
+              Split between {splitPreview.length} recipient
+              {splitPreview.length === 1 ? "" : "s"}:
+            </div>
+            {(splitPayments ?? splitPreview).map((share) => {
+              const status = (share as SplitPayment).status;
+              return (
+                <div
+                  key={share.pubkey}
+                  style={{
+                    display: "flex",
+                    justifyContent: "space-between",
+                    gap: "8px",
+                    fontSize: "0.9rem",
+                    padding: "2px 0",
+                  }}
+                  title={(share as SplitPayment).error}
+                >
+                  <span style={{ overflowWrap: "anywhere", textAlign: "start" }}>
+                    {getDisplayNameForPubkey(share.pubkey)}
+                  </span>
+                  <span style={{ whiteSpace: "nowrap" }}>
+                    {share.amount} sats
+                    {status && (
+                      <span
+                        style={{
+                          marginLeft: "8px",
+                          color:
+                            status === "failed"
+                              ? "#c62828"
+                              : status === "paid"
+                              ? "var(--accent-color)"
+                              : "var(--text-muted)",
+                        }}
+                      >
+                        {SPLIT_STATUS_LABELS[status]}
+                      </span>
+                    )}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
         {!walletInfo.connected && (
           <div
             style={{
@@ -403,7 +592,9 @@ const ZapModal: React.FC<ZapModalProps> = ({
             {isZapping
               ? "Sending..."
               : zapError
-              ? "Retry Zap"
+              ? splitPayments?.some((p) => p.status === "paid")
+                ? "Retry Failed"
+                : "Retry Zap"
               : `Zap ${zapAmount || 0} sats`}
           </button>
         </div>
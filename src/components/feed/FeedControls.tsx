@@ -3,7 +3,7 @@ import { useNavigate } from "@tanstack/react-router";
 import { FilterIndicators } from "./FilterIndicators";
 import { NavigationControls } from "./NavigationControls";
 import { NewNotesIndicator } from "./NewNotesIndicator";
-import { RelaySelector } from "./RelaySelector";
+import { RelaySelector, type FollowSetOption } from "./RelaySelector";
 import { OutboxProgressStatus } from "./OutboxProgressStatus";
 import { feedStyles } from "./styles";
 import { useUIStore } from "../lib/useUIStore";
@@ -40,6 +40,8 @@ interface FeedControlsProps {
   userPubkey?: string | null;
   hasContacts?: boolean;
   contactsLoading?: boolean;
+  // NIP-51 follow sets selectable as the feed source
+  followSets?: FollowSetOption[];
 }
 
 export const FeedControls: React.FC<FeedControlsProps> = ({
@@ -68,6 +70,7 @@ export const FeedControls: React.FC<FeedControlsProps> = ({
   userPubkey,
   hasContacts = false,
   contactsLoading,
+  followSets,
 }) => {
   const navigate = useNavigate();
   const uiIsDarkMode = useUIStore((s) => s.isDarkMode);
@@ -180,6 +183,7 @@ export const FeedControls: React.FC<FeedControlsProps> = ({
                   userPubkey={userPubkey}
                   hasContacts={hasContacts}
                   contactsLoading={contactsLoading}
+                  followSets={followSets}
                 />
               )}
               {/* mobile New Notes Indicator */}
@@ -219,6 +223,7 @@ export const FeedControls: React.FC<FeedControlsProps> = ({
                   userPubkey={userPubkey}
                   hasContacts={hasContacts}
                   contactsLoading={contactsLoading}
+                  followSets={followSets}
                 />
               )}
 
@@ -448,7 +448,7 @@ export const FeedWithHotkeys: React.FC<FeedWithHotkeysProps> = ({
     (action: HotkeyAction) => {
       switch (action) {
         case "help-toggle":
-          setShowShortcutHelp((prev) => !prev);
+          // Opened by onHelpToggle; toggling here too would close it again
           break;
         case "escape":
           if (showShortcutHelp) {
@@ -468,39 +468,6 @@ export const FeedWithHotkeys: React.FC<FeedWithHotkeysProps> = ({
     // The hotkey system now manages focus state directly
   }, []);
 
-  // Define shortcuts for help modal
-  const navigationShortcuts = [
-    { key: "↑", description: "Previous note" },
-    { key: "↓", description: "Next note" },
-    { key: "j", description: "Next note (Vim)" },
-    { key: "k", description: "Previous note (Vim)" },
-    { key: "Home", description: "First note" },
-    { key: "End", description: "Last note" },
-    { key: "Page Up", description: "Scroll up" },
-    { key: "Page Down", description: "Scroll down" },
-    { key: "g + g", description: "Go to top" },
-  ];
-
-  const actionShortcuts = [
-    { key: "l", description: "Copy note link" },
-    { key: "t", description: "View thread" },
-    { key: "r", description: "Repost note" },
-    { key: "z", description: "Zap note" },
-    { key: "R", description: "Reply to note" },
-    { key: "L", description: "Like note" },
-    { key: "B", description: "Bookmark note" },
-    { key: "p", description: "Parent thread" },
-    { key: "Space", description: "Toggle media" },
-    { key: "Enter", description: "Open note detail" },
-    { key: "P", description: "Parent thread" },
-    { key: "Shift + T", description: "Root thread" },
-  ];
-
-  const globalShortcuts = [
-    { key: "Shift + ?", description: "Toggle help menu" },
-    { key: "Esc", description: "Close modal / Clear focus" },
-  ];
-
   return (
     <HotkeyProvider
       totalItems={notes.length}
@@ -550,11 +517,7 @@ export const FeedWithHotkeys: React.FC<FeedWithHotkeysProps> = ({
       <ShortcutHelp
         isOpen={showShortcutHelp}
         onClose={() => setShowShortcutHelp(false)}
-        shortcuts={{
-          navigation: navigationShortcuts,
-          actions: actionShortcuts,
-          global: globalShortcuts,
-        }}
+        context="feed"
       />
     </HotkeyProvider>
   );
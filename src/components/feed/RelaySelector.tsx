@@ -11,11 +11,22 @@ interface RelaySelectorProps {
   userPubkey?: string | null;
   hasContacts?: boolean;
   contactsLoading?: boolean;
+  // NIP-51 follow sets that can be used as the feed's author source
+  followSets?: FollowSetOption[];
+}
+
+export interface FollowSetOption {
+  address: string; // "30000:<pubkey>:<d>"
+  title: string;
+  count: number;
 }
 
 // Special value to indicate "following" mode
 export const FOLLOWING_RELAY_OPTION = "__following__";
 
+// Prefix for selecting a follow set; the list address follows it
+export const LIST_RELAY_OPTION_PREFIX = "__list__:";
+
 export const RelaySelector: React.FC<RelaySelectorProps> = ({
   relayUrls,
   selectedRelay,
@@ -26,6 +37,7 @@ export const RelaySelector: React.FC<RelaySelectorProps> = ({
   userPubkey,
   hasContacts = false,
   contactsLoading = false,
+  followSets = [],
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
@@ -69,6 +81,10 @@ export const RelaySelector: React.FC<RelaySelectorProps> = ({
   const getSelectedRelayDisplay = () => {
     if (!selectedRelay) return "Select relay";
     if (selectedRelay === FOLLOWING_RELAY_OPTION) return "Following";
+    if (selectedRelay.startsWith(LIST_RELAY_OPTION_PREFIX)) {
+      const address = selectedRelay.slice(LIST_RELAY_OPTION_PREFIX.length);
+      return followSets.find((l) => l.address === address)?.title || "List";
+    }
     return formatRelayUrl(selectedRelay);
   };
 
@@ -78,6 +94,8 @@ export const RelaySelector: React.FC<RelaySelectorProps> = ({
   // Disable only while contacts are still loading AND we don't yet have contacts
   const followingOptionDisabled = Boolean(contactsLoading && !hasContacts);
 
+  const showListOptions = Boolean(userPubkey && followSets.length > 0);
+
   return (
     <div
       ref={dropdownRef}
@@ -254,6 +272,77 @@ export const RelaySelector: React.FC<RelaySelectorProps> = ({
               </>
             )}
 
+            {/* Follow set options - curated author lists (NIP-51) */}
+            {showListOptions && (
+              <>
+                {followSets.map((list) => {
+                  const value = `${LIST_RELAY_OPTION_PREFIX}${list.address}`;
+                  const isSelected = selectedRelay === value;
+                  return (
+                    <button
+                      key={value}
+                      onClick={() => handleRelaySelect(value)}
+                      disabled={list.count === 0}
+                      style={{
+                        display: "flex",
+                        alignItems: "center",
+                        gap: "0.5rem",
+                        padding: "0.5rem 0.75rem",
+                        cursor: list.count === 0 ? "not-allowed" : "pointer",
+                        backgroundColor: "transparent",
+                        border: "none",
+                        transition: "all 0.2s ease",
+                        width: "100%",
+                        textAlign: "left",
+                        color:
+                          list.count === 0
+                            ? "var(--text-muted)"
+                            : "var(--text-color)",
+                        fontSize: "0.75rem",
+                        fontWeight: isSelected ? "600" : "normal",
+                      }}
+                      onMouseEnter={(e) => {
+                        if (!isSelected && list.count > 0) {
+                          e.currentTarget.style.backgroundColor = isDarkMode
+                            ? "rgba(255, 255, 255, 0.05)"
+                            : "rgba(0, 0, 0, 0.03)";
+                        }
+                      }}
+                      onMouseLeave={(e) => {
+                        if (!isSelected) {
+                          e.currentTarget.style.backgroundColor = "transparent";
+                        }
+                      }}
+                      title={`Show notes from the ${list.count} people in "${list.title}"`}
+                    >
+                      {isSelected && (
+                        <span
+                          style={{
+                            fontSize: "0.7rem",
+                            marginRight: "0.25rem",
+                          }}
+                        >
+                          ✓
+                        </span>
+                      )}
+                      <span style={{ flex: 1 }}>{list.title}</span>
+                      <span style={{ color: "var(--text-muted)" }}>
+                        {list.count}
+                      </span>
+                    </button>
+                  );
+                })}
+                {/* Divider between lists and relay list */}
+                <div
+                  style={{
+                    height: "1px",
+                    backgroundColor: "var(--border-color)",
+                    margin: "0.25rem 0",
+                  }}
+                />
+              </>
+            )}
+
             {relayUrls.length === 0 && !showFollowingOption ? (
               <div
                 style={{
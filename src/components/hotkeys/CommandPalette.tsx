@@ -0,0 +1,577 @@
+import React, {
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { useLocation, useNavigate } from "@tanstack/react-router";
+import { nip19 } from "nostr-tools";
+import { NostrContext } from "../../contexts/NostrContext";
+import { useRelayManager } from "../../hooks/useRelayManager";
+import { useDisplayNames } from "../../hooks/useDisplayNames";
+import { DEFAULT_RELAY_URLS } from "../../utils/nostr/constants";
+import { useUIStore } from "../lib/useUIStore";
+import {
+  setImageMode,
+  setIsDarkMode,
+  setLongFormMode,
+  setOutboxMode,
+  setShowReplies,
+  setShowReposts,
+  setShowSettings,
+  setUseAscii,
+  setUseColor,
+  setVimMode,
+  type UIState,
+} from "../lib/uiStore";
+import type { HotkeyAction } from "../../types/hotkeys";
+import {
+  DEFAULT_KEY_BINDINGS,
+  HOTKEY_ACTION_INFO,
+  dispatchHotkeyAction,
+} from "../../utils/keymap";
+import { parseSearchInput } from "../../utils/search/parse";
+import { resolveNip05 } from "../../utils/search/people";
+import { fuzzyFilter } from "../../utils/search/fuzzy";
+import {
+  addRecentVisit,
+  clearRecentVisits,
+  getRecentVisits,
+  type RecentVisit,
+} from "../../utils/recentVisits";
+
+type CommandGroup = "Go to" | "Recent" | "Navigate" | "Settings" | "Actions";
+
+interface PaletteCommand {
+  id: string;
+  group: CommandGroup;
+  label: string;
+  hint?: string;
+  // A returned string is shown as an error and keeps the palette open
+  run: () => string | void | Promise<string | void>;
+}
+
+const MAX_RESULTS = 50;
+
+const NAVIGATION_ROUTES: { label: string; to: string }[] = [
+  { label: "Home feed", to: "/" },
+  { label: "Search", to: "/search" },
+  { label: "Notifications", to: "/notifications" },
+  { label: "Messages", to: "/messages" },
+  { label: "Bookmarks", to: "/bookmarks" },
+  { label: "Drafts", to: "/drafts" },
+  { label: "New note", to: "/create" },
+  { label: "Write article", to: "/write" },
+  { label: "About", to: "/about" },
+];
+
+type ToggleKey =
+  | "isDarkMode"
+  | "longFormMode"
+  | "imageMode"
+  | "useAscii"
+  | "useColor"
+  | "vimMode"
+  | "showReplies"
+  | "showReposts"
+  | "outboxMode";
+
+const SETTING_TOGGLES: {
+  key: ToggleKey;
+  label: string;
+  set: (value: boolean) => void;
+}[] = [
+  { key: "isDarkMode", label: "Dark mode", set: setIsDarkMode },
+  { key: "longFormMode", label: "Long form mode", set: setLongFormMode },
+  { key: "imageMode", label: "Media mode", set: setImageMode },
+  { key: "useAscii", label: "ASCII mode", set: setUseAscii },
+  {
+    key: "useColor",
+    label: "Color mode",
+    set: (value) => {
+      setUseColor(value);
+      // ASCII renders are cached per color setting
+      localStorage.removeItem("asciiCache");
+    },
+  },
+  { key: "vimMode", label: "Vim mode", set: setVimMode },
+  { key: "showReplies", label: "Show replies", set: setShowReplies },
+  { key: "showReposts", label: "Show reposts", set: setShowReposts },
+  { key: "outboxMode", label: "Outbox mode", set: setOutboxMode },
+];
+
+const shortNoteId = (noteId: string): string => {
+  try {
+    return nip19.noteEncode(noteId).substring(0, 16) + "...";
+  } catch {
+    return noteId.substring(0, 12) + "...";
+  }
+};
+
+const pubkeyFromNpub = (npub: string): string | null => {
+  const parsed = parseSearchInput(npub);
+  return parsed.type === "person" ? parsed.pubkeyHex ?? null : null;
+};
+
+// The visit a route represents, if it is a profile or thread page
+const visitForPath = (
+  pathname: string
+): Pick<RecentVisit, "type" | "id"> | null => {
+  const profile = pathname.match(/^\/npub\/([^/]+)/);
+  if (profile) {
+    const parsed = parseSearchInput(decodeURIComponent(profile[1]));
+    return parsed.type === "person" && parsed.npub
+      ? { type: "profile", id: parsed.npub }
+      : null;
+  }
+  const thread = pathname.match(/^\/(?:thread|note)\/([^/]+)/);
+  if (thread) {
+    const parsed = parseSearchInput(decodeURIComponent(thread[1]));
+    if (parsed.type === "note" && parsed.noteIdHex) {
+      return { type: "thread", id: parsed.noteIdHex };
+    }
+    if (parsed.type === "ambiguous_hex") {
+      return { type: "thread", id: parsed.input.toLowerCase() };
+    }
+  }
+  return null;
+};
+
+interface CommandPaletteDialogProps {
+  onClose: () => void;
+}
+
+const CommandPaletteDialog: React.FC<CommandPaletteDialogProps> = ({
+  onClose,
+}) => {
+  const navigate = useNavigate();
+  const { nostrClient, pubkey } = useContext(NostrContext);
+  const { relayUrls } = useRelayManager({
+    nostrClient,
+    initialRelays: DEFAULT_RELAY_URLS,
+    pubkeyHex: pubkey,
+  });
+  const { getDisplayNameForPubkey } = useDisplayNames(relayUrls);
+  const settings = useUIStore((s) => s);
+
+  const [query, setQuery] = useState("");
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [recentVisits, setRecentVisits] = useState(getRecentVisits);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  const go = useCallback(
+    (to: string) => {
+      navigate({ to });
+    },
+    [navigate]
+  );
+
+  // Commands for a pasted npub, nevent, naddr, NIP-05 or hex id
+  const entityCommands = useMemo((): PaletteCommand[] => {
+    const parsed = parseSearchInput(query);
+    const profileCommand = (pubkeyHex: string): PaletteCommand => {
+      const npub = nip19.npubEncode(pubkeyHex);
+      return {
+        id: `entity-profile-${pubkeyHex}`,
+        group: "Go to",
+        label: `Profile: ${getDisplayNameForPubkey(pubkeyHex)}`,
+        hint: npub.substring(0, 16) + "...",
+        run: () => go(`/npub/${npub}`),
+      };
+    };
+    const threadCommand = (noteId: string): PaletteCommand => ({
+      id: `entity-thread-${noteId}`,
+      group: "Go to",
+      label: "Thread",
+      hint: shortNoteId(noteId),
+      run: () => go(`/thread/${noteId}`),
+    });
+
+    switch (parsed.type) {
+      case "person":
+        return parsed.pubkeyHex ? [profileCommand(parsed.pubkeyHex)] : [];
+      case "note":
+        return parsed.noteIdHex ? [threadCommand(parsed.noteIdHex)] : [];
+      case "address": {
+        if (!parsed.address) return [];
+        const commands: PaletteCommand[] = [];
+        if (parsed.address.kind === 30023) {
+          commands.push({
+            id: `entity-article-${parsed.input}`,
+            group: "Go to",
+            label: `Article: ${parsed.address.identifier || "untitled"}`,
+            run: () => go(`/article/${parsed.input}`),
+          });
+        }
+        commands.push(profileCommand(parsed.address.pubkey));
+        return commands;
+      }
+      case "nip05":
+        return [
+          {
+            id: `entity-nip05-${parsed.input}`,
+            group: "Go to",
+            label: `Profile: ${parsed.input}`,
+            hint: "NIP-05",
+            run: async () => {
+              setPending(`Looking up ${parsed.input}...`);
+              const result = await resolveNip05(parsed.input);
+              setPending(null);
+              if (!result.pubkeyHex) {
+                return `Could not resolve ${parsed.input}: ${result.error || "not found"}`;
+              }
+              go(`/npub/${nip19.npubEncode(result.pubkeyHex)}`);
+            },
+          },
+        ];
+      case "ambiguous_hex": {
+        const hex = parsed.input.toLowerCase();
+        return [profileCommand(hex), threadCommand(hex)];
+      }
+      default:
+        return [];
+    }
+  }, [query, go, getDisplayNameForPubkey]);
+
+  const commands = useMemo((): PaletteCommand[] => {
+    const list: PaletteCommand[] = [];
+
+    for (const visit of recentVisits) {
+      if (visit.type === "profile") {
+        const pk = pubkeyFromNpub(visit.id);
+        list.push({
+          id: `recent-profile-${visit.id}`,
+          group: "Recent",
+          label: pk ? getDisplayNameForPubkey(pk) : visit.id,
+          hint: "profile",
+          run: () => go(`/npub/${visit.id}`),
+        });
+      } else {
+        list.push({
+          id: `recent-thread-${visit.id}`,
+          group: "Recent",
+          label: `Thread ${shortNoteId(visit.id)}`,
+          hint: "thread",
+          run: () => go(`/thread/${visit.id}`),
+        });
+      }
+    }
+
+    if (pubkey) {
+      list.push({
+        id: "nav-my-profile",
+        group: "Navigate",
+        label: "My profile",
+        run: () => go(`/npub/${nip19.npubEncode(pubkey)}`),
+      });
+    }
+    for (const route of NAVIGATION_ROUTES) {
+      list.push({
+        id: `nav-${route.to}`,
+        group: "Navigate",
+        label: route.label,
+        hint: route.to,
+        run: () => go(route.to),
+      });
+    }
+
+    list.push({
+      id: "settings-open",
+      group: "Settings",
+      label: "Open settings",
+      run: () => setShowSettings(true),
+    });
+    for (const toggle of SETTING_TOGGLES) {
+      const value = Boolean(settings[toggle.key as keyof UIState]);
+      list.push({
+        id: `toggle-${toggle.key}`,
+        group: "Settings",
+        label: `${value ? "Disable" : "Enable"} ${toggle.label.toLowerCase()}`,
+        hint: value ? "on" : "off",
+        run: () => toggle.set(!value),
+      });
+    }
+    if (recentVisits.length > 0) {
+      list.push({
+        id: "settings-clear-recent",
+        group: "Settings",
+        label: "Clear recently visited",
+        run: () => {
+          clearRecentVisits();
+          setRecentVisits([]);
+        },
+      });
+    }
+
+    for (const action of Object.keys(HOTKEY_ACTION_INFO) as HotkeyAction[]) {
+      const binding =
+        settings.keymap?.bindings[action] ?? DEFAULT_KEY_BINDINGS[action];
+      list.push({
+        id: `action-${action}`,
+        group: "Actions",
+        label: HOTKEY_ACTION_INFO[action].label,
+        hint: binding?.[0],
+        run: () => {
+          if (!dispatchHotkeyAction(action)) {
+            return `"${HOTKEY_ACTION_INFO[action].label}" is not available here`;
+          }
+        },
+      });
+    }
+    return list;
+  }, [recentVisits, pubkey, settings, go, getDisplayNameForPubkey]);
+
+  const results = useMemo(
+    () =>
+      [
+        ...entityCommands,
+        ...fuzzyFilter(query, commands, (command) => command.label),
+      ].slice(0, MAX_RESULTS),
+    [entityCommands, commands, query]
+  );
+
+  useEffect(() => {
+    setSelectedIndex(0);
+    setError(null);
+  }, [query]);
+
+  useEffect(() => {
+    const selected = listRef.current?.querySelector<HTMLElement>(
+      `[data-index="${selectedIndex}"]`
+    );
+    selected?.scrollIntoView?.({ block: "nearest" });
+  }, [selectedIndex]);
+
+  const runCommand = async (command: PaletteCommand | undefined) => {
+    if (!command || pending) return;
+    setError(null);
+    try {
+      const message = await command.run();
+      if (message) {
+        setError(message);
+        return;
+      }
+      onClose();
+    } catch (err) {
+      setPending(null);
+      console.error("Command failed:", err);
+      setError(err instanceof Error ? err.message : "Command failed");
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setSelectedIndex((i) => Math.min(i + 1, results.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setSelectedIndex((i) => Math.max(i - 1, 0));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      runCommand(results[selectedIndex]);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        inset: 0,
+        backgroundColor: "rgba(0, 0, 0, 0.5)",
+        zIndex: 1000,
+        display: "flex",
+        justifyContent: "center",
+        alignItems: "flex-start",
+        paddingTop: "15vh",
+      }}
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          width: "min(600px, calc(100vw - 2rem))",
+          backgroundColor: "var(--app-bg-color)",
+          border: "1px solid var(--border-color)",
+          color: "var(--text-color)",
+          fontFamily: "IBM Plex Mono, monospace",
+          textAlign: "left",
+        }}
+      >
+        <input
+          ref={inputRef}
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Type a command, npub, nevent, naddr or name@domain"
+          spellCheck={false}
+          autoComplete="off"
+          aria-label="Command"
+          aria-activedescendant={
+            results[selectedIndex]
+              ? `palette-${results[selectedIndex].id}`
+              : undefined
+          }
+          style={{
+            width: "100%",
+            boxSizing: "border-box",
+            padding: "0.75rem",
+            backgroundColor: "transparent",
+            color: "var(--text-color)",
+            border: "none",
+            borderBottom: "1px dotted var(--border-color)",
+            outline: "none",
+            fontSize: "var(--font-size-base)",
+            fontFamily: "inherit",
+          }}
+        />
+        {(pending || error) && (
+          <div
+            style={{
+              padding: "0.5rem 0.75rem",
+              fontSize: "0.75rem",
+              color: error ? "var(--error-color)" : "var(--text-color-muted)",
+            }}
+          >
+            {error || pending}
+          </div>
+        )}
+        <div
+          ref={listRef}
+          role="listbox"
+          style={{ maxHeight: "50vh", overflowY: "auto" }}
+        >
+          {results.length === 0 && (
+            <div
+              style={{
+                padding: "0.75rem",
+                fontSize: "0.75rem",
+                color: "var(--text-color-muted)",
+              }}
+            >
+              No matching commands
+            </div>
+          )}
+          {results.map((command, index) => {
+            const selected = index === selectedIndex;
+            const showGroup =
+              index === 0 || results[index - 1].group !== command.group;
+            return (
+              <React.Fragment key={command.id}>
+                {showGroup && !query.trim() && (
+                  <div
+                    style={{
+                      padding: "0.5rem 0.75rem 0.25rem",
+                      fontSize: "0.75rem",
+                      color: "var(--text-color-muted)",
+                    }}
+                  >
+                    {command.group}
+                  </div>
+                )}
+                <div
+                  id={`palette-${command.id}`}
+                  role="option"
+                  aria-selected={selected}
+                  data-index={index}
+                  onMouseMove={() => setSelectedIndex(index)}
+                  onClick={() => runCommand(command)}
+                  style={{
+                    display: "flex",
+                    justifyContent: "space-between",
+                    gap: "0.5rem",
+                    padding: "0.375rem 0.75rem",
+                    cursor: "pointer",
+                    fontSize: "var(--font-size-sm)",
+                    fontWeight: selected ? 700 : 400,
+                    backgroundColor: selected
+                      ? "var(--background-color-secondary)"
+                      : "transparent",
+                  }}
+                >
+                  <span
+                    style={{
+                      overflow: "hidden",
+                      textOverflow: "ellipsis",
+                      whiteSpace: "nowrap",
+                    }}
+                  >
+                    {query.trim() && command.group !== "Go to" && (
+                      <span style={{ color: "var(--text-color-muted)" }}>
+                        {command.group}:{" "}
+                      </span>
+                    )}
+                    {command.label}
+                  </span>
+                  {command.hint && (
+                    <span
+                      style={{
+                        flexShrink: 0,
+                        fontSize: "0.75rem",
+                        color: "var(--text-color-muted)",
+                      }}
+                    >
+                      {command.hint}
+                    </span>
+                  )}
+                </div>
+              </React.Fragment>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Ctrl/Cmd+K command palette: fuzzy search over hotkey actions, settings
+ * toggles, routes and recently visited profiles and threads, plus jumps to
+ * pasted npub/nevent/naddr/NIP-05 entities. Also records those visits.
+ */
+export const CommandPalette: React.FC = () => {
+  const location = useLocation();
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    const visit = visitForPath(location.pathname);
+    if (visit) addRecentVisit(visit.type, visit.id);
+  }, [location.pathname]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (
+        (event.ctrlKey || event.metaKey) &&
+        !event.altKey &&
+        !event.shiftKey &&
+        event.key.toLowerCase() === "k"
+      ) {
+        // Browsers use Ctrl+K for their own search bar
+        event.preventDefault();
+        setIsOpen((open) => !open);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  if (!isOpen) return null;
+  return <CommandPaletteDialog onClose={() => setIsOpen(false)} />;
+};
+
+export default CommandPalette;
@@ -1,23 +1,44 @@
-import React from "react";
+import React, { useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useUIStore } from "../lib/useUIStore";
+import type { HotkeyAction, KeymapContext } from "../../types/hotkeys";
+import {
+  HOTKEY_ACTION_INFO,
+  resolveKeymap,
+  type HotkeyGroup,
+} from "../../utils/keymap";
 
 interface ShortcutHelpProps {
   isOpen: boolean;
   onClose: () => void;
-  shortcuts: {
-    navigation: Array<{ key: string; description: string }>;
-    actions: Array<{ key: string; description: string }>;
-    global: Array<{ key: string; description: string }>;
-  };
+  // Keymap context whose active bindings are listed
+  context: KeymapContext;
 }
 
 export const ShortcutHelp: React.FC<ShortcutHelpProps> = ({
   isOpen,
   onClose,
-  shortcuts,
+  context,
 }) => {
   const isDarkMode = useUIStore((state) => state.isDarkMode);
+  const keymap = useUIStore((state) => state.keymap);
+
+  const shortcuts = useMemo(() => {
+    const groups: Record<HotkeyGroup, { action: HotkeyAction; keys: string[] }[]> = {
+      navigation: [],
+      actions: [],
+      global: [],
+    };
+    const bindings = resolveKeymap(keymap, context);
+    for (const [action, keys] of Object.entries(bindings) as [
+      HotkeyAction,
+      string[],
+    ][]) {
+      if (keys.length === 0) continue;
+      groups[HOTKEY_ACTION_INFO[action].group].push({ action, keys });
+    }
+    return groups;
+  }, [keymap, context]);
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Escape") {
@@ -25,7 +46,11 @@ export const ShortcutHelp: React.FC<ShortcutHelpProps> = ({
     }
   };
 
-  const formatKey = (key: string) => {
+  const formatKey = (key: string): string => {
+    // Chords like "g g" are pressed one step after another
+    if (key.includes(" ")) {
+      return key.split(" ").map(formatKey).join(" then ");
+    }
     return key
       .split("+")
       .map((k) => {
@@ -41,13 +66,21 @@ export const ShortcutHelp: React.FC<ShortcutHelpProps> = ({
           case "space":
             return "Space";
           case "up":
+          case "arrowup":
             return "↑";
           case "down":
+          case "arrowdown":
             return "↓";
           case "left":
+          case "arrowleft":
             return "←";
           case "right":
+          case "arrowright":
             return "→";
+          case "home":
+            return "Home";
+          case "end":
+            return "End";
           case "pageup":
             return "Page Up";
           case "pagedown":
@@ -179,9 +212,9 @@ export const ShortcutHelp: React.FC<ShortcutHelpProps> = ({
                     gap: "8px",
                   }}
                 >
-                  {shortcuts.navigation.map((shortcut, index) => (
+                  {shortcuts.navigation.map((shortcut) => (
                     <div
-                      key={index}
+                      key={shortcut.action}
                       style={{
                         display: "flex",
                         justifyContent: "space-between",
@@ -190,9 +223,13 @@ export const ShortcutHelp: React.FC<ShortcutHelpProps> = ({
                       }}
                     >
                       <span style={{ color: isDarkMode ? "#ccc" : "#666" }}>
-                        {shortcut.description}
+                        {HOTKEY_ACTION_INFO[shortcut.action].label}
+                      </span>
+                      <span>
+                        {shortcut.keys.map((key) => (
+                          <KeyBadge key={key} keyText={key} />
+                        ))}
                       </span>
-                      <KeyBadge keyText={shortcut.key} />
                     </div>
                   ))}
                 </div>
@@ -217,9 +254,9 @@ export const ShortcutHelp: React.FC<ShortcutHelpProps> = ({
                     gap: "8px",
                   }}
                 >
-                  {shortcuts.actions.map((shortcut, index) => (
+                  {shortcuts.actions.map((shortcut) => (
                     <div
-                      key={index}
+                      key={shortcut.action}
                       style={{
                         display: "flex",
                         justifyContent: "space-between",
@@ -228,9 +265,13 @@ export const ShortcutHelp: React.FC<ShortcutHelpProps> = ({
                       }}
                     >
                       <span style={{ color: isDarkMode ? "#ccc" : "#666" }}>
-                        {shortcut.description}
+                        {HOTKEY_ACTION_INFO[shortcut.action].label}
+                      </span>
+                      <span>
+                        {shortcut.keys.map((key) => (
+                          <KeyBadge key={key} keyText={key} />
+                        ))}
                       </span>
-                      <KeyBadge keyText={shortcut.key} />
                     </div>
                   ))}
                 </div>
@@ -255,9 +296,9 @@ export const ShortcutHelp: React.FC<ShortcutHelpProps> = ({
                     gap: "8px",
                   }}
                 >
-                  {shortcuts.global.map((shortcut, index) => (
+                  {shortcuts.global.map((shortcut) => (
                     <div
-                      key={index}
+                      key={shortcut.action}
                       style={{
                         display: "flex",
                         justifyContent: "space-between",
@@ -266,9 +307,13 @@ export const ShortcutHelp: React.FC<ShortcutHelpProps> = ({
                       }}
                     >
                       <span style={{ color: isDarkMode ? "#ccc" : "#666" }}>
-                        {shortcut.description}
+                        {HOTKEY_ACTION_INFO[shortcut.action].label}
+                      </span>
+                      <span>
+                        {shortcut.keys.map((key) => (
+                          <KeyBadge key={key} keyText={key} />
+                        ))}
                       </span>
-                      <KeyBadge keyText={shortcut.key} />
                     </div>
                   ))}
                 </div>
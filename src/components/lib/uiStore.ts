@@ -1,4 +1,12 @@
 import { Store } from '@tanstack/store'
+import type { Keymap } from '../../types/hotkeys'
+import type { ThreadSortMode } from '../../utils/thread/sort'
+
+// How notes reported (NIP-56) by trusted reporters are shown
+export type ReportFilterMode = 'off' | 'blur' | 'hide'
+
+// How notes flagged by the NSFW heuristics are shown
+export type NsfwMode = 'off' | 'hide' | 'blur'
 
 export interface UIState {
   showSettings: boolean
@@ -7,7 +15,9 @@ export interface UIState {
   useColor: boolean
   showReplies: boolean
   showReposts: boolean
+  // True only in 'hide' mode; feed queries drop NSFW notes when set
   nsfwBlock: boolean
+  nsfwMode: NsfwMode
   imageMode: boolean
   customHashtags: string[]
   // Long Form feed mode (NIP-23)
@@ -28,6 +38,17 @@ export interface UIState {
   outboxMode: boolean
   // Vim mode for keyboard navigation
   vimMode?: boolean
+  // User hotkey overrides layered over the default keymap
+  keymap?: Keymap
+  // Reported notes: trusted reporters are follows plus these pubkeys
+  reportFilterMode?: ReportFilterMode
+  trustedReporters?: string[]
+  // Minimum NIP-13 proof-of-work for notes by authors we don't follow (0 = off)
+  minPowBits?: number
+  // Reply order per thread root id; threads not listed show oldest first
+  threadSortModes?: Record<string, ThreadSortMode>
+  // When each thread root id was last opened, in unix seconds
+  threadLastVisits?: Record<string, number>
 }
 
 function readBool(key: string, fallback: boolean): boolean {
@@ -93,6 +114,17 @@ function readAsciiModePreference(): boolean {
   }
 }
 
+// Older installs only stored the nsfwBlock boolean
+function readNsfwMode(): NsfwMode {
+  try {
+    const stored = localStorage.getItem('nsfwMode')
+    if (stored === 'off' || stored === 'hide' || stored === 'blur') return stored
+  } catch {
+    // Fall back to the legacy flag
+  }
+  return readBool('nsfwBlock', true) ? 'hide' : 'off'
+}
+
 function readJson<T>(key: string, fallback: T): T {
   try {
     const v = localStorage.getItem(key)
@@ -109,6 +141,8 @@ function getDefaultHashtags(): string[] {
   return [] // Start with empty hashtags - let users add their own
 }
 
+const initialNsfwMode = readNsfwMode()
+
 export const uiStore = new Store<UIState>({
   showSettings: false,
   isDarkMode: readDarkModePreference(),
@@ -116,7 +150,8 @@ export const uiStore = new Store<UIState>({
   useColor: readBool('useColor', true),
   showReplies: readBool('showReplies', true),
   showReposts: readBool('showReposts', true),
-  nsfwBlock: readBool('nsfwBlock', true),
+  nsfwBlock: initialNsfwMode === 'hide',
+  nsfwMode: initialNsfwMode,
   imageMode: readBool('imageMode', true),
   customHashtags: readJson('customHashtags', getDefaultHashtags()),
   longFormMode: readBool('longFormMode', false),
@@ -134,6 +169,12 @@ export const uiStore = new Store<UIState>({
   primaryBlossomServerUrl: readJson('primaryBlossomServerUrl', 'https://blossom.primal.net/'),
   outboxMode: readBool('outboxMode', false),
   vimMode: readBool('vimMode', false),
+  keymap: readJson<Keymap>('keymap', { version: 1, bindings: {}, contexts: {} }),
+  reportFilterMode: readJson<ReportFilterMode>('reportFilterMode', 'off'),
+  trustedReporters: readJson('trustedReporters', [] as string[]),
+  minPowBits: readJson('minPowBits', 0),
+  threadSortModes: readJson('threadSortModes', {} as Record<string, ThreadSortMode>),
+  threadLastVisits: readJson('threadLastVisits', {} as Record<string, number>),
 })
 
 export const setShowSettings = (open: boolean) => {
@@ -171,9 +212,16 @@ export const setShowReposts = (value: boolean) => {
   uiStore.setState((s) => ({ ...s, showReposts: value }))
 }
 
+export const setNsfwMode = (mode: NsfwMode) => {
+  try {
+    localStorage.setItem('nsfwMode', mode)
+    localStorage.setItem('nsfwBlock', String(mode === 'hide'))
+  } catch {}
+  uiStore.setState((s) => ({ ...s, nsfwMode: mode, nsfwBlock: mode === 'hide' }))
+}
+
 export const setNsfwBlock = (value: boolean) => {
-  try { localStorage.setItem('nsfwBlock', String(value)) } catch {}
-  uiStore.setState((s) => ({ ...s, nsfwBlock: value }))
+  setNsfwMode(value ? 'hide' : 'off')
 }
 
 
@@ -197,6 +245,21 @@ export const setOutboxMode = (value: boolean) => {
   uiStore.setState((s) => ({ ...s, outboxMode: value }))
 }
 
+export const setReportFilterMode = (value: ReportFilterMode) => {
+  try { localStorage.setItem('reportFilterMode', JSON.stringify(value)) } catch {}
+  uiStore.setState((s) => ({ ...s, reportFilterMode: value }))
+}
+
+export const setTrustedReporters = (pubkeys: string[]) => {
+  try { localStorage.setItem('trustedReporters', JSON.stringify(pubkeys)) } catch {}
+  uiStore.setState((s) => ({ ...s, trustedReporters: pubkeys }))
+}
+
+export const setMinPowBits = (bits: number) => {
+  try { localStorage.setItem('minPowBits', JSON.stringify(bits)) } catch {}
+  uiStore.setState((s) => ({ ...s, minPowBits: bits }))
+}
+
 export const setMuteLikes = (value: boolean) => {
   try { localStorage.setItem('muteLikes', String(value)) } catch {}
   uiStore.setState((s) => ({ ...s, muteLikes: value }))
@@ -293,6 +356,33 @@ export const setVimMode = (value: boolean) => {
   uiStore.setState((s) => ({ ...s, vimMode: value }))
 }
 
+export const setKeymap = (keymap: Keymap) => {
+  try { localStorage.setItem('keymap', JSON.stringify(keymap)) } catch {}
+  uiStore.setState((s) => ({ ...s, keymap }))
+}
+
+// Per-thread maps keep only the most recently touched threads
+const MAX_THREAD_ENTRIES = 500
+
+export const setThreadSortMode = (rootId: string, mode: ThreadSortMode) => {
+  const next = { ...(uiStore.state.threadSortModes || {}) }
+  // Re-inserting moves the thread to the end, so trimming drops the oldest
+  delete next[rootId]
+  if (mode !== 'oldest') next[rootId] = mode
+  const trimmed = Object.fromEntries(Object.entries(next).slice(-MAX_THREAD_ENTRIES))
+  try { localStorage.setItem('threadSortModes', JSON.stringify(trimmed)) } catch {}
+  uiStore.setState((s) => ({ ...s, threadSortModes: trimmed }))
+}
+
+export const setThreadLastVisit = (rootId: string, visitedAt: number) => {
+  const entries = Object.entries({ ...(uiStore.state.threadLastVisits || {}), [rootId]: visitedAt })
+  const trimmed = Object.fromEntries(
+    entries.sort((a, b) => b[1] - a[1]).slice(0, MAX_THREAD_ENTRIES)
+  )
+  try { localStorage.setItem('threadLastVisits', JSON.stringify(trimmed)) } catch {}
+  uiStore.setState((s) => ({ ...s, threadLastVisits: trimmed }))
+}
+
 export type UIStore = typeof uiStore
 
 // Simple subscription hook without react-specific deps
@@ -32,6 +32,8 @@ export interface ActionButtonsBarProps {
   handleLike: () => void;
   prefetchNote: (noteId: string) => Promise<void>;
   toggleBookmark?: () => void;
+  onDelete?: () => void; // Only provided for the user's own events
+  onReport?: () => void; // Only provided for other authors' events
 
   // Zap related
   readRelayUrls: string[];
@@ -70,6 +72,8 @@ export const ActionButtonsBar: React.FC<ActionButtonsBarProps> = ({
   prefetchNote,
   goToNote,
   toggleBookmark,
+  onDelete,
+  onReport,
   onShare,
   replyCount = 0,
   hasParent = false,
@@ -513,6 +517,60 @@ export const ActionButtonsBar: React.FC<ActionButtonsBarProps> = ({
                     },
                   ]
                 : []),
+              // Add Delete option for the user's own events
+              ...(onDelete
+                ? [
+                    {
+                      id: "delete",
+                      label: "Delete",
+                      icon: (
+                        <svg
+                          width="16"
+                          height="16"
+                          viewBox="0 0 24 24"
+                          fill="none"
+                          stroke="currentColor"
+                          strokeWidth="2"
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                        >
+                          <polyline points="3,6 5,6 21,6" />
+                          <path d="M19 6l-1 14a2 2 0 0 1-2 2H8a2 2 0 0 1-2-2L5 6" />
+                          <path d="M10 11v6M14 11v6" />
+                          <path d="M9 6V4a1 1 0 0 1 1-1h4a1 1 0 0 1 1 1v2" />
+                        </svg>
+                      ),
+                      onClick: onDelete,
+                      color: "var(--btn-accent)",
+                    },
+                  ]
+                : []),
+              // Add Report option for other authors' events (NIP-56)
+              ...(onReport
+                ? [
+                    {
+                      id: "report",
+                      label: "Report",
+                      icon: (
+                        <svg
+                          width="16"
+                          height="16"
+                          viewBox="0 0 24 24"
+                          fill="none"
+                          stroke="currentColor"
+                          strokeWidth="2"
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                        >
+                          <path d="M4 22V4" />
+                          <path d="M4 4h13l-2 4 2 4H4" />
+                        </svg>
+                      ),
+                      onClick: onReport,
+                      color: "var(--btn-accent)",
+                    },
+                  ]
+                : []),
             ]}
             size={40}
           />
@@ -0,0 +1,90 @@
+import React from "react";
+
+interface CollapsedNotePlaceholderProps {
+  label: string;
+  onShow: () => void;
+  isMobile?: boolean;
+}
+
+/**
+ * One-line stand-in for a note hidden by a filter, with a way to show it
+ */
+export const CollapsedNotePlaceholder: React.FC<CollapsedNotePlaceholderProps> = ({
+  label,
+  onShow,
+  isMobile = false,
+}) => (
+  <div
+    style={{
+      display: "flex",
+      alignItems: "center",
+      justifyContent: "space-between",
+      gap: "0.5rem",
+      margin: isMobile ? "0.5rem 0" : "0.25rem 2rem 1rem 2.825rem",
+      padding: "0.5rem 0.75rem",
+      border: "1px dotted var(--border-color)",
+      color: "var(--text-color)",
+      fontSize: "var(--font-size-sm)",
+      opacity: 0.8,
+    }}
+  >
+    <span style={{ textAlign: "start" }}>{label}</span>
+    <button
+      type="button"
+      onClick={onShow}
+      style={{
+        background: "transparent",
+        border: "none",
+        color: "var(--accent-color)",
+        cursor: "pointer",
+        fontSize: "var(--font-size-sm)",
+        textTransform: "uppercase",
+        whiteSpace: "nowrap",
+      }}
+    >
+      Show
+    </button>
+  </div>
+);
+
+interface BlurOverlayProps {
+  label: string;
+  onReveal: () => void;
+}
+
+/**
+ * Click-to-reveal layer that blurs whatever it covers. The parent must be
+ * position: relative.
+ */
+export const BlurOverlay: React.FC<BlurOverlayProps> = ({ label, onReveal }) => (
+  <button
+    type="button"
+    onClick={(e) => {
+      e.stopPropagation();
+      onReveal();
+    }}
+    style={{
+      position: "absolute",
+      inset: 0,
+      zIndex: 2,
+      display: "flex",
+      flexDirection: "column",
+      alignItems: "center",
+      justifyContent: "center",
+      gap: "0.25rem",
+      background: "transparent",
+      backdropFilter: "blur(14px)",
+      WebkitBackdropFilter: "blur(14px)",
+      border: "none",
+      cursor: "pointer",
+      color: "var(--text-color)",
+      fontSize: "var(--font-size-sm)",
+      textShadow: "0 0 4px var(--app-bg-color)",
+    }}
+  >
+    <span>{label}</span>
+    <span style={{ textTransform: "uppercase", color: "var(--accent-color)" }}>
+      Tap to show
+    </span>
+  </button>
+);
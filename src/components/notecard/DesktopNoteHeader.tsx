@@ -4,6 +4,7 @@ import { useNavigate, Link } from "@tanstack/react-router";
 import { motion } from "framer-motion";
 import LoadingTextPlaceholder from "../ui/LoadingTextPlaceholder";
 import { formatRelativeTime } from "../../utils/nostr/utils";
+import { getEffectivePow } from "../../utils/nostr/pow";
 import { useUIStore } from "../lib/useUIStore";
 
 export interface DesktopNoteHeaderProps {
@@ -109,6 +110,11 @@ export const DesktopNoteHeader: React.FC<DesktopNoteHeaderProps> = ({
 }) => {
   const navigate = useNavigate();
   const isDarkMode = useUIStore((state) => state.isDarkMode);
+  // NIP-13 difficulty the note's author committed to and met
+  const powBits = React.useMemo(
+    () => (note?.id ? getEffectivePow(note) : 0),
+    [note]
+  );
 
   // Zap button handler - uses same logic as ZapButton but with desktop styling
   const handleZapClick = () => {
@@ -421,7 +427,16 @@ export const DesktopNoteHeader: React.FC<DesktopNoteHeaderProps> = ({
             textAlign: "center",
           }}
         >
-          {noteKind}
+          <span
+            title={
+              powBits > 0
+                ? `Proof of work: ${powBits} leading zero bits`
+                : undefined
+            }
+          >
+            {noteKind}
+            {powBits > 0 && ` · PoW ${powBits}`}
+          </span>
         </div>
         {/* Created column - relative time */}
         <div
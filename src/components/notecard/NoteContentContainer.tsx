@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useState } from "react";
 import type { Note } from "../../types/nostr/types";
 import { NoteHeader } from "./NoteHeader";
 import { ActionButtonsBar } from "./ActionButtonsBar";
@@ -6,6 +6,7 @@ import { MediaGallery } from "../media/MediaGallery";
 import { CORSImage } from "../media/CORSImage";
 import { NoteTextContent } from "./NoteTextContent";
 import { QuoteRepostContent } from "./QuoteRepostContent";
+import { BlurOverlay } from "./ContentGate";
 import { useUIStore } from "../lib/useUIStore";
 import { Link } from "@tanstack/react-router";
 import { nip19 } from "nostr-tools";
@@ -101,6 +102,12 @@ export interface NoteContentContainerProps {
   // Bookmark functionality
   isBookmarked?: boolean;
   toggleBookmark?: () => void;
+  // Delete the user's own event (NIP-09); omitted for other authors' notes
+  onDelete?: () => void;
+  // Report the note (NIP-56); omitted for the user's own notes
+  onReport?: () => void;
+  // When set, the note body is blurred until clicked; the label explains why
+  blurLabel?: string | null;
 }
 
 export const NoteContentContainer: React.FC<NoteContentContainerProps> = ({
@@ -163,8 +170,12 @@ export const NoteContentContainer: React.FC<NoteContentContainerProps> = ({
   recipientName,
   isBookmarked = false,
   toggleBookmark,
+  onDelete,
+  onReport,
+  blurLabel = null,
 }) => {
   const isDarkMode = useUIStore((state) => state.isDarkMode);
+  const [isRevealed, setIsRevealed] = useState(false);
 
   // Note: Images now display at natural heights without feed/detail view constraints
 
@@ -266,6 +277,7 @@ export const NoteContentContainer: React.FC<NoteContentContainerProps> = ({
           <NoteHeader
             noteId={note.id}
             noteCreatedAt={note.created_at || 0}
+            note={note}
             displayUserNameOrNpub={displayUserNameOrNpub}
             isDisplayNameLoading={isDisplayNameLoading}
             npubForLinks={npubForLinks}
@@ -549,6 +561,9 @@ export const NoteContentContainer: React.FC<NoteContentContainerProps> = ({
           prefetchNote={prefetchNote}
           goToNote={goToNote}
         />
+        {blurLabel && !isRevealed && (
+          <BlurOverlay label={blurLabel} onReveal={() => setIsRevealed(true)} />
+        )}
       </div>
       {/* Action buttons bar - only show on mobile or in note detail page */}
       {(isMobile || isNotePage) && (
@@ -581,6 +596,8 @@ export const NoteContentContainer: React.FC<NoteContentContainerProps> = ({
           prefetchRoute={prefetchRoute}
           isBookmarked={isBookmarked}
           toggleBookmark={toggleBookmark}
+          onDelete={onDelete}
+          onReport={onReport}
         />
       )}
       {/* Removed bottom Read Full Article link per mobile article UX update */}
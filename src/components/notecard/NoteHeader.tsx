@@ -4,6 +4,7 @@ import { useNavigate, useLocation, Link } from "@tanstack/react-router";
 import LoadingTextPlaceholder from "../ui/LoadingTextPlaceholder";
 import { ThreadIcon } from "../ui/Icons";
 import { formatRelativeTime } from "../../utils/nostr/utils";
+import { getEffectivePow } from "../../utils/nostr/pow";
 
 export interface NoteHeaderProps {
   // Note data
@@ -84,6 +85,12 @@ export const NoteHeader: React.FC<NoteHeaderProps> = ({
   const navigate = useNavigate();
   const location = useLocation();
 
+  // NIP-13 difficulty the note's author committed to and met
+  const powBits = React.useMemo(
+    () => (note?.id ? getEffectivePow(note) : 0),
+    [note]
+  );
+
   // Format sats for display
   const formatSats = (msatsOrSats: number) => {
     if (!Number.isFinite(msatsOrSats) || msatsOrSats < 0) {
@@ -308,6 +315,22 @@ export const NoteHeader: React.FC<NoteHeaderProps> = ({
             </button>
           )}
 
+          {/* Proof-of-work difficulty */}
+          {powBits > 0 && (
+            <span
+              style={{
+                fontSize: isMobile ? "0.75rem" : "0.875rem",
+                opacity: 0.7,
+                color: "var(--text-color)",
+                whiteSpace: "nowrap",
+                flexShrink: 0,
+              }}
+              title={`Proof of work: ${powBits} leading zero bits`}
+            >
+              [PoW {powBits}]
+            </span>
+          )}
+
           {/* Zap sats display on the right side */}
           {totalSats > 0 && (
             <div
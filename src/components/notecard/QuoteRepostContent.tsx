@@ -4,6 +4,7 @@ import { nip19 } from "nostr-tools";
 import type { Note } from "../../types/nostr/types";
 import { formatRelativeTime } from "../../utils/nostr/utils";
 import NoteContentRenderer from "../NoteContentRenderer";
+import { getContentWarning } from "../../utils/nostr/contentWarning";
 import LoadingTextPlaceholder from "../ui/LoadingTextPlaceholder";
 import { RepostContent } from "./RepostContent";
 import NostrLinkText from "../NostrLinkText";
@@ -323,6 +324,7 @@ export const QuoteRepostContent: React.FC<QuoteRepostContentProps> = ({
             }}
           >
             <NoteContentRenderer
+              contentWarning={getContentWarning(repostOriginal.tags)}
               content={(() => {
                 // Truncate long content in repost view - smart truncation to not cut URLs
                 const characterLimit = isMobile ? 140 : 320;
@@ -10,6 +10,7 @@ import {
 } from "../../utils/nostr/relayConnectionPool";
 import { formatRelativeTime } from "../../utils/nostr/utils";
 import NoteContentRenderer from "../NoteContentRenderer";
+import { getContentWarning } from "../../utils/nostr/contentWarning";
 import LoadingTextPlaceholder from "../ui/LoadingTextPlaceholder";
 
 interface NoteItemProps {
@@ -459,6 +460,7 @@ const NoteItemComponent: React.FC<NoteItemProps> = ({
               }}
             >
               <NoteContentRenderer
+                contentWarning={getContentWarning(note.tags)}
                 content={note.content}
                 useAscii={useAscii}
                 useColor={useColor}
@@ -6,7 +6,8 @@ import React, {
   useRef,
 } from "react";
 import type { Metadata } from "../../types/nostr/types";
-import { SimplePool } from "nostr-tools";
+import { SimplePool, type Event } from "nostr-tools";
+import { useQueryClient } from "@tanstack/react-query";
 import {
   nip07SignEvent,
   hasInMemorySecretKey,
@@ -24,6 +25,18 @@ import {
 } from "../../utils/nostr/pubkeyUtils";
 import LoadingSpinner from "../ui/LoadingSpinner";
 import LoadingTextPlaceholder from "../ui/LoadingTextPlaceholder";
+import ProfileHistoryList from "./ProfileHistoryList";
+import {
+  fetchProfileHistory,
+  useProfileHistory,
+} from "../../hooks/useProfileHistory";
+import { CACHE_KEYS } from "../../utils/cacheKeys";
+import {
+  mergeProfileContent,
+  parseProfileContent,
+  profileFormFromContent,
+  type ProfileContent,
+} from "../../utils/nostr/profileMetadata";
 
 interface ProfileEditModalProps {
   isOpen: boolean;
@@ -67,6 +80,9 @@ const ProfileEditModal: React.FC<ProfileEditModalProps> = ({
     banner?: boolean;
     nip05?: boolean;
     lud16?: boolean;
+    website?: boolean;
+    bot?: boolean;
+    birthday?: boolean;
   };
   const [name, setName] = useState<string>("");
   const [about, setAbout] = useState<string>("");
@@ -74,6 +90,10 @@ const ProfileEditModal: React.FC<ProfileEditModalProps> = ({
   const [banner, setBanner] = useState<string>("");
   const [nip05, setNip05] = useState<string>("");
   const [lud16, setLud16] = useState<string>("");
+  const [website, setWebsite] = useState<string>("");
+  const [bot, setBot] = useState<boolean>(false);
+  const [birthday, setBirthday] = useState<string>("");
+  const [showHistory, setShowHistory] = useState(false);
   const [error, setError] = useState<string>("");
   const [showUnlockModal, setShowUnlockModal] = useState(false);
   const [isBroadcasting, setIsBroadcasting] = useState(false);
@@ -92,26 +112,33 @@ const ProfileEditModal: React.FC<ProfileEditModalProps> = ({
   // Track previous open state to detect transitions
   const prevIsOpenRef = useRef<boolean>(isOpen);
 
-  const inputStyle = createInputStyle(isMobile);
+  const inputStyle: React.CSSProperties = createInputStyle(isMobile);
 
   // Haptic feedback hook
   const { triggerHaptic } = useHaptic();
 
   const canSign = hasNip07() || hasInMemorySecretKey();
 
-  const handleSave = useCallback(async () => {
-    // 🎯 TRIGGER HAPTIC IMMEDIATELY (in user gesture context)
+  const queryClient = useQueryClient();
+  const pubkeyHex = getCurrentPubkeyHex(userPubkey);
+  const { history, isLoading: isLoadingHistory } = useProfileHistory(
+    pubkeyHex,
+    relayUrls,
+    isOpen
+  );
 
-    try {
-      triggerHaptic();
-    } catch (error) {
-      console.error("❌ Haptic feedback failed for metadata update:", error);
-    }
+  // The form shows the newest raw kind 0 once history has loaded
+  const baseContent = useMemo(
+    (): ProfileContent | null =>
+      history.length > 0 ? parseProfileContent(history[0].content) : null,
+    [history]
+  );
+  const sourceContent = useMemo(
+    (): ProfileContent => baseContent || (currentMetadata as ProfileContent),
+    [baseContent, currentMetadata]
+  );
 
-    if (!canSign) {
-      setShowUnlockModal(true);
-      return;
-    }
+  const publishProfile = useCallback(async (content: ProfileContent) => {
     try {
       onSavingStateChange?.(true);
       setError("");
@@ -124,20 +151,6 @@ const ProfileEditModal: React.FC<ProfileEditModalProps> = ({
       }));
       setRelayStatuses(initialStatuses);
 
-      const content: any = {
-        // Prefer display_name for compatibility with more clients while keeping name
-        name: name || undefined,
-        display_name: name || undefined,
-        about: about || undefined,
-        picture: picture || undefined,
-        banner: banner || undefined,
-        nip05: nip05 || undefined,
-        lud16: lud16 || undefined,
-      };
-      // Remove undefined keys
-      Object.keys(content).forEach(
-        (k) => content[k] === undefined && delete content[k]
-      );
       const signed = await nip07SignEvent({
         kind: 0,
         content: JSON.stringify(content),
@@ -219,6 +232,12 @@ const ProfileEditModal: React.FC<ProfileEditModalProps> = ({
         pool.close(relayUrls);
       }
 
+      if (pubkeyHex) {
+        queryClient.invalidateQueries({
+          queryKey: CACHE_KEYS.PROFILE_HISTORY(pubkeyHex),
+        });
+      }
+
       // Call success callback with the published content for optimistic updates
       if (onProfileUpdateSuccess) {
         await onProfileUpdateSuccess(content);
@@ -226,27 +245,113 @@ const ProfileEditModal: React.FC<ProfileEditModalProps> = ({
 
       // Mark broadcasting as complete but keep the view active
       setBroadcastingComplete(true);
-    } catch (e: any) {
-      setError(e?.message || "Failed to publish metadata");
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Failed to publish metadata");
     } finally {
       onSavingStateChange?.(false);
       setIsBroadcasting(false);
     }
   }, [
-    canSign,
+    relayUrls,
+    relayPermissions,
+    pubkeyHex,
+    queryClient,
+    onSavingStateChange,
+    onProfileUpdateSuccess,
+  ]);
+
+  // Haptics and the signer check must run in the user gesture
+  const startPublish = useCallback((): boolean => {
+    try {
+      triggerHaptic();
+    } catch (error) {
+      console.error("❌ Haptic feedback failed for metadata update:", error);
+    }
+
+    if (!canSign) {
+      setShowUnlockModal(true);
+      return false;
+    }
+    return true;
+  }, [canSign, triggerHaptic]);
+
+  // Newest raw kind 0 straight from the relays. Saves merge onto it rather
+  // than onto currentMetadata, whose parser drops keys we don't know.
+  const fetchLatestContent = useCallback(async (): Promise<ProfileContent | null> => {
+    if (!pubkeyHex) return null;
+    const events = await fetchProfileHistory(pubkeyHex, relayUrls);
+    // An empty answer (e.g. every relay timed out) keeps the cached history
+    if (events.length === 0) return null;
+    queryClient.setQueryData(CACHE_KEYS.PROFILE_HISTORY(pubkeyHex), events);
+    return parseProfileContent(events[0].content);
+  }, [pubkeyHex, relayUrls, queryClient]);
+
+  const handleSave = useCallback(async () => {
+    if (!startPublish()) return;
+
+    let content: ProfileContent;
+    try {
+      onSavingStateChange?.(true);
+      // Fall back to the kind 0 loaded with the form if relays return nothing
+      const latest = (await fetchLatestContent()) ?? baseContent;
+      if (!latest && Object.values(currentMetadata || {}).some(Boolean)) {
+        // Publishing just the form would drop fields we never got to see
+        throw new Error("Couldn't load your current profile from relays. Please try again.");
+      }
+      // Without any earlier kind 0 the form is the whole profile. Otherwise
+      // fields the user didn't touch follow the latest event, even if it
+      // changed after the form was filled in.
+      const keepForm = !latest;
+      const shown = profileFormFromContent(latest ?? {});
+      const dirty = dirtyFieldsRef.current;
+      const pick = <T,>(field: keyof DirtyFields, value: T, fallback: T): T =>
+        keepForm || dirty[field] ? value : fallback;
+      content = mergeProfileContent(latest ?? {}, {
+        name: pick("name", name, shown.name),
+        about: pick("about", about, shown.about),
+        picture: pick("picture", picture, shown.picture),
+        banner: pick("banner", banner, shown.banner),
+        nip05: pick("nip05", nip05, shown.nip05),
+        lud16: pick("lud16", lud16, shown.lud16),
+        website: pick("website", website, shown.website),
+        bot: pick("bot", bot, shown.bot),
+        birthday: pick("birthday", birthday, shown.birthday),
+      });
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Invalid profile");
+      onSavingStateChange?.(false);
+      return;
+    }
+    await publishProfile(content);
+  }, [
+    startPublish,
+    publishProfile,
+    fetchLatestContent,
+    baseContent,
+    currentMetadata,
+    onSavingStateChange,
     name,
     about,
     picture,
     banner,
     nip05,
     lud16,
-    relayUrls,
-    onClose,
-    onSavingStateChange,
-    onProfileUpdateSuccess,
-    triggerHaptic,
+    website,
+    bot,
+    birthday,
   ]);
 
+  // Republish an earlier version exactly as it was
+  const handleRestore = useCallback(
+    async (event: Event) => {
+      const content = parseProfileContent(event.content);
+      if (!content || !startPublish()) return;
+      setShowHistory(false);
+      await publishProfile(content);
+    },
+    [startPublish, publishProfile]
+  );
+
   const handleUnlocked = useCallback(async () => {
     setShowUnlockModal(false);
     // After unlocking, try to save again
@@ -274,34 +379,35 @@ const ProfileEditModal: React.FC<ProfileEditModalProps> = ({
 
     setIsFormReady(true);
 
+    const fields = profileFormFromContent(sourceContent);
+
     // On first ready state per open, initialize all fields from metadata
     if (!hasInitializedRef.current) {
-      setName(
-        (currentMetadata as any).display_name || currentMetadata.name || ""
-      );
-      setAbout(currentMetadata.about || "");
-      setPicture(currentMetadata.picture || "");
-      setBanner((currentMetadata as any).banner || "");
-      setNip05(currentMetadata.nip05 || "");
-      setLud16((currentMetadata as any).lud16 || "");
+      setName(fields.name);
+      setAbout(fields.about);
+      setPicture(fields.picture);
+      setBanner(fields.banner);
+      setNip05(fields.nip05);
+      setLud16(fields.lud16);
+      setWebsite(fields.website);
+      setBot(fields.bot);
+      setBirthday(fields.birthday);
       hasInitializedRef.current = true;
       return;
     }
 
     // After initialization, update only fields that the user hasn't edited yet
-    if (!dirtyFieldsRef.current.name)
-      setName(
-        (currentMetadata as any).display_name || currentMetadata.name || ""
-      );
-    if (!dirtyFieldsRef.current.about) setAbout(currentMetadata.about || "");
-    if (!dirtyFieldsRef.current.picture)
-      setPicture(currentMetadata.picture || "");
-    if (!dirtyFieldsRef.current.banner)
-      setBanner((currentMetadata as any).banner || "");
-    if (!dirtyFieldsRef.current.nip05) setNip05(currentMetadata.nip05 || "");
-    if (!dirtyFieldsRef.current.lud16)
-      setLud16((currentMetadata as any).lud16 || "");
-  }, [currentMetadata, isLoadingMeta]);
+    const dirty = dirtyFieldsRef.current;
+    if (!dirty.name) setName(fields.name);
+    if (!dirty.about) setAbout(fields.about);
+    if (!dirty.picture) setPicture(fields.picture);
+    if (!dirty.banner) setBanner(fields.banner);
+    if (!dirty.nip05) setNip05(fields.nip05);
+    if (!dirty.lud16) setLud16(fields.lud16);
+    if (!dirty.website) setWebsite(fields.website);
+    if (!dirty.bot) setBot(fields.bot);
+    if (!dirty.birthday) setBirthday(fields.birthday);
+  }, [currentMetadata, sourceContent, isLoadingMeta]);
 
   // Reset broadcasting and initialization state only when transitioning from closed -> open
   useEffect(() => {
@@ -325,6 +431,7 @@ const ProfileEditModal: React.FC<ProfileEditModalProps> = ({
       setRelayStatuses([]);
       setError("");
       setIsFormReady(false);
+      setShowHistory(false);
       hasInitializedRef.current = false;
       dirtyFieldsRef.current = {};
     }
@@ -425,9 +532,33 @@ const ProfileEditModal: React.FC<ProfileEditModalProps> = ({
               >
                 {isBroadcasting || broadcastingComplete
                   ? "Broadcasting Profile"
+                  : showHistory
+                  ? "Profile History"
                   : "Edit Profile"}
               </span>
             </div>
+            {isFormReady && !isBroadcasting && !broadcastingComplete && (
+              <button
+                type="button"
+                onClick={() => setShowHistory((v) => !v)}
+                title={
+                  showHistory
+                    ? "Back to editing"
+                    : "Earlier versions of your profile"
+                }
+                style={{
+                  background: "transparent",
+                  border: "none",
+                  cursor: "pointer",
+                  padding: 0,
+                  color: "var(--ibm-slate-blue)",
+                  fontSize: "0.75rem",
+                  minHeight: "unset",
+                }}
+              >
+                {showHistory ? "[edit]" : "[history]"}
+              </button>
+            )}
           </div>
 
           {/* Content */}
@@ -465,6 +596,12 @@ const ProfileEditModal: React.FC<ProfileEditModalProps> = ({
                   Loading...
                 </div>
               </div>
+            ) : !isBroadcasting && !broadcastingComplete && showHistory ? (
+              <ProfileHistoryList
+                history={history}
+                isLoading={isLoadingHistory}
+                onRestore={handleRestore}
+              />
             ) : !isBroadcasting && !broadcastingComplete ? (
               /* Edit Profile Form */
               <TreeList>
@@ -488,7 +625,7 @@ const ProfileEditModal: React.FC<ProfileEditModalProps> = ({
                       markFieldDirty("picture");
                     }}
                     placeholder="https://..."
-                    style={inputStyle as any}
+                    style={inputStyle}
                   />
                 </TreeListItem>
 
@@ -512,7 +649,7 @@ const ProfileEditModal: React.FC<ProfileEditModalProps> = ({
                       markFieldDirty("name");
                     }}
                     placeholder="Your name"
-                    style={inputStyle as any}
+                    style={inputStyle}
                   />
                 </TreeListItem>
 
@@ -536,7 +673,7 @@ const ProfileEditModal: React.FC<ProfileEditModalProps> = ({
                     }}
                     placeholder="Tell the world about you"
                     style={{
-                      ...(inputStyle as any),
+                      ...inputStyle,
                       minHeight: "96px",
                       resize: "vertical",
                     }}
@@ -563,7 +700,7 @@ const ProfileEditModal: React.FC<ProfileEditModalProps> = ({
                       markFieldDirty("nip05");
                     }}
                     placeholder="you@example.com"
-                    style={inputStyle as any}
+                    style={inputStyle}
                   />
                 </TreeListItem>
 
@@ -587,11 +724,11 @@ const ProfileEditModal: React.FC<ProfileEditModalProps> = ({
                       markFieldDirty("lud16");
                     }}
                     placeholder="you@wallet.com"
-                    style={inputStyle as any}
+                    style={inputStyle}
                   />
                 </TreeListItem>
 
-                <TreeListItem isLast={true}>
+                <TreeListItem>
                   <div
                     style={{
                       color: "var(--text-color)",
@@ -611,9 +748,81 @@ const ProfileEditModal: React.FC<ProfileEditModalProps> = ({
                       markFieldDirty("banner");
                     }}
                     placeholder="https://..."
-                    style={inputStyle as any}
+                    style={inputStyle}
+                  />
+                </TreeListItem>
+
+                <TreeListItem>
+                  <div
+                    style={{
+                      color: "var(--text-color)",
+
+                      fontSize: "0.75rem",
+                      marginBottom: "0.25rem",
+                      textAlign: "start",
+                    }}
+                  >
+                    Website
+                  </div>
+                  <input
+                    type="url"
+                    value={website}
+                    onChange={(e) => {
+                      setWebsite(e.target.value);
+                      markFieldDirty("website");
+                    }}
+                    placeholder="https://..."
+                    style={inputStyle}
+                  />
+                </TreeListItem>
+
+                <TreeListItem>
+                  <div
+                    style={{
+                      color: "var(--text-color)",
+
+                      fontSize: "0.75rem",
+                      marginBottom: "0.25rem",
+                      textAlign: "start",
+                    }}
+                  >
+                    Birthday
+                  </div>
+                  <input
+                    type="text"
+                    value={birthday}
+                    onChange={(e) => {
+                      setBirthday(e.target.value);
+                      markFieldDirty("birthday");
+                    }}
+                    placeholder="YYYY-MM-DD, MM-DD or YYYY"
+                    style={inputStyle}
                   />
                 </TreeListItem>
+
+                <TreeListItem isLast={true}>
+                  <label
+                    style={{
+                      display: "flex",
+                      alignItems: "center",
+                      gap: "0.5rem",
+                      color: "var(--text-color)",
+                      fontSize: "0.75rem",
+                      textAlign: "start",
+                      cursor: "pointer",
+                    }}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={bot}
+                      onChange={(e) => {
+                        setBot(e.target.checked);
+                        markFieldDirty("bot");
+                      }}
+                    />
+                    This account is automated (bot)
+                  </label>
+                </TreeListItem>
               </TreeList>
             ) : (
               /* Broadcasting Status */
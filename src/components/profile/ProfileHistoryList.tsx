@@ -0,0 +1,113 @@
+import React from "react";
+import type { Event } from "nostr-tools";
+import { TreeList, TreeListItem } from "../settings/TreeListItem";
+import LoadingTextPlaceholder from "../ui/LoadingTextPlaceholder";
+import {
+  parseProfileContent,
+  profileFormFromContent,
+} from "../../utils/nostr/profileMetadata";
+
+interface ProfileHistoryListProps {
+  // Newest first
+  history: Event[];
+  isLoading: boolean;
+  onRestore: (event: Event) => void;
+}
+
+// Keys whose JSON differs between two versions
+const changedKeys = (current: Event, previous: Event | undefined): string[] => {
+  if (!previous) return [];
+  const a = parseProfileContent(current.content) || {};
+  const b = parseProfileContent(previous.content) || {};
+  return Array.from(new Set([...Object.keys(a), ...Object.keys(b)])).filter(
+    (key) => JSON.stringify(a[key]) !== JSON.stringify(b[key])
+  );
+};
+
+const linkStyle: React.CSSProperties = {
+  background: "transparent",
+  border: "none",
+  cursor: "pointer",
+  padding: 0,
+  color: "var(--ibm-slate-blue)",
+  fontSize: "0.75rem",
+  minHeight: "unset",
+};
+
+const ProfileHistoryList: React.FC<ProfileHistoryListProps> = ({
+  history,
+  isLoading,
+  onRestore,
+}) => {
+  if (isLoading) {
+    return <LoadingTextPlaceholder type="custom" customLength={12} />;
+  }
+
+  return (
+    <TreeList>
+      {history.length <= 1 && (
+        <div
+          style={{
+            color: "var(--ibm-pewter)",
+            fontSize: "0.75rem",
+            marginBottom: "0.5rem",
+            textAlign: "start",
+          }}
+        >
+          Your relays only have your current profile.
+        </div>
+      )}
+      {history.map((event, index) => {
+        const fields = profileFormFromContent(
+          parseProfileContent(event.content) || {}
+        );
+        const changed = changedKeys(event, history[index + 1]);
+        return (
+          <TreeListItem key={event.id} isLast={index === history.length - 1}>
+            <div
+              style={{
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "space-between",
+                gap: "0.5rem",
+                fontSize: "0.75rem",
+                color: "var(--text-color)",
+                textAlign: "start",
+              }}
+            >
+              <span>
+                {new Date(event.created_at * 1000).toLocaleString()}
+                {fields.name ? ` · ${fields.name}` : ""}
+              </span>
+              {index === 0 ? (
+                <span style={{ color: "var(--ibm-pewter)" }}>current</span>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => onRestore(event)}
+                  title="Publish this version as your profile"
+                  style={linkStyle}
+                >
+                  [restore]
+                </button>
+              )}
+            </div>
+            {changed.length > 0 && (
+              <div
+                style={{
+                  fontSize: "0.7rem",
+                  color: "var(--ibm-pewter)",
+                  textAlign: "start",
+                }}
+              >
+                changed: {changed.join(", ")}
+              </div>
+            )}
+          </TreeListItem>
+        );
+      })}
+    </TreeList>
+  );
+};
+
+export default ProfileHistoryList;
@@ -4,6 +4,7 @@ import AsciiRendererV2 from "../AsciiRendererV2";
 import { formatTruncated, getInitialChar } from "../../utils/profileUtils";
 import LoadingTextPlaceholder from "../ui/LoadingTextPlaceholder";
 import MuteConfirmationModal from "../MuteConfirmationModal";
+import ReportModal from "../ReportModal";
 import { NostrContext } from "../../contexts/NostrContext";
 import { hasNip07, hasInMemorySecretKey } from "../../utils/nostr/nip07";
 import { useMuteList } from "../../hooks/useMuteList";
@@ -47,6 +48,7 @@ const ProfileSummary: React.FC<ProfileSummaryProps> = ({
   const [avatarError, setAvatarError] = useState<boolean>(false);
   const [copied, setCopied] = useState<boolean>(false);
   const [showMuteModal, setShowMuteModal] = useState<boolean>(false);
+  const [showReportModal, setShowReportModal] = useState<boolean>(false);
   const [immediateMutedState, setImmediateMutedState] = useState<
     boolean | null
   >(null);
@@ -386,6 +388,39 @@ const ProfileSummary: React.FC<ProfileSummaryProps> = ({
                   </button>
                 )
               )}
+
+              {/* Report button (NIP-56) */}
+              {canMute && !isSelf && (
+                <button
+                  onClick={() => setShowReportModal(true)}
+                  style={{
+                    minHeight: "1rem",
+                    backgroundColor: "transparent",
+                    border: "none",
+                    padding: 0,
+                    cursor: "pointer",
+                    display: "flex",
+                    minWidth: "16px",
+                    alignItems: "center",
+                    justifyContent: "center",
+                  }}
+                  title="Report user"
+                >
+                  <svg
+                    width="14"
+                    height="14"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="var(--text-color)"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  >
+                    <path d="M4 22V4" />
+                    <path d="M4 4h13l-2 4 2 4H4" />
+                  </svg>
+                </button>
+              )}
             </div>
           </div>
         )}
@@ -407,6 +442,15 @@ const ProfileSummary: React.FC<ProfileSummaryProps> = ({
           onActionConfirmed={handleMuteActionConfirmed}
         />
       )}
+
+      {showReportModal && pubkeyHex && (
+        <ReportModal
+          isOpen={showReportModal}
+          onClose={() => setShowReportModal(false)}
+          target={{ pubkey: pubkeyHex }}
+          targetLabel={computedDisplay || displayTitle}
+        />
+      )}
     </>
   );
 };
@@ -1,7 +1,12 @@
-import React, { useState } from "react";
+import React, { useContext, useState } from "react";
 import { SectionHeader } from "./SectionHeader";
 import { TreeList, TreeListItem } from "./TreeListItem";
+import { SettingsButton } from "./SettingsButton";
 import { useUIStore } from "../lib/useUIStore";
+import { NostrContext } from "../../contexts/NostrContext";
+import { useRelayManager } from "../../hooks/useRelayManager";
+import { useBlossomServerList } from "../../hooks/useBlossomServerList";
+import { buildBlossomServerTags } from "../../utils/nostr/blossom";
 import {
   addBlossomServerUrl,
   removeBlossomServerUrl,
@@ -230,6 +235,46 @@ export const BlossomSettingsSection: React.FC<BlossomSettingsSectionProps> = ({
     useUIStore((s) => s.primaryBlossomServerUrl) ||
     "https://blossom.primal.net/";
 
+  const { nostrClient, pubkey, loginMethod } = useContext(NostrContext);
+  const { relayUrls, relayPermissions } = useRelayManager({
+    nostrClient,
+    initialRelays: [],
+    pubkeyHex: pubkey,
+  });
+  const { publishedServers, publishServers, isPublishing, isLoading } =
+    useBlossomServerList(relayUrls, relayPermissions);
+  const [listStatus, setListStatus] = useState<string | null>(null);
+
+  const canSign =
+    loginMethod === "nip07" || loginMethod === "nsec" || loginMethod === "nip46";
+  const localTags = buildBlossomServerTags(
+    blossomServerUrls,
+    primaryBlossomServerUrl
+  );
+  const isInSync =
+    publishedServers.length === localTags.length &&
+    publishedServers.every((server, i) => localTags[i][1] === server);
+
+  const handlePublishList = async () => {
+    setListStatus(null);
+    try {
+      await publishServers(blossomServerUrls, primaryBlossomServerUrl);
+      setListStatus("Server list published");
+    } catch (err) {
+      console.error("Failed to publish Blossom server list:", err);
+      setListStatus(
+        err instanceof Error ? err.message : "Failed to publish server list"
+      );
+    }
+  };
+
+  const handleLoadList = () => {
+    if (publishedServers.length === 0) return;
+    setBlossomServerUrls(publishedServers);
+    setPrimaryBlossomServerUrl(publishedServers[0]);
+    setListStatus("Loaded the published server list");
+  };
+
   const handleAddServer = () => {
     const newUrl = "https://blossom.primal.net/";
     addBlossomServerUrl(newUrl);
@@ -338,6 +383,62 @@ export const BlossomSettingsSection: React.FC<BlossomSettingsSectionProps> = ({
           />
         ))}
 
+        {/* Published list (kind 10063) */}
+        {pubkey && (
+          <TreeListItem>
+            <div
+              style={{
+                display: "flex",
+                flexDirection: "column",
+                gap: "0.25rem",
+                width: "100%",
+                textAlign: "left",
+              }}
+            >
+              <span
+                style={{
+                  fontSize: "0.75rem",
+                  color: "var(--text-color-muted)",
+                }}
+              >
+                {isLoading
+                  ? "Checking your published server list..."
+                  : publishedServers.length === 0
+                    ? "No server list published yet"
+                    : isInSync
+                      ? `Published list matches (${publishedServers.length} servers)`
+                      : `Published list differs: ${publishedServers.join(", ")}`}
+              </span>
+              <div style={{ display: "flex", gap: "0.5rem" }}>
+                <SettingsButton
+                  onClick={handlePublishList}
+                  disabled={!canSign || isPublishing || isInSync}
+                  width="auto"
+                >
+                  {isPublishing ? "Publishing..." : "Publish list"}
+                </SettingsButton>
+                <SettingsButton
+                  onClick={handleLoadList}
+                  disabled={publishedServers.length === 0 || isInSync}
+                  width="auto"
+                >
+                  Use published list
+                </SettingsButton>
+              </div>
+              {listStatus && (
+                <span
+                  style={{
+                    fontSize: "0.75rem",
+                    color: "var(--text-color-secondary)",
+                  }}
+                >
+                  {listStatus}
+                </span>
+              )}
+            </div>
+          </TreeListItem>
+        )}
+
         {/* Description */}
         {blossomServerUrls.length > 0 && (
           <TreeListItem isLast>
@@ -350,9 +451,10 @@ export const BlossomSettingsSection: React.FC<BlossomSettingsSectionProps> = ({
                 padding: "0.5rem 0",
               }}
             >
-              Configure Blossom servers for file uploads. The primary server
-              will be used for all uploads. You can add multiple servers and
-              change which one is primary at any time.
+              Configure Blossom servers for file uploads. Files are uploaded
+              to the primary server and mirrored to the others. Publishing
+              the list lets other clients find your files if a server goes
+              away.
             </div>
           </TreeListItem>
         )}
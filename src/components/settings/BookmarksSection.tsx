@@ -4,6 +4,10 @@ import { SectionHeader } from "./SectionHeader";
 import { TreeList, TreeListItem } from "./TreeListItem";
 import { SettingsButton } from "./SettingsButton";
 import { useBookmarks } from "../../hooks/useBookmarks";
+import {
+  getBookmarkSyncPrivate,
+  setBookmarkSyncPrivate,
+} from "../../utils/bookmarks/bookmarkSync";
 
 interface BookmarksSectionProps {
   isMobile?: boolean;
@@ -17,6 +21,13 @@ export const BookmarksSection: React.FC<BookmarksSectionProps> = () => {
   const navigate = useNavigate();
   const { bookmarksCount, clearAllBookmarks } = useBookmarks();
   const [showClearConfirm, setShowClearConfirm] = useState(false);
+  const [syncPrivate, setSyncPrivate] = useState(getBookmarkSyncPrivate);
+
+  const handleTogglePrivate = useCallback(() => {
+    const next = !syncPrivate;
+    setBookmarkSyncPrivate(next);
+    setSyncPrivate(next);
+  }, [syncPrivate]);
 
   const handleViewBookmarks = useCallback(() => {
     navigate({ to: "/bookmarks" });
@@ -62,6 +73,17 @@ export const BookmarksSection: React.FC<BookmarksSectionProps> = () => {
           </SettingsButton>
         </TreeListItem>
 
+        {/* Visibility of new entries on the relay bookmark list */}
+        <TreeListItem>
+          <SettingsButton
+            onClick={handleTogglePrivate}
+            textAlign="start"
+            style={{ width: "100%" }}
+          >
+            Relay sync: {syncPrivate ? "Private (encrypted)" : "Public"}
+          </SettingsButton>
+        </TreeListItem>
+
         {/* Clear All button */}
         <TreeListItem isLast>
           {showClearConfirm ? (
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { SectionHeader } from "./SectionHeader";
 import { TreeList, TreeListItem } from "./TreeListItem";
 import { SettingsButton } from "./SettingsButton";
@@ -11,6 +11,14 @@ import type { RelayPermission } from "../../types/nostr/types";
 import { useUIStore } from "../lib/useUIStore";
 import { setOutboxMode } from "../lib/uiStore";
 import { ToggleButton } from "../ToggleButton";
+import {
+  getRelayAuthPolicies,
+  nextRelayAuthPolicy,
+  normalizeAuthRelayUrl,
+  setRelayAuthPolicy,
+  DEFAULT_RELAY_AUTH_POLICY,
+  type RelayAuthPolicy,
+} from "../../utils/nostr/relayAuth";
 
 interface EnhancedRelayManagementSectionProps {
   relayUrls: string[];
@@ -44,6 +52,29 @@ export const EnhancedRelayManagementSection: React.FC<
   const [showHealthStats, setShowHealthStats] = useState(false);
   const [showOutboxModal, setShowOutboxModal] = useState(false);
 
+  // NIP-42 auth policies, refreshed when changed from the auth prompt
+  const [authPolicies, setAuthPolicies] = useState<
+    Record<string, RelayAuthPolicy>
+  >(() => getRelayAuthPolicies(pubkey || undefined));
+
+  useEffect(() => {
+    const refresh = () => setAuthPolicies(getRelayAuthPolicies(pubkey || undefined));
+    refresh();
+    window.addEventListener("relayAuthPolicyChanged", refresh);
+    return () => window.removeEventListener("relayAuthPolicyChanged", refresh);
+  }, [pubkey]);
+
+  const getAuthPolicy = (url: string): RelayAuthPolicy =>
+    authPolicies[normalizeAuthRelayUrl(url)] ?? DEFAULT_RELAY_AUTH_POLICY;
+
+  const cycleAuthPolicy = (url: string) => {
+    setRelayAuthPolicy(
+      url,
+      nextRelayAuthPolicy(getAuthPolicy(url)),
+      pubkey || undefined
+    );
+  };
+
   // Get outbox mode from UI store
   const outboxMode = useUIStore((s) => s.outboxMode);
 
@@ -574,6 +605,44 @@ export const EnhancedRelayManagementSection: React.FC<
                       </div>
                     )}
 
+                    {/* Auth Policy */}
+                    <div
+                      style={{
+                        display: "flex",
+                        alignItems: "center",
+                        gap: "0.5rem",
+                        fontSize: "0.75rem",
+                        color: "var(--text-muted)",
+                        marginBottom: "0.5rem",
+                        textAlign: "left",
+                      }}
+                    >
+                      <strong>Authenticate (NIP-42):</strong>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          cycleAuthPolicy(status.url);
+                        }}
+                        style={{
+                          padding: "0.125rem 0.5rem",
+                          backgroundColor: "transparent",
+                          border: "1px solid var(--border-color)",
+                          borderRadius: "0",
+                          color: "var(--text-color)",
+                          cursor: "pointer",
+                          fontSize: "0.75rem",
+                          minWidth: "60px",
+                        }}
+                        title="Click to cycle: Always / Ask / Never"
+                      >
+                        {getAuthPolicy(status.url) === "always"
+                          ? "Always"
+                          : getAuthPolicy(status.url) === "never"
+                            ? "Never"
+                            : "Ask"}
+                      </button>
+                    </div>
+
                     {/* Loading State */}
                     {isLoading && (
                       <div
@@ -1,13 +1,51 @@
 import React, { useState } from "react";
+import { nip19 } from "nostr-tools";
 import { SettingRow } from "../SettingRow";
 import { SectionHeader } from "./SectionHeader";
 import { TreeList, TreeListItem } from "./TreeListItem";
+import { SettingsButton } from "./SettingsButton";
 import { useUIStore } from "../lib/useUIStore";
 import {
   setShowReplies,
   setShowReposts,
   setCustomHashtags,
+  setReportFilterMode,
+  setTrustedReporters,
+  setNsfwMode,
+  setMinPowBits,
+  type NsfwMode,
+  type ReportFilterMode,
 } from "../lib/uiStore";
+import { convertPubkeyToHex } from "../../utils/nostr/pubkeyUtils";
+
+const REPORT_FILTER_MODES: { value: ReportFilterMode; label: string }[] = [
+  { value: "off", label: "Off" },
+  { value: "blur", label: "Blur" },
+  { value: "hide", label: "Hide" },
+];
+
+// NSFW notes are always filtered; this picks how
+const NSFW_MODES: { value: NsfwMode; label: string }[] = [
+  { value: "hide", label: "Hide" },
+  { value: "blur", label: "Blur" },
+];
+
+// Minimum proof-of-work (leading zero bits) for authors we don't follow
+const MIN_POW_OPTIONS: { value: number; label: string }[] = [
+  { value: 0, label: "Off" },
+  { value: 8, label: "8" },
+  { value: 12, label: "12" },
+  { value: 16, label: "16" },
+  { value: 20, label: "20" },
+];
+
+const shortNpub = (hex: string): string => {
+  try {
+    return nip19.npubEncode(hex).slice(0, 16) + "…";
+  } catch {
+    return hex.slice(0, 16) + "…";
+  }
+};
 
 interface FiltersSectionProps {
   isMobile: boolean;
@@ -18,9 +56,28 @@ export const FiltersSection: React.FC<FiltersSectionProps> = ({ isMobile }) => {
   const showReplies = useUIStore((s) => s.showReplies);
   const showReposts = useUIStore((s) => s.showReposts);
   // const nsfwBlock = useUIStore((s) => s.nsfwBlock);
+  const nsfwMode = useUIStore((s) => s.nsfwMode ?? "hide");
+  const minPowBits = useUIStore((s) => s.minPowBits ?? 0);
   const customHashtags = useUIStore((s) => s.customHashtags);
+  const reportFilterMode = useUIStore((s) => s.reportFilterMode ?? "off");
+  const trustedReporters = useUIStore((s) => s.trustedReporters ?? []);
 
   const [customHashtagInput, setCustomHashtagInput] = useState("");
+  const [reporterInput, setReporterInput] = useState("");
+  const [reporterError, setReporterError] = useState<string | null>(null);
+
+  const handleAddReporter = () => {
+    const hex = convertPubkeyToHex(reporterInput.trim());
+    if (!hex || !/^[0-9a-f]{64}$/.test(hex)) {
+      setReporterError("Enter a valid npub or hex public key");
+      return;
+    }
+    setReporterError(null);
+    if (!trustedReporters.includes(hex)) {
+      setTrustedReporters([...trustedReporters, hex]);
+    }
+    setReporterInput("");
+  };
 
   // Note: Auto-enable logic moved to useNostrOperations where contacts are actually loaded
 
@@ -78,6 +135,204 @@ export const FiltersSection: React.FC<FiltersSectionProps> = ({ isMobile }) => {
             }}
           />
         </TreeListItem>
+        <TreeListItem>
+          <div
+            style={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+              gap: "1rem",
+            }}
+          >
+            <span
+              style={{
+                fontSize: "0.875rem",
+                color: "var(--text-color)",
+                textAlign: "start",
+              }}
+            >
+              NSFW Notes
+            </span>
+            <div style={{ display: "flex", gap: "0.25rem" }}>
+              {NSFW_MODES.map((option) => (
+                <SettingsButton
+                  key={option.value}
+                  onClick={() => setNsfwMode(option.value)}
+                  width="auto"
+                  style={{
+                    fontWeight: nsfwMode === option.value ? 700 : 400,
+                    borderStyle: nsfwMode === option.value ? "solid" : "dotted",
+                  }}
+                >
+                  {option.label}
+                </SettingsButton>
+              ))}
+            </div>
+          </div>
+        </TreeListItem>
+        {/* NIP-13 proof-of-work floor; follows are exempt */}
+        <TreeListItem>
+          <div
+            style={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+              gap: "1rem",
+            }}
+          >
+            <span
+              style={{
+                fontSize: "0.875rem",
+                color: "var(--text-color)",
+                textAlign: "start",
+              }}
+              title="Hide notes from accounts you don't follow unless they carry at least this much proof of work"
+            >
+              Min PoW (Strangers)
+            </span>
+            <div style={{ display: "flex", gap: "0.25rem" }}>
+              {MIN_POW_OPTIONS.map((option) => (
+                <SettingsButton
+                  key={option.value}
+                  onClick={() => setMinPowBits(option.value)}
+                  width="auto"
+                  style={{
+                    fontWeight: minPowBits === option.value ? 700 : 400,
+                    borderStyle:
+                      minPowBits === option.value ? "solid" : "dotted",
+                  }}
+                >
+                  {option.label}
+                </SettingsButton>
+              ))}
+            </div>
+          </div>
+        </TreeListItem>
+        {/* Notes reported (NIP-56) by follows and trusted reporters */}
+        <TreeListItem>
+          <div
+            style={{ display: "flex", flexDirection: "column", gap: "0.5rem" }}
+          >
+            <div
+              style={{
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "space-between",
+                gap: "1rem",
+              }}
+            >
+              <span
+                style={{
+                  fontSize: "0.875rem",
+                  color: "var(--text-color)",
+                  textAlign: "start",
+                }}
+              >
+                Reported Notes
+              </span>
+              <div style={{ display: "flex", gap: "0.25rem" }}>
+                {REPORT_FILTER_MODES.map((option) => (
+                  <SettingsButton
+                    key={option.value}
+                    onClick={() => setReportFilterMode(option.value)}
+                    width="auto"
+                    style={{
+                      fontWeight: reportFilterMode === option.value ? 700 : 400,
+                      borderStyle:
+                        reportFilterMode === option.value ? "solid" : "dotted",
+                    }}
+                  >
+                    {option.label}
+                  </SettingsButton>
+                ))}
+              </div>
+            </div>
+            {reportFilterMode !== "off" && (
+              <>
+                <div
+                  style={{
+                    fontSize: "var(--font-size-sm)",
+                    color: "var(--text-color)",
+                    opacity: 0.7,
+                    textAlign: "start",
+                  }}
+                >
+                  Counts reports from people you follow and these accounts:
+                </div>
+                {trustedReporters.map((hex) => (
+                  <div
+                    key={hex}
+                    style={{
+                      display: "flex",
+                      alignItems: "center",
+                      gap: "0.5rem",
+                      fontSize: "var(--font-size-sm)",
+                      color: "var(--text-color)",
+                    }}
+                  >
+                    <span style={{ flex: 1, textAlign: "start" }} title={hex}>
+                      {shortNpub(hex)}
+                    </span>
+                    <SettingsButton
+                      onClick={() =>
+                        setTrustedReporters(
+                          trustedReporters.filter((p) => p !== hex)
+                        )
+                      }
+                      variant="danger"
+                      width="auto"
+                    >
+                      ×
+                    </SettingsButton>
+                  </div>
+                ))}
+                <div style={{ display: "flex", gap: "0.5rem" }}>
+                  <input
+                    type="text"
+                    value={reporterInput}
+                    onChange={(e) => setReporterInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") handleAddReporter();
+                    }}
+                    placeholder="Trusted reporter npub"
+                    autoComplete="off"
+                    spellCheck={false}
+                    style={{
+                      flex: 1,
+                      minWidth: 0,
+                      backgroundColor: "transparent",
+                      color: "var(--text-color)",
+                      border: "none",
+                      borderBottom: "1px dotted var(--border-color)",
+                      padding: "0.25rem 0.5rem",
+                      fontSize: "var(--font-size-sm)",
+                      borderRadius: 0,
+                    }}
+                  />
+                  <SettingsButton
+                    onClick={handleAddReporter}
+                    disabled={!reporterInput.trim()}
+                    width="auto"
+                  >
+                    Add
+                  </SettingsButton>
+                </div>
+                {reporterError && (
+                  <div
+                    style={{
+                      fontSize: "var(--font-size-sm)",
+                      color: "var(--btn-accent)",
+                      textAlign: "start",
+                    }}
+                  >
+                    {reporterError}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </TreeListItem>
+
         {/* Custom Filter parent item */}
         <TreeListItem paddingTop="1.5rem" isLast>
           <div
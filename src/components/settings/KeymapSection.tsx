@@ -0,0 +1,414 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { SectionHeader } from "./SectionHeader";
+import { TreeList, TreeListItem } from "./TreeListItem";
+import { SettingsButton } from "./SettingsButton";
+import { useUIStore } from "../lib/useUIStore";
+import { setKeymap } from "../lib/uiStore";
+import type { HotkeyAction, KeymapContext } from "../../types/hotkeys";
+import {
+  EMPTY_KEYMAP,
+  HOTKEY_ACTION_INFO,
+  KEYMAP_CONTEXTS,
+  KEYMAP_CONTEXT_ACTIONS,
+  findKeymapConflicts,
+  isModifierKey,
+  keyEventToBinding,
+  normalizeKeyBinding,
+  parseKeymap,
+  resolveKeymap,
+  serializeKeymap,
+  setKeymapBindings,
+} from "../../utils/keymap";
+
+interface KeymapSectionProps {
+  isMobile?: boolean;
+}
+
+// null edits the bindings shared by every context
+type KeymapScope = KeymapContext | null;
+
+const SCOPE_OPTIONS: { value: KeymapScope; label: string }[] = [
+  { value: null, label: "All" },
+  { value: "feed", label: "Feed" },
+  { value: "thread", label: "Thread" },
+  { value: "modal", label: "Modal" },
+];
+
+// Pause after the last key before a recorded chord is saved
+const CHORD_RECORD_TIMEOUT_MS = 800;
+
+const ALL_ACTIONS: HotkeyAction[] = Array.from(
+  new Set(KEYMAP_CONTEXTS.flatMap((context) => KEYMAP_CONTEXT_ACTIONS[context]))
+);
+
+const inputStyle: React.CSSProperties = {
+  flex: 1,
+  minWidth: 0,
+  backgroundColor: "var(--app-bg-color)",
+  color: "var(--text-color)",
+  border: "1px dotted var(--border-color)",
+  padding: "0.25rem 0.5rem",
+  fontSize: "var(--font-size-sm)",
+  fontFamily: "monospace",
+};
+
+interface BindingRowProps {
+  action: HotkeyAction;
+  bindings: string[];
+  isOverridden: boolean;
+  hasConflict: boolean;
+  isRecording: boolean;
+  onChange: (bindings: string[]) => void;
+  onReset: () => void;
+  onRecord: () => void;
+}
+
+const BindingRow: React.FC<BindingRowProps> = ({
+  action,
+  bindings,
+  isOverridden,
+  hasConflict,
+  isRecording,
+  onChange,
+  onReset,
+  onRecord,
+}) => {
+  const bindingsText = bindings.join(", ");
+  const [draft, setDraft] = useState(bindingsText);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(bindingsText);
+  }, [bindingsText]);
+
+  const commit = () => {
+    const parts = draft
+      .split(",")
+      .map((part) => part.trim())
+      .filter(Boolean);
+    const normalized: string[] = [];
+    for (const part of parts) {
+      const binding = normalizeKeyBinding(part);
+      if (!binding) {
+        setError(`"${part}" is not a key`);
+        return;
+      }
+      if (!normalized.includes(binding)) normalized.push(binding);
+    }
+    setError(null);
+    if (normalized.join(", ") !== bindingsText) onChange(normalized);
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "0.125rem" }}>
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "0.5rem",
+          fontSize: "var(--font-size-sm)",
+          color: "var(--text-color)",
+        }}
+      >
+        <span
+          style={{
+            flex: "0 0 40%",
+            textAlign: "start",
+            fontWeight: isOverridden ? 700 : 400,
+            color: hasConflict ? "var(--btn-accent)" : undefined,
+          }}
+        >
+          {HOTKEY_ACTION_INFO[action].label}
+        </span>
+        <input
+          type="text"
+          value={isRecording ? "Press keys..." : draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") commit();
+          }}
+          readOnly={isRecording}
+          placeholder="unbound"
+          spellCheck={false}
+          autoComplete="off"
+          aria-label={`Keys for ${HOTKEY_ACTION_INFO[action].label}`}
+          style={inputStyle}
+        />
+        <SettingsButton onClick={onRecord} width="auto" disabled={isRecording}>
+          Rec
+        </SettingsButton>
+        <SettingsButton onClick={onReset} width="auto" disabled={!isOverridden}>
+          Reset
+        </SettingsButton>
+      </div>
+      {error && (
+        <span
+          style={{
+            fontSize: "var(--font-size-sm)",
+            color: "var(--btn-accent)",
+            textAlign: "start",
+          }}
+        >
+          {error}
+        </span>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Keymap editor: rebind hotkeys for every page or per context, record
+ * chords like "g g", and move keymaps between browsers as JSON.
+ */
+export const KeymapSection: React.FC<KeymapSectionProps> = ({
+  isMobile = false,
+}) => {
+  const keymap = useUIStore((s) => s.keymap) || EMPTY_KEYMAP;
+  const [scope, setScope] = useState<KeymapScope>(null);
+  const [recording, setRecording] = useState<HotkeyAction | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const conflicts = useMemo(() => findKeymapConflicts(keymap), [keymap]);
+  const actions = scope ? KEYMAP_CONTEXT_ACTIONS[scope] : ALL_ACTIONS;
+
+  const effectiveBindings = useCallback(
+    (action: HotkeyAction): string[] => {
+      if (scope) return resolveKeymap(keymap, scope)[action] ?? [];
+      // The All scope shows the shared binding before context overrides
+      const context = KEYMAP_CONTEXTS.find((c) =>
+        KEYMAP_CONTEXT_ACTIONS[c].includes(action)
+      );
+      return context
+        ? resolveKeymap({ ...keymap, contexts: {} }, context)[action] ?? []
+        : [];
+    },
+    [keymap, scope]
+  );
+
+  const isOverridden = (action: HotkeyAction) =>
+    scope
+      ? keymap.contexts[scope]?.[action] !== undefined
+      : keymap.bindings[action] !== undefined;
+
+  const updateBindings = useCallback(
+    (action: HotkeyAction, bindings: string[] | null) => {
+      setStatusMessage(null);
+      setKeymap(setKeymapBindings(keymap, scope, action, bindings));
+    },
+    [keymap, scope]
+  );
+
+  // Record the next key, or a chord of keys pressed in quick succession
+  useEffect(() => {
+    if (!recording) return;
+    const steps: string[] = [];
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = () => {
+      if (steps.length > 0) {
+        updateBindings(recording, [
+          ...effectiveBindings(recording).filter((b) => b !== steps.join(" ")),
+          steps.join(" "),
+        ]);
+      }
+      setRecording(null);
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      if (isModifierKey(event.key)) return;
+      if (event.key === "Escape" && steps.length === 0) {
+        setRecording(null);
+        return;
+      }
+      steps.push(keyEventToBinding(event));
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(finish, CHORD_RECORD_TIMEOUT_MS);
+    };
+
+    // Capture phase so the hotkey system never sees the keys being recorded
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown, true);
+      if (timer) clearTimeout(timer);
+    };
+  }, [recording, updateBindings, effectiveBindings]);
+
+  const handleExport = useCallback(() => {
+    const blob = new Blob([serializeKeymap(keymap)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `keymap-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [keymap]);
+
+  const handleImportFile = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = "";
+      if (!file) return;
+      try {
+        const imported = parseKeymap(await file.text());
+        setKeymap(imported);
+        const importedConflicts = findKeymapConflicts(imported).length;
+        setStatusMessage(
+          importedConflicts > 0
+            ? `Keymap imported with ${importedConflicts} conflict${importedConflicts === 1 ? "" : "s"}`
+            : "Keymap imported"
+        );
+      } catch (error) {
+        console.error("Failed to import keymap:", error);
+        setStatusMessage(
+          error instanceof Error ? error.message : "Failed to import keymap"
+        );
+      }
+    },
+    []
+  );
+
+  const handleResetAll = () => {
+    if (window.confirm("Reset every shortcut to its default?")) {
+      setKeymap(EMPTY_KEYMAP);
+      setStatusMessage("Shortcuts reset to defaults");
+    }
+  };
+
+  const conflictingActions = new Set(
+    conflicts
+      .filter((c) => !scope || c.context === scope)
+      .flatMap((c) => c.actions)
+  );
+
+  return (
+    <div style={{ flex: 1, minWidth: 0 }}>
+      <SectionHeader
+        title="Keyboard Shortcuts"
+        paddingTop={isMobile ? "1rem" : "0"}
+      />
+      <TreeList>
+        <TreeListItem>
+          <div
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: "0.5rem",
+              flexWrap: "wrap",
+              fontSize: "var(--font-size-sm)",
+              color: "var(--text-color)",
+            }}
+          >
+            <span style={{ textAlign: "start" }}>Applies to</span>
+            {SCOPE_OPTIONS.map((option) => {
+              const selected = option.value === scope;
+              return (
+                <SettingsButton
+                  key={option.label}
+                  onClick={() => {
+                    setRecording(null);
+                    setScope(option.value);
+                  }}
+                  width="auto"
+                  style={{
+                    fontWeight: selected ? 700 : 400,
+                    borderStyle: selected ? "solid" : "dotted",
+                  }}
+                >
+                  {option.label}
+                </SettingsButton>
+              );
+            })}
+          </div>
+        </TreeListItem>
+
+        {actions.map((action) => (
+          <TreeListItem key={`${scope ?? "all"}-${action}`}>
+            <BindingRow
+              action={action}
+              bindings={effectiveBindings(action)}
+              isOverridden={isOverridden(action)}
+              hasConflict={conflictingActions.has(action)}
+              isRecording={recording === action}
+              onChange={(bindings) => updateBindings(action, bindings)}
+              onReset={() => updateBindings(action, null)}
+              onRecord={() => setRecording(action)}
+            />
+          </TreeListItem>
+        ))}
+
+        {conflicts.length > 0 && (
+          <TreeListItem>
+            <div
+              style={{
+                display: "flex",
+                flexDirection: "column",
+                gap: "0.125rem",
+                fontSize: "var(--font-size-sm)",
+                color: "var(--btn-accent)",
+                textAlign: "start",
+              }}
+            >
+              {conflicts.map((conflict) => (
+                <span key={`${conflict.context}:${conflict.binding}`}>
+                  {conflict.context}: "{conflict.binding}"{" "}
+                  {conflict.isPrefix
+                    ? "can't be typed because its first key is bound to"
+                    : "is bound to"}{" "}
+                  {conflict.actions
+                    .map((a) => HOTKEY_ACTION_INFO[a].label)
+                    .join(", ")}
+                </span>
+              ))}
+            </div>
+          </TreeListItem>
+        )}
+
+        <TreeListItem isLast>
+          <div style={{ display: "flex", flexDirection: "column", gap: "0.25rem" }}>
+            <div style={{ display: "flex", gap: "0.5rem" }}>
+              <SettingsButton onClick={handleExport} width="auto">
+                Export
+              </SettingsButton>
+              <SettingsButton
+                onClick={() => fileInputRef.current?.click()}
+                width="auto"
+              >
+                Import
+              </SettingsButton>
+              <SettingsButton
+                onClick={handleResetAll}
+                variant="danger"
+                width="auto"
+              >
+                Reset all
+              </SettingsButton>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                onChange={handleImportFile}
+                style={{ display: "none" }}
+              />
+            </div>
+            <div
+              style={{
+                fontSize: "0.75rem",
+                color: "var(--text-color-muted)",
+                textAlign: "start",
+              }}
+            >
+              {statusMessage ||
+                'Separate keys with commas. Use "shift+r" for combos and "g g" for chords; Rec records the keys you press.'}
+            </div>
+          </div>
+        </TreeListItem>
+      </TreeList>
+    </div>
+  );
+};
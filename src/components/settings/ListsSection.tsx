@@ -0,0 +1,327 @@
+import React, { useCallback, useContext, useMemo, useState } from "react";
+import { nip19 } from "nostr-tools";
+import { SectionHeader } from "./SectionHeader";
+import { TreeList, TreeListItem } from "./TreeListItem";
+import { SettingsButton } from "./SettingsButton";
+import { NostrContext } from "../../contexts/NostrContext";
+import { useRelayManager } from "../../hooks/useRelayManager";
+import { useNostrLists } from "../../hooks/useNostrLists";
+import { convertPubkeyToHex } from "../../utils/nostr/pubkeyUtils";
+import {
+  BOOKMARK_LIST_KIND,
+  FOLLOW_SET_KIND,
+  getListAddress,
+  getListTitle,
+  removeListEntry,
+  uniqueListDTag,
+  upsertListEntry,
+  type NostrList,
+} from "../../utils/nostr/lists";
+
+interface ListsSectionProps {
+  isMobile?: boolean;
+}
+
+const shortEntry = (tag: string[]): string => {
+  try {
+    if (tag[0] === "p") return nip19.npubEncode(tag[1]).slice(0, 16) + "…";
+    if (tag[0] === "e") return nip19.noteEncode(tag[1]).slice(0, 16) + "…";
+  } catch {
+    // Fall through to the raw value
+  }
+  return tag[1].length > 24 ? `${tag[1].slice(0, 24)}…` : tag[1];
+};
+
+const inputStyle: React.CSSProperties = {
+  flex: 1,
+  minWidth: 0,
+  backgroundColor: "var(--app-bg-color)",
+  color: "var(--text-color)",
+  border: "1px dotted var(--border-color)",
+  padding: "0.25rem 0.5rem",
+  fontSize: "var(--font-size-sm)",
+};
+
+/**
+ * Settings section for NIP-51 lists: follow sets usable as feeds and the
+ * kind 10003 bookmark list. Entries can be kept public or encrypted (NIP-44).
+ */
+export const ListsSection: React.FC<ListsSectionProps> = () => {
+  const { nostrClient, pubkey, loginMethod } = useContext(NostrContext);
+  const { relayUrls, relayPermissions } = useRelayManager({
+    nostrClient,
+    initialRelays: [],
+    pubkeyHex: pubkey,
+  });
+  const { lists, followSets, isLoading, error, saveList, isSaving } = useNostrLists(
+    relayUrls,
+    relayPermissions
+  );
+
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [newListTitle, setNewListTitle] = useState("");
+  const [memberInput, setMemberInput] = useState("");
+  const [memberPrivate, setMemberPrivate] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const canSign =
+    loginMethod === "nip07" || loginMethod === "nsec" || loginMethod === "nip46";
+
+  const sortedLists = useMemo(
+    () =>
+      [...lists].sort((a, b) =>
+        a.kind === b.kind ? 0 : a.kind === BOOKMARK_LIST_KIND ? -1 : 1
+      ),
+    [lists]
+  );
+
+  const save = useCallback(
+    async (list: NostrList, update: (list: NostrList) => NostrList) => {
+      setActionError(null);
+      try {
+        await saveList({ list, update });
+      } catch (err) {
+        console.error("Failed to save list:", err);
+        setActionError(err instanceof Error ? err.message : "Failed to save list");
+      }
+    },
+    [saveList]
+  );
+
+  const handleCreateList = useCallback(async () => {
+    const title = newListTitle.trim();
+    if (!title || !pubkey) return;
+    const hex = convertPubkeyToHex(memberInput.trim());
+    if (!hex || !/^[0-9a-f]{64}$/.test(hex)) {
+      // A follow set needs at least one member; empty sets read as deleted
+      setActionError("Add the first member's npub to create a list");
+      return;
+    }
+    const newList: NostrList = {
+      kind: FOLLOW_SET_KIND,
+      pubkey,
+      // "Work" next to an existing "work" set must not replace it
+      dTag: uniqueListDTag(title, followSets.map((l) => l.dTag)),
+      title,
+      publicTags: [],
+      privateTags: [],
+      created_at: Math.floor(Date.now() / 1000),
+      privateReadable: true,
+    };
+    await save(newList, (list) => upsertListEntry(list, ["p", hex], memberPrivate));
+    setNewListTitle("");
+    setMemberInput("");
+  }, [newListTitle, memberInput, memberPrivate, pubkey, followSets, save]);
+
+  const handleAddMember = useCallback(
+    async (list: NostrList) => {
+      const hex = convertPubkeyToHex(memberInput.trim());
+      if (!hex || !/^[0-9a-f]{64}$/.test(hex)) {
+        setActionError("Enter a valid npub or hex public key");
+        return;
+      }
+      await save(list, (latest) => upsertListEntry(latest, ["p", hex], memberPrivate));
+      setMemberInput("");
+    },
+    [memberInput, memberPrivate, save]
+  );
+
+  if (!pubkey) return null;
+
+  return (
+    <div style={{ flex: 1, minWidth: 0 }}>
+      <SectionHeader title="Lists" paddingTop="0" />
+      <TreeList style={{ overflow: "hidden" }}>
+        <TreeListItem>
+          <div
+            style={{
+              color: "var(--text-color)",
+              fontSize: "var(--font-size-sm)",
+              textAlign: "start",
+              opacity: 0.8,
+            }}
+          >
+            {isLoading
+              ? "Loading lists..."
+              : error
+                ? `Failed to load lists: ${error}`
+                : `Follow sets appear in the feed relay selector. 🔒 entries are encrypted and only visible to you.`}
+          </div>
+        </TreeListItem>
+
+        {sortedLists.map((list) => {
+          const address = getListAddress(list);
+          const isOpen = expanded === address;
+          // Saving without the private part would erase it on relays
+          const canEdit = canSign && list.privateReadable;
+          const entries = [
+            ...list.publicTags.map((t) => ({ tag: t, isPrivate: false })),
+            ...list.privateTags.map((t) => ({ tag: t, isPrivate: true })),
+          ];
+          return (
+            <TreeListItem key={address}>
+              <SettingsButton
+                onClick={() => setExpanded(isOpen ? null : address)}
+                textAlign="start"
+                style={{ width: "100%" }}
+              >
+                {isOpen ? "▼" : "▶"} {getListTitle(list)} ({entries.length}
+                {!list.privateReadable ? " + encrypted" : ""})
+              </SettingsButton>
+
+              {isOpen && (
+                <div
+                  style={{
+                    display: "flex",
+                    flexDirection: "column",
+                    gap: "0.25rem",
+                    padding: "0.25rem 0 0.5rem 1rem",
+                  }}
+                >
+                  {entries.length === 0 && (
+                    <div
+                      style={{
+                        fontSize: "var(--font-size-sm)",
+                        color: "var(--text-muted)",
+                        textAlign: "start",
+                      }}
+                    >
+                      No entries
+                    </div>
+                  )}
+                  {entries.map(({ tag, isPrivate }) => (
+                    <div
+                      key={`${tag[0]}:${tag[1]}`}
+                      style={{
+                        display: "flex",
+                        alignItems: "center",
+                        gap: "0.5rem",
+                        fontSize: "var(--font-size-sm)",
+                        color: "var(--text-color)",
+                      }}
+                    >
+                      <span style={{ flex: 1, textAlign: "start" }} title={tag[1]}>
+                        {isPrivate ? "🔒 " : ""}
+                        {shortEntry(tag)}
+                      </span>
+                      <SettingsButton
+                        onClick={() => save(list, (latest) => upsertListEntry(latest, tag, !isPrivate))}
+                        disabled={!canEdit || isSaving}
+                        width="auto"
+                      >
+                        {isPrivate ? "Make public" : "Make private"}
+                      </SettingsButton>
+                      <SettingsButton
+                        onClick={() => save(list, (latest) => removeListEntry(latest, tag))}
+                        disabled={!canEdit || isSaving}
+                        variant="danger"
+                        width="auto"
+                      >
+                        ×
+                      </SettingsButton>
+                    </div>
+                  ))}
+
+                  {!list.privateReadable && (
+                    <div
+                      style={{
+                        fontSize: "var(--font-size-sm)",
+                        color: "var(--text-muted)",
+                        textAlign: "start",
+                      }}
+                    >
+                      Encrypted entries could not be read; unlock your key to edit this list
+                    </div>
+                  )}
+
+                  {list.kind === FOLLOW_SET_KIND && canEdit && (
+                    <div style={{ display: "flex", gap: "0.5rem" }}>
+                      <input
+                        type="text"
+                        value={memberInput}
+                        onChange={(e) => setMemberInput(e.target.value)}
+                        placeholder="npub or hex pubkey"
+                        autoComplete="off"
+                        spellCheck={false}
+                        style={inputStyle}
+                      />
+                      <SettingsButton
+                        onClick={() => handleAddMember(list)}
+                        disabled={isSaving || !memberInput.trim()}
+                        width="auto"
+                      >
+                        Add
+                      </SettingsButton>
+                    </div>
+                  )}
+                </div>
+              )}
+            </TreeListItem>
+          );
+        })}
+
+        {canSign && (
+          <TreeListItem isLast>
+            <div style={{ display: "flex", flexDirection: "column", gap: "0.25rem" }}>
+              <div style={{ display: "flex", gap: "0.5rem" }}>
+                <input
+                  type="text"
+                  value={newListTitle}
+                  onChange={(e) => setNewListTitle(e.target.value)}
+                  placeholder='New list, e.g. "Work"'
+                  autoComplete="off"
+                  style={inputStyle}
+                />
+                <SettingsButton
+                  onClick={handleCreateList}
+                  disabled={isSaving || !newListTitle.trim()}
+                  width="auto"
+                >
+                  Create
+                </SettingsButton>
+              </div>
+              {!expanded && (
+                <input
+                  type="text"
+                  value={memberInput}
+                  onChange={(e) => setMemberInput(e.target.value)}
+                  placeholder="First member (npub)"
+                  autoComplete="off"
+                  spellCheck={false}
+                  style={inputStyle}
+                />
+              )}
+              <label
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: "0.5rem",
+                  fontSize: "var(--font-size-sm)",
+                  color: "var(--text-color)",
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={memberPrivate}
+                  onChange={(e) => setMemberPrivate(e.target.checked)}
+                />
+                Add members privately (encrypted)
+              </label>
+              {actionError && (
+                <div
+                  style={{
+                    fontSize: "var(--font-size-sm)",
+                    color: "var(--btn-accent)",
+                    textAlign: "start",
+                  }}
+                >
+                  {actionError}
+                </div>
+              )}
+            </div>
+          </TreeListItem>
+        )}
+      </TreeList>
+    </div>
+  );
+};
@@ -0,0 +1,270 @@
+import React, { useCallback, useContext, useMemo, useState } from "react";
+import { nip19 } from "nostr-tools";
+import { SectionHeader } from "./SectionHeader";
+import { TreeList, TreeListItem } from "./TreeListItem";
+import { SettingsButton } from "./SettingsButton";
+import { NostrContext } from "../../contexts/NostrContext";
+import { useRelayManager } from "../../hooks/useRelayManager";
+import { useMuteList } from "../../hooks/useMuteList";
+import {
+  MUTE_ENTRY_TYPES,
+  isRegexMuteWord,
+  toMuteEntry,
+  type MuteEntryType,
+} from "../../utils/muteFilter";
+
+interface MuteListSectionProps {
+  isMobile?: boolean;
+}
+
+const GROUP_LABELS: Record<MuteEntryType, string> = {
+  p: "People",
+  word: "Words",
+  t: "Hashtags",
+  e: "Threads",
+};
+
+const INPUT_PLACEHOLDERS: Record<MuteEntryType, string> = {
+  p: "npub or hex pubkey",
+  word: "word, phrase or /regex/i",
+  t: "hashtag",
+  e: "note, nevent or event id",
+};
+
+const TYPE_OPTIONS: { value: MuteEntryType; label: string }[] = [
+  { value: "word", label: "Word" },
+  { value: "t", label: "Hashtag" },
+  { value: "e", label: "Thread" },
+  { value: "p", label: "Person" },
+];
+
+const shortEntry = (tag: string[]): string => {
+  try {
+    if (tag[0] === "p") return nip19.npubEncode(tag[1]).slice(0, 16) + "…";
+    if (tag[0] === "e") return nip19.noteEncode(tag[1]).slice(0, 16) + "…";
+  } catch {
+    // Fall through to the raw value
+  }
+  if (tag[0] === "t") return `#${tag[1]}`;
+  return tag[1].length > 32 ? `${tag[1].slice(0, 32)}…` : tag[1];
+};
+
+const inputStyle: React.CSSProperties = {
+  flex: 1,
+  minWidth: 0,
+  backgroundColor: "var(--app-bg-color)",
+  color: "var(--text-color)",
+  border: "1px dotted var(--border-color)",
+  padding: "0.25rem 0.5rem",
+  fontSize: "var(--font-size-sm)",
+};
+
+/**
+ * Settings section for the NIP-51 mute list (kind 10000). Muted people,
+ * words, hashtags and threads are hidden from feeds, threads, search and
+ * notifications; 🔒 entries are encrypted and only visible to you.
+ */
+export const MuteListSection: React.FC<MuteListSectionProps> = () => {
+  const { nostrClient, pubkey, loginMethod } = useContext(NostrContext);
+  const { relayUrls, relayPermissions } = useRelayManager({
+    nostrClient,
+    initialRelays: [],
+    pubkeyHex: pubkey,
+  });
+  const { muteList, addMute, removeMute, isSaving, isLoading, error } =
+    useMuteList(relayUrls, relayPermissions);
+
+  const [entryType, setEntryType] = useState<MuteEntryType>("word");
+  const [input, setInput] = useState("");
+  const [isPrivate, setIsPrivate] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const canSign =
+    loginMethod === "nip07" || loginMethod === "nsec" || loginMethod === "nip46";
+
+  const groups = useMemo(() => {
+    const entries = [
+      ...(muteList?.publicTags ?? []).map((tag) => ({ tag, isPrivate: false })),
+      ...(muteList?.privateTags ?? []).map((tag) => ({ tag, isPrivate: true })),
+    ];
+    return MUTE_ENTRY_TYPES.map((type) => ({
+      type,
+      entries: entries.filter(({ tag }) => tag[0] === type),
+    })).filter((group) => group.entries.length > 0);
+  }, [muteList]);
+
+  const run = useCallback(async (action: () => Promise<unknown>) => {
+    setActionError(null);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      console.error("Failed to update mute list:", err);
+      setActionError(
+        err instanceof Error ? err.message : "Failed to update mute list"
+      );
+      return false;
+    }
+  }, []);
+
+  const handleAdd = useCallback(async () => {
+    let entry: string[];
+    try {
+      entry = toMuteEntry(entryType, input);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : "Invalid entry");
+      return;
+    }
+    if (await run(() => addMute(entry, isPrivate))) setInput("");
+  }, [entryType, input, isPrivate, addMute, run]);
+
+  if (!pubkey) return null;
+
+  return (
+    <div style={{ flex: 1, minWidth: 0 }}>
+      <SectionHeader title="Muted" paddingTop="0" />
+      <TreeList style={{ overflow: "hidden" }}>
+        <TreeListItem>
+          <div
+            style={{
+              color: "var(--text-color)",
+              fontSize: "var(--font-size-sm)",
+              textAlign: "start",
+              opacity: 0.8,
+            }}
+          >
+            {isLoading
+              ? "Loading mute list..."
+              : error
+                ? `Failed to load mute list: ${error instanceof Error ? error.message : String(error)}`
+                : muteList && !muteList.privateReadable
+                  ? "Some entries are encrypted; unlock your key to see and edit them."
+                  : "Hidden from feeds, threads, search and notifications. Wrap words in /slashes/ for a regex."}
+          </div>
+        </TreeListItem>
+
+        {groups.map((group) => (
+          <TreeListItem key={group.type}>
+            <div
+              style={{
+                display: "flex",
+                flexDirection: "column",
+                gap: "0.25rem",
+              }}
+            >
+              <div
+                style={{
+                  fontSize: "var(--font-size-sm)",
+                  color: "var(--text-muted)",
+                  textAlign: "start",
+                }}
+              >
+                {GROUP_LABELS[group.type]} ({group.entries.length})
+              </div>
+              {group.entries.map(({ tag, isPrivate: entryPrivate }) => (
+                <div
+                  key={`${tag[0]}:${tag[1]}`}
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    gap: "0.5rem",
+                    fontSize: "var(--font-size-sm)",
+                    color: "var(--text-color)",
+                  }}
+                >
+                  <span style={{ flex: 1, textAlign: "start" }} title={tag[1]}>
+                    {entryPrivate ? "🔒 " : ""}
+                    {shortEntry(tag)}
+                    {tag[0] === "word" && isRegexMuteWord(tag[1]) ? " (regex)" : ""}
+                  </span>
+                  <SettingsButton
+                    onClick={() => run(() => addMute(tag, !entryPrivate))}
+                    disabled={!canSign || isSaving}
+                    width="auto"
+                  >
+                    {entryPrivate ? "Make public" : "Make private"}
+                  </SettingsButton>
+                  <SettingsButton
+                    onClick={() => run(() => removeMute(tag))}
+                    disabled={!canSign || isSaving}
+                    variant="danger"
+                    width="auto"
+                  >
+                    ×
+                  </SettingsButton>
+                </div>
+              ))}
+            </div>
+          </TreeListItem>
+        ))}
+
+        {canSign && (
+          <TreeListItem isLast>
+            <div style={{ display: "flex", flexDirection: "column", gap: "0.25rem" }}>
+              <div style={{ display: "flex", gap: "0.5rem" }}>
+                <select
+                  value={entryType}
+                  onChange={(e) => setEntryType(e.target.value as MuteEntryType)}
+                  style={{ ...inputStyle, flex: "0 0 auto" }}
+                  aria-label="Mute type"
+                >
+                  {TYPE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={input}
+                  onChange={(e) => setInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") handleAdd();
+                  }}
+                  placeholder={INPUT_PLACEHOLDERS[entryType]}
+                  autoComplete="off"
+                  spellCheck={false}
+                  style={inputStyle}
+                />
+                <SettingsButton
+                  onClick={handleAdd}
+                  disabled={isSaving || !input.trim()}
+                  width="auto"
+                >
+                  Mute
+                </SettingsButton>
+              </div>
+              <label
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: "0.5rem",
+                  fontSize: "var(--font-size-sm)",
+                  color: "var(--text-color)",
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={isPrivate}
+                  onChange={(e) => setIsPrivate(e.target.checked)}
+                />
+                Mute privately (encrypted)
+              </label>
+              {actionError && (
+                <div
+                  style={{
+                    fontSize: "var(--font-size-sm)",
+                    color: "var(--btn-accent)",
+                    textAlign: "start",
+                  }}
+                >
+                  {actionError}
+                </div>
+              )}
+            </div>
+          </TreeListItem>
+        )}
+      </TreeList>
+    </div>
+  );
+};
@@ -406,6 +406,16 @@ export const UserLoginSection: React.FC<UserLoginSectionProps> = ({
                 >
                   Using Extension Key
                 </div>
+              ) : loginMethod === "nip46" ? (
+                <div
+                  style={{
+                    fontSize: "0.75rem",
+                    color: "var(--text-color)",
+                    textAlign: "left",
+                  }}
+                >
+                  Using Remote Signer
+                </div>
               ) : (
                 <div
                   style={{
@@ -5,6 +5,7 @@ import { formatRelativeTime } from "../../utils/nostr/utils";
 import { CommentDisplayName } from "./CommentDisplayName";
 import { LikeButton } from "./LikeButton";
 import NoteContentRenderer from "../NoteContentRenderer";
+import { getContentWarning } from "../../utils/nostr/contentWarning";
 import LoadingTextMultiLine from "../ui/LoadingTextMultiLine";
 import NestedReplies from "./NestedReplies";
 
@@ -46,6 +47,8 @@ type CommentsListProps = {
     dimensions: { width: number; height: number }
   ) => void;
   prefetchThreadFn?: (noteId: string) => void;
+  sortReplies?: (notes: Note[]) => Note[];
+  newReplyIds?: Set<string>;
 };
 
 const CommentsList: React.FC<CommentsListProps> = ({
@@ -82,6 +85,8 @@ const CommentsList: React.FC<CommentsListProps> = ({
   onMediaLoadError = () => {},
   onImageDimensionsLoaded = () => {},
   prefetchThreadFn,
+  sortReplies,
+  newReplyIds,
 }) => {
   // Only show loading when actively fetching AND no comments loaded yet
   if (isLoadingComments && comments.length === 0) {
@@ -148,6 +153,7 @@ const CommentsList: React.FC<CommentsListProps> = ({
               id={`note-${comment.id}`}
               data-note-id={comment.id}
               data-index={idx + 1}
+              data-new-reply={newReplyIds?.has(comment.id) || undefined}
               style={{ position: "relative", paddingLeft: "1.5rem" }}
             >
               {/* Horizontal connector from vertical line to this reply */}
@@ -221,6 +227,17 @@ const CommentsList: React.FC<CommentsListProps> = ({
                   >
                     {formatRelativeTime(comment.created_at)}
                   </span>
+                  {newReplyIds?.has(comment.id) && (
+                    <span
+                      style={{
+                        color: "var(--accent-color)",
+                        fontSize: "0.75rem",
+                        flexShrink: 0,
+                      }}
+                    >
+                      new
+                    </span>
+                  )}
                   <button
                     onMouseEnter={() => prefetchThreadFn?.(comment.id)}
                     onTouchStart={() => prefetchThreadFn?.(comment.id)}
@@ -334,6 +351,7 @@ const CommentsList: React.FC<CommentsListProps> = ({
                       }}
                     >
                       <NoteContentRenderer
+                        contentWarning={getContentWarning(comment.tags)}
                         content={comment.content}
                         useAscii={useAscii}
                         useColor={useColor}
@@ -384,6 +402,8 @@ const CommentsList: React.FC<CommentsListProps> = ({
                       onMediaLoadError={onMediaLoadError}
                       onImageDimensionsLoaded={onImageDimensionsLoaded}
                       prefetchThreadFn={prefetchThreadFn}
+                      sortReplies={sortReplies}
+                      newReplyIds={newReplyIds}
                     />
                   </div>
                 )}
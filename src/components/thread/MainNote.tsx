@@ -3,6 +3,7 @@ import type { Note } from "../../types/nostr/types";
 import { nip19 } from "nostr-tools";
 import { formatRelativeTime } from "../../utils/nostr/utils";
 import NoteContentRenderer from "../NoteContentRenderer";
+import { getContentWarning } from "../../utils/nostr/contentWarning";
 import { CommentDisplayName } from "./CommentDisplayName";
 import { LikeButton } from "./LikeButton";
 import LoadingText from "../ui/LoadingText";
@@ -250,6 +251,7 @@ const MainNote: React.FC<MainNoteProps> = ({
                 }}
               >
                 <NoteContentRenderer
+                  contentWarning={getContentWarning(currentParentNote.tags)}
                   content={
                     showFullMainNoteContent
                       ? currentParentNote.content
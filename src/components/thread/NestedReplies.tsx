@@ -7,6 +7,7 @@ import { formatRelativeTime } from "../../utils/nostr/utils";
 import { CommentDisplayName } from "./CommentDisplayName";
 import { LikeButton } from "./LikeButton";
 import NoteContentRenderer from "../NoteContentRenderer";
+import { getContentWarning } from "../../utils/nostr/contentWarning";
 
 type NestedRepliesProps = {
   commentId: string;
@@ -40,6 +41,10 @@ type NestedRepliesProps = {
     dimensions: { width: number; height: number }
   ) => void;
   prefetchThreadFn?: (noteId: string) => void;
+  // Thread sort mode applied to each reply level; chronological when absent
+  sortReplies?: (notes: Note[]) => Note[];
+  // Replies that arrived since the previous visit
+  newReplyIds?: Set<string>;
 };
 
 const NestedReplies: React.FC<NestedRepliesProps> = ({
@@ -70,6 +75,8 @@ const NestedReplies: React.FC<NestedRepliesProps> = ({
   onMediaLoadError = () => {},
   onImageDimensionsLoaded = () => {},
   prefetchThreadFn,
+  sortReplies,
+  newReplyIds,
 }) => {
   const queryClient = useQueryClient();
   // Prefer id-based child mapping if present; fall back to provided structure
@@ -114,6 +121,10 @@ const NestedReplies: React.FC<NestedRepliesProps> = ({
     }
   }
 
+  if (sortReplies) {
+    nestedReplies = sortReplies(nestedReplies);
+  }
+
   const replyCount = nestedReplies.length;
 
   // Show replies by default if they exist, but respect user's toggle state
@@ -233,6 +244,7 @@ const NestedReplies: React.FC<NestedRepliesProps> = ({
                   id={`note-${nestedReply.id}`}
                   data-note-id={nestedReply.id}
                   data-index={undefined as any}
+                  data-new-reply={newReplyIds?.has(nestedReply.id) || undefined}
                   style={{
                     position: "relative",
                     paddingLeft: "1.5rem",
@@ -322,6 +334,17 @@ const NestedReplies: React.FC<NestedRepliesProps> = ({
                       >
                         {formatRelativeTime(nestedReply.created_at)}
                       </span>
+                      {newReplyIds?.has(nestedReply.id) && (
+                        <span
+                          style={{
+                            color: "var(--accent-color)",
+                            fontSize: "0.75rem",
+                            flexShrink: 0,
+                          }}
+                        >
+                          new
+                        </span>
+                      )}
                       <button
                         onMouseEnter={() => prefetchThreadFn?.(nestedReply.id)}
                         onTouchStart={() => prefetchThreadFn?.(nestedReply.id)}
@@ -377,6 +400,7 @@ const NestedReplies: React.FC<NestedRepliesProps> = ({
                           }}
                         >
                           <NoteContentRenderer
+                            contentWarning={getContentWarning(nestedReply.tags)}
                             content={nestedReply.content}
                             useAscii={useAscii}
                             useColor={useColor}
@@ -430,6 +454,8 @@ const NestedReplies: React.FC<NestedRepliesProps> = ({
                             onMediaLoadError={onMediaLoadError}
                             onImageDimensionsLoaded={onImageDimensionsLoaded}
                             prefetchThreadFn={prefetchThreadFn}
+                            sortReplies={sortReplies}
+                            newReplyIds={newReplyIds}
                           />
                         )}
 
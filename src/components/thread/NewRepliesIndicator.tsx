@@ -0,0 +1,61 @@
+import React from "react";
+
+interface NewRepliesIndicatorProps {
+  count: number;
+  onReveal: () => void;
+  isMobile: boolean;
+}
+
+// Live replies wait behind this button so the thread doesn't move while reading.
+// It floats in a zero-height sticky slot, so showing or hiding it never
+// shifts the replies below.
+const NewRepliesIndicator: React.FC<NewRepliesIndicatorProps> = ({
+  count,
+  onReveal,
+  isMobile,
+}) => {
+  return (
+    <div
+      aria-live="polite"
+      style={{
+        position: "sticky",
+        top: "0.5rem",
+        height: 0,
+        zIndex: 10,
+      }}
+    >
+      {count > 0 && (
+        <button
+          type="button"
+          onClick={onReveal}
+          title="Show replies that arrived while reading"
+          style={{
+            position: "absolute",
+            top: 0,
+            left: 0,
+            right: 0,
+            backgroundColor: "var(--app-bg-color)",
+            borderRadius: "0",
+            border: "1px solid var(--border-color)",
+            color: "var(--text-color)",
+            fontSize: isMobile ? "0.875rem" : "0.75rem",
+            fontWeight: "normal",
+            textTransform: "uppercase",
+            whiteSpace: "nowrap",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            padding: isMobile ? "0 0.875rem" : "0 0.75rem",
+            cursor: "pointer",
+            minHeight: "2rem",
+            height: "2rem",
+          }}
+        >
+          {count} new {count === 1 ? "reply" : "replies"}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default NewRepliesIndicator;
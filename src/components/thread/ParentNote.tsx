@@ -4,6 +4,7 @@ import { nip19 } from "nostr-tools";
 import type { Note } from "../../types/nostr/types";
 import { formatRelativeTime } from "../../utils/nostr/utils";
 import NoteContentRenderer from "../NoteContentRenderer";
+import { getContentWarning } from "../../utils/nostr/contentWarning";
 import { LikeButton } from "./LikeButton";
 
 export interface ParentNoteProps {
@@ -260,6 +261,7 @@ export const ParentNote: React.FC<ParentNoteProps> = ({
           }}
         >
           <NoteContentRenderer
+            contentWarning={getContentWarning(currentParentNote.tags)}
             content={currentParentNote.content}
             useAscii={useAscii}
             useColor={useColor}
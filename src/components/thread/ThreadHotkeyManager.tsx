@@ -16,6 +16,8 @@ interface ThreadHotkeyManagerProps {
   onCollapse?: () => void;
   onFocusThread?: () => void;
   onScrollToParent?: () => void;
+  onNextNewReply?: () => void;
+  onPreviousNewReply?: () => void;
   onBackToFeed?: () => void;
   onHelpToggle?: () => void;
   onEscape?: () => void;
@@ -35,6 +37,8 @@ export const ThreadHotkeyManager: React.FC<ThreadHotkeyManagerProps> = ({
   onCollapse,
   onFocusThread,
   onScrollToParent,
+  onNextNewReply,
+  onPreviousNewReply,
   onBackToFeed,
   onHelpToggle,
   onEscape,
@@ -53,6 +57,8 @@ export const ThreadHotkeyManager: React.FC<ThreadHotkeyManagerProps> = ({
     onCollapse,
     onFocusThread,
     onScrollToParent,
+    onNextNewReply,
+    onPreviousNewReply,
     onBackToFeed,
     onHelpToggle,
     onEscape,
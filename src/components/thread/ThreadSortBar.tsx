@@ -0,0 +1,80 @@
+import React from "react";
+import {
+  THREAD_SORT_MODES,
+  type ThreadSortMode,
+} from "../../utils/thread/sort";
+
+type ThreadSortBarProps = {
+  sortMode: ThreadSortMode;
+  onSortModeChange: (mode: ThreadSortMode) => void;
+  newReplyCount: number;
+  onNextNewReply: () => void;
+  isLoggedIn: boolean;
+};
+
+const linkStyle: React.CSSProperties = {
+  background: "transparent",
+  border: "none",
+  cursor: "pointer",
+  padding: 0,
+  color: "var(--ibm-slate-blue)",
+  fontSize: "0.75rem",
+  minHeight: "unset",
+};
+
+const ThreadSortBar: React.FC<ThreadSortBarProps> = ({
+  sortMode,
+  onSortModeChange,
+  newReplyCount,
+  onNextNewReply,
+  isLoggedIn,
+}) => (
+  <div
+    style={{
+      display: "flex",
+      flexWrap: "wrap",
+      alignItems: "center",
+      gap: "0.5rem",
+      marginBottom: "0.5rem",
+      fontSize: "0.75rem",
+      color: "var(--ibm-pewter)",
+      textAlign: "left",
+    }}
+  >
+    <span>sort:</span>
+    {THREAD_SORT_MODES.filter(
+      // Follows-first needs a follow list
+      ({ mode }) => mode !== "follows" || isLoggedIn
+    ).map(({ mode, label, title }) => {
+      const selected = mode === sortMode;
+      return (
+        <button
+          key={mode}
+          type="button"
+          onClick={() => onSortModeChange(mode)}
+          title={title}
+          aria-pressed={selected}
+          style={{
+            ...linkStyle,
+            fontWeight: selected ? 700 : 400,
+            textDecoration: selected ? "underline" : "none",
+          }}
+        >
+          [{label}]
+        </button>
+      );
+    })}
+    {newReplyCount > 0 && (
+      <button
+        type="button"
+        onClick={onNextNewReply}
+        title="Jump to the next reply since your last visit"
+        style={{ ...linkStyle, color: "var(--accent-color)" }}
+      >
+        {newReplyCount} new {newReplyCount === 1 ? "reply" : "replies"} [next]
+      </button>
+    )}
+  </div>
+);
+
+export default ThreadSortBar;
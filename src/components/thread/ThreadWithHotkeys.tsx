@@ -19,6 +19,8 @@ interface ThreadWithHotkeysProps {
   onCollapse?: () => void;
   onFocusThread?: () => void;
   onScrollToParent?: () => void;
+  onNextNewReply?: () => void;
+  onPreviousNewReply?: () => void;
   onBackToFeed?: () => void;
   onHelpToggle?: () => void;
   onEscape?: () => void;
@@ -231,36 +233,14 @@ export const ThreadWithHotkeys: React.FC<ThreadWithHotkeysProps> = ({
   onCollapse,
   onFocusThread,
   onScrollToParent,
+  onNextNewReply,
+  onPreviousNewReply,
   onBackToFeed,
   onHelpToggle,
   onEscape,
 }) => {
   const [showShortcutHelp, setShowShortcutHelp] = useState(false);
 
-  // Thread-specific shortcut definitions
-  const navigationShortcuts = [
-    { key: "↑ / k", description: "Previous note" },
-    { key: "↓ / j", description: "Next note" },
-    { key: "Home", description: "First note" },
-    { key: "End", description: "Last note" },
-  ];
-
-  const actionShortcuts = [
-    { key: "l", description: "Copy link" },
-    { key: "r", description: "Reply" },
-    { key: "z", description: "Like" },
-    { key: "B", description: "Bookmark" },
-    { key: "c", description: "Collapse/Expand" },
-    { key: "f", description: "Focus thread" },
-    { key: "p", description: "Scroll to parent" },
-    { key: "b", description: "Back to feed" },
-  ];
-
-  const globalShortcuts = [
-    { key: "Shift + ?", description: "Toggle help menu" },
-    { key: "Esc", description: "Close modal / Clear focus" },
-  ];
-
   const handleHelpToggle = () => {
     setShowShortcutHelp(true);
     onHelpToggle?.();
@@ -286,6 +266,8 @@ export const ThreadWithHotkeys: React.FC<ThreadWithHotkeysProps> = ({
         onCollapse={onCollapse}
         onFocusThread={onFocusThread}
         onScrollToParent={onScrollToParent}
+        onNextNewReply={onNextNewReply}
+        onPreviousNewReply={onPreviousNewReply}
         onBackToFeed={onBackToFeed}
         onHelpToggle={handleHelpToggle}
         onEscape={handleEscape}
@@ -299,11 +281,7 @@ export const ThreadWithHotkeys: React.FC<ThreadWithHotkeysProps> = ({
       <ShortcutHelp
         isOpen={showShortcutHelp}
         onClose={() => setShowShortcutHelp(false)}
-        shortcuts={{
-          navigation: navigationShortcuts,
-          actions: actionShortcuts,
-          global: globalShortcuts,
-        }}
+        context="thread"
       />
     </HotkeyProvider>
   );
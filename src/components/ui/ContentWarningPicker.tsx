@@ -0,0 +1,78 @@
+import React, { useCallback } from "react";
+
+export interface ContentWarningPickerProps {
+  /** Reason for the NIP-36 content warning ('' for none given), or null for no warning */
+  value: string | null;
+  onChange: (value: string | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Optional content warning for the compose views. Readers see the note
+ * behind a click-to-reveal shroud with the reason.
+ */
+export const ContentWarningPicker: React.FC<ContentWarningPickerProps> = ({
+  value,
+  onChange,
+  disabled = false,
+}) => {
+  const isOn = value !== null;
+
+  const handleToggle = useCallback(() => {
+    onChange(isOn ? null : "");
+  }, [isOn, onChange]);
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        alignItems: "center",
+        gap: "0.5rem",
+        flexWrap: "wrap",
+        fontSize: "var(--font-size-sm)",
+        color: "var(--text-color)",
+      }}
+    >
+      <button
+        type="button"
+        onClick={handleToggle}
+        disabled={disabled}
+        style={{
+          backgroundColor: "transparent",
+          color: isOn ? "var(--btn-accent)" : "var(--text-color)",
+          border: "1px dotted var(--border-color)",
+          borderRadius: "0",
+          padding: "0.125rem 0.5rem",
+          fontSize: "var(--font-size-sm)",
+          textTransform: "uppercase",
+          cursor: disabled ? "not-allowed" : "pointer",
+          minHeight: "unset",
+        }}
+        title={isOn ? "Remove the content warning" : "Hide this post behind a content warning"}
+      >
+        {isOn ? "Remove CW" : "Content warning"}
+      </button>
+      {isOn && (
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="Reason (optional)"
+          maxLength={200}
+          disabled={disabled}
+          style={{
+            flex: 1,
+            minWidth: "8rem",
+            backgroundColor: "var(--app-bg-color)",
+            color: "var(--text-color)",
+            border: "1px dotted var(--border-color)",
+            padding: "0.125rem 0.25rem",
+            fontSize: "var(--font-size-sm)",
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ContentWarningPicker;
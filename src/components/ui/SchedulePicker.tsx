@@ -0,0 +1,109 @@
+import React, { useCallback, useState } from "react";
+
+export interface SchedulePickerProps {
+  /** Publish time in ms, or null to publish immediately */
+  value: number | null;
+  onChange: (value: number | null) => void;
+  disabled?: boolean;
+}
+
+// datetime-local wants local time without a zone
+const toLocalInputValue = (ms: number) => {
+  const d = new Date(ms);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(
+    d.getHours()
+  )}:${pad(d.getMinutes())}`;
+};
+
+/**
+ * Optional publish time for the compose views. Scheduled posts are signed now
+ * and published later by the publish queue.
+ */
+export const SchedulePicker: React.FC<SchedulePickerProps> = ({
+  value,
+  onChange,
+  disabled = false,
+}) => {
+  const [isOpen, setIsOpen] = useState(value !== null);
+
+  const handleToggle = useCallback(() => {
+    if (isOpen) {
+      onChange(null);
+      setIsOpen(false);
+    } else {
+      // Default to an hour from now, rounded to the minute
+      const inAnHour = Math.ceil((Date.now() + 60 * 60 * 1000) / 60000) * 60000;
+      onChange(inAnHour);
+      setIsOpen(true);
+    }
+  }, [isOpen, onChange]);
+
+  const handleInputChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const ms = e.target.value ? new Date(e.target.value).getTime() : NaN;
+      onChange(Number.isFinite(ms) ? ms : null);
+    },
+    [onChange]
+  );
+
+  const isPast = value !== null && value <= Date.now();
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        alignItems: "center",
+        gap: "0.5rem",
+        flexWrap: "wrap",
+        fontSize: "var(--font-size-sm)",
+        color: "var(--text-color)",
+      }}
+    >
+      <button
+        type="button"
+        onClick={handleToggle}
+        disabled={disabled}
+        style={{
+          backgroundColor: "transparent",
+          color: "var(--text-color)",
+          border: "1px dotted var(--border-color)",
+          borderRadius: "0",
+          padding: "0.125rem 0.5rem",
+          fontSize: "var(--font-size-sm)",
+          textTransform: "uppercase",
+          cursor: disabled ? "not-allowed" : "pointer",
+          minHeight: "unset",
+        }}
+        title={isOpen ? "Publish now instead" : "Publish at a later time"}
+      >
+        {isOpen ? "Publish now" : "Schedule"}
+      </button>
+      {isOpen && (
+        <>
+          <input
+            type="datetime-local"
+            value={value !== null ? toLocalInputValue(value) : ""}
+            min={toLocalInputValue(Date.now())}
+            onChange={handleInputChange}
+            disabled={disabled}
+            style={{
+              backgroundColor: "var(--app-bg-color)",
+              color: "var(--text-color)",
+              border: "1px dotted var(--border-color)",
+              padding: "0.125rem 0.25rem",
+              fontSize: "var(--font-size-sm)",
+            }}
+          />
+          {isPast && (
+            <span style={{ color: "var(--btn-accent)" }}>
+              Time has passed; it will publish right away
+            </span>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SchedulePicker;
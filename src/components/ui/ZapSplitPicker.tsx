@@ -0,0 +1,220 @@
+import React, { useCallback, useState } from "react";
+import { nip19 } from "nostr-tools";
+import {
+  useMentionAutocomplete,
+  type MentionMatch,
+} from "../../hooks/useMentionAutocomplete";
+import MentionDropdown from "./MentionDropdown";
+import { convertPubkeyToHex } from "../../utils/nostr/pubkeyUtils";
+import type { ZapSplit } from "../../utils/nostr/zapSplits";
+
+export interface ZapSplitPickerProps {
+  value: ZapSplit[];
+  onChange: (value: ZapSplit[]) => void;
+  getDisplayNameForPubkey?: (pubkey: string) => string;
+  disabled?: boolean;
+  isMobile?: boolean;
+}
+
+const shortNpub = (pubkey: string): string => {
+  try {
+    return nip19.npubEncode(pubkey).slice(0, 16) + "…";
+  } catch {
+    return pubkey.slice(0, 16) + "…";
+  }
+};
+
+const inputStyle: React.CSSProperties = {
+  backgroundColor: "var(--app-bg-color)",
+  color: "var(--text-color)",
+  border: "1px dotted var(--border-color)",
+  padding: "0.125rem 0.25rem",
+  fontSize: "var(--font-size-sm)",
+};
+
+/**
+ * NIP-57 zap split recipients for the compose views. Zaps on the published
+ * note are divided between them by weight.
+ */
+export const ZapSplitPicker: React.FC<ZapSplitPickerProps> = ({
+  value,
+  onChange,
+  getDisplayNameForPubkey,
+  disabled = false,
+  isMobile = false,
+}) => {
+  const [isOpen, setIsOpen] = useState(value.length > 0);
+  const [query, setQuery] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const mention = useMentionAutocomplete();
+
+  const addRecipient = useCallback(
+    (pubkey: string) => {
+      setQuery("");
+      setError(null);
+      mention.closeMention();
+      if (value.some((split) => split.pubkey === pubkey)) return;
+      onChange([...value, { pubkey, weight: 1 }]);
+    },
+    [value, onChange, mention]
+  );
+
+  const handleSelectMention = useCallback(
+    (match: MentionMatch) => addRecipient(match.pubkey),
+    [addRecipient]
+  );
+
+  const handleQueryChange = (text: string) => {
+    setQuery(text);
+    setError(null);
+    // Reuse the @mention matcher; a bare name counts as a mention here
+    const asMention = text.startsWith("@") ? text : `@${text}`;
+    mention.detectMention(asMention, asMention.length);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (mention.isActive) {
+      if (e.key === "ArrowDown") {
+        e.preventDefault();
+        mention.selectNext();
+        return;
+      }
+      if (e.key === "ArrowUp") {
+        e.preventDefault();
+        mention.selectPrevious();
+        return;
+      }
+      if (e.key === "Escape") {
+        mention.closeMention();
+        return;
+      }
+    }
+    if (e.key !== "Enter") return;
+    e.preventDefault();
+    if (mention.isActive && mention.selectedMention) {
+      handleSelectMention(mention.selectedMention);
+      return;
+    }
+    const hex = convertPubkeyToHex(query.trim().replace(/^@/, ""));
+    if (!hex || !/^[0-9a-f]{64}$/.test(hex)) {
+      setError("Pick a user or paste an npub");
+      return;
+    }
+    addRecipient(hex);
+  };
+
+  const setWeight = (pubkey: string, weight: number) => {
+    onChange(
+      value.map((split) =>
+        split.pubkey === pubkey ? { ...split, weight } : split
+      )
+    );
+  };
+
+  const totalWeight = value.reduce((sum, split) => sum + split.weight, 0);
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        gap: "0.25rem",
+        fontSize: "var(--font-size-sm)",
+        color: "var(--text-color)",
+      }}
+    >
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        disabled={disabled}
+        style={{
+          alignSelf: "flex-start",
+          backgroundColor: "transparent",
+          color: value.length > 0 ? "var(--btn-accent)" : "var(--text-color)",
+          border: "1px dotted var(--border-color)",
+          borderRadius: "0",
+          padding: "0.125rem 0.5rem",
+          fontSize: "var(--font-size-sm)",
+          textTransform: "uppercase",
+          cursor: disabled ? "not-allowed" : "pointer",
+          minHeight: "unset",
+        }}
+        title="Share zaps on this post with other people"
+      >
+        {value.length > 0 ? `Zap splits (${value.length})` : "Zap splits"}
+      </button>
+      {isOpen && (
+        <>
+          {value.map((split) => (
+            <div
+              key={split.pubkey}
+              style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}
+            >
+              <span
+                style={{ flex: 1, textAlign: "start", overflowWrap: "anywhere" }}
+              >
+                {getDisplayNameForPubkey?.(split.pubkey) || shortNpub(split.pubkey)}
+              </span>
+              <input
+                type="number"
+                min={1}
+                value={split.weight}
+                onChange={(e) =>
+                  setWeight(split.pubkey, Math.max(1, Number(e.target.value) || 1))
+                }
+                disabled={disabled}
+                aria-label="Weight"
+                style={{ ...inputStyle, width: "4rem" }}
+              />
+              <span style={{ width: "3rem", textAlign: "end", opacity: 0.7 }}>
+                {Math.round((split.weight / totalWeight) * 100)}%
+              </span>
+              <button
+                type="button"
+                onClick={() =>
+                  onChange(value.filter((s) => s.pubkey !== split.pubkey))
+                }
+                disabled={disabled}
+                style={{
+                  background: "transparent",
+                  border: "none",
+                  color: "var(--text-color)",
+                  cursor: "pointer",
+                  minHeight: "unset",
+                }}
+                aria-label="Remove recipient"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          <div style={{ position: "relative" }}>
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => handleQueryChange(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Add recipient: name or npub"
+              disabled={disabled}
+              style={{ ...inputStyle, width: "100%" }}
+            />
+            <MentionDropdown
+              matches={mention.matches}
+              selectedIndex={mention.selectedIndex}
+              isActive={mention.isActive}
+              onSelect={handleSelectMention}
+              onClose={mention.closeMention}
+              style={{ top: "100%", left: 0 }}
+              isMobile={isMobile}
+            />
+          </div>
+          {error && (
+            <span style={{ color: "var(--error-color, #c62828)" }}>{error}</span>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ZapSplitPicker;
@@ -30,6 +30,17 @@ import {
   removePersistedSecret,
   hasInaccessibleAESGCMKey,
 } from "../utils/nostr/nip07";
+import {
+  connectBunker,
+  waitForNostrConnect,
+  persistRemoteSignerSession,
+  restoreRemoteSignerSession,
+  removeRemoteSignerSession,
+  setActiveRemoteSigner,
+  hasActiveRemoteSigner,
+  type NostrConnectRequest,
+  type RemoteSignerConnection,
+} from "../utils/nostr/nip46";
 import { fetchUserMetadata } from "../utils/profileMetadataUtils";
 import type { Metadata } from "../types/nostr/types";
 import {
@@ -37,6 +48,8 @@ import {
   deduplicateRelays,
 } from "../utils/relayDiscoveryUtils";
 
+export type LoginMethod = "" | "nip07" | "nsec" | "nip46";
+
 interface NostrContextType {
   unifiedManager: UnifiedConnectionManager | null;
   // ndk: NDK | null; // Removed to prevent conflicts with Nostrify
@@ -62,7 +75,15 @@ interface NostrContextType {
     pubkeyHex: string,
     passphrase: string
   ) => Promise<string>;
-  loginMethod: "" | "nip07" | "nsec";
+  signInWithBunker: (
+    bunkerUri: string,
+    options?: { onauth?: (url: string) => void }
+  ) => Promise<string>;
+  signInWithNostrConnect: (
+    request: NostrConnectRequest,
+    options?: { onauth?: (url: string) => void; signal?: AbortSignal }
+  ) => Promise<string>;
+  loginMethod: LoginMethod;
   nsecPersistedThisSession: boolean;
   fetchUserMetadataForPubkey: (pubkeyHex: string) => Promise<Metadata | null>;
   getCachedMetadataForPubkey: (pubkeyHex: string) => Metadata | null;
@@ -82,6 +103,8 @@ const NostrContext = createContext<NostrContextType>({
   signOut: () => {},
   listSavedAccounts: async () => [],
   signInWithSavedAccount: async () => "",
+  signInWithBunker: async () => "",
+  signInWithNostrConnect: async () => "",
   loginMethod: "",
   nsecPersistedThisSession: false,
   fetchUserMetadataForPubkey: async () => null,
@@ -139,7 +162,7 @@ export const NostrProvider: React.FC<{ children: React.ReactNode }> = ({
   const [nip07Available, setNip07Available] = useState<boolean>(() =>
     hasNip07()
   );
-  const [loginMethod, setLoginMethod] = useState<"" | "nip07" | "nsec">(
+  const [loginMethod, setLoginMethod] = useState<LoginMethod>(
     () => (sessionStorage.getItem("nostrLoginMethod") as any) || ""
   );
   const [nsecPersistedThisSession, setNsecPersistedThisSession] =
@@ -153,6 +176,29 @@ export const NostrProvider: React.FC<{ children: React.ReactNode }> = ({
       const storedPubkey = localStorage.getItem("nostrPubkey");
       const storedLoginMethod = sessionStorage.getItem("nostrLoginMethod");
 
+      // Reconnect a saved remote signer session (NIP-46) for this pubkey, if any
+      if (
+        storedPubkey &&
+        (!storedLoginMethod || storedLoginMethod === "nip46") &&
+        !getInMemorySecretKeyHex()
+      ) {
+        try {
+          const connection = await restoreRemoteSignerSession(
+            normalizeToHex(storedPubkey)
+          );
+          if (connection) {
+            setActiveRemoteSigner(connection.signer, connection.userPubkey);
+            setLoginMethod("nip46");
+            try {
+              sessionStorage.setItem("nostrLoginMethod", "nip46");
+            } catch {}
+            return;
+          }
+        } catch (error) {
+          console.warn("Failed to restore remote signer session:", error);
+        }
+      }
+
       // If we have a pubkey but no login method, try to detect it
       if (storedPubkey && !storedLoginMethod) {
         // Check if we have an in-memory secret key (indicates nsec login)
@@ -372,6 +418,9 @@ export const NostrProvider: React.FC<{ children: React.ReactNode }> = ({
     const pk = await nip07GetPublicKey();
     console.log("🔄 signInWithNip07: Got public key:", pk.slice(0, 8));
 
+    // Drop any remote signer so the extension is what signs from now on
+    if (hasActiveRemoteSigner()) setActiveRemoteSigner(null);
+
     // Set login method BEFORE setting pubkey to prevent npub-only relay defaults
     setLoginMethod("nip07");
     try {
@@ -510,6 +559,7 @@ export const NostrProvider: React.FC<{ children: React.ReactNode }> = ({
       const pk = derivePubkeyHexFromSecretHex(secretHex);
       // Store only in memory by default
       setInMemorySecretKeyHex(secretHex);
+      if (hasActiveRemoteSigner()) setActiveRemoteSigner(null);
       if (options?.persist) {
         const passphrase = options?.passphrase || "";
         if (!passphrase || passphrase.length < 8) {
@@ -639,6 +689,7 @@ export const NostrProvider: React.FC<{ children: React.ReactNode }> = ({
       const shouldDestroy = options?.destroyInMemory !== false;
       if (shouldDestroy && getInMemorySecretKeyHex())
         setInMemorySecretKeyHex(null);
+      if (hasActiveRemoteSigner()) setActiveRemoteSigner(null);
 
       // Optionally remove persisted encrypted secret from device storage
       if (options?.removePersisted && currentPubkey) {
@@ -651,6 +702,11 @@ export const NostrProvider: React.FC<{ children: React.ReactNode }> = ({
         } catch (error) {
           console.error("Failed to remove persisted secret:", error);
         }
+        try {
+          await removeRemoteSignerSession(currentPubkey);
+        } catch (error) {
+          console.error("Failed to remove remote signer session:", error);
+        }
       }
 
       // Broadcast sign-out for header/avatar updates
@@ -732,6 +788,7 @@ export const NostrProvider: React.FC<{ children: React.ReactNode }> = ({
       }
 
       setInMemorySecretKeyHex(trimmedSecret);
+      if (hasActiveRemoteSigner()) setActiveRemoteSigner(null);
 
       // Verify that the key was actually set
       if (!hasInMemorySecretKey()) {
@@ -852,6 +909,90 @@ export const NostrProvider: React.FC<{ children: React.ReactNode }> = ({
     [setPubkey, fetchUserMetadataForPubkey]
   );
 
+  // Shared tail of both NIP-46 flows: activate the signer, save the session and load the user
+  const completeRemoteSignerLogin = useCallback(
+    async (connection: RemoteSignerConnection): Promise<string> => {
+      const pk = connection.userPubkey.toLowerCase();
+
+      // The remote signer takes over; never leave an unlocked nsec behind it
+      if (getInMemorySecretKeyHex()) setInMemorySecretKeyHex(null);
+      setActiveRemoteSigner(connection.signer, pk);
+
+      try {
+        await persistRemoteSignerSession(connection);
+      } catch (error) {
+        console.warn("Failed to persist remote signer session:", error);
+      }
+
+      // Set login method BEFORE setting pubkey to prevent npub-only relay defaults
+      setLoginMethod("nip46");
+      try {
+        sessionStorage.setItem("nostrLoginMethod", "nip46");
+      } catch {}
+      setNsecPersistedThisSession(false);
+      try {
+        sessionStorage.setItem("nostrNsecPersisted", "false");
+      } catch {}
+
+      // Clear any npub-only session relay overrides
+      try {
+        sessionStorage.removeItem("nostr_session_relay_defaults");
+        window.dispatchEvent(new CustomEvent("sessionRelayDefaultsUpdated"));
+      } catch {}
+
+      setPubkey(pk);
+
+      try {
+        const metadata = await fetchUserMetadataForPubkey(pk);
+        if (metadata) {
+          // Store metadata in localStorage for persistence across sessions
+          localStorage.setItem(`userMetadata_${pk}`, JSON.stringify(metadata));
+        }
+      } catch (error) {
+        console.warn("Failed to fetch metadata after remote signer login:", error);
+      }
+
+      // Trigger relay reload for the new user
+      try {
+        window.dispatchEvent(
+          new CustomEvent("relayReload", {
+            detail: { pubkeyHex: pk },
+          })
+        );
+      } catch {}
+
+      return pk;
+    },
+    [setPubkey, fetchUserMetadataForPubkey]
+  );
+
+  const signInWithBunker = useCallback(
+    async (
+      bunkerUri: string,
+      options?: { onauth?: (url: string) => void }
+    ): Promise<string> => {
+      const connection = await connectBunker(bunkerUri, {
+        onauth: options?.onauth,
+      });
+      return completeRemoteSignerLogin(connection);
+    },
+    [completeRemoteSignerLogin]
+  );
+
+  const signInWithNostrConnect = useCallback(
+    async (
+      request: NostrConnectRequest,
+      options?: { onauth?: (url: string) => void; signal?: AbortSignal }
+    ): Promise<string> => {
+      const connection = await waitForNostrConnect(request, {
+        onauth: options?.onauth,
+        signal: options?.signal,
+      });
+      return completeRemoteSignerLogin(connection);
+    },
+    [completeRemoteSignerLogin]
+  );
+
   return (
     <NostrContext.Provider
       value={{
@@ -868,6 +1009,8 @@ export const NostrProvider: React.FC<{ children: React.ReactNode }> = ({
         signOut,
         listSavedAccounts,
         signInWithSavedAccount,
+        signInWithBunker,
+        signInWithNostrConnect,
         loginMethod,
         nsecPersistedThisSession,
         fetchUserMetadataForPubkey,
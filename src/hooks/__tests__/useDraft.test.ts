@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useState } from 'react';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useDraft } from '../useDraft';
+import { draftsService, getDraftKey } from '../../utils/drafts/draftsService';
+
+const NOTE_ID = 'e'.repeat(64);
+const KEY = getDraftKey('reply', NOTE_ID);
+
+// Composer state the way ReplyModal wires it
+const useReplyComposer = () => {
+  const [content, setContent] = useState('');
+  const [uploadTags, setUploadTags] = useState<string[][]>([]);
+  const draft = useDraft({
+    type: 'reply',
+    targetId: NOTE_ID,
+    content,
+    setContent,
+    uploadTags,
+    setUploadTags,
+  });
+  return { content, setContent, ...draft };
+};
+
+describe('useDraft', () => {
+  beforeEach(async () => {
+    await draftsService.clearDrafts();
+  });
+
+  it('restores a saved draft into an empty composer', async () => {
+    await draftsService.saveDraft({ type: 'reply', targetId: NOTE_ID, content: 'half a reply', uploadTags: [] });
+
+    const { result } = renderHook(() => useReplyComposer());
+
+    await waitFor(() => expect(result.current.isLoaded).toBe(true));
+    expect(result.current.content).toBe('half a reply');
+    expect(result.current.restoredDraft?.key).toBe(KEY);
+  });
+
+  it('auto-saves and stays removed after a successful publish', async () => {
+    const { result, unmount } = renderHook(() => useReplyComposer());
+    await waitFor(() => expect(result.current.isLoaded).toBe(true));
+
+    act(() => result.current.setContent('gm'));
+    await waitFor(async () => expect((await draftsService.getDraft(KEY))?.content).toBe('gm'), { timeout: 2000 });
+
+    // Success path in the composers: clear the input, then discard the draft
+    await act(async () => {
+      result.current.setContent('');
+      await result.current.discardDraft();
+    });
+    unmount();
+
+    await waitFor(async () => expect(await draftsService.getDraft(KEY)).toBeNull());
+    expect(await draftsService.listDrafts()).toEqual([]);
+  });
+
+  it('does not re-save discarded content when the composer closes', async () => {
+    const { result, unmount } = renderHook(() => useReplyComposer());
+    await waitFor(() => expect(result.current.isLoaded).toBe(true));
+
+    act(() => result.current.setContent('never mind'));
+    await act(async () => {
+      await result.current.discardDraft();
+    });
+    unmount();
+
+    // Give the unmount flush a chance to write
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(await draftsService.getDraft(KEY)).toBeNull();
+  });
+});
@@ -0,0 +1,91 @@
+import React from "react";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { renderHook, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import type { Event, Filter } from "nostr-tools";
+import { useReplyEngagement } from "../useReplyEngagement";
+import { CACHE_KEYS } from "../../utils/cacheKeys";
+import type { Note } from "../../types/nostr/types";
+
+const querySync = vi.fn<(relays: string[], filter: Filter) => Promise<Event[]>>();
+
+vi.mock("../../utils/nostr/relayConnectionPool", () => ({
+  getGlobalRelayPool: () => ({ querySync }),
+}));
+
+const ROOT = "0".repeat(64);
+const REPLY_A = "a".repeat(64);
+const REPLY_B = "b".repeat(64);
+const RELAYS = ["wss://relay.example"];
+
+const reply = (id: string): Note =>
+  ({ id, pubkey: "f".repeat(64), content: "", created_at: 1, tags: [["e", ROOT]] }) as Note;
+
+const reaction = (id: string, pubkey: string, target: string): Event => ({
+  id,
+  pubkey,
+  kind: 7,
+  created_at: 1,
+  content: "+",
+  tags: [
+    ["e", ROOT],
+    ["e", target],
+  ],
+  sig: "",
+});
+
+describe("useReplyEngagement", () => {
+  let queryClient: QueryClient;
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+
+  beforeEach(() => {
+    queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+    querySync.mockReset();
+  });
+
+  it("fetches every reply's reactions and zaps in one query per kind", async () => {
+    querySync.mockImplementation(async (_relays, filter) =>
+      filter.kinds?.includes(7)
+        ? [
+            reaction("r1", "1".repeat(64), REPLY_A),
+            reaction("r2", "2".repeat(64), REPLY_A),
+            reaction("r3", "1".repeat(64), REPLY_B),
+            // Reaction to the root that merely mentions a reply
+            { ...reaction("r4", "3".repeat(64), ROOT), tags: [["e", REPLY_B], ["e", ROOT]] },
+          ]
+        : []
+    );
+    const notes = [reply(REPLY_A), reply(REPLY_B)];
+
+    const { result } = renderHook(
+      () => useReplyEngagement(notes, RELAYS, true),
+      { wrapper }
+    );
+
+    await waitFor(() => expect(result.current(REPLY_A)).toBeDefined());
+    expect(result.current(REPLY_A)).toEqual({ reactions: 2, zapSats: 0 });
+    expect(result.current(REPLY_B)).toEqual({ reactions: 1, zapSats: 0 });
+
+    expect(querySync).toHaveBeenCalledTimes(2);
+    for (const [, filter] of querySync.mock.calls) {
+      expect(filter["#e"]).toEqual([REPLY_A, REPLY_B]);
+    }
+    expect(
+      queryClient.getQueryData(CACHE_KEYS.REACTION_COUNTS(REPLY_B))
+    ).toMatchObject({ total: 1 });
+  });
+
+  it("does not refetch for a new array of the same replies", async () => {
+    querySync.mockResolvedValue([]);
+    const { result, rerender } = renderHook(
+      ({ notes }) => useReplyEngagement(notes, RELAYS, true),
+      { wrapper, initialProps: { notes: [reply(REPLY_A)] } }
+    );
+    await waitFor(() => expect(result.current(REPLY_A)).toBeDefined());
+
+    rerender({ notes: [reply(REPLY_A)] });
+    expect(querySync).toHaveBeenCalledTimes(2);
+  });
+});
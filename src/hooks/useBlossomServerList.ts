@@ -0,0 +1,91 @@
+import { useCallback, useContext, useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { NostrContext } from '../contexts/NostrContext';
+import { CACHE_KEYS } from '../utils/cacheKeys';
+import { fetchLists, publishList, type NostrList } from '../utils/nostr/lists';
+import {
+  BLOSSOM_SERVER_LIST_KIND,
+  buildBlossomServerTags,
+  getBlossomServersFromTags,
+} from '../utils/nostr/blossom';
+import type { RelayPermission } from '../types/nostr/types';
+
+/**
+ * Hook for the current user's Blossom server list (BUD-03 kind 10063).
+ * The published order is the upload preference: the first server is primary.
+ */
+export function useBlossomServerList(relayUrls: string[], relayPermissions?: Map<string, RelayPermission>) {
+  const { nostrClient, pubkey: userPubkey } = useContext(NostrContext);
+  const queryClient = useQueryClient();
+
+  const queryKey = useMemo(
+    () => CACHE_KEYS.USER.BLOSSOM_SERVERS(userPubkey || '', relayUrls.join('|')),
+    [userPubkey, relayUrls]
+  );
+
+  const {
+    data: serverList = null,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery({
+    queryKey,
+    enabled: Boolean(userPubkey && nostrClient && relayUrls.length > 0),
+    queryFn: async (): Promise<NostrList | null> => {
+      if (!userPubkey || !nostrClient) return null;
+      const lists = await fetchLists({
+        pool: nostrClient,
+        relayUrls,
+        pubkey: userPubkey,
+        kinds: [BLOSSOM_SERVER_LIST_KIND],
+      });
+      return lists[0] ?? null;
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    refetchOnWindowFocus: false,
+  });
+
+  const publishedServers = useMemo(
+    () => (serverList ? getBlossomServersFromTags(serverList.publicTags) : []),
+    [serverList]
+  );
+
+  const mutation = useMutation({
+    mutationFn: async ({ servers, primary }: { servers: string[]; primary?: string }) => {
+      if (!nostrClient || !userPubkey) throw new Error('Nostr client not ready');
+      const publicTags = buildBlossomServerTags(servers, primary);
+      if (publicTags.length === 0) throw new Error('Add at least one server before publishing');
+      return publishList({
+        pool: nostrClient,
+        relayUrls,
+        ownerPubkey: userPubkey,
+        relayPermissions,
+        kind: BLOSSOM_SERVER_LIST_KIND,
+        publicTags,
+      });
+    },
+    onSuccess: saved => {
+      queryClient.setQueriesData<NostrList | null>(
+        { queryKey: ['user', 'blossom-servers', userPubkey || ''] },
+        saved
+      );
+      queryClient.setQueryData(queryKey, saved);
+    },
+  });
+
+  const publishServers = useCallback(
+    (servers: string[], primary?: string) => mutation.mutateAsync({ servers, primary }),
+    [mutation]
+  );
+
+  return {
+    serverList,
+    publishedServers,
+    publishServers,
+    isPublishing: mutation.isPending,
+    isLoading,
+    error,
+    refetch,
+  };
+}
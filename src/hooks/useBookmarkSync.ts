@@ -0,0 +1,101 @@
+import { useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { NostrContext } from '../contexts/NostrContext';
+import {
+  BOOKMARKS_CHANGED_EVENT,
+  type BookmarksChangeSource,
+} from '../utils/bookmarks/bookmarksService';
+import { syncBookmarks, type BookmarkSyncResult } from '../utils/bookmarks/bookmarkSync';
+import type { RelayPermission } from '../types/nostr/types';
+
+interface UseBookmarkSyncOptions {
+  // Sync on login and push local changes automatically
+  auto?: boolean;
+}
+
+interface UseBookmarkSyncReturn {
+  sync: () => Promise<BookmarkSyncResult | null>;
+  isSyncing: boolean;
+  canSync: boolean;
+  lastResult: BookmarkSyncResult | null;
+  error: string | null;
+}
+
+// Wait for bursts of bookmark toggles before publishing
+const PUSH_DEBOUNCE_MS = 3000;
+
+/**
+ * Hook for syncing local bookmarks with the user's NIP-51 bookmark list
+ */
+export function useBookmarkSync(
+  relayUrls: string[],
+  relayPermissions?: Map<string, RelayPermission>,
+  options: UseBookmarkSyncOptions = {}
+): UseBookmarkSyncReturn {
+  const { nostrClient, pubkey, loginMethod } = useContext(NostrContext);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [lastResult, setLastResult] = useState<BookmarkSyncResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Writing the list needs a signer; read-only sessions keep bookmarks local
+  const canSync = Boolean(
+    nostrClient &&
+      pubkey &&
+      relayUrls.length > 0 &&
+      (loginMethod === 'nip07' || loginMethod === 'nsec' || loginMethod === 'nip46')
+  );
+
+  const sync = useCallback(async (): Promise<BookmarkSyncResult | null> => {
+    if (!canSync || !nostrClient || !pubkey) return null;
+    setIsSyncing(true);
+    try {
+      const result = await syncBookmarks({
+        pool: nostrClient,
+        relayUrls,
+        pubkey,
+        relayPermissions,
+      });
+      setLastResult(result);
+      setError(null);
+      return result;
+    } catch (err) {
+      console.error('Failed to sync bookmarks:', err);
+      setError(err instanceof Error ? err.message : 'Failed to sync bookmarks');
+      return null;
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [canSync, nostrClient, pubkey, relayUrls, relayPermissions]);
+
+  const syncRef = useRef(sync);
+  syncRef.current = sync;
+
+  // Initial sync once per account
+  const syncedPubkeyRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!options.auto || !canSync || !pubkey) return;
+    if (syncedPubkeyRef.current === pubkey) return;
+    syncedPubkeyRef.current = pubkey;
+    void syncRef.current();
+  }, [options.auto, canSync, pubkey]);
+
+  // Push local changes
+  useEffect(() => {
+    if (!options.auto || !canSync) return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const handleChange = (e: Event) => {
+      const source = (e as CustomEvent<{ source?: BookmarksChangeSource }>).detail?.source;
+      if (source !== 'local') return;
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        void syncRef.current();
+      }, PUSH_DEBOUNCE_MS);
+    };
+    window.addEventListener(BOOKMARKS_CHANGED_EVENT, handleChange);
+    return () => {
+      window.removeEventListener(BOOKMARKS_CHANGED_EVENT, handleChange);
+      if (timer) clearTimeout(timer);
+    };
+  }, [options.auto, canSync]);
+
+  return { sync, isSyncing, canSync, lastResult, error };
+}
@@ -1,6 +1,10 @@
 import { useState, useEffect, useCallback } from 'react';
 import type { Note } from '../types/nostr/types';
-import { bookmarksService, type BookmarkEntry } from '../utils/bookmarks/bookmarksService';
+import {
+  BOOKMARKS_CHANGED_EVENT,
+  bookmarksService,
+  type BookmarkEntry
+} from '../utils/bookmarks/bookmarksService';
 
 interface UseBookmarksReturn {
   bookmarks: BookmarkEntry[];
@@ -41,6 +45,15 @@ export function useBookmarks(): UseBookmarksReturn {
     }
   }, []);
 
+  // Pick up changes from other hook instances, imports and relay sync
+  useEffect(() => {
+    const handleChange = () => {
+      setBookmarks(bookmarksService.getBookmarks());
+    };
+    window.addEventListener(BOOKMARKS_CHANGED_EVENT, handleChange);
+    return () => window.removeEventListener(BOOKMARKS_CHANGED_EVENT, handleChange);
+  }, []);
+
   const addBookmark = useCallback(
     (note: Note, authorDisplayName?: string) => {
       try {
@@ -0,0 +1,104 @@
+import { useCallback, useContext, useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { NostrContext } from '../contexts/NostrContext';
+import { CACHE_KEYS } from '../utils/cacheKeys';
+import {
+  fetchDirectMessages,
+  groupDmConversations,
+  publishDirectMessage,
+  type DirectMessage,
+  type DmConversation,
+} from '../utils/nostr/directMessages';
+
+export interface UseDirectMessagesResult {
+  conversations: DmConversation[];
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => void;
+  getConversation: (peerPubkey: string) => DmConversation | undefined;
+  sendMessage: (recipientPubkey: string, content: string, replyToId?: string) => Promise<void>;
+  isSending: boolean;
+  sendError: string | null;
+}
+
+/**
+ * Hook for the current user's NIP-17 inbox.
+ * Decrypts gift wraps with the active signer (nsec or NIP-07) and groups them per peer.
+ */
+export function useDirectMessages(relayUrls: string[]): UseDirectMessagesResult {
+  const { nostrClient, pubkey: userPubkey, loginMethod } = useContext(NostrContext);
+  const queryClient = useQueryClient();
+
+  const queryKey = useMemo(
+    () => CACHE_KEYS.DIRECT_MESSAGES.INBOX(userPubkey, relayUrls.join('|')),
+    [userPubkey, relayUrls]
+  );
+
+  // Decryption needs a signer, so npub-only sessions can't read the inbox
+  const canDecrypt = loginMethod === 'nip07' || loginMethod === 'nsec' || loginMethod === 'nip46';
+
+  const {
+    data: messages = [],
+    isLoading,
+    error,
+    refetch,
+  } = useQuery({
+    queryKey,
+    enabled: Boolean(userPubkey && nostrClient && relayUrls.length > 0 && canDecrypt),
+    queryFn: async (): Promise<DirectMessage[]> => {
+      if (!userPubkey || !nostrClient) return [];
+      return fetchDirectMessages({ pool: nostrClient, relayUrls, userPubkey });
+    },
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    refetchOnWindowFocus: true,
+  });
+
+  const conversations = useMemo(
+    () => (userPubkey ? groupDmConversations(messages, userPubkey) : []),
+    [messages, userPubkey]
+  );
+
+  const getConversation = useCallback(
+    (peerPubkey: string) => conversations.find(c => c.peer === peerPubkey),
+    [conversations]
+  );
+
+  const mutation = useMutation({
+    mutationFn: async (params: { recipientPubkey: string; content: string; replyToId?: string }) => {
+      if (!nostrClient || !userPubkey) throw new Error('Nostr client not ready');
+      return publishDirectMessage({
+        pool: nostrClient,
+        relayUrls,
+        senderPubkey: userPubkey,
+        recipientPubkey: params.recipientPubkey,
+        content: params.content,
+        replyTo: params.replyToId ? { id: params.replyToId } : undefined,
+      });
+    },
+    onSuccess: ({ message }) => {
+      // Show the sent message right away; the self-addressed wrap arrives on the next refetch
+      queryClient.setQueryData<DirectMessage[]>(queryKey, (prev = []) =>
+        prev.some(m => m.id === message.id) ? prev : [...prev, message]
+      );
+    },
+  });
+
+  const sendMessage = useCallback(
+    async (recipientPubkey: string, content: string, replyToId?: string) => {
+      await mutation.mutateAsync({ recipientPubkey, content, replyToId });
+    },
+    [mutation]
+  );
+
+  return {
+    conversations,
+    isLoading,
+    error: error ? (error as Error).message : null,
+    refetch,
+    getConversation,
+    sendMessage,
+    isSending: mutation.isPending,
+    sendError: mutation.error ? (mutation.error as Error).message : null,
+  };
+}
@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  draftsService,
+  getDraftKey,
+  type Draft,
+  type DraftContextType,
+} from '../utils/drafts/draftsService';
+
+interface UseDraftOptions {
+  type: DraftContextType;
+  targetId?: string;
+  content: string;
+  setContent: (content: string) => void;
+  uploadTags: string[][];
+  setUploadTags: (tags: string[][]) => void;
+  enabled?: boolean;
+}
+
+interface UseDraftReturn {
+  // Draft found in storage when the composer opened
+  restoredDraft: Draft | null;
+  isLoaded: boolean;
+  discardDraft: () => Promise<void>;
+}
+
+// Wait for a pause in typing before writing to IndexedDB
+const SAVE_DEBOUNCE_MS = 800;
+
+/**
+ * Hook that restores and auto-saves a composer draft for its context
+ * (new note, reply to a note, or quote of a note)
+ */
+export function useDraft({
+  type,
+  targetId,
+  content,
+  setContent,
+  uploadTags,
+  setUploadTags,
+  enabled = true,
+}: UseDraftOptions): UseDraftReturn {
+  const key = getDraftKey(type, targetId);
+  const [restoredDraft, setRestoredDraft] = useState<Draft | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const latestRef = useRef({ content, uploadTags });
+  latestRef.current = { content, uploadTags };
+  const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Content at the time the draft was discarded; unchanged content isn't saved again
+  const discardedContentRef = useRef<string | null>(null);
+
+  // Restore on open without clobbering text the composer already has
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    setIsLoaded(false);
+    discardedContentRef.current = null;
+
+    draftsService.getDraft(key).then(draft => {
+      if (cancelled) return;
+      if (draft) {
+        setRestoredDraft(draft);
+        if (latestRef.current.content.trim().length === 0) {
+          setContent(draft.content);
+        }
+        if (latestRef.current.uploadTags.length === 0 && draft.uploadTags.length > 0) {
+          setUploadTags(draft.uploadTags);
+        }
+      }
+      setIsLoaded(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- restore once per context
+  }, [key, enabled]);
+
+  const persist = useCallback(() => {
+    const { content: text, uploadTags: tags } = latestRef.current;
+    if (discardedContentRef.current !== null && discardedContentRef.current === text) return;
+    discardedContentRef.current = null;
+    void draftsService.saveDraft({ type, targetId, content: text, uploadTags: tags });
+  }, [type, targetId]);
+
+  // Debounced auto-save
+  useEffect(() => {
+    if (!enabled || !isLoaded) return;
+    if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+    saveTimeoutRef.current = setTimeout(persist, SAVE_DEBOUNCE_MS);
+    return () => {
+      if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+    };
+  }, [content, uploadTags, enabled, isLoaded, persist]);
+
+  // Flush on close so navigation doesn't lose the last keystrokes
+  useEffect(() => {
+    if (!enabled || !isLoaded) return;
+    return () => {
+      persist();
+    };
+  }, [enabled, isLoaded, persist]);
+
+  const discardDraft = useCallback(async () => {
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+      saveTimeoutRef.current = null;
+    }
+    discardedContentRef.current = latestRef.current.content;
+    setRestoredDraft(null);
+    await draftsService.deleteDraft(key);
+  }, [key]);
+
+  return { restoredDraft, isLoaded, discardDraft };
+}
@@ -1,6 +1,8 @@
-import { useEffect } from 'react';
+import { useEffect, useMemo } from 'react';
 import { useHotkeyContext } from '../contexts/HotkeyContext';
+import { useUIStore } from '../components/lib/useUIStore';
 import type { HotkeyConfig } from '../types/hotkeys';
+import { buildShortcuts, resolveKeymap } from '../utils/keymap';
 
 interface UseFeedHotkeysProps {
   // Navigation
@@ -70,205 +72,89 @@ export const useFeedHotkeys = ({
     navigateFocus,
   } = useHotkeyContext();
 
+  const keymap = useUIStore((s) => s.keymap);
+  const bindings = useMemo(() => resolveKeymap(keymap, 'feed'), [keymap]);
+  // Help and escape follow the modal keymap while a modal is open
+  const globalBindings = useMemo(
+    () => resolveKeymap(keymap, isModalOpen ? 'modal' : 'feed'),
+    [keymap, isModalOpen]
+  );
+
+  const canNavigate = enabled && hasNotes && !isModalOpen;
+  const canAct = enabled && focusState.isFocused && !isModalOpen;
+
   // Create navigation shortcuts
-  const navigationShortcuts: HotkeyConfig[] = [
-    {
-      key: 'k',
-      description: 'Navigate up',
-      action: () => {
-        navigateFocus('up');
-        if (onNavigateUp) onNavigateUp();
-      },
-      enabled: enabled && hasNotes && !isModalOpen,
-      preventDefault: true,
-    },
-    {
-      key: 'j',
-      description: 'Navigate down',
-      action: () => {
-        navigateFocus('down');
-        if (onNavigateDown) onNavigateDown();
-      },
-      enabled: enabled && hasNotes && !isModalOpen,
-      preventDefault: true,
-    },
+  const navigationShortcuts: HotkeyConfig[] = buildShortcuts(bindings, [
     {
-      key: 'arrowup',
-      description: 'Navigate up',
-      action: () => {
+      action: 'navigate-up',
+      run: () => {
         navigateFocus('up');
         if (onNavigateUp) onNavigateUp();
       },
-      enabled: enabled && hasNotes && !isModalOpen,
-      preventDefault: true,
+      enabled: canNavigate,
     },
     {
-      key: 'arrowdown',
-      description: 'Navigate down',
-      action: () => {
+      action: 'navigate-down',
+      run: () => {
         navigateFocus('down');
         if (onNavigateDown) onNavigateDown();
       },
-      enabled: enabled && hasNotes && !isModalOpen,
-      preventDefault: true,
+      enabled: canNavigate,
     },
     {
-      key: 'home',
-      description: 'Go to first note',
-      action: () => {
+      action: 'navigate-first',
+      run: () => {
         if (onNavigateFirst) onNavigateFirst();
         else navigateFocus('first');
       },
-      enabled: enabled && hasNotes && !isModalOpen,
-      preventDefault: true,
+      enabled: canNavigate,
     },
     {
-      key: 'end',
-      description: 'Go to last note',
-      action: () => {
+      action: 'navigate-last',
+      run: () => {
         if (onNavigateLast) onNavigateLast();
         else navigateFocus('last');
       },
-      enabled: enabled && hasNotes && !isModalOpen,
-      preventDefault: true,
+      enabled: canNavigate,
     },
     {
-      key: 'pageup',
-      description: 'Navigate up (page)',
-      action: () => {
+      action: 'navigate-page-up',
+      run: () => {
         if (onNavigatePageUp) onNavigatePageUp();
         else navigateFocus('up', 5);
       },
-      enabled: enabled && hasNotes && !isModalOpen,
-      preventDefault: true,
+      enabled: canNavigate,
     },
     {
-      key: 'pagedown',
-      description: 'Navigate down (page)',
-      action: () => {
+      action: 'navigate-page-down',
+      run: () => {
         if (onNavigatePageDown) onNavigatePageDown();
         else navigateFocus('down', 5);
       },
-      enabled: enabled && hasNotes && !isModalOpen,
-      preventDefault: true,
+      enabled: canNavigate,
     },
-    {
-      key: 'g g',
-      description: 'Go to top',
-      action: () => {
-        if (onNavigateFirst) onNavigateFirst();
-        else navigateFocus('first');
-      },
-      enabled: enabled && hasNotes && !isModalOpen,
-      preventDefault: true,
-    },
-  ];
+  ]);
 
   // Create action shortcuts (only when note is focused and no modal is open)
-  const actionShortcuts: HotkeyConfig[] = [
-    {
-      key: 'l',
-      description: 'Link to note',
-      action: () => onLink?.(),
-      enabled: enabled && focusState.isFocused && !isModalOpen,
-      preventDefault: true,
-    },
-    {
-      key: 't',
-      description: 'View thread',
-      action: () => onThread?.(),
-      enabled: enabled && focusState.isFocused && !isModalOpen,
-      preventDefault: true,
-    },
-    {
-      key: 'r',
-      description: 'Repost',
-      action: () => onRepost?.(),
-      enabled: enabled && focusState.isFocused && !isModalOpen,
-      preventDefault: true,
-    },
-    {
-      key: 'z',
-      description: 'Zap',
-      action: () => onZap?.(),
-      enabled: enabled && focusState.isFocused && !isModalOpen,
-      preventDefault: true,
-    },
-    {
-      key: 'shift+r',
-      description: 'Reply',
-      action: () => onReply?.(),
-      enabled: enabled && focusState.isFocused && !isModalOpen,
-      preventDefault: true,
-    },
-    {
-      key: 'shift+l',
-      description: 'Like',
-      action: () => onLike?.(),
-      enabled: enabled && focusState.isFocused && !isModalOpen,
-      preventDefault: true,
-    },
-    {
-      key: 'shift+b',
-      description: 'Bookmark',
-      action: () => onBookmark?.(),
-      enabled: enabled && focusState.isFocused && !isModalOpen,
-      preventDefault: true,
-    },
-    {
-      key: 'p',
-      description: 'Parent thread',
-      action: () => onParentThread?.(),
-      enabled: enabled && focusState.isFocused && !isModalOpen,
-      preventDefault: true,
-    },
-    {
-      key: 'space',
-      description: 'Toggle media',
-      action: () => onToggleMedia?.(),
-      enabled: enabled && focusState.isFocused && !isModalOpen,
-      preventDefault: true,
-    },
-    {
-      key: 'enter',
-      description: 'Open note',
-      action: () => onOpenNote?.(),
-      enabled: enabled && focusState.isFocused && !isModalOpen,
-      preventDefault: true,
-    },
-    {
-      key: 'shift+p',
-      description: 'Parent thread',
-      action: () => onParentThread?.(),
-      enabled: enabled && focusState.isFocused && !isModalOpen,
-      preventDefault: true,
-    },
-    {
-      key: 'shift+t',
-      description: 'Root thread',
-      action: () => onRootThread?.(),
-      enabled: enabled && focusState.isFocused && !isModalOpen,
-      preventDefault: true,
-    },
-  ];
+  const actionShortcuts: HotkeyConfig[] = buildShortcuts(bindings, [
+    { action: 'action-link', run: () => onLink?.(), enabled: canAct },
+    { action: 'action-thread', run: () => onThread?.(), enabled: canAct },
+    { action: 'action-repost', run: () => onRepost?.(), enabled: canAct },
+    { action: 'action-zap', run: () => onZap?.(), enabled: canAct },
+    { action: 'action-reply', run: () => onReply?.(), enabled: canAct },
+    { action: 'action-like', run: () => onLike?.(), enabled: canAct },
+    { action: 'action-bookmark', run: () => onBookmark?.(), enabled: canAct },
+    { action: 'action-parent-thread', run: () => onParentThread?.(), enabled: canAct },
+    { action: 'action-root-thread', run: () => onRootThread?.(), enabled: canAct },
+    { action: 'action-toggle-media', run: () => onToggleMedia?.(), enabled: canAct },
+    { action: 'action-open-note', run: () => onOpenNote?.(), enabled: canAct },
+  ]);
 
   // Create global shortcuts
-  const globalShortcuts: HotkeyConfig[] = [
-    {
-      key: 'shift+?',
-      description: 'Show help',
-      action: () => onHelpToggle?.(),
-      enabled: enabled,
-      preventDefault: true,
-    },
-    {
-      key: 'escape',
-      description: 'Close modal or clear focus',
-      action: () => onEscape?.(),
-      enabled: enabled,
-      preventDefault: true,
-    },
-  ];
+  const globalShortcuts: HotkeyConfig[] = buildShortcuts(globalBindings, [
+    { action: 'help-toggle', run: () => onHelpToggle?.(), enabled: enabled },
+    { action: 'escape', run: () => onEscape?.(), enabled: enabled },
+  ]);
 
   // Register feed context and set as active in one effect to avoid race conditions
   useEffect(() => {
@@ -299,6 +185,7 @@ export const useFeedHotkeys = ({
     hasNotes,
     isModalOpen,
     focusState.isFocused,
+    bindings,
     onNavigateUp,
     onNavigateDown,
     onNavigateFirst,
@@ -322,7 +209,7 @@ export const useFeedHotkeys = ({
   // Register global shortcuts
   useEffect(() => {
     registerGlobalShortcuts(globalShortcuts);
-  }, [registerGlobalShortcuts, enabled, onHelpToggle, onEscape]);
+  }, [registerGlobalShortcuts, enabled, globalBindings, onHelpToggle, onEscape]);
 
   // Debug: Log when effect dependencies change
   useEffect(() => {
@@ -1,5 +1,6 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 import type { HotkeyConfig, HotkeyContext, HotkeySystemState, HotkeyAction } from '../types/hotkeys';
+import { HOTKEY_ACTION_EVENT, keyEventToBinding } from '../utils/keymap';
 
 interface UseHotkeySystemProps {
   enabled?: boolean;
@@ -62,11 +63,13 @@ export const useHotkeySystem = ({ enabled = true, onAction }: UseHotkeySystemPro
     }));
   }, []);
 
-  // Register global shortcuts
+  // Register global shortcuts. Each provider has a single page hook that
+  // registers them, so the latest set replaces the previous one; appending
+  // would keep stale bindings after a keymap change.
   const registerGlobalShortcuts = useCallback((shortcuts: HotkeyConfig[]) => {
     setState(prev => ({
       ...prev,
-      globalShortcuts: [...prev.globalShortcuts, ...shortcuts],
+      globalShortcuts: shortcuts,
     }));
   }, []);
 
@@ -90,20 +93,8 @@ export const useHotkeySystem = ({ enabled = true, onAction }: UseHotkeySystemPro
 
   // Parse key combination
   const parseKeyCombination = useCallback((event: KeyboardEvent): string => {
-    const parts: string[] = [];
-    
-    if (event.ctrlKey) parts.push('ctrl');
-    if (event.altKey) parts.push('alt');
-    if (event.shiftKey) parts.push('shift');
-    if (event.metaKey) parts.push('meta');
-    
-    // Normalize key names
-    let key = event.key.toLowerCase();
-    if (key === ' ') key = 'space';
-    // Keep arrow keys as 'arrowup', 'arrowdown', etc. to match our shortcuts
-    
-    parts.push(key);
-    return parts.join('+');
+    // Same form as keymap bindings
+    return keyEventToBinding(event);
   }, []);
 
   // Handle key sequence (for multi-key shortcuts like 'g+g')
@@ -183,7 +174,7 @@ export const useHotkeySystem = ({ enabled = true, onAction }: UseHotkeySystemPro
       
       // Notify parent component
       if (onAction) {
-        const action = matchingShortcut.key as HotkeyAction;
+        const action = matchingShortcut.hotkeyAction ?? (matchingShortcut.key as HotkeyAction);
         onAction(action, state.activeContext || undefined);
       }
     }
@@ -202,6 +193,29 @@ export const useHotkeySystem = ({ enabled = true, onAction }: UseHotkeySystemPro
     };
   }, [enabled, handleKeyDown]);
 
+  // Run actions dispatched by name, e.g. from the command palette
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleActionEvent = (event: Event) => {
+      const { action } = (event as CustomEvent<{ action: HotkeyAction }>).detail || {};
+      if (!action || event.defaultPrevented) return;
+
+      const activeContext = state.activeContext ? state.contexts.get(state.activeContext) : null;
+      const shortcut = [...state.globalShortcuts, ...(activeContext?.shortcuts || [])].find(
+        s => s.enabled && s.hotkeyAction === action
+      );
+      if (!shortcut) return;
+
+      event.preventDefault();
+      shortcut.action();
+      onAction?.(action, state.activeContext || undefined);
+    };
+
+    window.addEventListener(HOTKEY_ACTION_EVENT, handleActionEvent);
+    return () => window.removeEventListener(HOTKEY_ACTION_EVENT, handleActionEvent);
+  }, [enabled, state, onAction]);
+
   // Keep internal enabled state in sync with prop
   useEffect(() => {
     setState(prev => ({
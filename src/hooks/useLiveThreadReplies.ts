@@ -0,0 +1,115 @@
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type { Event, Filter } from "nostr-tools";
+import { useThreadStore } from "../state/threadStore";
+import { processEventsInWorker } from "../workers/threadWorkerBridge";
+import { CACHE_KEYS } from "../utils/cacheKeys";
+import { extractImageUrls, extractVideoUrls } from "../utils/nostr/utils";
+import type { RelayConnectionPool } from "../utils/nostr/relayConnectionPool";
+import type { Note } from "../types/nostr/types";
+
+interface UseLiveThreadRepliesProps {
+  rootId: string;
+  relayUrls: string[];
+  nostrClient: RelayConnectionPool | null;
+  myPubkey?: string | null;
+  enabled?: boolean;
+  batchDelay?: number; // ms to collect events before one worker pass
+}
+
+/**
+ * Keeps a REQ open on `#e` for the thread root while the page is mounted.
+ * Replies from others are held in the store until revealed so the page
+ * never shifts under the reader; our own replies are applied right away.
+ */
+export function useLiveThreadReplies({
+  rootId,
+  relayUrls,
+  nostrClient,
+  myPubkey,
+  enabled = true,
+  batchDelay = 300,
+}: UseLiveThreadRepliesProps) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!enabled || !rootId || !relayUrls.length || !nostrClient) return;
+
+    let isMounted = true;
+    let batch: Note[] = [];
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+    const seenIds = new Set<string>();
+
+    const flush = async () => {
+      flushTimer = null;
+      const notes = batch;
+      batch = [];
+      if (notes.length === 0) return;
+
+      for (const note of notes) {
+        queryClient.setQueryData(CACHE_KEYS.NOTE(note.id), note);
+      }
+
+      try {
+        const patch = await processEventsInWorker(
+          notes.map((n) => ({
+            id: n.id,
+            pubkey: n.pubkey,
+            created_at: n.created_at,
+            kind: n.kind || 1,
+            tags: n.tags,
+            content: n.content,
+          }))
+        );
+        if (!isMounted) return;
+
+        const store = useThreadStore.getState();
+        const own = patch.notes.filter((n) => n.pubkey === myPubkey);
+        const others = patch.notes.filter((n) => n.pubkey !== myPubkey);
+        if (own.length > 0) {
+          store.ingestNotes(rootId, own);
+          store.applyWorkerPatch(rootId, { ...patch, notes: own });
+        }
+        if (others.length > 0) {
+          store.queuePendingPatch(rootId, { ...patch, notes: others });
+        }
+      } catch (err) {
+        console.warn("Live thread worker error:", err);
+      }
+    };
+
+    // Anything older is covered by the initial load
+    const filter: Filter = {
+      kinds: [1],
+      "#e": [rootId],
+      since: Math.floor(Date.now() / 1000),
+    };
+
+    const sub = nostrClient.subscribeMany(relayUrls, [filter], {
+      onevent: (event: Event) => {
+        if (seenIds.has(event.id)) return;
+        seenIds.add(event.id);
+        if (useThreadStore.getState().threads[rootId]?.notesById.has(event.id)) return;
+
+        batch.push({
+          id: event.id,
+          content: event.content || "",
+          pubkey: event.pubkey,
+          created_at: event.created_at,
+          kind: event.kind,
+          tags: event.tags || [],
+          imageUrls: extractImageUrls(event.content || ""),
+          videoUrls: extractVideoUrls(event.content || ""),
+          receivedAt: Date.now(),
+        });
+        if (!flushTimer) flushTimer = setTimeout(flush, batchDelay);
+      },
+    });
+
+    return () => {
+      isMounted = false;
+      if (flushTimer) clearTimeout(flushTimer);
+      sub.close();
+    };
+  }, [rootId, relayUrls, nostrClient, myPubkey, enabled, batchDelay, queryClient]);
+}
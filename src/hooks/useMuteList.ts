@@ -1,43 +1,139 @@
-import { useCallback } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useCallback, useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useContext } from 'react';
 import { NostrContext } from '../contexts/NostrContext';
-import { fetchUserMuteList } from '../utils/nostr/publish';
+import { CACHE_KEYS } from '../utils/cacheKeys';
+import {
+  MUTE_LIST_KIND,
+  fetchLists,
+  getListEntries,
+  publishList,
+  removeListEntry,
+  upsertListEntry,
+  type NostrList,
+} from '../utils/nostr/lists';
+import { createMuteFilter } from '../utils/muteFilter';
+import type { RelayPermission } from '../types/nostr/types';
+
+const emptyMuteList = (pubkey: string): NostrList => ({
+  kind: MUTE_LIST_KIND,
+  pubkey,
+  dTag: '',
+  publicTags: [],
+  privateTags: [],
+  created_at: 0,
+  privateReadable: true,
+});
 
 /**
- * Hook to manage the current user's mute list
+ * Hook to manage the current user's mute list (NIP-51 kind 10000): pubkeys,
+ * words (incl. /regex/), hashtags and threads, public or NIP-44 private.
  */
-export function useMuteList(relayUrls: string[]) {
-  const { nostrClient, pubkey: userPubkey } = useContext(NostrContext);
+export function useMuteList(relayUrls: string[], relayPermissions?: Map<string, RelayPermission>) {
+  const { nostrClient, pubkey: userPubkey, loginMethod } = useContext(NostrContext);
+  const queryClient = useQueryClient();
+
+  const queryKey = useMemo(
+    () => CACHE_KEYS.USER.MUTE_LIST(userPubkey || '', relayUrls.join('|')),
+    [userPubkey, relayUrls]
+  );
+
+  // npub-only sessions can still apply public entries
+  const canDecrypt = loginMethod === 'nip07' || loginMethod === 'nsec' || loginMethod === 'nip46';
 
   const {
-    data: mutedPubkeys = [],
+    data: muteList = null,
     isLoading,
     error,
     refetch
   } = useQuery({
-    queryKey: ['mute-list', userPubkey, relayUrls.join('|')],
+    queryKey,
     enabled: Boolean(userPubkey && nostrClient && relayUrls.length > 0),
-    queryFn: async () => {
-      if (!userPubkey || !nostrClient) return [];
-      return await fetchUserMuteList({
+    queryFn: async (): Promise<NostrList | null> => {
+      if (!userPubkey || !nostrClient) return null;
+      const lists = await fetchLists({
         pool: nostrClient,
         relayUrls,
-        userPubkey
+        pubkey: userPubkey,
+        kinds: [MUTE_LIST_KIND],
+        ownerPubkey: canDecrypt ? userPubkey : undefined,
       });
+      return lists[0] ?? null;
     },
     staleTime: 5 * 60 * 1000, // 5 minutes
     gcTime: 10 * 60 * 1000, // 10 minutes
     refetchOnWindowFocus: false,
   });
 
+  const entries = useMemo(() => (muteList ? getListEntries(muteList) : []), [muteList]);
+  const mutedPubkeys = useMemo(
+    () => entries.filter(t => t[0] === 'p').map(t => t[1]),
+    [entries]
+  );
+  const muteFilter = useMemo(() => createMuteFilter(entries), [entries]);
+
   const isUserMuted = useCallback((targetPubkey: string): boolean => {
-    return mutedPubkeys.includes(targetPubkey);
-  }, [mutedPubkeys]);
+    return muteFilter.isPubkeyMuted(targetPubkey);
+  }, [muteFilter]);
+
+  const mutation = useMutation({
+    mutationFn: async (update: (list: NostrList) => NostrList) => {
+      if (!nostrClient || !userPubkey) throw new Error('Nostr client not ready');
+      // Re-read before writing so entries added on other clients survive
+      const [latest] = await fetchLists({
+        pool: nostrClient,
+        relayUrls,
+        pubkey: userPubkey,
+        kinds: [MUTE_LIST_KIND],
+        ownerPubkey: canDecrypt ? userPubkey : undefined,
+      });
+      const current = latest ?? muteList ?? emptyMuteList(userPubkey);
+      if (!current.privateReadable) {
+        throw new Error('Private mute entries could not be decrypted; unlock your key first');
+      }
+      const next = update(current);
+      return publishList({
+        pool: nostrClient,
+        relayUrls,
+        ownerPubkey: userPubkey,
+        relayPermissions,
+        kind: MUTE_LIST_KIND,
+        metadataTags: next.metadataTags,
+        publicTags: next.publicTags,
+        privateTags: next.privateTags,
+      });
+    },
+    onSuccess: saved => {
+      // Relays may lag behind; keep the published version locally. Pages read
+      // the list through different relay sets, so update every cached copy.
+      queryClient.setQueriesData<NostrList | null>(
+        { queryKey: ['user', 'mute-list', userPubkey || ''] },
+        saved
+      );
+      queryClient.setQueryData(queryKey, saved);
+    },
+  });
+
+  const addMute = useCallback(
+    (entry: string[], isPrivate: boolean = false) =>
+      mutation.mutateAsync(list => upsertListEntry(list, entry, isPrivate)),
+    [mutation]
+  );
+
+  const removeMute = useCallback(
+    (entry: string[]) => mutation.mutateAsync(list => removeListEntry(list, entry)),
+    [mutation]
+  );
 
   return {
+    muteList,
+    entries,
     mutedPubkeys,
+    muteFilter,
     isUserMuted,
+    addMute,
+    removeMute,
+    isSaving: mutation.isPending,
     isLoading,
     error,
     refetch
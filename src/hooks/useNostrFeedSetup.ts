@@ -72,7 +72,7 @@ export const useNostrFeedSetup = () => {
   const { contacts: userContacts, isLoading: contactsLoading } = useUserContactsContext();
 
   // Use centralized mute list management
-  const { mutedPubkeys } = useMuteList(readRelays);
+  const { mutedPubkeys, muteFilter } = useMuteList(readRelays);
 
   // Sync user contacts to feed state for backward compatibility
   useEffect(() => {
@@ -163,6 +163,7 @@ export const useNostrFeedSetup = () => {
     userContacts,
     contactsLoading,
     mutedPubkeys,
+    muteFilter,
     
     // Display names
     getDisplayNameForPubkey,
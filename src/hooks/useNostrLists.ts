@@ -0,0 +1,143 @@
+import { useCallback, useContext, useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { NostrContext } from '../contexts/NostrContext';
+import { CACHE_KEYS } from '../utils/cacheKeys';
+import {
+  BOOKMARK_LIST_KIND,
+  FOLLOW_SET_KIND,
+  fetchLists,
+  getListAddress,
+  publishList,
+  type NostrList,
+} from '../utils/nostr/lists';
+import type { RelayPermission } from '../types/nostr/types';
+
+export interface SaveListParams {
+  // The list as shown; its newest version on the relays is re-read before writing
+  list: NostrList;
+  update: (list: NostrList) => NostrList;
+}
+
+export interface UseNostrListsResult {
+  lists: NostrList[];
+  followSets: NostrList[];
+  bookmarkList: NostrList | null;
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => void;
+  getListByAddress: (address: string) => NostrList | undefined;
+  saveList: (params: SaveListParams) => Promise<NostrList>;
+  isSaving: boolean;
+}
+
+const LIST_KINDS = [BOOKMARK_LIST_KIND, FOLLOW_SET_KIND];
+
+/**
+ * Hook for the current user's NIP-51 follow sets (30000) and bookmark list (10003).
+ * Private entries are decrypted with the active signer when available.
+ */
+export function useNostrLists(
+  relayUrls: string[],
+  relayPermissions?: Map<string, RelayPermission>
+): UseNostrListsResult {
+  const { nostrClient, pubkey: userPubkey, loginMethod } = useContext(NostrContext);
+  const queryClient = useQueryClient();
+
+  const queryKey = useMemo(
+    () => CACHE_KEYS.LISTS(userPubkey, LIST_KINDS.join(','), relayUrls.join('|')),
+    [userPubkey, relayUrls]
+  );
+
+  // npub-only sessions can still read public entries
+  const canDecrypt = loginMethod === 'nip07' || loginMethod === 'nsec' || loginMethod === 'nip46';
+
+  const {
+    data: lists = [],
+    isLoading,
+    error,
+    refetch,
+  } = useQuery({
+    queryKey,
+    enabled: Boolean(userPubkey && nostrClient && relayUrls.length > 0),
+    queryFn: async (): Promise<NostrList[]> => {
+      if (!userPubkey || !nostrClient) return [];
+      return fetchLists({
+        pool: nostrClient,
+        relayUrls,
+        pubkey: userPubkey,
+        kinds: LIST_KINDS,
+        ownerPubkey: canDecrypt ? userPubkey : undefined,
+      });
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+  });
+
+  const followSets = useMemo(() => lists.filter(l => l.kind === FOLLOW_SET_KIND), [lists]);
+  const bookmarkList = useMemo(
+    () => lists.find(l => l.kind === BOOKMARK_LIST_KIND) ?? null,
+    [lists]
+  );
+
+  const getListByAddress = useCallback(
+    (address: string) => lists.find(l => getListAddress(l) === address),
+    [lists]
+  );
+
+  const mutation = useMutation({
+    mutationFn: async ({ list, update }: SaveListParams) => {
+      if (!nostrClient || !userPubkey) throw new Error('Nostr client not ready');
+      // Re-read before writing so edits from other clients survive
+      const address = getListAddress(list);
+      const latest = await fetchLists({
+        pool: nostrClient,
+        relayUrls,
+        pubkey: userPubkey,
+        kinds: [list.kind],
+        ownerPubkey: canDecrypt ? userPubkey : undefined,
+      });
+      const current = latest.find(l => getListAddress(l) === address) ?? list;
+      if (!current.privateReadable) {
+        // Rewriting the list would drop the entries we can't read
+        throw new Error('Private list entries could not be decrypted; unlock your key first');
+      }
+      const next = update(current);
+      return publishList({
+        pool: nostrClient,
+        relayUrls,
+        ownerPubkey: userPubkey,
+        relayPermissions,
+        kind: next.kind,
+        dTag: next.kind === FOLLOW_SET_KIND ? next.dTag : undefined,
+        title: next.title,
+        description: next.description,
+        metadataTags: next.metadataTags,
+        publicTags: next.publicTags,
+        privateTags: next.privateTags,
+      });
+    },
+    onSuccess: saved => {
+      // Replace the old version locally; relays may lag behind
+      queryClient.setQueryData<NostrList[]>(queryKey, (prev = []) => {
+        const address = getListAddress(saved);
+        const others = prev.filter(l => getListAddress(l) !== address);
+        const isEmpty = saved.publicTags.length === 0 && saved.privateTags.length === 0;
+        return isEmpty && saved.kind !== BOOKMARK_LIST_KIND ? others : [...others, saved];
+      });
+    },
+  });
+
+  const saveList = useCallback((params: SaveListParams) => mutation.mutateAsync(params), [mutation]);
+
+  return {
+    lists,
+    followSets,
+    bookmarkList,
+    isLoading,
+    error: error ? (error as Error).message : null,
+    refetch,
+    getListByAddress,
+    saveList,
+    isSaving: mutation.isPending,
+  };
+}
@@ -1,11 +1,18 @@
 import { useQuery, useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
 import { useNostr } from '@nostrify/react';
-import { useCallback, useMemo, useEffect } from 'react';
+import { useCallback, useMemo, useEffect, useRef } from 'react';
 // import { getOutboxRouter } from '../utils/nostr/outboxRouter';
 import type { Filter, Event } from 'nostr-tools';
 import type { Note } from '../types/nostr/types';
 import { extractImageUrls, extractVideoUrls } from '../utils/nostr/utils';
 import { isNsfwNote } from '../utils/nsfwFilter';
+import { EMPTY_MUTE_FILTER, type MuteFilter } from '../utils/muteFilter';
+import {
+  isEventDeleted,
+  syncDeletionsForEvents,
+  type DeletionEventLike,
+} from '../utils/nostr/queryInvalidation';
+import { getEffectivePow } from '../utils/nostr/pow';
 import { acquireQuerySlot, releaseQuerySlot } from '../utils/nostr/queryThrottle';
 import { useUIStore } from '../components/lib/useUIStore';
 import { useNostrifyMigration } from '../contexts/NostrifyMigrationProvider';
@@ -19,7 +26,12 @@ interface UseNostrifyFeedConfig {
   showReposts?: boolean;
   nsfwBlock?: boolean;
   mutedPubkeys?: string[];
+  // Full mute list (words, hashtags, threads); applied on top of mutedPubkeys
+  muteFilter?: MuteFilter;
   customHashtags?: string[];
+  // Minimum NIP-13 proof-of-work for notes by authors outside powExemptPubkeys (0 = off)
+  minPowBits?: number;
+  powExemptPubkeys?: string[];
   // Optional pagination guard: if provided, stop paging when reaching this age
   maximumAgeDays?: number | null;
   // Optional memory guard: limit number of pages kept in memory for this feed
@@ -58,7 +70,10 @@ export function useNostrifyFeed(config: UseNostrifyFeedConfig): UseNostrifyFeedR
     showReposts = true,
     nsfwBlock = true,
     mutedPubkeys = [],
+    muteFilter = EMPTY_MUTE_FILTER,
     customHashtags = [],
+    minPowBits = 0,
+    powExemptPubkeys,
     maximumAgeDays = null,
     maxPagesInMemory: _maxPagesInMemory, // No longer used - Virtual handles memory efficiently
     firstPageSinceDays = 30
@@ -98,7 +113,7 @@ export function useNostrifyFeed(config: UseNostrifyFeedConfig): UseNostrifyFeedR
 
   const flagsKey = `${showReplies ? 'R1' : 'R0'}:${showReposts ? 'RP1' : 'RP0'}:${nsfwBlock ? 'N1' : 'N0'}`;
   const mutedLen = mutedPubkeys?.length || 0;
-  const queryKey = ['nostrify-feed', authorKey, kindsKey, relayKey, flagsKey, hashtagsKey, mutedLen, pageSize] as const;
+  const queryKey = ['nostrify-feed', authorKey, kindsKey, relayKey, flagsKey, hashtagsKey, mutedLen, muteFilter.key, pageSize] as const;
   
   // TTL cache to avoid repeated outbox discovery per author (in-memory)
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -117,7 +132,7 @@ export function useNostrifyFeed(config: UseNostrifyFeedConfig): UseNostrifyFeedR
       authorKey: authorKey?.slice(0, 8),
       kindsKey,
       shouldRun: queryEnabled,
-      queryKey: ['nostrify-feed', authorKey, kindsKey, relayKey, flagsKey, hashtagsKey, mutedLen, pageSize],
+      queryKey,
       isProfileQuery: filter?.authors && filter.authors.length > 0,
       profileAuthor: filter?.authors?.[0]?.slice(0, 8),
       willExecute: queryEnabled && !!nostr && relayUrls.length > 0,
@@ -169,6 +184,7 @@ export function useNostrifyFeed(config: UseNostrifyFeedConfig): UseNostrifyFeedR
         
         // Mute filter
         if (mutedPubkeys.includes(event.pubkey)) return false;
+        if (muteFilter.isNoteMuted(event)) return false;
         
         // Reply filter
         if (!showReplies && event.tags?.some(tag => tag[0] === 'e')) return false;
@@ -212,7 +228,7 @@ export function useNostrifyFeed(config: UseNostrifyFeedConfig): UseNostrifyFeedR
         };
       })
       .sort((a, b) => b.created_at - a.created_at);
-  }, [showReplies, showReposts, nsfwBlock, mutedPubkeys, customHashtags]);
+  }, [showReplies, showReposts, nsfwBlock, mutedPubkeys, muteFilter, customHashtags]);
 
   // Infinite query for paginated feed
   const infiniteQuery = useInfiniteQuery({
@@ -743,6 +759,8 @@ export function useNostrifyFeed(config: UseNostrifyFeedConfig): UseNostrifyFeedR
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [showReplies, showReposts]);
 
+  const powExemptSet = useMemo(() => new Set(powExemptPubkeys || []), [powExemptPubkeys]);
+
   // Flatten all pages into a single array
   // IMPORTANT: This memo applies filtering to cached data based on current filter settings.
   // When showReplies/showReposts change, this memo recalculates and filters the cached notes
@@ -784,14 +802,38 @@ export function useNostrifyFeed(config: UseNostrifyFeedConfig): UseNostrifyFeedR
       // NSFW filter
       if (nsfwBlock && isNsfwNote({ content: note.content, tags: note.tags || [], pubkey: note.pubkey })) return false;
       
-      // Muted users filter
+      // Muted users, words, hashtags and threads
       if (mutedPubkeys.includes(note.pubkey)) return false;
+      if (muteFilter.isNoteMuted(note)) return false;
+      
+      // Deleted by author (NIP-09)
+      if (isEventDeleted(note)) return false;
+      
+      // Proof-of-work floor for strangers (spam defense)
+      if (minPowBits > 0 && !powExemptSet.has(note.pubkey) && getEffectivePow(note) < minPowBits) return false;
       
       return true;
     });
     
     return filteredNotes.sort((a, b) => b.created_at - a.created_at);
-  }, [infiniteQuery.data, showReplies, showReposts, nsfwBlock, mutedPubkeys, customHashtags]);
+  }, [infiniteQuery.data, showReplies, showReposts, nsfwBlock, mutedPubkeys, muteFilter, customHashtags, minPowBits, powExemptSet]);
+
+  // Look up deletions made on other devices or clients, once per loaded note
+  const deletionCheckedIds = useRef(new Set<string>());
+  useEffect(() => {
+    const pages = infiniteQuery.data?.pages as Array<{ notes: Note[] }> | undefined;
+    if (!pages) return;
+    const unchecked = pages
+      .flatMap(page => page.notes)
+      .filter(note => note?.id && !deletionCheckedIds.current.has(note.id));
+    if (unchecked.length === 0) return;
+    unchecked.forEach(note => deletionCheckedIds.current.add(note.id));
+    void syncDeletionsForEvents(
+      queryClient,
+      filter => nostr.query([filter]) as Promise<DeletionEventLike[]>,
+      unchecked
+    );
+  }, [infiniteQuery.data, nostr, queryClient]);
 
   // Enhanced loading state with timeout protection
   const isLoading = useMemo(() => {
@@ -836,6 +878,7 @@ export function useNostrifySimpleFeed(config: UseNostrifyFeedConfig): UseNostrif
     showReposts = true,
     nsfwBlock = true,
     mutedPubkeys = [],
+    muteFilter = EMPTY_MUTE_FILTER,
     customHashtags = []
   } = config;
 
@@ -845,6 +888,7 @@ export function useNostrifySimpleFeed(config: UseNostrifyFeedConfig): UseNostrif
       .filter(event => {
         if (!event.content || event.content.trim().length === 0) return false;
         if (mutedPubkeys.includes(event.pubkey)) return false;
+        if (muteFilter.isNoteMuted(event)) return false;
         if (!showReplies && event.tags?.some(tag => tag[0] === 'e')) return false;
         if (!showReposts && event.kind === 6) return false;
         
@@ -883,9 +927,9 @@ export function useNostrifySimpleFeed(config: UseNostrifyFeedConfig): UseNostrif
         };
       })
       .sort((a, b) => b.created_at - a.created_at);
-  }, [showReplies, showReposts, nsfwBlock, mutedPubkeys, customHashtags]);
+  }, [showReplies, showReposts, nsfwBlock, mutedPubkeys, muteFilter, customHashtags]);
 
-  const simpleQueryKey = ['nostrify-simple-feed', filter, relayUrls, showReplies, showReposts, nsfwBlock, mutedPubkeys, customHashtags] as const;
+  const simpleQueryKey = ['nostrify-simple-feed', filter, relayUrls, showReplies, showReposts, nsfwBlock, mutedPubkeys, muteFilter.key, customHashtags] as const;
 
   const query = useQuery({
     queryKey: simpleQueryKey,
@@ -9,6 +9,7 @@ import { nip19 } from 'nostr-tools';
 import { DEFAULT_RELAY_URLS, PROFILE_RELAY_URLS } from '../utils/nostr/constants';
 import { getOutboxRouter } from '../utils/nostr/outboxRouter';
 import { useUIStore } from '../components/lib/useUIStore';
+import { isEventDeleted } from '../utils/nostr/queryInvalidation';
 
 interface UseNostrifyThreadConfig {
   parentEventId: string;
@@ -322,6 +323,7 @@ export function useNostrifyThread(config: UseNostrifyThreadConfig): UseNostrifyT
     const byId = new Map<string, Note>();
     for (const page of pages) {
       for (const note of page.notes) {
+        if (isEventDeleted(note)) continue;
         if (!byId.has(note.id)) {
           byId.set(note.id, note);
         }
@@ -0,0 +1,69 @@
+import { useContext, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { Event, SimplePool } from 'nostr-tools';
+import { NostrContext } from '../contexts/NostrContext';
+import { CACHE_KEYS } from '../utils/cacheKeys';
+import { useUIStore } from '../components/lib/useUIStore';
+import type { ReportFilterMode } from '../components/lib/uiStore';
+import { useUserContacts } from './useUserContacts';
+import {
+  EMPTY_REPORT_SUMMARY,
+  fetchNoteReports,
+  summarizeReports,
+  type ReportSummary,
+} from '../utils/nostr/reports';
+
+/**
+ * Pubkeys whose reports count: the people we follow, the configured trusted
+ * reporters and ourselves.
+ */
+export function useTrustedReporters(relayUrls: string[], enabled: boolean = true): Set<string> {
+  const { pubkey } = useContext(NostrContext);
+  const trustedReporters = useUIStore((s) => s.trustedReporters);
+  const { contacts } = useUserContacts({ relayUrls, enabled: enabled && Boolean(pubkey) });
+
+  return useMemo(() => {
+    const set = new Set<string>(trustedReporters || []);
+    if (pubkey) set.add(pubkey);
+    // The contacts cache is shared with hooks that store bare pubkeys
+    for (const contact of (contacts || []) as Array<{ pubkey: string } | string>) {
+      const key = typeof contact === 'string' ? contact : contact?.pubkey;
+      if (key) set.add(key);
+    }
+    return set;
+  }, [pubkey, trustedReporters, contacts]);
+}
+
+/**
+ * Reports (kind 1984) of a note by trusted reporters. Raw reports are cached
+ * per note so changing the trusted set doesn't refetch; the fetches of all
+ * cards on a page are batched into one query.
+ */
+export function useNoteReports(
+  noteId: string | null | undefined,
+  relayUrls: string[],
+  pool: SimplePool | null,
+  enabled: boolean = true
+): { summary: ReportSummary; mode: ReportFilterMode; isLoading: boolean } {
+  const mode = useUIStore((s) => s.reportFilterMode ?? 'off');
+  const active = enabled && mode !== 'off';
+  const trusted = useTrustedReporters(relayUrls, active);
+
+  const { data: events, isLoading } = useQuery({
+    queryKey: CACHE_KEYS.NOTE_REPORTS(noteId || ''),
+    queryFn: async (): Promise<Event[]> => {
+      if (!noteId || !pool) return [];
+      return fetchNoteReports(pool, relayUrls, noteId);
+    },
+    enabled: Boolean(active && noteId && pool && relayUrls.length > 0),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  });
+
+  const summary = useMemo(
+    () => (active && noteId && events ? summarizeReports(events, noteId, trusted) : EMPTY_REPORT_SUMMARY),
+    [active, noteId, events, trusted]
+  );
+
+  return { summary, mode, isLoading: active && isLoading };
+}
@@ -12,6 +12,7 @@ import { extractImageUrls, extractVideoUrls } from '../utils/nostr/utils'
 import { useSessionState } from './useSessionState'
 import type { NostrFilter } from '@nostrify/nostrify'
 import { getGlobalRelayPool } from '../utils/nostr/relayConnectionPool'
+import { isEventDeleted } from '../utils/nostr/queryInvalidation'
 
 export interface UseNotificationsNostrifyResult {
   items: ClassifiedNotification[]
@@ -276,6 +277,7 @@ export function useNotificationsNostrify({ relayUrls }: { relayUrls: string[] })
     const byId = new Map<string, ClassifiedNotification>()
     for (const page of data.pages) {
       for (const n of page) {
+        if (isEventDeleted(n?.event)) continue
         const key = (() => {
           try {
             if (typeof buildNotificationStableKey === 'function') return buildNotificationStableKey(n)
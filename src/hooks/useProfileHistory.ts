@@ -0,0 +1,37 @@
+import { useQuery } from '@tanstack/react-query';
+import type { Event, Filter } from 'nostr-tools';
+import { CACHE_KEYS } from '../utils/cacheKeys';
+import { getGlobalRelayPool } from '../utils/nostr/relayConnectionPool';
+import { getProfileHistory } from '../utils/nostr/profileMetadata';
+
+/**
+ * Our kind 0 events on the given relays, newest first
+ */
+export async function fetchProfileHistory(pubkeyHex: string, relayUrls: string[]): Promise<Event[]> {
+  const filter: Filter = { kinds: [0], authors: [pubkeyHex], limit: 50 };
+  const events = await getGlobalRelayPool().getPool().querySync(relayUrls, filter);
+  return getProfileHistory(events, pubkeyHex);
+}
+
+/**
+ * Past kind 0 events for a pubkey, newest first. Most relays only keep the
+ * latest one, so history is whatever any relay still has.
+ */
+export function useProfileHistory(
+  pubkeyHex: string | null | undefined,
+  relayUrls: string[],
+  enabled: boolean = true
+): { history: Event[]; isLoading: boolean } {
+  const { data, isLoading } = useQuery({
+    queryKey: CACHE_KEYS.PROFILE_HISTORY(pubkeyHex || ''),
+    queryFn: async (): Promise<Event[]> => {
+      if (!pubkeyHex) return [];
+      return fetchProfileHistory(pubkeyHex, relayUrls);
+    },
+    enabled: Boolean(enabled && pubkeyHex && relayUrls.length > 0),
+    staleTime: 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+  });
+
+  return { history: data || [], isLoading };
+}
@@ -2,6 +2,7 @@ import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useCallback } from 'react';
 import type { SimplePool, Event, Filter } from 'nostr-tools';
 import { CACHE_KEYS } from '../utils/cacheKeys';
+import { isEventDeleted } from '../utils/nostr/queryInvalidation';
 
 export interface ReactionCountsData {
   likes: number;
@@ -9,6 +10,8 @@ export interface ReactionCountsData {
   total: number;
   hasLikedByMe: boolean;
   hasDislikedByMe: boolean;
+  // Id of the current user's latest reaction, so it can be deleted (NIP-09)
+  myReactionId?: string;
 }
 
 export interface ReactionCountsResult {
@@ -19,64 +22,88 @@ export interface ReactionCountsResult {
 }
 
 /**
- * Fetch reaction counts (kind 7) for a note using TanStack Query
+ * Count reactions (kind 7) to a note.
  * Counts '+' or empty content as likes; '-' as dislikes.
  * Dedupe by reacting pubkey to prevent multiple counts from same author.
  */
-export function useReactionCountsQuery(
+export async function fetchReactionCounts(
   noteId: string | null | undefined,
   relayUrls: string[],
   pool: SimplePool | null,
   myPubkey?: string
-): ReactionCountsResult {
+): Promise<ReactionCountsData> {
+  if (!noteId || !pool || relayUrls.length === 0) {
+    return {
+      likes: 0,
+      dislikes: 0,
+      total: 0,
+      hasLikedByMe: false,
+      hasDislikedByMe: false,
+    };
+  }
 
-  const fetchReactionCounts = useCallback(async (): Promise<ReactionCountsData> => {
-    if (!noteId || !pool || relayUrls.length === 0) {
-      return {
-        likes: 0,
-        dislikes: 0,
-        total: 0,
-        hasLikedByMe: false,
-        hasDislikedByMe: false,
-      };
-    }
+  const filter: Filter = { kinds: [7], '#e': [noteId], limit: 1000 } as any;
+  const events: Event[] = await pool.querySync(relayUrls, filter);
+  return countReactions(events, myPubkey);
+}
 
-    const filter: Filter = { kinds: [7], '#e': [noteId], limit: 1000 } as any;
-    const events: Event[] = await pool.querySync(relayUrls, filter);
-    
-    const latestByReactor = new Map<string, Event>();
-    for (const ev of events) {
-      const existing = latestByReactor.get(ev.pubkey);
-      if (!existing || (ev.created_at || 0) > (existing.created_at || 0)) {
-        latestByReactor.set(ev.pubkey, ev);
-      }
+/**
+ * Tally one note's reactions (kind 7), keeping each reactor's latest
+ */
+export function countReactions(events: Event[], myPubkey?: string): ReactionCountsData {
+  const latestByReactor = new Map<string, Event>();
+  for (const ev of events) {
+    // Skip reactions their author has since deleted
+    if (isEventDeleted(ev)) continue;
+    const existing = latestByReactor.get(ev.pubkey);
+    if (!existing || (ev.created_at || 0) > (existing.created_at || 0)) {
+      latestByReactor.set(ev.pubkey, ev);
+    }
+  }
+
+  let likeCount = 0;
+  let dislikeCount = 0;
+  let hasLikedByMe = false;
+  let hasDislikedByMe = false;
+  const myReactionId = myPubkey ? latestByReactor.get(myPubkey)?.id : undefined;
+
+  latestByReactor.forEach(ev => {
+    const c = (ev.content || '').trim();
+    if (c === '-') {
+      dislikeCount++;
+      if (ev.pubkey === myPubkey) hasDislikedByMe = true;
+    } else {
+      // Count '+' or empty string (traditional likes) AND any emoji/content as likes per NIP-25
+      likeCount++;
+      if (ev.pubkey === myPubkey) hasLikedByMe = true;
     }
+  });
 
-    let likeCount = 0;
-    let dislikeCount = 0;
-    let hasLikedByMe = false;
-    let hasDislikedByMe = false;
+  return {
+    likes: likeCount,
+    dislikes: dislikeCount,
+    total: likeCount, // UI requirement: show only '+' likes
+    hasLikedByMe,
+    hasDislikedByMe,
+    myReactionId,
+  };
+}
 
-    latestByReactor.forEach(ev => {
-      const c = (ev.content || '').trim();
-      if (c === '-') {
-        dislikeCount++;
-        if (ev.pubkey === myPubkey) hasDislikedByMe = true;
-      } else {
-        // Count '+' or empty string (traditional likes) AND any emoji/content as likes per NIP-25
-        likeCount++;
-        if (ev.pubkey === myPubkey) hasLikedByMe = true;
-      }
-    });
+/**
+ * Fetch reaction counts (kind 7) for a note using TanStack Query
+ */
+export function useReactionCountsQuery(
+  noteId: string | null | undefined,
+  relayUrls: string[],
+  pool: SimplePool | null,
+  myPubkey?: string
+): ReactionCountsResult {
 
-    return {
-      likes: likeCount,
-      dislikes: dislikeCount,
-      total: likeCount, // UI requirement: show only '+' likes
-      hasLikedByMe,
-      hasDislikedByMe,
-    };
-  }, [noteId, pool, relayUrls.join('|'), myPubkey]);
+  const fetchCounts = useCallback(
+    () => fetchReactionCounts(noteId, relayUrls, pool, myPubkey),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [noteId, pool, relayUrls.join('|'), myPubkey]
+  );
 
   const {
     data,
@@ -85,7 +112,7 @@ export function useReactionCountsQuery(
     refetch,
   } = useQuery({
     queryKey: CACHE_KEYS.REACTION_COUNTS(noteId || ''),
-    queryFn: fetchReactionCounts,
+    queryFn: fetchCounts,
     enabled: Boolean(noteId && pool && relayUrls.length > 0),
     staleTime: 30000, // 30 seconds
     gcTime: 5 * 60 * 1000, // 5 minutes
@@ -0,0 +1,115 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import type { Event, Filter } from 'nostr-tools';
+import { CACHE_KEYS } from '../utils/cacheKeys';
+import { getGlobalRelayPool } from '../utils/nostr/relayConnectionPool';
+import { ZAP_RECEIPT_KIND } from '../utils/nostr/zapReceipts';
+import { getZapSplits } from '../utils/nostr/zapSplits';
+import type { Note } from '../types/nostr/types';
+import type { ReplyEngagement } from '../utils/thread/sort';
+import { countReactions } from './useReactionCountsQuery';
+import { verifyZapReceipts } from './useZapReceipts';
+import { sumZapReceipts, type ZapTotalsResult } from './useZapTotalsQuery';
+
+// Shared by every reply in the thread, so leave room for busy ones
+const ENGAGEMENT_LIMIT = 5000;
+
+/**
+ * Bucket events by the reply they point at. NIP-25 reactions name their
+ * target in the last e tag; zap receipts carry a single one.
+ */
+function groupByTarget(events: Event[], replyIds: Set<string>): Map<string, Event[]> {
+  const groups = new Map<string, Event[]>();
+  const seen = new Set<string>();
+  for (const event of events || []) {
+    if (!event || seen.has(event.id)) continue;
+    seen.add(event.id);
+    const target = (event.tags || []).filter((t) => t[0] === 'e').pop()?.[1];
+    if (!target || !replyIds.has(target)) continue;
+    const group = groups.get(target) || [];
+    group.push(event);
+    groups.set(target, group);
+  }
+  return groups;
+}
+
+/**
+ * One kind 7 and one kind 9735 query for all replies, counted per reply.
+ * The per-note caches the reply cards read are filled in along the way.
+ */
+async function fetchReplyEngagement(
+  queryClient: QueryClient,
+  notes: Note[],
+  relayUrls: string[],
+  myPubkey?: string
+): Promise<Record<string, ReplyEngagement>> {
+  const replyIds = notes.map((note) => note.id);
+  const pool = getGlobalRelayPool();
+  const reactionFilter: Filter = { kinds: [7], '#e': replyIds, limit: ENGAGEMENT_LIMIT };
+  const receiptFilter: Filter = { kinds: [ZAP_RECEIPT_KIND], '#e': replyIds, limit: ENGAGEMENT_LIMIT };
+  const [reactionEvents, receiptEvents] = await Promise.all([
+    pool.querySync(relayUrls, reactionFilter),
+    pool.querySync(relayUrls, receiptFilter),
+  ]);
+
+  const idSet = new Set(replyIds);
+  const reactionsByReply = groupByTarget(reactionEvents, idSet);
+  const receiptsByReply = groupByTarget(receiptEvents, idSet);
+
+  const engagement: Record<string, ReplyEngagement> = {};
+  await Promise.all(
+    notes.map(async (note) => {
+      const counts = countReactions(reactionsByReply.get(note.id) || [], myPubkey);
+      const receipts = await verifyZapReceipts(
+        queryClient,
+        receiptsByReply.get(note.id) || [],
+        note.id,
+        relayUrls,
+        note.pubkey,
+        getZapSplits(note.tags).map((split) => split.pubkey)
+      );
+      // Like useZapTotalsQuery, keep an optimistic total that has no receipt yet
+      const cachedTotals = queryClient.getQueryData<ZapTotalsResult>(CACHE_KEYS.ZAP_TOTALS(note.id));
+      const fetchedTotals = sumZapReceipts(receipts);
+      const totals =
+        cachedTotals && cachedTotals.totalSats > 0 && fetchedTotals.totalSats === 0
+          ? cachedTotals
+          : fetchedTotals;
+
+      queryClient.setQueryData(CACHE_KEYS.REACTION_COUNTS(note.id), counts);
+      queryClient.setQueryData(CACHE_KEYS.ZAP_TOTALS(note.id), totals);
+      engagement[note.id] = { reactions: counts.total, zapSats: totals.totalSats };
+    })
+  );
+  return engagement;
+}
+
+/**
+ * Reaction counts and zap totals for a set of replies, fetched in one batch
+ * for the "top" thread sort. Results are also written under the
+ * useReactionCountsQuery and useZapTotalsQuery keys so reply cards reuse them.
+ */
+export function useReplyEngagement(
+  notes: Note[],
+  relayUrls: string[],
+  enabled: boolean,
+  myPubkey?: string
+): (noteId: string) => ReplyEngagement | undefined {
+  const queryClient = useQueryClient();
+  // Same replies in a new array shouldn't refetch
+  const replyIdsKey = useMemo(
+    () => notes.map((note) => note.id).sort().join(','),
+    [notes]
+  );
+  const relayKey = useMemo(() => [...relayUrls].sort().join(','), [relayUrls]);
+
+  const { data } = useQuery({
+    queryKey: CACHE_KEYS.THREAD.REPLY_ENGAGEMENT(replyIdsKey, relayKey),
+    queryFn: () => fetchReplyEngagement(queryClient, notes, relayUrls, myPubkey),
+    enabled: enabled && relayUrls.length > 0 && notes.length > 0,
+    staleTime: 30 * 1000,
+    gcTime: 5 * 60 * 1000,
+  });
+
+  return useCallback((noteId: string) => data?.[noteId], [data]);
+}
@@ -1,6 +1,8 @@
 import { useEffect, useMemo } from 'react';
 import { useHotkeyContext } from '../contexts/HotkeyContext';
+import { useUIStore } from '../components/lib/useUIStore';
 import type { HotkeyConfig } from '../types/hotkeys';
+import { buildShortcuts, resolveKeymap } from '../utils/keymap';
 
 interface UseThreadHotkeysProps {
   // Navigation
@@ -17,6 +19,8 @@ interface UseThreadHotkeysProps {
   onCollapse?: () => void;
   onFocusThread?: () => void;
   onScrollToParent?: () => void;
+  onNextNewReply?: () => void;
+  onPreviousNewReply?: () => void;
   
   // Global actions
   onBackToFeed?: () => void;
@@ -40,6 +44,8 @@ export const useThreadHotkeys = ({
   onCollapse,
   onFocusThread,
   onScrollToParent,
+  onNextNewReply,
+  onPreviousNewReply,
   onBackToFeed,
   onHelpToggle,
   onEscape,
@@ -56,169 +62,74 @@ export const useThreadHotkeys = ({
     navigateFocus,
   } = useHotkeyContext();
 
+  const keymap = useUIStore((s) => s.keymap);
+  const bindings = useMemo(() => resolveKeymap(keymap, 'thread'), [keymap]);
+
   // Create navigation shortcuts - memoized to prevent recreating on every render
-  const navigationShortcuts: HotkeyConfig[] = useMemo(() => [
+  const navigationShortcuts: HotkeyConfig[] = useMemo(() => buildShortcuts(bindings, [
     {
-      key: 'k',
-      description: 'Navigate up',
-      action: () => {
+      action: 'navigate-up',
+      run: () => {
         navigateFocus('up');
         if (onNavigateUp) onNavigateUp();
       },
       enabled: enabled && hasNotes,
-      preventDefault: true,
     },
     {
-      key: 'j',
-      description: 'Navigate down',
-      action: () => {
-        console.log('[ThreadHotkeys] J key pressed, calling navigateFocus down');
+      action: 'navigate-down',
+      run: () => {
         navigateFocus('down');
         if (onNavigateDown) onNavigateDown();
       },
       enabled: enabled && hasNotes,
-      preventDefault: true,
     },
     {
-      key: 'arrowup',
-      description: 'Navigate up',
-      action: () => {
-        navigateFocus('up');
-        if (onNavigateUp) onNavigateUp();
-      },
-      enabled: enabled && hasNotes,
-      preventDefault: true,
-    },
-    {
-      key: 'arrowdown',
-      description: 'Navigate down',
-      action: () => {
-        navigateFocus('down');
-        if (onNavigateDown) onNavigateDown();
-      },
-      enabled: enabled && hasNotes,
-      preventDefault: true,
-    },
-    {
-      key: 'home',
-      description: 'Go to first note',
-      action: () => {
+      action: 'navigate-first',
+      run: () => {
         if (onNavigateFirst) onNavigateFirst();
         else navigateFocus('first');
       },
       enabled: enabled && hasNotes,
-      preventDefault: true,
     },
     {
-      key: 'end',
-      description: 'Go to last note',
-      action: () => {
+      action: 'navigate-last',
+      run: () => {
         if (onNavigateLast) onNavigateLast();
         else navigateFocus('last');
       },
       enabled: enabled && hasNotes,
-      preventDefault: true,
-    },
-    {
-      key: 'g g',
-      description: 'Go to top',
-      action: () => {
-        if (onNavigateFirst) onNavigateFirst();
-        else navigateFocus('first');
-      },
-      enabled: enabled && hasNotes,
-      preventDefault: true,
     },
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  ], [enabled, hasNotes]);
+  ]), [enabled, hasNotes, bindings]);
 
   // Create action shortcuts (only when note is focused) - memoized to prevent recreating on every render
-  const actionShortcuts: HotkeyConfig[] = useMemo(() => [
-    {
-      key: 'l',
-      description: 'Link to note',
-      action: () => onLink?.(),
-      enabled: enabled && focusState.isFocused,
-      preventDefault: true,
-    },
-    {
-      key: 'shift+r',
-      description: 'Reply',
-      action: () => onReply?.(),
-      enabled: enabled && focusState.isFocused,
-      preventDefault: true,
-    },
-    {
-      key: 'shift+l',
-      description: 'Like',
-      action: () => onLike?.(),
-      enabled: enabled && focusState.isFocused,
-      preventDefault: true,
-    },
-    {
-      key: 'shift+b',
-      description: 'Bookmark',
-      action: () => onBookmark?.(),
-      enabled: enabled && focusState.isFocused,
-      preventDefault: true,
-    },
-    {
-      key: 'c',
-      description: 'Collapse/expand note',
-      action: () => onCollapse?.(),
-      enabled: enabled && focusState.isFocused,
-      preventDefault: true,
-    },
-    {
-      key: 't',
-      description: 'Focus thread on note',
-      action: () => onFocusThread?.(),
-      enabled: enabled && focusState.isFocused,
-      preventDefault: true,
-    },
-    {
-      key: 'f',
-      description: 'Focus thread on note',
-      action: () => onFocusThread?.(),
-      enabled: enabled && focusState.isKeyboardNavigationActive,
-      preventDefault: true,
-    },
-    {
-      key: 'p',
-      description: 'Scroll to parent',
-      action: () => onScrollToParent?.(),
-      enabled: enabled && hasNotes,
-      preventDefault: true,
-    },
-    {
-      key: 'b',
-      description: 'Back to feed',
-      action: () => onBackToFeed?.(),
-      enabled: enabled,
-      preventDefault: true,
-    },
-  ], [enabled, hasNotes, focusState.isFocused, onLink, onReply, onLike, onBookmark, onCollapse, onFocusThread, onScrollToParent, onBackToFeed]);
+  const actionShortcuts: HotkeyConfig[] = useMemo(() => buildShortcuts(bindings, [
+    { action: 'action-link', run: () => onLink?.(), enabled: enabled && focusState.isFocused },
+    { action: 'action-reply', run: () => onReply?.(), enabled: enabled && focusState.isFocused },
+    { action: 'action-like', run: () => onLike?.(), enabled: enabled && focusState.isFocused },
+    { action: 'action-bookmark', run: () => onBookmark?.(), enabled: enabled && focusState.isFocused },
+    { action: 'action-collapse', run: () => onCollapse?.(), enabled: enabled && focusState.isFocused },
+    {
+      action: 'action-focus-thread',
+      run: () => onFocusThread?.(),
+      enabled: enabled && (focusState.isFocused || focusState.isKeyboardNavigationActive),
+    },
+    { action: 'action-scroll-to-parent', run: () => onScrollToParent?.(), enabled: enabled && hasNotes },
+    { action: 'action-next-new-reply', run: () => onNextNewReply?.(), enabled: enabled && hasNotes && Boolean(onNextNewReply) },
+    { action: 'action-previous-new-reply', run: () => onPreviousNewReply?.(), enabled: enabled && hasNotes && Boolean(onPreviousNewReply) },
+    { action: 'action-back-to-feed', run: () => onBackToFeed?.(), enabled: enabled },
+  ]), [bindings, enabled, hasNotes, focusState.isFocused, focusState.isKeyboardNavigationActive, onLink, onReply, onLike, onBookmark, onCollapse, onFocusThread, onScrollToParent, onNextNewReply, onPreviousNewReply, onBackToFeed]);
 
   // Create global shortcuts - include navigation as global on thread page to avoid race with context activation
   const globalShortcuts: HotkeyConfig[] = useMemo(() => [
     // Navigation keys as global while on thread page
     ...navigationShortcuts,
     // Global actions
-    {
-      key: 'shift+?',
-      description: 'Show help',
-      action: () => onHelpToggle?.(),
-      enabled: enabled,
-      preventDefault: true,
-    },
-    {
-      key: 'escape',
-      description: 'Close modal or clear focus',
-      action: () => onEscape?.(),
-      enabled: enabled,
-      preventDefault: true,
-    },
-  ], [enabled, onHelpToggle, onEscape, navigationShortcuts]);
+    ...buildShortcuts(bindings, [
+      { action: 'help-toggle', run: () => onHelpToggle?.(), enabled: enabled },
+      { action: 'escape', run: () => onEscape?.(), enabled: enabled },
+    ]),
+  ], [bindings, enabled, onHelpToggle, onEscape, navigationShortcuts]);
 
   // Register thread context and set as active
   useEffect(() => {
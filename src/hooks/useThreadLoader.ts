@@ -3,6 +3,7 @@ import { useQueryClient } from "@tanstack/react-query";
 import { useThreadStore } from "../state/threadStore";
 import { processEventsInWorker } from "../workers/threadWorkerBridge";
 import { CACHE_KEYS } from "../utils/cacheKeys";
+import { syncDeletionsForEvents } from "../utils/nostr/queryInvalidation";
 import type { Note } from "../types/nostr/types";
 
 interface UseThreadLoaderProps {
@@ -266,6 +267,18 @@ export function useThreadLoader({
             console.warn("Worker error:", err);
             // Continue anyway; notes are ingested
           }
+
+          // Deletions made elsewhere prune the store once the tree exists
+          if (isMounted) {
+            void syncDeletionsForEvents(
+              queryClient,
+              (filter) =>
+                nostrifyPool
+                  ? nostrifyPool.query([filter])
+                  : nostrClient.querySync(relayUrls, filter),
+              notes
+            );
+          }
         }
 
         if (isMounted) {
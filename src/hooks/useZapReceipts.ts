@@ -1,32 +1,27 @@
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
 import type { Event, Filter } from 'nostr-tools';
 import { getGlobalRelayPool } from '../utils/nostr/relayConnectionPool';
 import { CACHE_KEYS } from '../utils/cacheKeys';
+import { fetchUserMetadata } from '../utils/profileMetadataUtils';
+import {
+  ZAP_RECEIPT_KIND,
+  fetchZapperPubkey,
+  getLnurlEndpoint,
+  validateZapReceipt,
+} from '../utils/nostr/zapReceipts';
+import type { Metadata } from '../types/nostr/types';
 
 export interface ZapReceiptParsed {
   id: string;
   createdAt: number;
   amountMsats: number;
   amountSats: number;
-  zapperPubkey: string; // pubkey of the 9735 receipt author
+  zapperPubkey: string; // pubkey of the 9734 request author (the sender)
   recipientPubkey?: string; // 'p' tag in 9735
   noteId?: string; // 'e' tag in 9735
   comment?: string; // content from embedded 9734 in description
 }
 
-/**
- * Extract msats from a zap receipt event: amount tag preferred, fallback to bolt11 if present
- */
-function parseMsats(ev: Event): number | null {
-  const amountTag = ev.tags.find(t => Array.isArray(t) && t[0] === 'amount');
-  if (amountTag?.[1]) {
-    const n = Number(amountTag[1]);
-    if (Number.isFinite(n) && n > 0) return n;
-  }
-  // Some receipts might not include amount; we ignore those for totals/comments display
-  return null;
-}
-
 /**
  * Parse embedded 9734 from description tag JSON to extract comment content
  */
@@ -47,35 +42,105 @@ export function parseZapCommentFromReceipt(ev: Event): string | undefined {
   return undefined;
 }
 
-async function fetchZapReceipts(noteId: string, relayUrls: string[], noteAuthorPubkey?: string): Promise<ZapReceiptParsed[]> {
+/**
+ * The nostrPubkey allowed to sign zap receipts for a recipient, resolved from
+ * their profile's lightning address. The LNURL lookup is cached per endpoint
+ * so every note by the same author (or sharing a wallet) reuses it.
+ */
+async function resolveZapperPubkey(
+  queryClient: QueryClient,
+  recipientPubkey: string,
+  relayUrls: string[]
+): Promise<string | null> {
+  const cached = await queryClient.fetchQuery({
+    queryKey: CACHE_KEYS.METADATA(recipientPubkey),
+    queryFn: () => fetchUserMetadata({ pubkeyHex: recipientPubkey, relayUrls }),
+    staleTime: 2 * 60 * 1000,
+  });
+  // The metadata cache holds either the fetch result or a bare metadata object
+  const metadata = (cached && 'metadata' in cached ? cached.metadata : cached) as Metadata | null;
+  const endpoint = getLnurlEndpoint(metadata);
+  if (!endpoint) return null;
+  try {
+    return await queryClient.fetchQuery({
+      queryKey: CACHE_KEYS.LNURL_ZAPPER(endpoint),
+      queryFn: () => fetchZapperPubkey(endpoint),
+      staleTime: 60 * 60 * 1000, // 1 hour - wallets rarely rotate their zapper key
+      gcTime: 2 * 60 * 60 * 1000,
+      retry: false,
+    });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fetch a note's zap receipts and keep only those that pass NIP-57
+ * Appendix F validation against the recipient's LNURL endpoint. Receipts
+ * paying the note's zap split recipients count alongside the author's.
+ */
+export async function fetchVerifiedZapReceipts(
+  queryClient: QueryClient,
+  noteId: string,
+  relayUrls: string[],
+  noteAuthorPubkey?: string,
+  splitRecipients: string[] = []
+): Promise<ZapReceiptParsed[]> {
   const filter: Filter = {
-    kinds: [9735],
+    kinds: [ZAP_RECEIPT_KIND],
     '#e': [noteId],
     limit: 1000,
   };
   const pool = getGlobalRelayPool();
   const events: Event[] = await pool.querySync(relayUrls, filter);
+  return verifyZapReceipts(queryClient, events, noteId, relayUrls, noteAuthorPubkey, splitRecipients);
+}
+
+/**
+ * Validate already-fetched receipts for one note, newest first
+ */
+export async function verifyZapReceipts(
+  queryClient: QueryClient,
+  events: Event[],
+  noteId: string,
+  relayUrls: string[],
+  noteAuthorPubkey?: string,
+  splitRecipients: string[] = []
+): Promise<ZapReceiptParsed[]> {
+  const allowedRecipients = noteAuthorPubkey ? new Set([noteAuthorPubkey, ...splitRecipients]) : null;
   const seen = new Set<string>();
-  const out: ZapReceiptParsed[] = [];
+  const candidates: { ev: Event; recipientPubkey: string }[] = [];
   for (const ev of events) {
     if (seen.has(ev.id)) continue;
     seen.add(ev.id);
-    if (noteAuthorPubkey) {
-      const pTag = ev.tags.find(t => Array.isArray(t) && t[0] === 'p' && t[1]);
-      if (!pTag || pTag[1] !== noteAuthorPubkey) continue;
-    }
-    const msats = parseMsats(ev);
-    if (!msats || msats <= 0) continue;
-    const eTag = ev.tags.find(t => Array.isArray(t) && t[0] === 'e' && t[1]);
     const pTag = ev.tags.find(t => Array.isArray(t) && t[0] === 'p' && t[1]);
+    if (!pTag) continue;
+    if (allowedRecipients && !allowedRecipients.has(pTag[1])) continue;
+    candidates.push({ ev, recipientPubkey: pTag[1] });
+  }
+
+  const recipients = Array.from(new Set(candidates.map(c => c.recipientPubkey)));
+  const zapperPubkeys = new Map<string, string | null>();
+  await Promise.all(
+    recipients.map(async (recipient) => {
+      zapperPubkeys.set(recipient, await resolveZapperPubkey(queryClient, recipient, relayUrls));
+    })
+  );
+
+  const out: ZapReceiptParsed[] = [];
+  for (const { ev, recipientPubkey } of candidates) {
+    const zapperPubkey = zapperPubkeys.get(recipientPubkey);
+    if (!zapperPubkey) continue;
+    const result = validateZapReceipt(ev, { zapperPubkey, recipientPubkey, noteId });
+    if (!result.valid) continue;
     out.push({
       id: ev.id,
       createdAt: ev.created_at ?? 0,
-      amountMsats: msats,
-      amountSats: Math.floor(msats / 1000),
-      zapperPubkey: ev.pubkey,
-      recipientPubkey: pTag?.[1],
-      noteId: eTag?.[1],
+      amountMsats: result.amountMsats,
+      amountSats: Math.floor(result.amountMsats / 1000),
+      zapperPubkey: result.request.pubkey,
+      recipientPubkey,
+      noteId,
       comment: parseZapCommentFromReceipt(ev),
     });
   }
@@ -88,19 +153,26 @@ interface UseZapReceiptsOptions {
   noteId: string | null | undefined;
   relayUrls: string[];
   noteAuthorPubkey?: string;
+  // Pubkeys from the note's zap split tags
+  splitRecipients?: string[];
   enabled?: boolean;
 }
 
-export function useZapReceipts({ noteId, relayUrls, noteAuthorPubkey, enabled = true }: UseZapReceiptsOptions) {
+export function useZapReceipts({
+  noteId,
+  relayUrls,
+  noteAuthorPubkey,
+  splitRecipients,
+  enabled = true,
+}: UseZapReceiptsOptions) {
+  const queryClient = useQueryClient();
   return useQuery({
     queryKey: noteId ? [...CACHE_KEYS.ZAP_TOTALS(noteId), 'receipts'] : ['zap-receipts', null],
     enabled: Boolean(noteId && relayUrls.length > 0 && enabled),
     queryFn: async () => {
-      return await fetchZapReceipts(noteId as string, relayUrls, noteAuthorPubkey);
+      return await fetchVerifiedZapReceipts(queryClient, noteId as string, relayUrls, noteAuthorPubkey, splitRecipients);
     },
     staleTime: 60_000,
     gcTime: 10 * 60_000,
   });
 }
-
-
@@ -1,8 +1,6 @@
-import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { type Event, type Filter } from 'nostr-tools';
-import { decode as decodeInvoice } from 'light-bolt11-decoder';
-import { getGlobalRelayPool } from '../utils/nostr/relayConnectionPool';
+import { useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
 import { CACHE_KEYS } from '../utils/cacheKeys';
+import { fetchVerifiedZapReceipts, type ZapReceiptParsed } from './useZapReceipts';
 
 export interface ZapTotalsResult {
   totalMsats: number;
@@ -13,100 +11,40 @@ interface UseZapTotalsQueryOptions {
   noteId: string | null | undefined;
   relayUrls: string[];
   noteAuthorPubkey?: string;
+  // Pubkeys from the note's zap split tags
+  splitRecipients?: string[];
   enabled?: boolean;
 }
 
 /**
- * Parse millisatoshis from a zap receipt event
- * - Prefer `amount` tag (msats) when present per NIP-57 receipts.
- * - Fallback to parsing `bolt11` invoice amount if provided.
+ * Fetch zap totals for a specific note. Only receipts that validate against
+ * the recipient's LNURL nostrPubkey are counted, so anyone publishing fake
+ * 9735s cannot inflate the total.
  */
-function parseMsatsFromEvent(event: Event): number | null {
-  try {
-    // amount tag is msats if present
-    const amountTag = event.tags.find(t => Array.isArray(t) && t[0] === 'amount');
-    if (amountTag && amountTag[1]) {
-      const asNum = Number(amountTag[1]);
-      if (Number.isFinite(asNum) && asNum > 0) return asNum;
-    }
-    // fallback: parse bolt11
-    const boltTag = event.tags.find(t => Array.isArray(t) && t[0] === 'bolt11');
-    const invoice = boltTag?.[1];
-    if (invoice) {
-      const decoded: any = decodeInvoice(invoice);
-      const topMsats = Number(decoded?.millisatoshis || decoded?.milliSatoshis || decoded?.msatoshi || decoded?.msats);
-      if (Number.isFinite(topMsats) && topMsats > 0) return topMsats;
-      const topSats = Number(decoded?.satoshis || decoded?.sats || decoded?.satoshi);
-      if (Number.isFinite(topSats) && topSats > 0) return topSats * 1000;
-      const sections: any[] = Array.isArray(decoded?.sections) ? decoded.sections : [];
-      const msatsItem = sections.find((s: any) => s?.name === 'millisatoshis');
-      if (msatsItem && msatsItem.value) {
-        const msats = Number(msatsItem.value);
-        if (Number.isFinite(msats) && msats > 0) return msats;
-      }
-      const satsItem = sections.find((s: any) => s?.name === 'satoshis' || s?.name === 'amount');
-      if (satsItem && satsItem.value) {
-        const sats = Number(satsItem.value);
-        if (Number.isFinite(sats) && sats > 0) return sats * 1000;
-      }
-    }
-  } catch (_e) {
-    // ignore individual parse errors
-  }
-  return null;
-}
-
-/**
- * Fetch zap totals for a specific note
- */
-async function fetchZapTotals(
+export async function fetchZapTotals(
+  queryClient: QueryClient,
   noteId: string,
   relayUrls: string[],
-  noteAuthorPubkey?: string
+  noteAuthorPubkey?: string,
+  splitRecipients?: string[]
 ): Promise<ZapTotalsResult> {
-  const filter: Filter = {
-    kinds: [9735],
-    '#e': [noteId],
-    limit: 1000,
-  };
-  
-  const pool = getGlobalRelayPool();
-  const events: Event[] = await pool.querySync(relayUrls, filter);
-  
-  // Deduplicate by id and sum
-  const seen = new Set<string>();
-  let sum = 0;
-  let validZapCount = 0;
-  
-  for (const ev of events) {
-    if (seen.has(ev.id)) continue;
-    seen.add(ev.id);
-    
-    // Ensure p tag matches the note's author if provided
-    if (noteAuthorPubkey) {
-      const pTag = ev.tags.find(t => Array.isArray(t) && t[0] === 'p' && t[1]);
-      if (!pTag || pTag[1] !== noteAuthorPubkey) {
-
-        continue;
-      }
-    }
-    
-    const msats = parseMsatsFromEvent(ev);
-    if (typeof msats === 'number' && Number.isFinite(msats) && msats > 0) {
-      sum += msats;
-      validZapCount++;
+  const receipts = await fetchVerifiedZapReceipts(
+    queryClient,
+    noteId,
+    relayUrls,
+    noteAuthorPubkey,
+    splitRecipients
+  );
+  return sumZapReceipts(receipts);
+}
 
-    } else {
+export function sumZapReceipts(receipts: Pick<ZapReceiptParsed, 'amountMsats'>[]): ZapTotalsResult {
+  const sum = receipts.reduce((total, receipt) => total + receipt.amountMsats, 0);
 
-    }
-  }
-  
-  const result = {
+  return {
     totalMsats: sum,
     totalSats: Math.floor(sum / 1000),
   };
-
-  return result;
 }
 
 /**
@@ -118,6 +56,7 @@ export function useZapTotalsQuery({
   noteId,
   relayUrls,
   noteAuthorPubkey,
+  splitRecipients,
   enabled = true,
 }: UseZapTotalsQueryOptions) {
   const queryClient = useQueryClient();
@@ -131,9 +70,11 @@ export function useZapTotalsQuery({
     enabled: queryEnabled,
     queryFn: async () => {
       const result = await fetchZapTotals(
+        queryClient,
         noteId as string,
         relayUrls,
-        noteAuthorPubkey
+        noteAuthorPubkey,
+        splitRecipients
       );
 
       // Check if we have optimistic zap data in cache that should be preserved
@@ -4,6 +4,7 @@ import SmallLoadingSpinner from './components/ui/SmallLoadingSpinner'
 import { ErrorBoundary } from './components/ErrorBoundary'
 import MainLayout from './components/MainLayout'
 import GlobalModalManager from './components/GlobalModalManager'
+import CommandPalette from './components/hotkeys/CommandPalette'
 
 
 // Small loading spinner for route transitions
@@ -22,10 +23,13 @@ const ProfileMuteListRoute = lazy(() => import('./components/profile/ProfileMute
 const ProfileRelaysRoute = lazy(() => import('./components/profile/ProfileRelaysRoute'))
 const SearchPage = lazy(() => import('./components/SearchPage'))
 const NotificationsPage = lazy(() => import('./components/NotificationsPage'))
+const MessagesPage = lazy(() => import('./components/MessagesPage'))
 const BookmarksPage = lazy(() => import('./components/BookmarksPage'))
+const DraftsPage = lazy(() => import('./components/DraftsPage'))
 const AboutPage = lazy(() => import('./components/AboutPage'))
 const ThreadPage = lazy(() => import('./components/ThreadPage'))
 const ArticlePage = lazy(() => import('./components/ArticlePage'))
+const ArticleEditorPage = lazy(() => import('./components/ArticleEditorPage'))
 
 // Root route component - minimal wrapper
 function RootComponent() {
@@ -45,6 +49,7 @@ function RootComponent() {
     null,
     React.createElement(Outlet),
     React.createElement(GlobalModalManager, { isMobile }),
+    React.createElement(CommandPalette),
     // TanStack Router devtools disabled to prevent blocking bottom feed controls
     // import.meta.env.DEV ? React.createElement(TanStackRouterDevtools) : null
   )
@@ -193,6 +198,17 @@ export const notificationsRoute = createRoute({
   pendingMs: 100,
 })
 
+export const messagesRoute = createRoute({
+  getParentRoute: () => mainLayoutRoute,
+  path: '/messages',
+  component: MessagesPage,
+  validateSearch: (search: Record<string, unknown>) => ({
+    peer: typeof search.peer === 'string' ? search.peer : '',
+  }),
+  pendingComponent: () => React.createElement(RouteLoadingSpinner),
+  pendingMs: 100,
+})
+
 export const aboutRoute = createRoute({
   getParentRoute: () => mainLayoutRoute,
   path: '/about',
@@ -217,6 +233,24 @@ export const bookmarksRoute = createRoute({
   pendingMs: 100,
 })
 
+export const draftsRoute = createRoute({
+  getParentRoute: () => mainLayoutRoute,
+  path: '/drafts',
+  component: DraftsPage,
+  pendingComponent: () => React.createElement(RouteLoadingSpinner),
+  pendingMs: 100,
+})
+
+export const articleEditorRoute = createRoute({
+  getParentRoute: () => mainLayoutRoute,
+  path: '/write',
+  component: ArticleEditorPage,
+  validateSearch: (search: Record<string, unknown>) => ({
+    edit: typeof search.edit === 'string' ? search.edit : '',
+  }),
+  pendingComponent: () => React.createElement(RouteLoadingSpinner),
+  pendingMs: 100,
+})
 
 // Build the route tree
 export const routeTree = rootRoute.addChildren([
@@ -237,7 +271,10 @@ export const routeTree = rootRoute.addChildren([
     ]),
     searchRoute,
     notificationsRoute,
+    messagesRoute,
     aboutRoute,
     bookmarksRoute,
+    draftsRoute,
+    articleEditorRoute,
   ]),
 ])
\ No newline at end of file
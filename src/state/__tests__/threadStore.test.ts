@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { Note } from '../../types/nostr/types';
+import { useThreadStore } from '../threadStore';
+
+const ROOT = 'root';
+
+function note(id: string, createdAt: number, pubkey = 'alice'): Note {
+  return {
+    id,
+    pubkey,
+    content: id,
+    created_at: createdAt,
+    kind: 1,
+    tags: [['e', ROOT, '', 'root']],
+    imageUrls: [],
+    videoUrls: [],
+  };
+}
+
+describe('threadStore pending live replies', () => {
+  beforeEach(() => {
+    useThreadStore.setState({ threads: {} });
+    useThreadStore.getState().initThread(ROOT, ROOT);
+    useThreadStore.getState().applyWorkerPatch(ROOT, {
+      updatedChildren: { [ROOT]: ['a'] },
+      notes: [note('a', 100)],
+    });
+  });
+
+  it('holds queued replies without changing what is rendered', () => {
+    useThreadStore.getState().queuePendingPatch(ROOT, {
+      updatedChildren: { [ROOT]: ['a', 'b'] },
+      notes: [note('b', 200)],
+    });
+
+    const thread = useThreadStore.getState().threads[ROOT];
+    expect(thread.directChildrenIds).toEqual(['a']);
+    expect(thread.notesById.has('b')).toBe(false);
+    expect(thread.pending.notes.map((n) => n.id)).toEqual(['b']);
+  });
+
+  it('skips notes that are already in the thread or already queued', () => {
+    const { queuePendingPatch } = useThreadStore.getState();
+    queuePendingPatch(ROOT, { updatedChildren: { [ROOT]: ['a'] }, notes: [note('a', 100)] });
+    queuePendingPatch(ROOT, { updatedChildren: { [ROOT]: ['a', 'b'] }, notes: [note('b', 200)] });
+    queuePendingPatch(ROOT, { updatedChildren: { [ROOT]: ['a', 'b'] }, notes: [note('b', 200)] });
+
+    expect(useThreadStore.getState().threads[ROOT].pending.notes.map((n) => n.id)).toEqual(['b']);
+  });
+
+  it('reveals held replies alongside ones applied since queueing', () => {
+    const store = useThreadStore.getState();
+    store.queuePendingPatch(ROOT, {
+      updatedChildren: { [ROOT]: ['a', 'b'] },
+      notes: [note('b', 200)],
+    });
+    // Our own reply lands immediately with the worker's newer list
+    store.applyWorkerPatch(ROOT, {
+      updatedChildren: { [ROOT]: ['a', 'b', 'mine'] },
+      notes: [note('mine', 300, 'me')],
+    });
+    expect(useThreadStore.getState().threads[ROOT].directChildrenIds).toEqual(['a', 'mine']);
+    expect(useThreadStore.getState().threads[ROOT].childrenIdMap[ROOT]).toEqual(['a', 'mine']);
+
+    store.revealPending(ROOT);
+
+    const thread = useThreadStore.getState().threads[ROOT];
+    expect(thread.directChildrenIds).toEqual(['a', 'b', 'mine']);
+    expect(thread.notesById.has('b')).toBe(true);
+    expect(thread.pending.notes).toEqual([]);
+  });
+
+  it('keeps held ids out of cumulative worker patches until revealed', () => {
+    const store = useThreadStore.getState();
+    store.queuePendingPatch(ROOT, {
+      updatedChildren: { [ROOT]: ['a', 'b'], b: ['c'] },
+      notes: [note('b', 200), note('c', 250)],
+    });
+    // A later loader pass re-sends the whole structure
+    store.applyWorkerPatch(ROOT, {
+      updatedChildren: { [ROOT]: ['a', 'b', 'd'], b: ['c'] },
+      notes: [note('d', 300)],
+    });
+
+    const thread = useThreadStore.getState().threads[ROOT];
+    expect(thread.directChildrenIds).toEqual(['a', 'd']);
+    expect(thread.childrenIdMap.b).toEqual([]);
+    expect(thread.pending.notes.map((n) => n.id)).toEqual(['b', 'c']);
+  });
+
+  it('shows a held reply once a patch delivers it', () => {
+    const store = useThreadStore.getState();
+    store.queuePendingPatch(ROOT, {
+      updatedChildren: { [ROOT]: ['a', 'b'] },
+      notes: [note('b', 200)],
+    });
+    store.applyWorkerPatch(ROOT, {
+      updatedChildren: { [ROOT]: ['a', 'b'] },
+      notes: [note('b', 200)],
+    });
+
+    const thread = useThreadStore.getState().threads[ROOT];
+    expect(thread.directChildrenIds).toEqual(['a', 'b']);
+    expect(thread.pending.notes).toEqual([]);
+  });
+});
@@ -25,23 +25,28 @@ export interface ThreadStoreState {
         lastSeenCreatedAt: number | null;
         lastSeenIds: Set<string>;
       };
+      // Live replies held back until the reader reveals them
+      pending: WorkerPatch;
     }
   >;
 }
 
+interface WorkerPatch {
+  updatedChildren: Record<string, string[]>;
+  notes: Note[];
+}
+
 export interface ThreadStoreActions {
   // Initialize or reset a thread
   initThread: (rootId: string, parentId: string) => void;
   // Ingest raw events into notesById; does not update structure (worker does that)
   ingestNotes: (rootId: string, notes: Note[]) => void;
   // Apply patch from worker: update childrenIdMap and recompute directChildrenIds
-  applyWorkerPatch: (
-    rootId: string,
-    patch: {
-      updatedChildren: Record<string, string[]>;
-      notes: Note[];
-    }
-  ) => void;
+  applyWorkerPatch: (rootId: string, patch: WorkerPatch) => void;
+  // Hold a live patch without changing what is rendered
+  queuePendingPatch: (rootId: string, patch: WorkerPatch) => void;
+  // Ingest and apply every held patch at once
+  revealPending: (rootId: string) => void;
   // Change which note is the current parent (navigation)
   setCurrentParentId: (rootId: string, parentId: string) => void;
   // Mark loading state
@@ -60,6 +65,8 @@ export interface ThreadStoreActions {
     parentId: string,
     reply: Note
   ) => void;
+  // Drop notes deleted by their author (NIP-09) from every thread
+  removeNotes: (noteIds: string[], authorPubkey: string) => void;
 }
 
 export interface ThreadStoreSelectors {
@@ -103,8 +110,18 @@ const initializeThreadState = (
     lastSeenCreatedAt: null,
     lastSeenIds: new Set(),
   },
+  pending: { updatedChildren: {}, notes: [] },
 });
 
+// Later patches carry the full child list for a parent, so they replace
+const mergePatches = (base: WorkerPatch, patch: WorkerPatch): WorkerPatch => {
+  const seen = new Set(base.notes.map((n) => n.id));
+  return {
+    updatedChildren: { ...base.updatedChildren, ...patch.updatedChildren },
+    notes: [...base.notes, ...patch.notes.filter((n) => !seen.has(n.id))],
+  };
+};
+
 export const useThreadStore = create<ThreadStore>((set, get) => ({
   threads: {},
 
@@ -150,10 +167,16 @@ export const useThreadStore = create<ThreadStore>((set, get) => ({
         updated.set(note.id, note);
       }
 
+      // Worker child lists are cumulative, so they can name replies still
+      // held for reveal. Those stay out unless this patch carries the note.
+      const delivered = new Set(patch.notes.map((n) => n.id));
+      const pendingNotes = thread.pending.notes.filter((n) => !delivered.has(n.id));
+      const held = new Set(pendingNotes.map((n) => n.id));
+
       // Merge childrenIdMap
       const mergedMap = { ...thread.childrenIdMap };
       for (const [parentId, childIds] of Object.entries(patch.updatedChildren)) {
-        mergedMap[parentId] = childIds;
+        mergedMap[parentId] = held.size > 0 ? childIds.filter((id) => !held.has(id)) : childIds;
       }
 
       // Recompute directChildrenIds from current parent
@@ -168,6 +191,75 @@ export const useThreadStore = create<ThreadStore>((set, get) => ({
             notesById: updated,
             childrenIdMap: mergedMap,
             directChildrenIds,
+            pending:
+              pendingNotes.length === thread.pending.notes.length
+                ? thread.pending
+                : { ...thread.pending, notes: pendingNotes },
+          },
+        },
+      };
+    });
+  },
+
+  queuePendingPatch: (rootId, patch) => {
+    set((state) => {
+      const thread = state.threads[rootId];
+      if (!thread) return state;
+
+      // Notes that arrived through another path are already shown
+      const notes = patch.notes.filter((n) => !thread.notesById.has(n.id));
+      if (notes.length === 0) return state;
+
+      return {
+        threads: {
+          ...state.threads,
+          [rootId]: {
+            ...thread,
+            pending: mergePatches(thread.pending, { ...patch, notes }),
+          },
+        },
+      };
+    });
+  },
+
+  revealPending: (rootId) => {
+    set((state) => {
+      const thread = state.threads[rootId];
+      if (!thread || thread.pending.notes.length === 0) return state;
+
+      const notesById = new Map(thread.notesById);
+      for (const note of thread.pending.notes) {
+        notesById.set(note.id, note);
+      }
+
+      // Union with the live lists: replies applied since queueing (our own,
+      // optimistic ones) are missing from the held patch
+      const childrenIdMap = { ...thread.childrenIdMap };
+      for (const [parentId, childIds] of Object.entries(thread.pending.updatedChildren)) {
+        const merged = Array.from(new Set([...(childrenIdMap[parentId] || []), ...childIds]));
+        merged.sort((a, b) => {
+          const na = notesById.get(a);
+          const nb = notesById.get(b);
+          return (na?.created_at || 0) - (nb?.created_at || 0) || a.localeCompare(b);
+        });
+        childrenIdMap[parentId] = merged;
+      }
+
+      const currentParentId = thread.currentParentId || rootId;
+
+      return {
+        threads: {
+          ...state.threads,
+          [rootId]: {
+            ...thread,
+            notesById,
+            childrenIdMap,
+            directChildrenIds: childrenIdMap[currentParentId] || [],
+            pending: initializeThreadState(rootId).pending,
+            status: {
+              ...thread.status,
+              lastUpdated: Date.now(),
+            },
           },
         },
       };
@@ -302,6 +394,43 @@ export const useThreadStore = create<ThreadStore>((set, get) => ({
     });
   },
 
+  removeNotes: (noteIds, authorPubkey) => {
+    set((state) => {
+      let changed = false;
+      const threads = { ...state.threads };
+
+      for (const [rootId, thread] of Object.entries(state.threads)) {
+        // Only the author's own deletion counts
+        const removed = new Set(
+          noteIds.filter((id) => thread.notesById.get(id)?.pubkey === authorPubkey)
+        );
+        if (removed.size === 0) continue;
+        changed = true;
+
+        const notesById = new Map(thread.notesById);
+        removed.forEach((id) => notesById.delete(id));
+
+        const childrenIdMap: Record<string, string[]> = {};
+        for (const [parentId, childIds] of Object.entries(thread.childrenIdMap)) {
+          childrenIdMap[parentId] = childIds.filter((id) => !removed.has(id));
+        }
+
+        threads[rootId] = {
+          ...thread,
+          notesById,
+          childrenIdMap,
+          directChildrenIds: thread.directChildrenIds.filter((id) => !removed.has(id)),
+          status: {
+            ...thread.status,
+            lastUpdated: Date.now(),
+          },
+        };
+      }
+
+      return changed ? { threads } : state;
+    });
+  },
+
   // Selectors
   selectParent: (rootId) => {
     const state = get();
@@ -21,7 +21,8 @@ export interface PowState {
   minedEvent: any | null
 
   // Performance metrics
-  hashesPerSecond: number
+  hashesPerSecond: number // combined across all workers
+  workerCount: number
 }
 
 export interface PowStoreState {
@@ -57,6 +58,7 @@ export const powActions = {
       error: null,
       minedEvent: null,
       hashesPerSecond: 0,
+      workerCount: 1,
     }
 
     powStore.setState((prev) => {
@@ -118,6 +120,23 @@ export const powActions = {
     })
   },
 
+  // Record how many workers share the session
+  setWorkerCount: (sessionId: string, workerCount: number) => {
+    powStore.setState((prev) => {
+      const session = prev.sessions[sessionId]
+      if (!session) return prev
+
+      return {
+        ...prev,
+        version: prev.version + 1, // Increment version to force React updates
+        sessions: {
+          ...prev.sessions,
+          [sessionId]: { ...session, workerCount },
+        },
+      }
+    })
+  },
+
   // Complete mining successfully
   completeMining: (sessionId: string, minedEvent: any) => {
     console.log('🏁 STORE: Completing mining session:', sessionId, 'with final stats:', {
@@ -0,0 +1,82 @@
+import { Store } from '@tanstack/store'
+import { useEffect, useState } from 'react'
+import type { Event } from 'nostr-tools'
+import type { RelayPublishOutcome } from '../utils/nostr/relayConnectionPool'
+
+export type QueuedRelayState = 'pending' | 'success' | 'failed'
+
+export interface QueuedRelayStatus {
+  status: QueuedRelayState
+  attempts: number
+  // When the next attempt is due (ms); relays stop retrying once attempts run out
+  nextAttemptAt: number
+  error?: string
+  updatedAt?: number
+  // Delivery receipt from the last attempt: the relay's OK message, any NOTICEs, or a timeout
+  outcome?: RelayPublishOutcome
+  message?: string
+  notices?: string[]
+  // The relay refused the event itself (e.g. "blocked:"), so retrying won't help
+  rejected?: boolean
+}
+
+export type QueuedPublishState = 'scheduled' | 'publishing' | 'done' | 'failed'
+
+export interface QueuedPublish {
+  id: string // event id
+  event: Event
+  publishAt: number // ms
+  createdAt: number // ms
+  state: QueuedPublishState
+  relays: Record<string, QueuedRelayStatus>
+}
+
+export interface PublishQueueStoreState {
+  entries: Record<string, QueuedPublish>
+  loaded: boolean
+}
+
+export const publishQueueStore = new Store<PublishQueueStoreState>({
+  entries: {},
+  loaded: false,
+})
+
+export const publishQueueActions = {
+  setEntries: (entries: QueuedPublish[]) => {
+    publishQueueStore.setState(() => ({
+      entries: Object.fromEntries(entries.map((e) => [e.id, e])),
+      loaded: true,
+    }))
+  },
+
+  upsertEntry: (entry: QueuedPublish) => {
+    publishQueueStore.setState((prev) => ({
+      ...prev,
+      entries: { ...prev.entries, [entry.id]: entry },
+    }))
+  },
+
+  removeEntry: (id: string) => {
+    publishQueueStore.setState((prev) => {
+      const entries = { ...prev.entries }
+      delete entries[id]
+      return { ...prev, entries }
+    })
+  },
+
+  reset: () => {
+    publishQueueStore.setState(() => ({ entries: {}, loaded: false }))
+  },
+}
+
+export function usePublishQueueStore<T>(selector: (s: PublishQueueStoreState) => T): T {
+  const [value, setValue] = useState<T>(() => selector(publishQueueStore.state))
+  useEffect(() => {
+    setValue(selector(publishQueueStore.state))
+    const unsub = publishQueueStore.subscribe(() => {
+      setValue(selector(publishQueueStore.state))
+    })
+    return () => unsub()
+  }, [selector])
+  return value
+}
@@ -0,0 +1,75 @@
+import { Store } from '@tanstack/store'
+import { useEffect, useState } from 'react'
+
+// NIP-42 handshake state per relay, as seen by this tab
+export type RelayAuthStatus =
+  | 'challenged' // relay sent a challenge we haven't answered yet
+  | 'authenticating' // signed AUTH sent, waiting for OK
+  | 'authenticated' // relay accepted our AUTH
+  | 'failed' // relay rejected our AUTH or signing failed
+  | 'denied' // policy or the user declined to authenticate
+
+export type RelayAuthDecision = 'once' | 'always' | 'never' | 'deny'
+
+export interface PendingRelayAuthRequest {
+  id: string
+  relayUrl: string
+  requestedAt: number
+}
+
+export interface RelayAuthStoreState {
+  statuses: Record<string, RelayAuthStatus>
+  pending: PendingRelayAuthRequest[]
+}
+
+export const relayAuthStore = new Store<RelayAuthStoreState>({
+  statuses: {},
+  pending: [],
+})
+
+export const relayAuthActions = {
+  setStatus: (relayUrl: string, status: RelayAuthStatus) => {
+    relayAuthStore.setState((prev) => ({
+      ...prev,
+      statuses: { ...prev.statuses, [relayUrl]: status },
+    }))
+  },
+
+  clearStatus: (relayUrl: string) => {
+    relayAuthStore.setState((prev) => {
+      const statuses = { ...prev.statuses }
+      delete statuses[relayUrl]
+      return { ...prev, statuses }
+    })
+  },
+
+  addPending: (request: PendingRelayAuthRequest) => {
+    relayAuthStore.setState((prev) => ({
+      ...prev,
+      pending: [...prev.pending, request],
+    }))
+  },
+
+  removePending: (id: string) => {
+    relayAuthStore.setState((prev) => ({
+      ...prev,
+      pending: prev.pending.filter((p) => p.id !== id),
+    }))
+  },
+
+  reset: () => {
+    relayAuthStore.setState(() => ({ statuses: {}, pending: [] }))
+  },
+}
+
+export function useRelayAuthStore<T>(selector: (s: RelayAuthStoreState) => T): T {
+  const [value, setValue] = useState<T>(() => selector(relayAuthStore.state))
+  useEffect(() => {
+    setValue(selector(relayAuthStore.state))
+    const unsub = relayAuthStore.subscribe(() => {
+      setValue(selector(relayAuthStore.state))
+    })
+    return () => unsub()
+  }, [selector])
+  return value
+}
@@ -9,6 +9,8 @@ export interface HotkeyConfig {
   enabled?: boolean;
   preventDefault?: boolean;
   stopPropagation?: boolean;
+  // Keymap action this binding triggers, reported to onAction
+  hotkeyAction?: HotkeyAction;
 }
 
 export interface HotkeyContext {
@@ -52,9 +54,44 @@ export type HotkeyAction =
   | 'action-like'
   | 'action-profile'
   | 'action-open-note'
+  | 'action-bookmark'
+  | 'action-parent-thread'
+  | 'action-root-thread'
+  | 'action-toggle-media'
+  | 'action-collapse'
+  | 'action-focus-thread'
+  | 'action-scroll-to-parent'
+  | 'action-back-to-feed'
+  | 'action-next-new-reply'
+  | 'action-previous-new-reply'
   | 'help-toggle'
   | 'escape';
 
+// Where a keymap override applies; 'modal' is active while a modal covers the page
+export type KeymapContext = 'feed' | 'thread' | 'modal';
+
+// Key bindings per action. A binding is a combo like "shift+r" or a
+// space-separated chord like "g g".
+export type KeyBindings = Partial<Record<HotkeyAction, string[]>>;
+
+/**
+ * User keymap: global bindings plus per-context overrides, both layered over
+ * the built-in defaults
+ */
+export interface Keymap {
+  version: 1;
+  bindings: KeyBindings;
+  contexts: Partial<Record<KeymapContext, KeyBindings>>;
+}
+
+export interface KeymapConflict {
+  context: KeymapContext;
+  binding: string;
+  actions: HotkeyAction[];
+  // A single key that swallows the first key of a chord
+  isPrefix: boolean;
+}
+
 export interface HotkeyRegistry {
   [key: string]: {
     action: HotkeyAction;
@@ -29,6 +29,9 @@ export interface Metadata {
   banner?: string;
   lud16?: string;
   lud06?: string;
+  // NIP-24
+  bot?: boolean;
+  birthday?: { year?: number; month?: number; day?: number };
 }
 
 export interface MetadataStatus {
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EMPTY_KEYMAP,
+  buildShortcuts,
+  findKeymapConflicts,
+  keyEventToBinding,
+  normalizeKeyBinding,
+  parseKeymap,
+  resolveKeymap,
+  serializeKeymap,
+  setKeymapBindings,
+} from '../keymap';
+
+const keyEvent = (key: string, mods: Partial<Record<'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey', boolean>> = {}) => ({
+  key,
+  ctrlKey: false,
+  altKey: false,
+  shiftKey: false,
+  metaKey: false,
+  ...mods,
+});
+
+describe('normalizeKeyBinding', () => {
+  it('orders modifiers, applies aliases and keeps chords', () => {
+    expect(normalizeKeyBinding('Shift+Ctrl+R')).toBe('ctrl+shift+r');
+    expect(normalizeKeyBinding('  g   g ')).toBe('g g');
+    expect(normalizeKeyBinding('Esc')).toBe('escape');
+    expect(normalizeKeyBinding('up')).toBe('arrowup');
+  });
+
+  it('rejects bindings without exactly one key per step', () => {
+    expect(normalizeKeyBinding('')).toBeNull();
+    expect(normalizeKeyBinding('shift')).toBeNull();
+    expect(normalizeKeyBinding('a+b')).toBeNull();
+  });
+
+  it('matches what keydown events produce', () => {
+    expect(keyEventToBinding(keyEvent('R', { shiftKey: true }))).toBe(normalizeKeyBinding('shift+r'));
+    expect(keyEventToBinding(keyEvent(' '))).toBe('space');
+    expect(keyEventToBinding(keyEvent('ArrowDown'))).toBe('arrowdown');
+  });
+});
+
+describe('resolveKeymap', () => {
+  it('layers context overrides over user bindings over defaults', () => {
+    let keymap = setKeymapBindings(EMPTY_KEYMAP, null, 'action-like', ['x']);
+    keymap = setKeymapBindings(keymap, 'thread', 'action-like', ['y']);
+
+    expect(resolveKeymap(keymap, 'feed')['action-like']).toEqual(['x']);
+    expect(resolveKeymap(keymap, 'thread')['action-like']).toEqual(['y']);
+    expect(resolveKeymap(keymap, 'feed')['action-zap']).toEqual(['z']);
+  });
+
+  it('only includes actions the context handles', () => {
+    expect(resolveKeymap(EMPTY_KEYMAP, 'modal')).toEqual({
+      'help-toggle': ['shift+?'],
+      escape: ['escape'],
+    });
+  });
+
+  it('resets an override back to the inherited binding', () => {
+    const keymap = setKeymapBindings(
+      setKeymapBindings(EMPTY_KEYMAP, 'feed', 'action-zap', ['q']),
+      'feed',
+      'action-zap',
+      null
+    );
+    expect(resolveKeymap(keymap, 'feed')['action-zap']).toEqual(['z']);
+  });
+});
+
+describe('findKeymapConflicts', () => {
+  it('has no conflicts in the default keymap', () => {
+    expect(findKeymapConflicts(EMPTY_KEYMAP)).toEqual([]);
+  });
+
+  it('reports a binding shared by two actions in one context only', () => {
+    const keymap = setKeymapBindings(EMPTY_KEYMAP, null, 'action-zap', ['p']);
+    const conflicts = findKeymapConflicts(keymap);
+    expect(conflicts).toEqual([
+      { context: 'feed', binding: 'p', actions: ['action-zap', 'action-parent-thread'], isPrefix: false },
+    ]);
+  });
+
+  it('reports single keys that shadow a chord', () => {
+    const keymap = setKeymapBindings(EMPTY_KEYMAP, 'feed', 'action-zap', ['g']);
+    expect(findKeymapConflicts(keymap)).toEqual([
+      { context: 'feed', binding: 'g g', actions: ['action-zap', 'navigate-first'], isPrefix: true },
+    ]);
+  });
+});
+
+describe('keymap import/export', () => {
+  it('round-trips an exported keymap', () => {
+    const keymap = setKeymapBindings(
+      setKeymapBindings(EMPTY_KEYMAP, null, 'navigate-down', ['n', 'arrowdown']),
+      'thread',
+      'action-collapse',
+      ['x x']
+    );
+    expect(parseKeymap(serializeKeymap(keymap))).toEqual(keymap);
+  });
+
+  it('normalizes imported keys and rejects unknown actions or keys', () => {
+    expect(parseKeymap('{"version":1,"bindings":{"escape":["Esc"]}}').bindings).toEqual({ escape: ['escape'] });
+    expect(() => parseKeymap('{"version":1,"bindings":{"fly":["f"]}}')).toThrow(/Unknown action/);
+    expect(() => parseKeymap('{"version":1,"bindings":{"escape":["a+b"]}}')).toThrow(/Invalid key/);
+    expect(() => parseKeymap('{"version":1,"contexts":{"popup":{}}}')).toThrow(/Unknown context/);
+    expect(() => parseKeymap('{"bindings":{}}')).toThrow(/Unsupported/);
+    expect(() => parseKeymap('nope')).toThrow(/JSON/);
+  });
+});
+
+describe('buildShortcuts', () => {
+  it('creates one shortcut per binding tagged with its action', () => {
+    const run = () => {};
+    const shortcuts = buildShortcuts(resolveKeymap(EMPTY_KEYMAP, 'feed'), [
+      { action: 'navigate-first', run, enabled: true },
+    ]);
+    expect(shortcuts.map((s) => [s.key, s.hotkeyAction, s.description])).toEqual([
+      ['home', 'navigate-first', 'First note'],
+      ['g g', 'navigate-first', 'First note'],
+    ]);
+  });
+});
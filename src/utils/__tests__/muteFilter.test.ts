@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { nip19 } from 'nostr-tools';
+import { createMuteFilter, parseMuteRegex, toMuteEntry } from '../muteFilter';
+
+const ALICE = 'a'.repeat(64);
+const THREAD = 'b'.repeat(64);
+
+describe('muteFilter', () => {
+  it('mutes pubkeys case-insensitively', () => {
+    const filter = createMuteFilter([['p', ALICE.toUpperCase()]]);
+    expect(filter.isPubkeyMuted(ALICE)).toBe(true);
+    expect(filter.isNoteMuted({ pubkey: ALICE, content: 'hi' })).toBe(true);
+    expect(filter.isNoteMuted({ pubkey: 'c'.repeat(64), content: 'hi' })).toBe(false);
+  });
+
+  it('matches words on word boundaries', () => {
+    const filter = createMuteFilter([['word', 'crypto']]);
+    expect(filter.isNoteMuted({ content: 'All about Crypto today' })).toBe(true);
+    expect(filter.isNoteMuted({ content: 'cryptography is fun' })).toBe(false);
+  });
+
+  it('matches regex words and ignores invalid patterns', () => {
+    const filter = createMuteFilter([['word', '/gm+\\b/'], ['word', '/([/']]);
+    expect(filter.isNoteMuted({ content: 'GMMM friends' })).toBe(true);
+    expect(filter.isNoteMuted({ content: 'good morning' })).toBe(false);
+    expect(parseMuteRegex('/([/')).toBeNull();
+    expect(filter.key).toBe('word:/([/|word:/gm+\\b/');
+  });
+
+  it('mutes hashtags from t tags and inline text', () => {
+    const filter = createMuteFilter([['t', '#Politics']]);
+    expect(filter.isNoteMuted({ content: 'x', tags: [['t', 'politics']] })).toBe(true);
+    expect(filter.isNoteMuted({ content: 'hot take #POLITICS' })).toBe(true);
+    expect(filter.isNoteMuted({ content: 'politics without the tag' })).toBe(false);
+  });
+
+  it('mutes a thread root and anything referencing it', () => {
+    const filter = createMuteFilter([['e', THREAD]]);
+    expect(filter.isNoteMuted({ id: THREAD, content: 'root' })).toBe(true);
+    expect(filter.isNoteMuted({ id: 'd'.repeat(64), content: 'reply', tags: [['e', THREAD, '', 'root']] })).toBe(true);
+    expect(filter.isNoteMuted({ id: 'd'.repeat(64), content: 'other' })).toBe(false);
+  });
+
+  it('reports an empty filter', () => {
+    const filter = createMuteFilter([['unknown', 'x'], ['word', '  ']]);
+    expect(filter.isEmpty).toBe(true);
+    expect(filter.isNoteMuted({ content: 'anything' })).toBe(false);
+  });
+
+  it('parses settings input into list tags', () => {
+    expect(toMuteEntry('p', nip19.npubEncode(ALICE))).toEqual(['p', ALICE]);
+    expect(toMuteEntry('e', nip19.noteEncode(THREAD))).toEqual(['e', THREAD]);
+    expect(toMuteEntry('e', `nostr:${nip19.neventEncode({ id: THREAD })}`)).toEqual(['e', THREAD]);
+    expect(toMuteEntry('t', '##Nostr')).toEqual(['t', 'nostr']);
+    expect(toMuteEntry('word', 'Spam')).toEqual(['word', 'spam']);
+    expect(toMuteEntry('word', '/Spam/')).toEqual(['word', '/Spam/']);
+    expect(() => toMuteEntry('word', '/(/')).toThrow('regular expression');
+    expect(() => toMuteEntry('p', 'npub1nope')).toThrow('npub');
+    expect(() => toMuteEntry('t', 'two words')).toThrow('hashtag');
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MAX_RECENT_VISITS, addRecentVisit, clearRecentVisits, getRecentVisits } from '../recentVisits';
+
+describe('recentVisits', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('keeps visits newest first without duplicates', () => {
+    addRecentVisit('profile', 'npub1a', 1);
+    addRecentVisit('thread', 'abc', 2);
+    addRecentVisit('profile', 'npub1a', 3);
+
+    expect(getRecentVisits()).toEqual([
+      { type: 'profile', id: 'npub1a', visitedAt: 3 },
+      { type: 'thread', id: 'abc', visitedAt: 2 },
+    ]);
+  });
+
+  it('drops the oldest visits beyond the limit', () => {
+    for (let i = 0; i < MAX_RECENT_VISITS + 5; i++) addRecentVisit('thread', `note-${i}`, i);
+    const visits = getRecentVisits();
+    expect(visits).toHaveLength(MAX_RECENT_VISITS);
+    expect(visits[0].id).toBe(`note-${MAX_RECENT_VISITS + 4}`);
+  });
+
+  it('ignores corrupt storage and can be cleared', () => {
+    localStorage.setItem('recentVisits', '{"not":"a list"}');
+    expect(getRecentVisits()).toEqual([]);
+    addRecentVisit('profile', 'npub1b', 1);
+    clearRecentVisits();
+    expect(getRecentVisits()).toEqual([]);
+  });
+});
@@ -42,6 +42,21 @@ describe("parseSearchInput", () => {
     expect(["note", "unknown"]).toContain(r2.type);
   });
 
+  it("parses naddr into an address pointer", () => {
+    const pubkey = "c".repeat(64);
+    const naddr = nip19.naddrEncode({
+      kind: 30023,
+      pubkey,
+      identifier: "my-article",
+      relays: ["wss://relay.example"],
+    });
+    const r = parseSearchInput(`nostr:${naddr}`);
+    expect(r.type).toBe("address");
+    expect(r.subtype).toBe("naddr");
+    expect(r.address).toEqual({ kind: 30023, pubkey, identifier: "my-article" });
+    expect(r.relayHints).toEqual(["wss://relay.example"]);
+  });
+
   it("parses 64-char hex as ambiguous", () => {
     const hex = "a".repeat(64);
     const r = parseSearchInput(hex);
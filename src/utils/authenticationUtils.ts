@@ -21,6 +21,9 @@ export const useAuthenticationCheck = () => {
     
     // If logged in with nsec, they can sign
     if (loginMethod === "nsec") return true;
+
+    // If logged in with a remote signer (NIP-46), they can sign
+    if (loginMethod === "nip46") return true;
     
     // If they have a pubkey but no login method, they can't sign
     return false;
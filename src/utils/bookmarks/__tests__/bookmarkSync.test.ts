@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Event } from 'nostr-tools';
+
+vi.mock('../../nostr/nip07', () => ({
+  nip07SignEvent: vi.fn(async (event: { kind: number; content: string; tags: string[][] }) => ({
+    ...event,
+    pubkey: OWNER,
+    created_at: Math.floor(Date.now() / 1000),
+    id: 'list-id',
+    sig: 'sig',
+  })),
+  nip44Encrypt: vi.fn(async (_pubkey: string, plaintext: string) => `enc:${plaintext}`),
+  nip44Decrypt: vi.fn(async (_pubkey: string, ciphertext: string) => ciphertext.replace(/^enc:/, '')),
+}));
+
+const OWNER = 'a'.repeat(64);
+const NOTE_A = '1'.repeat(64);
+const NOTE_B = '2'.repeat(64);
+const NOTE_C = '3'.repeat(64);
+
+import { nip07SignEvent } from '../../nostr/nip07';
+import { bookmarksService, type BookmarkEntry } from '../bookmarksService';
+import { mergeBookmarks, syncBookmarks } from '../bookmarkSync';
+import type { RelayConnectionPool } from '../../nostr/relayConnectionPool';
+import type { Note } from '../../../types/nostr/types';
+
+const makeNote = (id: string): Note => ({
+  id,
+  content: `note ${id.slice(0, 4)}`,
+  pubkey: 'f'.repeat(64),
+  created_at: 1,
+  tags: [],
+  imageUrls: [],
+  videoUrls: [],
+  receivedAt: 0,
+});
+
+const entry = (id: string, bookmarkedAt: number): BookmarkEntry => ({ note: makeNote(id), bookmarkedAt });
+
+describe('mergeBookmarks', () => {
+  it('follows the remote list for entries older than it', () => {
+    const result = mergeBookmarks({
+      local: [entry(NOTE_A, 1000), entry(NOTE_B, 1000), entry(NOTE_C, 5000)],
+      removed: {},
+      remoteIds: [NOTE_A],
+      remoteUpdatedAt: 2000,
+    });
+
+    // B was removed elsewhere after it was bookmarked here; C is newer than the list
+    expect(result.bookmarks.map(b => b.note.id)).toEqual([NOTE_A, NOTE_C]);
+    expect(result.missingIds).toEqual([]);
+  });
+
+  it('skips remote entries removed locally after the list was written', () => {
+    const result = mergeBookmarks({
+      local: [],
+      removed: { [NOTE_A]: 3000, [NOTE_B]: 1000 },
+      remoteIds: [NOTE_A, NOTE_B],
+      remoteUpdatedAt: 2000,
+    });
+
+    expect(result.missingIds).toEqual([NOTE_B]);
+    expect(result.removed).toEqual({ [NOTE_A]: 3000 });
+  });
+
+  it('keeps every local entry during migration', () => {
+    const result = mergeBookmarks({
+      local: [entry(NOTE_A, 1000)],
+      removed: {},
+      remoteIds: [NOTE_B],
+      remoteUpdatedAt: 2000,
+      migrate: true,
+    });
+
+    expect(result.bookmarks.map(b => b.note.id)).toEqual([NOTE_A]);
+    expect(result.missingIds).toEqual([NOTE_B]);
+  });
+});
+
+describe('syncBookmarks', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.clearAllMocks();
+  });
+
+  it('migrates local bookmarks and pulls remote ones', async () => {
+    bookmarksService.addBookmark(makeNote(NOTE_A));
+
+    const listEvent: Event = {
+      id: 'remote-list',
+      pubkey: OWNER,
+      kind: 10003,
+      created_at: Math.floor(Date.now() / 1000) + 60,
+      tags: [['e', NOTE_B], ['t', 'nostr']],
+      content: '',
+      sig: 'sig',
+    };
+    const noteEvent: Event = {
+      id: NOTE_B,
+      pubkey: 'f'.repeat(64),
+      kind: 1,
+      created_at: 1,
+      tags: [],
+      content: 'remote note',
+      sig: 'sig',
+    };
+    const pool = {
+      querySync: vi.fn(async (_relays: string[], filter: { ids?: string[] }) =>
+        filter.ids ? [noteEvent] : [listEvent]
+      ),
+      publish: vi.fn(async () => undefined),
+    } as unknown as RelayConnectionPool;
+
+    const result = await syncBookmarks({ pool, relayUrls: ['wss://r'], pubkey: OWNER });
+
+    expect(result).toEqual({ added: 1, removed: 0, published: true });
+    expect(bookmarksService.getBookmarks().map(b => b.note.id).sort()).toEqual([NOTE_A, NOTE_B]);
+
+    // Unrelated entries survive and the local bookmark is appended
+    const template = vi.mocked(nip07SignEvent).mock.calls[0][0];
+    expect(template.kind).toBe(10003);
+    expect(template.tags).toEqual([['e', NOTE_B], ['t', 'nostr'], ['e', NOTE_A]]);
+  });
+});
@@ -243,4 +243,70 @@ describe('bookmarksService', () => {
       expect(added).not.toBeNull();
     });
   });
+
+  describe('import and export', () => {
+    // Imports only accept real event ids
+    const importNote: Note = { ...mockNote, id: '1'.repeat(64) };
+    const importNote2: Note = { ...mockNote2, id: '2'.repeat(64) };
+
+    it('should round-trip bookmarks through JSON', () => {
+      bookmarksService.addBookmark(importNote, 'Alice');
+      const json = bookmarksService.exportBookmarks();
+
+      bookmarksService.clearAllBookmarks();
+      const result = bookmarksService.importBookmarks(json);
+
+      expect(result).toEqual({ added: 1, rejected: 0 });
+      expect(bookmarksService.getBookmark(importNote.id)?.authorDisplayName).toBe('Alice');
+      expect(bookmarksService.getRemovedBookmarks()).toEqual({});
+    });
+
+    it('should keep the most recent bookmarkedAt for duplicates', () => {
+      bookmarksService.addBookmark(importNote);
+      const existing = bookmarksService.getBookmark(importNote.id)!;
+
+      const result = bookmarksService.importBookmarks(
+        JSON.stringify({
+          bookmarks: [
+            { note: importNote, bookmarkedAt: existing.bookmarkedAt + 1000 },
+            { note: importNote2, bookmarkedAt: 1 },
+            { note: { id: 'broken' }, bookmarkedAt: 2 }
+          ]
+        })
+      );
+
+      expect(result).toEqual({ added: 1, rejected: 1 });
+      expect(bookmarksService.getBookmark(importNote.id)?.bookmarkedAt).toBe(existing.bookmarkedAt + 1000);
+      expect(bookmarksService.getBookmarks()).toHaveLength(2);
+    });
+
+    it('should reject entries whose id is not a hex event id', () => {
+      const result = bookmarksService.importBookmarks(
+        JSON.stringify([
+          { note: importNote, bookmarkedAt: 1 },
+          { note: { ...importNote2, id: 'not-an-event-id' }, bookmarkedAt: 2 },
+          { note: { ...importNote2, id: 'A'.repeat(64) }, bookmarkedAt: 3 },
+          { note: { ...importNote2, id: '3'.repeat(63) }, bookmarkedAt: 4 }
+        ])
+      );
+
+      expect(result).toEqual({ added: 1, rejected: 3 });
+      expect(bookmarksService.getBookmarks().map(b => b.note.id)).toEqual([importNote.id]);
+    });
+
+    it('should reject files that are not bookmark exports', () => {
+      expect(() => bookmarksService.importBookmarks('{"foo": 1}')).toThrow('Not a bookmarks export file');
+    });
+  });
+
+  describe('removal tracking', () => {
+    it('should remember removals until the note is bookmarked again', () => {
+      bookmarksService.addBookmark(mockNote);
+      bookmarksService.removeBookmark(mockNote.id);
+      expect(bookmarksService.getRemovedBookmarks()[mockNote.id]).toBeGreaterThan(0);
+
+      bookmarksService.addBookmark(mockNote);
+      expect(bookmarksService.getRemovedBookmarks()[mockNote.id]).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,215 @@
+import type { Event } from 'nostr-tools';
+import type { RelayPermission } from '../../types/nostr/types';
+import { eventsToNotes } from '../noteUtils';
+import type { RelayConnectionPool } from '../nostr/relayConnectionPool';
+import { BOOKMARK_LIST_KIND, fetchLists, publishList, type NostrList } from '../nostr/lists';
+import { bookmarksService, type BookmarkEntry } from './bookmarksService';
+
+const MIGRATED_KEY_PREFIX = 'nostree_bookmarks_migrated_';
+const PRIVATE_PREF_KEY = 'nostree_bookmarks_sync_private';
+
+export interface BookmarkMergeResult {
+  bookmarks: BookmarkEntry[];
+  removed: Record<string, number>;
+  // Remote bookmarks we don't have a local copy of yet
+  missingIds: string[];
+}
+
+export interface BookmarkSyncResult {
+  added: number;
+  removed: number;
+  published: boolean;
+}
+
+/**
+ * Merge local bookmarks with the note IDs of a remote list snapshot.
+ *
+ * `remoteUpdatedAt` is the list's created_at in ms. Anything bookmarked or removed
+ * locally after it wins; anything older than it follows the remote list. During the
+ * one-time migration every local entry is kept so nothing is lost on first upload.
+ */
+export function mergeBookmarks(params: {
+  local: BookmarkEntry[];
+  removed: Record<string, number>;
+  remoteIds: string[];
+  remoteUpdatedAt: number;
+  migrate?: boolean;
+}): BookmarkMergeResult {
+  const { local, removed, remoteIds, remoteUpdatedAt, migrate = false } = params;
+  const remote = new Set(remoteIds);
+
+  const bookmarks = local.filter(
+    b => remote.has(b.note.id) || migrate || b.bookmarkedAt > remoteUpdatedAt
+  );
+  const localIds = new Set(local.map(b => b.note.id));
+  const missingIds = remoteIds.filter(
+    id => !localIds.has(id) && !((removed[id] ?? 0) > remoteUpdatedAt)
+  );
+
+  // Removals the remote list already reflects no longer need tracking
+  const stillRemoved: Record<string, number> = {};
+  for (const [id, removedAt] of Object.entries(removed)) {
+    if (removedAt > remoteUpdatedAt) stillRemoved[id] = removedAt;
+  }
+
+  return { bookmarks, removed: stillRemoved, missingIds };
+}
+
+export function getBookmarkSyncPrivate(): boolean {
+  try {
+    return localStorage.getItem(PRIVATE_PREF_KEY) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+export function setBookmarkSyncPrivate(value: boolean): void {
+  try {
+    localStorage.setItem(PRIVATE_PREF_KEY, String(value));
+  } catch (error) {
+    console.warn('Failed to save bookmark privacy preference:', error);
+  }
+}
+
+const isMigrated = (pubkey: string) => {
+  try {
+    return localStorage.getItem(MIGRATED_KEY_PREFIX + pubkey) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+const markMigrated = (pubkey: string) => {
+  try {
+    localStorage.setItem(MIGRATED_KEY_PREFIX + pubkey, 'true');
+  } catch (error) {
+    console.warn('Failed to record bookmark migration:', error);
+  }
+};
+
+const isNoteTag = (t: string[]) => t[0] === 'e' && /^[0-9a-f]{64}$/i.test(t[1] || '');
+
+const noteIdsOf = (tags: string[][]) => tags.filter(isNoteTag).map(t => t[1]);
+
+let inFlight: Promise<BookmarkSyncResult> | null = null;
+
+/**
+ * Two-way sync between local bookmarks and the user's kind 10003 bookmark list.
+ * Non-note entries of the list (articles, hashtags, links) are preserved as-is.
+ * Concurrent calls share the same run.
+ */
+export function syncBookmarks(params: {
+  pool: RelayConnectionPool;
+  relayUrls: string[];
+  pubkey: string;
+  relayPermissions?: Map<string, RelayPermission>;
+}): Promise<BookmarkSyncResult> {
+  if (!inFlight) {
+    inFlight = runSync(params).finally(() => {
+      inFlight = null;
+    });
+  }
+  return inFlight;
+}
+
+async function runSync(params: {
+  pool: RelayConnectionPool;
+  relayUrls: string[];
+  pubkey: string;
+  relayPermissions?: Map<string, RelayPermission>;
+}): Promise<BookmarkSyncResult> {
+  const { pool, relayUrls, pubkey, relayPermissions } = params;
+  if (!pool || relayUrls.length === 0 || !pubkey) {
+    return { added: 0, removed: 0, published: false };
+  }
+
+  const lists = await fetchLists({
+    pool,
+    relayUrls,
+    pubkey,
+    kinds: [BOOKMARK_LIST_KIND],
+    ownerPubkey: pubkey,
+  });
+  const remoteList: NostrList | undefined = lists[0];
+  if (remoteList && !remoteList.privateReadable) {
+    // Rewriting the list would drop the entries we can't read
+    throw new Error('Could not decrypt private bookmarks');
+  }
+
+  const remotePublicIds = noteIdsOf(remoteList?.publicTags ?? []);
+  const remotePrivateIds = noteIdsOf(remoteList?.privateTags ?? []);
+  const remoteIds = Array.from(new Set([...remotePublicIds, ...remotePrivateIds]));
+  const remoteUpdatedAt = remoteList ? remoteList.created_at * 1000 : 0;
+
+  const local = bookmarksService.getBookmarks();
+  const migrate = !isMigrated(pubkey);
+  const merged = mergeBookmarks({
+    local,
+    removed: bookmarksService.getRemovedBookmarks(),
+    remoteIds,
+    remoteUpdatedAt,
+    migrate,
+  });
+
+  // Pull the notes bookmarked on other devices
+  const fetched: BookmarkEntry[] = [];
+  if (merged.missingIds.length > 0) {
+    const events: Event[] = await pool.querySync(relayUrls, { ids: merged.missingIds });
+    const seen = new Set<string>();
+    for (const note of eventsToNotes(events)) {
+      if (seen.has(note.id) || !merged.missingIds.includes(note.id)) continue;
+      seen.add(note.id);
+      fetched.push({ note, bookmarkedAt: remoteUpdatedAt });
+    }
+  }
+
+  const bookmarks = [...merged.bookmarks, ...fetched];
+  bookmarksService.replaceBookmarks(bookmarks, merged.removed);
+
+  // Notes we couldn't fetch stay on the list rather than being silently dropped
+  const desiredIds = new Set([
+    ...bookmarks.map(b => b.note.id),
+    ...merged.missingIds,
+  ]);
+  const unchanged =
+    remoteList !== undefined &&
+    desiredIds.size === remoteIds.length &&
+    remoteIds.every(id => desiredIds.has(id));
+
+  let published = false;
+  if (!unchanged && (remoteList || desiredIds.size > 0)) {
+    const makePrivate = getBookmarkSyncPrivate();
+    const keep = (tags: string[][]) =>
+      tags.filter(t => !isNoteTag(t) || desiredIds.has(t[1]));
+    const publicTags = keep(remoteList?.publicTags ?? []);
+    const privateTags = keep(remoteList?.privateTags ?? []);
+
+    const known = new Set([...noteIdsOf(publicTags), ...noteIdsOf(privateTags)]);
+    // Oldest first, matching NIP-51's append order
+    const additions = bookmarks
+      .filter(b => !known.has(b.note.id))
+      .sort((a, b) => a.bookmarkedAt - b.bookmarkedAt)
+      .map(b => ['e', b.note.id]);
+    (makePrivate ? privateTags : publicTags).push(...additions);
+
+    await publishList({
+      pool,
+      relayUrls,
+      ownerPubkey: pubkey,
+      kind: BOOKMARK_LIST_KIND,
+      metadataTags: remoteList?.metadataTags,
+      publicTags,
+      privateTags,
+      relayPermissions,
+    });
+    published = true;
+  }
+
+  markMigrated(pubkey);
+
+  return {
+    added: fetched.length,
+    removed: local.filter(b => !desiredIds.has(b.note.id)).length,
+    published,
+  };
+}
@@ -16,10 +16,37 @@ export interface BookmarksStorage {
   version: number;
   bookmarks: BookmarkEntry[];
   lastUpdated: number;
+  // noteId -> removal time, so relay sync can tell removals from additions
+  removed?: Record<string, number>;
+}
+
+/**
+ * Portable file format for bookmark import/export
+ */
+export interface BookmarksExport {
+  type: 'nric-bookmarks';
+  version: number;
+  exportedAt: number;
+  bookmarks: BookmarkEntry[];
+}
+
+/**
+ * Outcome of importing a bookmarks file
+ */
+export interface BookmarksImportResult {
+  added: number;
+  // Entries skipped for a missing note or an id that isn't a 64-char hex event id
+  rejected: number;
 }
 
 const STORAGE_KEY = 'nostree_bookmarks';
 const STORAGE_VERSION = 1;
+const EVENT_ID = /^[0-9a-f]{64}$/;
+
+// Fired on window whenever stored bookmarks change
+export const BOOKMARKS_CHANGED_EVENT = 'bookmarksChanged';
+
+export type BookmarksChangeSource = 'local' | 'sync';
 
 /**
  * Service for managing bookmarks in localStorage
@@ -65,9 +92,11 @@ export const bookmarksService = {
       };
 
       stored.bookmarks.push(bookmark);
+      if (stored.removed) delete stored.removed[note.id];
       stored.lastUpdated = Date.now();
       
       saveToStorage(stored);
+      notifyBookmarksChanged('local');
       return bookmark;
     } catch (error) {
       console.error('Failed to add bookmark:', error);
@@ -94,8 +123,10 @@ export const bookmarksService = {
         return false;
       }
 
+      stored.removed = { ...stored.removed, [noteId]: Date.now() };
       stored.lastUpdated = Date.now();
       saveToStorage(stored);
+      notifyBookmarksChanged('local');
       return true;
     } catch (error) {
       console.error('Failed to remove bookmark:', error);
@@ -142,20 +173,147 @@ export const bookmarksService = {
    */
   clearAllBookmarks(): boolean {
     try {
+      const stored = loadFromStorage();
+      const now = Date.now();
+      const removed = { ...stored.removed };
+      stored.bookmarks.forEach(b => {
+        removed[b.note.id] = now;
+      });
       const storage: BookmarksStorage = {
         version: STORAGE_VERSION,
         bookmarks: [],
-        lastUpdated: Date.now()
+        lastUpdated: now,
+        removed
       };
       saveToStorage(storage);
+      notifyBookmarksChanged('local');
       return true;
     } catch (error) {
       console.error('Failed to clear bookmarks:', error);
       return false;
     }
+  },
+
+  /**
+   * Removal times of bookmarks deleted on this device, keyed by note ID
+   */
+  getRemovedBookmarks(): Record<string, number> {
+    try {
+      return { ...loadFromStorage().removed };
+    } catch (error) {
+      console.error('Failed to get removed bookmarks:', error);
+      return {};
+    }
+  },
+
+  /**
+   * Overwrite stored bookmarks with the result of a relay sync
+   */
+  replaceBookmarks(bookmarks: BookmarkEntry[], removed: Record<string, number>): boolean {
+    try {
+      saveToStorage({
+        version: STORAGE_VERSION,
+        bookmarks,
+        lastUpdated: Date.now(),
+        removed
+      });
+      notifyBookmarksChanged('sync');
+      return true;
+    } catch (error) {
+      console.error('Failed to replace bookmarks:', error);
+      return false;
+    }
+  },
+
+  /**
+   * Serialize all bookmarks to a JSON file body
+   */
+  exportBookmarks(): string {
+    const data: BookmarksExport = {
+      type: 'nric-bookmarks',
+      version: STORAGE_VERSION,
+      exportedAt: Date.now(),
+      bookmarks: this.getBookmarks()
+    };
+    return JSON.stringify(data, null, 2);
+  },
+
+  /**
+   * Merge bookmarks from an exported JSON file
+   * Duplicates keep the most recent bookmarkedAt. Returns how many bookmarks
+   * were new and how many entries were rejected.
+   */
+  importBookmarks(json: string): BookmarksImportResult {
+    const parsed = JSON.parse(json) as unknown;
+    const incoming = Array.isArray(parsed)
+      ? parsed
+      : (parsed as Partial<BookmarksExport> | null)?.bookmarks;
+    if (!Array.isArray(incoming)) {
+      throw new Error('Not a bookmarks export file');
+    }
+
+    const stored = loadFromStorage();
+    const byId = new Map(stored.bookmarks.map(b => [b.note.id, b]));
+    const removed = { ...stored.removed };
+    let added = 0;
+    let rejected = 0;
+
+    for (const raw of incoming) {
+      if (!isValidEntry(raw)) {
+        rejected++;
+        continue;
+      }
+      const entry: BookmarkEntry = {
+        ...raw,
+        note: {
+          ...raw.note,
+          tags: raw.note.tags ?? [],
+          imageUrls: raw.note.imageUrls ?? [],
+          videoUrls: raw.note.videoUrls ?? [],
+          receivedAt: raw.note.receivedAt ?? Date.now()
+        }
+      };
+      const existing = byId.get(entry.note.id);
+      if (!existing) added++;
+      if (!existing || entry.bookmarkedAt > existing.bookmarkedAt) {
+        byId.set(entry.note.id, entry);
+      }
+      delete removed[entry.note.id];
+    }
+
+    stored.bookmarks = Array.from(byId.values());
+    stored.removed = removed;
+    stored.lastUpdated = Date.now();
+    saveToStorage(stored);
+    notifyBookmarksChanged('local');
+    return { added, rejected };
   }
 };
 
+/**
+ * Let other hook instances and the relay sync know bookmarks changed
+ */
+function notifyBookmarksChanged(source: BookmarksChangeSource): void {
+  if (typeof window === 'undefined') return;
+  window.dispatchEvent(new CustomEvent(BOOKMARKS_CHANGED_EVENT, { detail: { source } }));
+}
+
+/**
+ * Check that an imported entry carries a usable note with a hex event id
+ */
+function isValidEntry(entry: unknown): entry is BookmarkEntry {
+  if (!entry || typeof entry !== 'object') return false;
+  const { note, bookmarkedAt } = entry as Partial<BookmarkEntry>;
+  return (
+    typeof bookmarkedAt === 'number' &&
+    !!note &&
+    typeof note.id === 'string' &&
+    EVENT_ID.test(note.id) &&
+    typeof note.pubkey === 'string' &&
+    typeof note.content === 'string'
+  );
+}
+
 /**
  * Load bookmarks from localStorage
  * Returns default storage if not found or corrupted
@@ -12,6 +12,10 @@ export const CACHE_KEYS = {
   ZAP_TOTALS: (noteId: string) => ['zap-totals', noteId] as const,
   REACTION_COUNTS: (noteId: string) => ['reaction-counts', noteId] as const,
   REPLY_COUNT: (noteId: string) => ['reply-count', noteId] as const,
+  NOTE_REPORTS: (noteId: string) => ['note-reports', noteId] as const,
+  PROFILE_HISTORY: (pubkey: string) => ['profile-history', pubkey] as const,
+  LNURL_ZAPPER: (endpoint: string) => ['lnurl-zapper', endpoint] as const,
+  BLOSSOM_BLOBS: (server: string, pubkey: string) => ['blossom-blobs', server, pubkey] as const,
   NIP05_VERIFICATION: (nip05Identifier: string, pubkey: string) => ['nip05-verification', nip05Identifier, pubkey] as const,
   
   // Feed-related queries (relay-dependent)
@@ -43,6 +47,8 @@ export const CACHE_KEYS = {
     COMMENT_IDS: (parentNoteId: string) => ['thread', 'comment-ids', parentNoteId] as const,
     COMMENT_NOTES: (parentNoteId: string) => ['thread', 'comment-notes', parentNoteId] as const,
     GLOBAL_TREE: (rootId: string) => ['thread', 'global-tree', rootId, 'v3'] as const,
+    REPLY_ENGAGEMENT: (replyIdsKey: string, relayKey: string) =>
+      ['thread', 'reply-engagement', replyIdsKey, relayKey] as const,
   },
   
   // User preferences and settings (global)
@@ -50,8 +56,20 @@ export const CACHE_KEYS = {
     MUTE_LIST: (pubkey: string, relayUrls: string) => 
       ['user', 'mute-list', pubkey, relayUrls] as const,
     SETTINGS: (pubkey: string) => ['user', 'settings', pubkey] as const,
+    BLOSSOM_SERVERS: (pubkey: string, relayUrls: string) =>
+      ['user', 'blossom-servers', pubkey, relayUrls] as const,
   },
   
+  // NIP-51 lists (follow sets, bookmarks) for a pubkey
+  LISTS: (pubkey: string, kindsKey: string, relayKey: string) =>
+    ['lists', pubkey, kindsKey, relayKey] as const,
+
+  // Private direct messages (NIP-17), never persisted
+  DIRECT_MESSAGES: {
+    INBOX: (pubkey: string, relayKey: string) =>
+      ['direct-messages', 'inbox', pubkey, relayKey] as const,
+  },
+
   // Feed Buffer queries (relay-dependent, buffer-specific)
   FEED_BUFFER: {
     WINDOW: (filterHash: string, relayKey: string, bufferSize: number) =>
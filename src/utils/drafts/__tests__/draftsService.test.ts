@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { nip19 } from 'nostr-tools';
+import { draftsService, extractMentionTags, getDraftKey } from '../draftsService';
+
+const PUBKEY = 'd'.repeat(64);
+const NOTE_ID = 'e'.repeat(64);
+
+describe('draftsService', () => {
+  beforeEach(async () => {
+    await draftsService.clearDrafts();
+  });
+
+  it('keys drafts by composer context', () => {
+    expect(getDraftKey('note')).toBe('note');
+    expect(getDraftKey('reply', NOTE_ID)).toBe(`reply:${NOTE_ID}`);
+    expect(getDraftKey('quote', NOTE_ID)).toBe(`quote:${NOTE_ID}`);
+  });
+
+  it('saves drafts with uploads and mention tags', async () => {
+    const npub = nip19.npubEncode(PUBKEY);
+    const uploadTags = [['url', 'https://blossom.example/abc.png'], ['m', 'image/png']];
+
+    await draftsService.saveDraft({
+      type: 'reply',
+      targetId: NOTE_ID,
+      content: `hi nostr:${npub}`,
+      uploadTags,
+    });
+
+    const draft = await draftsService.getDraft(getDraftKey('reply', NOTE_ID));
+    expect(draft?.content).toBe(`hi nostr:${npub}`);
+    expect(draft?.uploadTags).toEqual(uploadTags);
+    expect(draft?.mentionTags).toEqual([['p', PUBKEY]]);
+  });
+
+  it('keeps createdAt across edits and lists newest first', async () => {
+    const first = await draftsService.saveDraft({ type: 'note', content: 'one', uploadTags: [] });
+    await new Promise(r => setTimeout(r, 5));
+    await draftsService.saveDraft({ type: 'quote', targetId: NOTE_ID, content: 'two', uploadTags: [] });
+    await new Promise(r => setTimeout(r, 5));
+    const edited = await draftsService.saveDraft({ type: 'note', content: 'one more', uploadTags: [] });
+
+    expect(edited?.createdAt).toBe(first?.createdAt);
+    const drafts = await draftsService.listDrafts();
+    expect(drafts.map(d => d.key)).toEqual(['note', `quote:${NOTE_ID}`]);
+  });
+
+  it('removes a draft when it is emptied or deleted', async () => {
+    await draftsService.saveDraft({ type: 'note', content: 'text', uploadTags: [] });
+    await draftsService.saveDraft({ type: 'note', content: '  ', uploadTags: [] });
+    expect(await draftsService.getDraft('note')).toBeNull();
+
+    await draftsService.saveDraft({ type: 'reply', targetId: NOTE_ID, content: 'x', uploadTags: [] });
+    await draftsService.deleteDraft(getDraftKey('reply', NOTE_ID));
+    expect(await draftsService.listDrafts()).toEqual([]);
+  });
+
+  it('ignores malformed mentions', () => {
+    expect(extractMentionTags('nostr:npub1invalid and plain text')).toEqual([]);
+  });
+});
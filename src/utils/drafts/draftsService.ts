@@ -0,0 +1,139 @@
+import { createStore, del, get, set, values, clear } from 'idb-keyval';
+import { nip19 } from 'nostr-tools';
+
+/**
+ * What a draft is attached to: a standalone note, a reply or a quote repost
+ */
+export type DraftContextType = 'note' | 'reply' | 'quote';
+
+/**
+ * A composer draft stored in IndexedDB
+ */
+export interface Draft {
+  key: string;
+  type: DraftContextType;
+  // Note being replied to or quoted
+  targetId?: string;
+  content: string;
+  // NIP-94 tags from Blossom uploads attached to the draft
+  uploadTags: string[][];
+  // p tags for the profiles mentioned in the content
+  mentionTags: string[][];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type DraftInput = Pick<Draft, 'type' | 'targetId' | 'content' | 'uploadTags'>;
+
+// Fired on window whenever a draft is saved or removed
+export const DRAFTS_CHANGED_EVENT = 'draftsChanged';
+
+// Separate database so drafts survive upgrades of the main one
+const draftsStore = createStore('nostr-drafts', 'drafts');
+
+/**
+ * Storage key for a composer context
+ */
+export function getDraftKey(type: DraftContextType, targetId?: string): string {
+  return type === 'note' || !targetId ? type : `${type}:${targetId}`;
+}
+
+/**
+ * Collect p tags for nostr:npub / nostr:nprofile mentions in the content
+ */
+export function extractMentionTags(content: string): string[][] {
+  const pubkeys = new Set<string>();
+  const matches = content.match(/nostr:(npub1[02-9ac-hj-np-z]+|nprofile1[02-9ac-hj-np-z]+)/g) || [];
+  for (const match of matches) {
+    try {
+      const decoded = nip19.decode(match.slice('nostr:'.length));
+      if (decoded.type === 'npub') pubkeys.add(decoded.data);
+      if (decoded.type === 'nprofile') pubkeys.add(decoded.data.pubkey);
+    } catch {
+      // Ignore malformed mentions
+    }
+  }
+  return Array.from(pubkeys).map(pk => ['p', pk]);
+}
+
+const notifyDraftsChanged = () => {
+  if (typeof window === 'undefined') return;
+  window.dispatchEvent(new CustomEvent(DRAFTS_CHANGED_EVENT));
+};
+
+/**
+ * Service for composer drafts persisted in IndexedDB
+ */
+export const draftsService = {
+  async getDraft(key: string): Promise<Draft | null> {
+    try {
+      return (await get<Draft>(key, draftsStore)) ?? null;
+    } catch (error) {
+      console.error('Failed to load draft:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Save a draft for its context. Empty drafts are removed instead.
+   */
+  async saveDraft(input: DraftInput): Promise<Draft | null> {
+    const key = getDraftKey(input.type, input.targetId);
+    if (input.content.trim().length === 0 && input.uploadTags.length === 0) {
+      await this.deleteDraft(key);
+      return null;
+    }
+
+    try {
+      const existing = await get<Draft>(key, draftsStore);
+      const now = Date.now();
+      const draft: Draft = {
+        key,
+        type: input.type,
+        targetId: input.targetId,
+        content: input.content,
+        uploadTags: input.uploadTags,
+        mentionTags: extractMentionTags(input.content),
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+      await set(key, draft, draftsStore);
+      notifyDraftsChanged();
+      return draft;
+    } catch (error) {
+      console.error('Failed to save draft:', error);
+      return null;
+    }
+  },
+
+  async deleteDraft(key: string): Promise<void> {
+    try {
+      await del(key, draftsStore);
+      notifyDraftsChanged();
+    } catch (error) {
+      console.error('Failed to delete draft:', error);
+    }
+  },
+
+  /**
+   * All drafts, most recently edited first
+   */
+  async listDrafts(): Promise<Draft[]> {
+    try {
+      const all = await values<Draft>(draftsStore);
+      return all.sort((a, b) => b.updatedAt - a.updatedAt);
+    } catch (error) {
+      console.error('Failed to list drafts:', error);
+      return [];
+    }
+  },
+
+  async clearDrafts(): Promise<void> {
+    try {
+      await clear(draftsStore);
+      notifyDraftsChanged();
+    } catch (error) {
+      console.error('Failed to clear drafts:', error);
+    }
+  },
+};
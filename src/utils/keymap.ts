@@ -0,0 +1,326 @@
+import type {
+  HotkeyAction,
+  HotkeyConfig,
+  KeyBindings,
+  Keymap,
+  KeymapConflict,
+  KeymapContext,
+} from '../types/hotkeys';
+
+export type HotkeyGroup = 'navigation' | 'actions' | 'global';
+
+export const HOTKEY_ACTION_INFO: Record<HotkeyAction, { label: string; group: HotkeyGroup }> = {
+  'navigate-up': { label: 'Previous note', group: 'navigation' },
+  'navigate-down': { label: 'Next note', group: 'navigation' },
+  'navigate-first': { label: 'First note', group: 'navigation' },
+  'navigate-last': { label: 'Last note', group: 'navigation' },
+  'navigate-page-up': { label: 'Scroll up (page)', group: 'navigation' },
+  'navigate-page-down': { label: 'Scroll down (page)', group: 'navigation' },
+  'focus-next': { label: 'Focus next', group: 'navigation' },
+  'focus-previous': { label: 'Focus previous', group: 'navigation' },
+  'action-link': { label: 'Copy note link', group: 'actions' },
+  'action-thread': { label: 'View thread', group: 'actions' },
+  'action-repost': { label: 'Repost note', group: 'actions' },
+  'action-zap': { label: 'Zap note', group: 'actions' },
+  'action-reply': { label: 'Reply to note', group: 'actions' },
+  'action-like': { label: 'Like note', group: 'actions' },
+  'action-profile': { label: 'Open profile', group: 'actions' },
+  'action-open-note': { label: 'Open note detail', group: 'actions' },
+  'action-bookmark': { label: 'Bookmark note', group: 'actions' },
+  'action-parent-thread': { label: 'Parent thread', group: 'actions' },
+  'action-root-thread': { label: 'Root thread', group: 'actions' },
+  'action-toggle-media': { label: 'Toggle media', group: 'actions' },
+  'action-collapse': { label: 'Collapse/expand note', group: 'actions' },
+  'action-focus-thread': { label: 'Focus thread on note', group: 'actions' },
+  'action-scroll-to-parent': { label: 'Scroll to parent', group: 'actions' },
+  'action-back-to-feed': { label: 'Back to feed', group: 'actions' },
+  'action-next-new-reply': { label: 'Next new reply', group: 'navigation' },
+  'action-previous-new-reply': { label: 'Previous new reply', group: 'navigation' },
+  'help-toggle': { label: 'Toggle help menu', group: 'global' },
+  'escape': { label: 'Close modal / Clear focus', group: 'global' },
+};
+
+export const KEYMAP_CONTEXTS: KeymapContext[] = ['feed', 'thread', 'modal'];
+
+// Actions each context responds to; bindings only conflict within a context
+export const KEYMAP_CONTEXT_ACTIONS: Record<KeymapContext, HotkeyAction[]> = {
+  feed: [
+    'navigate-up',
+    'navigate-down',
+    'navigate-first',
+    'navigate-last',
+    'navigate-page-up',
+    'navigate-page-down',
+    'action-link',
+    'action-thread',
+    'action-repost',
+    'action-zap',
+    'action-reply',
+    'action-like',
+    'action-bookmark',
+    'action-parent-thread',
+    'action-root-thread',
+    'action-toggle-media',
+    'action-open-note',
+    'help-toggle',
+    'escape',
+  ],
+  thread: [
+    'navigate-up',
+    'navigate-down',
+    'navigate-first',
+    'navigate-last',
+    'action-link',
+    'action-reply',
+    'action-like',
+    'action-bookmark',
+    'action-collapse',
+    'action-focus-thread',
+    'action-scroll-to-parent',
+    'action-back-to-feed',
+    'action-next-new-reply',
+    'action-previous-new-reply',
+    'help-toggle',
+    'escape',
+  ],
+  modal: ['help-toggle', 'escape'],
+};
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  'navigate-up': ['k', 'arrowup'],
+  'navigate-down': ['j', 'arrowdown'],
+  'navigate-first': ['home', 'g g'],
+  'navigate-last': ['end'],
+  'navigate-page-up': ['pageup'],
+  'navigate-page-down': ['pagedown'],
+  'action-link': ['l'],
+  'action-thread': ['t'],
+  'action-repost': ['r'],
+  'action-zap': ['z'],
+  'action-reply': ['shift+r'],
+  'action-like': ['shift+l'],
+  'action-bookmark': ['shift+b'],
+  'action-parent-thread': ['p', 'shift+p'],
+  'action-root-thread': ['shift+t'],
+  'action-toggle-media': ['space'],
+  'action-open-note': ['enter'],
+  'action-collapse': ['c'],
+  'action-focus-thread': ['t', 'f'],
+  'action-scroll-to-parent': ['p'],
+  'action-back-to-feed': ['b'],
+  'action-next-new-reply': ['n'],
+  'action-previous-new-reply': ['shift+n'],
+  'help-toggle': ['shift+?'],
+  'escape': ['escape'],
+};
+
+export const EMPTY_KEYMAP: Keymap = { version: 1, bindings: {}, contexts: {} };
+
+const MODIFIERS = ['ctrl', 'alt', 'shift', 'meta'] as const;
+
+const KEY_ALIASES: Record<string, string> = {
+  ' ': 'space',
+  esc: 'escape',
+  return: 'enter',
+  up: 'arrowup',
+  down: 'arrowdown',
+  left: 'arrowleft',
+  right: 'arrowright',
+  control: 'ctrl',
+  cmd: 'meta',
+  option: 'alt',
+};
+
+const isHotkeyAction = (value: string): value is HotkeyAction => value in HOTKEY_ACTION_INFO;
+
+/**
+ * Canonical form of a binding: modifiers in ctrl, alt, shift, meta order and
+ * chord steps separated by one space. Null when the binding is not usable.
+ */
+export function normalizeKeyBinding(binding: string): string | null {
+  const steps = binding.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (steps.length === 0) return null;
+  const normalized: string[] = [];
+  for (const step of steps) {
+    const parts = step.split('+').filter(Boolean).map((p) => KEY_ALIASES[p] ?? p);
+    const modifiers = parts.filter((p) => (MODIFIERS as readonly string[]).includes(p));
+    const keys = parts.filter((p) => !(MODIFIERS as readonly string[]).includes(p));
+    if (keys.length !== 1) return null;
+    const ordered = MODIFIERS.filter((m) => modifiers.includes(m));
+    normalized.push([...ordered, keys[0]].join('+'));
+  }
+  return normalized.join(' ');
+}
+
+/**
+ * Binding string for a keydown, in the same form as normalizeKeyBinding
+ */
+export function keyEventToBinding(
+  event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey'>
+): string {
+  const parts: string[] = [];
+  if (event.ctrlKey) parts.push('ctrl');
+  if (event.altKey) parts.push('alt');
+  if (event.shiftKey) parts.push('shift');
+  if (event.metaKey) parts.push('meta');
+  // Arrow keys stay 'arrowup', 'arrowdown', etc.
+  parts.push(event.key === ' ' ? 'space' : event.key.toLowerCase());
+  return parts.join('+');
+}
+
+export function isModifierKey(key: string): boolean {
+  return ['control', 'alt', 'shift', 'meta'].includes(key.toLowerCase());
+}
+
+/**
+ * Bindings in effect for a context: a context override wins over the user's
+ * global binding, which wins over the default
+ */
+export function resolveKeymap(keymap: Keymap | null | undefined, context: KeymapContext): KeyBindings {
+  const resolved: KeyBindings = {};
+  for (const action of KEYMAP_CONTEXT_ACTIONS[context]) {
+    resolved[action] =
+      keymap?.contexts[context]?.[action] ?? keymap?.bindings[action] ?? DEFAULT_KEY_BINDINGS[action] ?? [];
+  }
+  return resolved;
+}
+
+/**
+ * Bindings shared by more than one action in a context, plus single keys that
+ * make a chord unreachable (the hotkey system fires single keys first)
+ */
+export function findKeymapConflicts(keymap: Keymap | null | undefined): KeymapConflict[] {
+  const conflicts: KeymapConflict[] = [];
+  for (const context of KEYMAP_CONTEXTS) {
+    const byBinding = new Map<string, HotkeyAction[]>();
+    for (const [action, bindings] of Object.entries(resolveKeymap(keymap, context)) as [HotkeyAction, string[]][]) {
+      for (const binding of bindings) {
+        const owners = byBinding.get(binding) ?? [];
+        if (!owners.includes(action)) owners.push(action);
+        byBinding.set(binding, owners);
+      }
+    }
+    for (const [binding, actions] of byBinding) {
+      if (actions.length > 1) conflicts.push({ context, binding, actions, isPrefix: false });
+    }
+    for (const [chord, chordActions] of byBinding) {
+      if (!chord.includes(' ')) continue;
+      const firstStep = chord.split(' ')[0];
+      const shadowing = byBinding.get(firstStep);
+      if (!shadowing) continue;
+      conflicts.push({
+        context,
+        binding: chord,
+        actions: [...shadowing, ...chordActions.filter((a) => !shadowing.includes(a))],
+        isPrefix: true,
+      });
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Set (or with null, reset to inherited) an action's bindings, globally or
+ * for one context
+ */
+export function setKeymapBindings(
+  keymap: Keymap,
+  context: KeymapContext | null,
+  action: HotkeyAction,
+  bindings: string[] | null
+): Keymap {
+  const update = (current: KeyBindings | undefined): KeyBindings => {
+    const next = { ...(current ?? {}) };
+    if (bindings === null) delete next[action];
+    else next[action] = bindings;
+    return next;
+  };
+  if (!context) return { ...keymap, bindings: update(keymap.bindings) };
+  return { ...keymap, contexts: { ...keymap.contexts, [context]: update(keymap.contexts[context]) } };
+}
+
+export function serializeKeymap(keymap: Keymap): string {
+  return JSON.stringify(keymap, null, 2);
+}
+
+const parseBindings = (value: unknown, where: string): KeyBindings => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${where} must be an object of action bindings`);
+  }
+  const bindings: KeyBindings = {};
+  for (const [action, list] of Object.entries(value as Record<string, unknown>)) {
+    if (!isHotkeyAction(action)) throw new Error(`Unknown action "${action}" in ${where}`);
+    if (!Array.isArray(list)) throw new Error(`Bindings for "${action}" must be a list`);
+    const normalized: string[] = [];
+    for (const raw of list) {
+      const binding = typeof raw === 'string' ? normalizeKeyBinding(raw) : null;
+      if (!binding) throw new Error(`Invalid key "${String(raw)}" for "${action}"`);
+      if (!normalized.includes(binding)) normalized.push(binding);
+    }
+    bindings[action] = normalized;
+  }
+  return bindings;
+};
+
+/**
+ * Read an exported keymap, validating every action and key
+ */
+export function parseKeymap(json: string): Keymap {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Keymap file is not valid JSON');
+  }
+  const raw = data as { version?: unknown; bindings?: unknown; contexts?: unknown } | null;
+  if (!raw || typeof raw !== 'object' || raw.version !== 1) {
+    throw new Error('Unsupported keymap format');
+  }
+  const contexts: Keymap['contexts'] = {};
+  if (raw.contexts !== undefined) {
+    if (!raw.contexts || typeof raw.contexts !== 'object') throw new Error('contexts must be an object');
+    for (const [context, bindings] of Object.entries(raw.contexts as Record<string, unknown>)) {
+      if (!(KEYMAP_CONTEXTS as string[]).includes(context)) throw new Error(`Unknown context "${context}"`);
+      contexts[context as KeymapContext] = parseBindings(bindings, context);
+    }
+  }
+  return {
+    version: 1,
+    bindings: raw.bindings === undefined ? {} : parseBindings(raw.bindings, 'bindings'),
+    contexts,
+  };
+}
+
+/**
+ * Expand keymap bindings into hotkey system shortcuts, one per binding
+ */
+export function buildShortcuts(
+  bindings: KeyBindings,
+  entries: { action: HotkeyAction; run: () => void; enabled: boolean }[]
+): HotkeyConfig[] {
+  return entries.flatMap(({ action, run, enabled }) =>
+    (bindings[action] ?? []).map((key) => ({
+      key,
+      description: HOTKEY_ACTION_INFO[action].label,
+      action: run,
+      enabled,
+      preventDefault: true,
+      hotkeyAction: action,
+    }))
+  );
+}
+
+// Window event used to run a hotkey action without pressing its keys
+export const HOTKEY_ACTION_EVENT = 'hotkey-action';
+
+/**
+ * Run an action through whichever hotkey provider currently handles it (the
+ * command palette uses this). False when nothing on the page handled it.
+ */
+export function dispatchHotkeyAction(action: HotkeyAction): boolean {
+  const event = new CustomEvent<{ action: HotkeyAction }>(HOTKEY_ACTION_EVENT, {
+    detail: { action },
+    cancelable: true,
+  });
+  return !window.dispatchEvent(event);
+}
@@ -0,0 +1,183 @@
+/**
+ * Shared note filter for NIP-51 mute lists (kind 10000) and built-in presets.
+ * Entries are list tags: ["p", pubkey], ["word", text], ["t", hashtag], ["e", thread id].
+ * A word written as /pattern/flags is matched as a regular expression.
+ */
+
+import { nip19 } from 'nostr-tools';
+import { convertPubkeyToHex } from './nostr/pubkeyUtils';
+
+export type MuteEntryType = 'p' | 'word' | 't' | 'e';
+
+export const MUTE_ENTRY_TYPES: MuteEntryType[] = ['p', 'word', 't', 'e'];
+
+export interface MutableNote {
+  id?: string;
+  pubkey?: string;
+  content?: string;
+  tags?: string[][];
+}
+
+export interface MuteFilter {
+  // Stable signature of the entries, for memo deps and query keys
+  key: string;
+  isEmpty: boolean;
+  isPubkeyMuted: (pubkey: string | undefined) => boolean;
+  isNoteMuted: (note: MutableNote) => boolean;
+}
+
+const REGEX_ENTRY = /^\/(.+)\/([a-z]*)$/;
+const MAX_REGEX_LENGTH = 200;
+
+export function isRegexMuteWord(word: string): boolean {
+  return REGEX_ENTRY.test(word);
+}
+
+/**
+ * Compile a /pattern/flags mute word. Invalid or oversized patterns return null.
+ */
+export function parseMuteRegex(word: string): RegExp | null {
+  const match = word.match(REGEX_ENTRY);
+  if (!match || match[1].length > MAX_REGEX_LENGTH) return null;
+  const flags = Array.from(new Set(match[2].replace(/[^imsu]/g, ''))).join('');
+  try {
+    return new RegExp(match[1], flags || 'i');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whole-word, case-insensitive matcher. The boundary is any non-alphanumeric
+ * ASCII character, which also works for CJK words and emoji.
+ */
+export function createWordMatcher(word: string): RegExp {
+  const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^a-zA-Z0-9])${escaped}([^a-zA-Z0-9]|$)`, 'i');
+}
+
+export function containsWord(content: string, word: string): boolean {
+  if (!content || !word) return false;
+  return createWordMatcher(word).test(content);
+}
+
+const INLINE_HASHTAG = /(?:^|\s)#([^\s#.,!?;:()[\]{}"']+)/g;
+
+function getHashtags(note: MutableNote): string[] {
+  const tags = (note.tags || [])
+    .filter(t => Array.isArray(t) && t[0] === 't' && t[1])
+    .map(t => t[1].toLowerCase());
+  for (const match of (note.content || '').matchAll(INLINE_HASHTAG)) {
+    tags.push(match[1].toLowerCase());
+  }
+  return tags;
+}
+
+/**
+ * Build a filter from mute entries. Unknown entry types are ignored.
+ */
+export function createMuteFilter(entries: string[][]): MuteFilter {
+  const pubkeys = new Set<string>();
+  const hashtags = new Set<string>();
+  const threads = new Set<string>();
+  const matchers: RegExp[] = [];
+  const keyParts: string[] = [];
+
+  for (const entry of entries) {
+    if (!Array.isArray(entry) || typeof entry[1] !== 'string') continue;
+    const value = entry[1].trim();
+    if (!value) continue;
+    switch (entry[0]) {
+      case 'p':
+        pubkeys.add(value.toLowerCase());
+        break;
+      case 't':
+        hashtags.add(value.replace(/^#/, '').toLowerCase());
+        break;
+      case 'e':
+        threads.add(value.toLowerCase());
+        break;
+      case 'word': {
+        const matcher = isRegexMuteWord(value) ? parseMuteRegex(value) : createWordMatcher(value);
+        if (matcher) matchers.push(matcher);
+        break;
+      }
+      default:
+        continue;
+    }
+    keyParts.push(`${entry[0]}:${value}`);
+  }
+
+  const isPubkeyMuted = (pubkey: string | undefined) =>
+    Boolean(pubkey) && pubkeys.has((pubkey as string).toLowerCase());
+
+  const isNoteMuted = (note: MutableNote): boolean => {
+    if (!note) return false;
+    if (isPubkeyMuted(note.pubkey)) return true;
+
+    if (threads.size > 0) {
+      if (note.id && threads.has(note.id)) return true;
+      // Replies and reactions reference the muted thread through e tags
+      const referencesMuted = (note.tags || []).some(
+        t => Array.isArray(t) && t[0] === 'e' && t[1] && threads.has(t[1])
+      );
+      if (referencesMuted) return true;
+    }
+
+    if (hashtags.size > 0 && getHashtags(note).some(t => hashtags.has(t))) return true;
+
+    const content = note.content || '';
+    return content.length > 0 && matchers.some(re => re.test(content));
+  };
+
+  return {
+    key: keyParts.sort().join('|'),
+    isEmpty: keyParts.length === 0,
+    isPubkeyMuted,
+    isNoteMuted,
+  };
+}
+
+export const EMPTY_MUTE_FILTER = createMuteFilter([]);
+
+const HEX_ID = /^[0-9a-f]{64}$/;
+
+/**
+ * Turn user input from the mute settings form into a list tag. Accepts npub
+ * or hex for people, note/nevent or hex for threads, with or without "#" for
+ * hashtags. Throws with a user-facing message on invalid input.
+ */
+export function toMuteEntry(type: MuteEntryType, input: string): string[] {
+  const value = input.trim().replace(/^nostr:/, '');
+  if (!value) throw new Error('Enter something to mute');
+
+  switch (type) {
+    case 'p': {
+      const hex = convertPubkeyToHex(value);
+      if (!hex || !HEX_ID.test(hex)) throw new Error('Enter a valid npub or hex public key');
+      return ['p', hex];
+    }
+    case 'e': {
+      if (HEX_ID.test(value.toLowerCase())) return ['e', value.toLowerCase()];
+      try {
+        const decoded = nip19.decode(value);
+        if (decoded.type === 'note') return ['e', decoded.data];
+        if (decoded.type === 'nevent') return ['e', decoded.data.id];
+      } catch {
+        // Reported below
+      }
+      throw new Error('Enter a valid note, nevent or hex event id');
+    }
+    case 't': {
+      const tag = value.replace(/^#+/, '').toLowerCase();
+      if (!tag || /\s/.test(tag)) throw new Error('Enter a single hashtag');
+      return ['t', tag];
+    }
+    case 'word': {
+      if (isRegexMuteWord(value) && !parseMuteRegex(value)) {
+        throw new Error('Invalid regular expression');
+      }
+      return ['word', isRegexMuteWord(value) ? value : value.toLowerCase()];
+    }
+  }
+}
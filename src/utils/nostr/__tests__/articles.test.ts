@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ARTICLE_KIND,
+  buildArticleTags,
+  encodeArticleAddress,
+  parseArticleAddress,
+  parseArticleEvent,
+  slugifyIdentifier,
+  type ArticleFields,
+} from '../articles';
+
+const PUBKEY = 'a'.repeat(64);
+
+const fields: ArticleFields = {
+  identifier: 'hello-world',
+  title: 'Hello World',
+  summary: 'A first post',
+  image: 'https://blossom.example/cover.png',
+  publishedAt: 1700000000,
+  hashtags: ['#Nostr', 'writing', 'nostr'],
+  content: '# Hello\n\nBody',
+};
+
+describe('articles', () => {
+  it('slugifies titles into d tags', () => {
+    expect(slugifyIdentifier('Hello, Wörld! 2024')).toBe('hello-world-2024');
+    expect(slugifyIdentifier('  --  ')).toBe('');
+  });
+
+  it('builds NIP-23 tags and round-trips them', () => {
+    const tags = buildArticleTags(fields);
+    expect(tags).toEqual([
+      ['d', 'hello-world'],
+      ['title', 'Hello World'],
+      ['summary', 'A first post'],
+      ['image', 'https://blossom.example/cover.png'],
+      ['published_at', '1700000000'],
+      ['t', 'nostr'],
+      ['t', 'writing'],
+    ]);
+    expect(parseArticleEvent({ tags, content: fields.content })).toEqual({
+      ...fields,
+      hashtags: ['nostr', 'writing'],
+    });
+  });
+
+  it('keeps unmanaged tags of the edited article and drops stale ones', () => {
+    const previous = [
+      ['d', 'hello-world'],
+      ['title', 'Old title'],
+      ['t', 'old'],
+      ['imeta', 'url https://blossom.example/x.png'],
+      ['client', 'other'],
+    ];
+    const tags = buildArticleTags({ ...fields, hashtags: [] }, previous);
+    expect(tags.filter((t) => t[0] === 'title')).toEqual([['title', 'Hello World']]);
+    expect(tags.some((t) => t[0] === 't')).toBe(false);
+    expect(tags).toContainEqual(['imeta', 'url https://blossom.example/x.png']);
+    expect(tags).toContainEqual(['client', 'other']);
+  });
+
+  it('requires a d tag', () => {
+    expect(() => buildArticleTags({ ...fields, identifier: ' ' })).toThrow('identifier');
+  });
+
+  it('parses naddr and raw coordinates', () => {
+    const naddr = encodeArticleAddress(PUBKEY, 'hello-world');
+    expect(parseArticleAddress(naddr)).toMatchObject({
+      kind: ARTICLE_KIND,
+      pubkey: PUBKEY,
+      identifier: 'hello-world',
+    });
+    expect(parseArticleAddress(`30024:${PUBKEY}:a:b`)).toEqual({
+      kind: 30024,
+      pubkey: PUBKEY,
+      identifier: 'a:b',
+    });
+    expect(parseArticleAddress('nonsense')).toBeNull();
+  });
+});
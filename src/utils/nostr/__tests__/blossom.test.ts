@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  BLOSSOM_AUTH_KIND,
+  blobToFileTags,
+  buildBlossomServerTags,
+  getBlossomServersFromTags,
+  getMirrorTargets,
+  listBlobs,
+  mirrorBlob,
+  mirrorBlobToServers,
+} from '../blossom';
+
+const SHA = 'f'.repeat(64);
+const URL_A = `https://a.example/${SHA}.png`;
+
+const blob = (overrides: Record<string, unknown> = {}) => ({
+  url: URL_A,
+  sha256: SHA,
+  size: 2048,
+  type: 'image/png',
+  uploaded: 100,
+  ...overrides,
+});
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const sign = vi.fn(async (template: { kind: number; content: string; tags: string[][] }) => ({
+  ...template,
+  id: 'id',
+  pubkey: 'p'.repeat(64),
+  created_at: 1,
+  sig: 'sig',
+}));
+
+describe('blossom server list (kind 10063)', () => {
+  it('reads server tags in order, normalized and deduplicated', () => {
+    expect(
+      getBlossomServersFromTags([
+        ['server', 'https://a.example'],
+        ['server', 'not a url'],
+        ['r', 'wss://relay.example'],
+        ['server', 'https://b.example/'],
+        ['server', 'https://A.example/'],
+      ])
+    ).toEqual(['https://a.example/', 'https://b.example/']);
+  });
+
+  it('puts the primary server first when building tags', () => {
+    expect(buildBlossomServerTags(['https://a.example/', 'https://b.example/'], 'https://b.example/')).toEqual([
+      ['server', 'https://b.example/'],
+      ['server', 'https://a.example/'],
+    ]);
+  });
+});
+
+describe('mirroring', () => {
+  it('targets every other configured server once', () => {
+    expect(
+      getMirrorTargets('https://a.example/', ['https://a.example', 'https://b.example/', 'https://b.example', 'https://c.example/'])
+    ).toEqual(['https://b.example/', 'https://c.example/']);
+  });
+
+  it('PUTs the source url to /mirror with an upload auth event for the hash', async () => {
+    const fetchImpl = vi.fn(async () => jsonResponse(blob({ url: `https://b.example/${SHA}.png` })));
+    const result = await mirrorBlob('https://b.example', URL_A, SHA, { fetchImpl, sign });
+
+    const [url, init] = fetchImpl.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://b.example/mirror');
+    expect(init.method).toBe('PUT');
+    expect(JSON.parse(init.body as string)).toEqual({ url: URL_A });
+
+    const auth = (init.headers as Record<string, string>).Authorization;
+    const event = JSON.parse(atob(auth.replace(/^Nostr /, '')));
+    expect(event.kind).toBe(BLOSSOM_AUTH_KIND);
+    expect(event.tags).toContainEqual(['t', 'upload']);
+    expect(event.tags).toContainEqual(['x', SHA]);
+    expect(result.url).toBe(`https://b.example/${SHA}.png`);
+  });
+
+  it('rejects a mirror whose hash differs from the original', async () => {
+    const fetchImpl = vi.fn(async () => jsonResponse(blob({ sha256: 'e'.repeat(64) })));
+    await expect(mirrorBlob('https://b.example/', URL_A, SHA, { fetchImpl, sign })).rejects.toThrow(/hash/);
+  });
+
+  it('reports a result per server when some mirrors fail', async () => {
+    const fetchImpl = vi.fn(async (input: RequestInfo | URL) =>
+      String(input).startsWith('https://b.example')
+        ? jsonResponse(blob())
+        : new Response('', { status: 401, headers: { 'X-Reason': 'Not allowed' } })
+    );
+    const onResult = vi.fn();
+    const results = await mirrorBlobToServers(
+      'https://a.example/',
+      ['https://a.example/', 'https://b.example/', 'https://c.example/'],
+      URL_A,
+      SHA,
+      { fetchImpl, sign, onResult }
+    );
+
+    expect(results.map((r) => [r.server, r.status])).toEqual([
+      ['https://b.example/', 'mirrored'],
+      ['https://c.example/', 'failed'],
+    ]);
+    expect(results[1].error).toBe('401 Not allowed');
+    expect(onResult).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('listBlobs', () => {
+  it('drops malformed entries and sorts newest first', async () => {
+    const fetchImpl = vi.fn(async () =>
+      jsonResponse([blob({ uploaded: 1 }), { url: 'x' }, blob({ sha256: 'a'.repeat(64), uploaded: 5 })])
+    );
+    const blobs = await listBlobs('https://a.example/', 'p'.repeat(64), { fetchImpl });
+    expect(fetchImpl).toHaveBeenCalledWith(`https://a.example/list/${'p'.repeat(64)}`);
+    expect(blobs.map((b) => b.uploaded)).toEqual([5, 1]);
+  });
+});
+
+describe('blobToFileTags', () => {
+  it('produces upload-shaped tags for reinserting a blob', () => {
+    expect(blobToFileTags(blob())).toEqual([
+      ['url', URL_A],
+      ['x', SHA],
+      ['ox', SHA],
+      ['size', '2048'],
+      ['m', 'image/png'],
+    ]);
+  });
+});
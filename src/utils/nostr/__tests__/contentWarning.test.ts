@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeContentWarning,
+  getContentWarning,
+  withContentWarning,
+} from '../contentWarning';
+
+describe('contentWarning', () => {
+  it('reads the reason, an empty reason, or no warning', () => {
+    expect(getContentWarning([['t', 'art'], ['content-warning', ' spoilers ']])).toBe('spoilers');
+    expect(getContentWarning([['content-warning']])).toBe('');
+    expect(getContentWarning([['t', 'art']])).toBeNull();
+    expect(getContentWarning(undefined)).toBeNull();
+  });
+
+  it('adds, replaces and removes the tag', () => {
+    const tags = [['imeta', 'url https://x.test/a.png']];
+    expect(withContentWarning(tags, 'gore')).toEqual([...tags, ['content-warning', 'gore']]);
+    expect(withContentWarning(tags, '  ')).toEqual([...tags, ['content-warning']]);
+    expect(withContentWarning([...tags, ['content-warning', 'old']], 'new')).toEqual([
+      ...tags,
+      ['content-warning', 'new'],
+    ]);
+    expect(withContentWarning([...tags, ['content-warning', 'old']], null)).toEqual(tags);
+  });
+
+  it('describes the warning for the shroud', () => {
+    expect(describeContentWarning('spoilers')).toBe('Content warning: spoilers');
+    expect(describeContentWarning('')).toBe('Content warning');
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { generateSecretKey, getPublicKey } from 'nostr-tools'
+import { bytesToHex } from '@noble/hashes/utils'
+import {
+  createDmRumor,
+  sealDmRumor,
+  giftWrapSeal,
+  unwrapGiftWrap,
+  rumorToDirectMessage,
+  getConversationPeer,
+  groupDmConversations,
+  parseDmRelayList,
+  DM_CHAT_KIND,
+  DM_GIFT_WRAP_KIND,
+  type DirectMessage,
+} from '../directMessages'
+import { setInMemorySecretKeyHex } from '../nip07'
+
+const makeKeypair = () => {
+  const sk = generateSecretKey()
+  return { secretHex: bytesToHex(sk), pubkey: getPublicKey(sk) }
+}
+
+const alice = makeKeypair()
+const bob = makeKeypair()
+
+const msg = (overrides: Partial<DirectMessage>): DirectMessage => ({
+  id: 'id',
+  wrapId: 'wrap',
+  sender: alice.pubkey,
+  recipients: [bob.pubkey],
+  content: 'hi',
+  created_at: 1,
+  ...overrides,
+})
+
+describe('directMessages', () => {
+  afterEach(() => {
+    setInMemorySecretKeyHex(null)
+  })
+
+  it('builds a kind 14 rumor with p, reply and subject tags', () => {
+    const rumor = createDmRumor({
+      senderPubkey: alice.pubkey,
+      recipientPubkey: bob.pubkey,
+      content: 'hello',
+      replyTo: { id: 'abc' },
+      subject: 'topic',
+      createdAt: 100,
+    })
+    expect(rumor.kind).toBe(DM_CHAT_KIND)
+    expect(rumor.id).toMatch(/^[0-9a-f]{64}$/)
+    expect(rumor.tags).toContainEqual(['p', bob.pubkey])
+    expect(rumor.tags).toContainEqual(['e', 'abc', '', 'reply'])
+    expect(rumor.tags).toContainEqual(['subject', 'topic'])
+  })
+
+  it('rejects empty content and invalid pubkeys', () => {
+    expect(() => createDmRumor({ senderPubkey: alice.pubkey, recipientPubkey: bob.pubkey, content: '  ' })).toThrow()
+    expect(() => createDmRumor({ senderPubkey: 'nope', recipientPubkey: bob.pubkey, content: 'x' })).toThrow()
+  })
+
+  it('round-trips a message through seal and gift wrap', async () => {
+    const rumor = createDmRumor({ senderPubkey: alice.pubkey, recipientPubkey: bob.pubkey, content: 'secret' })
+
+    setInMemorySecretKeyHex(alice.secretHex)
+    const seal = await sealDmRumor(rumor, bob.pubkey)
+    const wrap = giftWrapSeal(seal, bob.pubkey)
+    expect(wrap.kind).toBe(DM_GIFT_WRAP_KIND)
+    expect(wrap.pubkey).not.toBe(alice.pubkey)
+    expect(wrap.tags).toEqual([['p', bob.pubkey]])
+
+    setInMemorySecretKeyHex(bob.secretHex)
+    const opened = await unwrapGiftWrap(wrap)
+    expect(opened.content).toBe('secret')
+    expect(opened.pubkey).toBe(alice.pubkey)
+
+    const dm = rumorToDirectMessage(opened, wrap.id)
+    expect(dm.sender).toBe(alice.pubkey)
+    expect(dm.recipients).toEqual([bob.pubkey])
+  })
+
+  it('resolves the conversation peer from either side', () => {
+    expect(getConversationPeer(msg({}), bob.pubkey)).toBe(alice.pubkey)
+    expect(getConversationPeer(msg({}), alice.pubkey)).toBe(bob.pubkey)
+    expect(getConversationPeer(msg({ recipients: [alice.pubkey] }), alice.pubkey)).toBe(alice.pubkey)
+  })
+
+  it('groups, de-duplicates and sorts conversations', () => {
+    const carol = makeKeypair().pubkey
+    const conversations = groupDmConversations(
+      [
+        msg({ id: 'b', created_at: 20, sender: bob.pubkey, recipients: [alice.pubkey] }),
+        msg({ id: 'a', created_at: 10 }),
+        msg({ id: 'a', created_at: 10 }),
+        msg({ id: 'c', created_at: 30, sender: carol, recipients: [alice.pubkey] }),
+      ],
+      alice.pubkey
+    )
+    expect(conversations.map(c => c.peer)).toEqual([carol, bob.pubkey])
+    expect(conversations[1].messages.map(m => m.id)).toEqual(['a', 'b'])
+  })
+
+  it('parses relay tags from a kind 10050 list', () => {
+    expect(
+      parseDmRelayList({
+        tags: [['relay', 'wss://a.example'], ['relay', 'wss://a.example'], ['relay', 'https://bad'], ['r', 'wss://b.example']],
+      })
+    ).toEqual(['wss://a.example'])
+    expect(parseDmRelayList(null)).toEqual([])
+  })
+})
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { Event } from 'nostr-tools'
+
+vi.mock('../nip07', () => ({
+  nip07SignEvent: vi.fn(async (event: { kind: number; content: string; tags: string[][] }) => ({
+    ...event,
+    pubkey: OWNER,
+    created_at: 200,
+    id: 'list-id',
+    sig: 'list-sig',
+  })),
+  nip44Encrypt: vi.fn(async (_pubkey: string, plaintext: string) => `enc:${plaintext}`),
+  nip44Decrypt: vi.fn(async (_pubkey: string, ciphertext: string) => ciphertext.replace(/^enc:/, '')),
+}))
+
+const OWNER = 'a'.repeat(64)
+const OTHER = 'b'.repeat(64)
+const MEMBER = 'c'.repeat(64)
+
+import { nip07SignEvent, nip44Decrypt } from '../nip07'
+import {
+  FOLLOW_SET_KIND,
+  fetchLists,
+  getListPubkeys,
+  parseListEvent,
+  publishList,
+  uniqueListDTag,
+} from '../lists'
+import type { RelayConnectionPool } from '../relayConnectionPool'
+
+const makeEvent = (overrides: Partial<Event>): Event => ({
+  id: Math.random().toString(16).slice(2),
+  pubkey: OWNER,
+  kind: FOLLOW_SET_KIND,
+  created_at: 100,
+  tags: [],
+  content: '',
+  sig: 'sig',
+  ...overrides,
+})
+
+describe('NIP-51 lists', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('decrypts private entries only for the owner', async () => {
+    const event = makeEvent({
+      tags: [['d', 'work'], ['title', 'Work'], ['p', MEMBER]],
+      content: `enc:${JSON.stringify([['p', OTHER]])}`,
+    })
+
+    const own = await parseListEvent(event, OWNER)
+    expect(own.dTag).toBe('work')
+    expect(own.title).toBe('Work')
+    expect(own.publicTags).toEqual([['p', MEMBER]])
+    expect(own.privateTags).toEqual([['p', OTHER]])
+    expect(own.privateReadable).toBe(true)
+    expect(getListPubkeys(own)).toEqual([MEMBER, OTHER])
+
+    vi.mocked(nip44Decrypt).mockClear()
+    const foreign = await parseListEvent(event, OTHER)
+    expect(nip44Decrypt).not.toHaveBeenCalled()
+    expect(foreign.privateTags).toEqual([])
+    expect(foreign.privateReadable).toBe(false)
+  })
+
+  it('keeps only the latest version of each list', async () => {
+    const pool = {
+      querySync: vi.fn(async () => [
+        makeEvent({ created_at: 100, tags: [['d', 'work'], ['p', OTHER]] }),
+        makeEvent({ created_at: 300, tags: [['d', 'work'], ['p', MEMBER]] }),
+        makeEvent({ created_at: 150, tags: [['d', 'old']] }),
+      ]),
+    } as unknown as RelayConnectionPool
+
+    const lists = await fetchLists({ pool, relayUrls: ['wss://r'], pubkey: OWNER, kinds: [FOLLOW_SET_KIND] })
+
+    // The empty "old" set counts as deleted
+    expect(lists).toHaveLength(1)
+    expect(lists[0].publicTags).toEqual([['p', MEMBER]])
+  })
+
+  it('publishes with d/title tags and encrypted private entries', async () => {
+    const pool = { publish: vi.fn(async () => undefined) } as unknown as RelayConnectionPool
+
+    const saved = await publishList({
+      pool,
+      relayUrls: ['wss://r'],
+      ownerPubkey: OWNER,
+      kind: FOLLOW_SET_KIND,
+      dTag: 'work',
+      title: 'Work',
+      publicTags: [['p', MEMBER]],
+      privateTags: [['p', OTHER]],
+    })
+
+    const template = vi.mocked(nip07SignEvent).mock.calls[0][0]
+    expect(template.tags).toEqual([['d', 'work'], ['title', 'Work'], ['p', MEMBER]])
+    expect(template.content).toBe(`enc:${JSON.stringify([['p', OTHER]])}`)
+    expect(pool.publish).toHaveBeenCalledWith(['wss://r'], expect.objectContaining({ id: 'list-id' }))
+    expect(saved.privateTags).toEqual([['p', OTHER]])
+  })
+
+  it('requires a d tag for follow sets', async () => {
+    const pool = { publish: vi.fn() } as unknown as RelayConnectionPool
+    await expect(
+      publishList({ pool, relayUrls: ['wss://r'], ownerPubkey: OWNER, kind: FOLLOW_SET_KIND, publicTags: [] })
+    ).rejects.toThrow('List identifier is required')
+  })
+
+  it('writes back image and alt tags set by other clients', async () => {
+    const pool = { publish: vi.fn(async () => undefined) } as unknown as RelayConnectionPool
+    const list = await parseListEvent(
+      makeEvent({
+        tags: [['d', 'work'], ['title', 'Work'], ['image', 'https://img'], ['alt', 'Follow set'], ['p', MEMBER]],
+      }),
+      OWNER
+    )
+    expect(list.publicTags).toEqual([['p', MEMBER]])
+
+    await publishList({
+      pool,
+      relayUrls: ['wss://r'],
+      ownerPubkey: OWNER,
+      kind: FOLLOW_SET_KIND,
+      dTag: list.dTag,
+      title: list.title,
+      metadataTags: list.metadataTags,
+      publicTags: [...list.publicTags, ['p', OTHER]],
+    })
+
+    const template = vi.mocked(nip07SignEvent).mock.calls[0][0]
+    expect(template.tags).toEqual([
+      ['d', 'work'],
+      ['title', 'Work'],
+      ['image', 'https://img'],
+      ['alt', 'Follow set'],
+      ['p', MEMBER],
+      ['p', OTHER],
+    ])
+  })
+
+  it('picks a d tag that does not replace an existing list', () => {
+    expect(uniqueListDTag('Friends', ['work'])).toBe('friends')
+    expect(uniqueListDTag('Work', ['work', 'work-2'])).toBe('work-3')
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+
+vi.mock('../pow', () => ({
+  minePowForEventBase: vi.fn(async (base: { tags?: string[][] }) => ({
+    ...base,
+    tags: [...(base.tags || []), ['nonce', '42', '8']],
+  })),
+}))
+
+import { minePowForEventBase } from '../pow'
+import { nip07SignEvent, getActiveSignerPubkey, nip44Encrypt, setInMemorySecretKeyHex } from '../nip07'
+import { setActiveRemoteSigner, hasActiveRemoteSigner, createNostrConnectRequest } from '../nip46'
+import type { BunkerSigner } from 'nostr-tools/nip46'
+
+const REMOTE_PUBKEY = 'a'.repeat(64)
+
+const makeFakeSigner = () => ({
+  getPublicKey: vi.fn(async () => REMOTE_PUBKEY),
+  signEvent: vi.fn(async (event: object) => ({ ...event, pubkey: REMOTE_PUBKEY, id: 'remote-id', sig: 'remote-sig' })),
+  nip44Encrypt: vi.fn(async (_peer: string, text: string) => `enc:${text}`),
+  nip44Decrypt: vi.fn(async (_peer: string, text: string) => text.replace(/^enc:/, '')),
+  close: vi.fn(async () => {}),
+})
+
+describe('nip46 remote signer routing', () => {
+  afterEach(() => {
+    setActiveRemoteSigner(null)
+    setInMemorySecretKeyHex(null)
+    vi.clearAllMocks()
+  })
+
+  it('signs through the active remote signer', async () => {
+    const signer = makeFakeSigner()
+    setActiveRemoteSigner(signer as unknown as BunkerSigner, REMOTE_PUBKEY)
+    expect(hasActiveRemoteSigner()).toBe(true)
+
+    const signed = await nip07SignEvent({ kind: 1, content: 'hello', tags: [['t', 'x']], created_at: 100 })
+
+    expect(signer.signEvent).toHaveBeenCalledWith({ kind: 1, content: 'hello', tags: [['t', 'x']], created_at: 100 })
+    expect(signed.id).toBe('remote-id')
+  })
+
+  it('mines PoW locally and sends the mined event to the remote signer', async () => {
+    const signer = makeFakeSigner()
+    setActiveRemoteSigner(signer as unknown as BunkerSigner, REMOTE_PUBKEY)
+
+    await nip07SignEvent({ kind: 1, content: 'pow', tags: [], created_at: 100 }, { powTargetBits: 8 })
+
+    expect(minePowForEventBase).toHaveBeenCalledWith(
+      expect.objectContaining({ pubkey: REMOTE_PUBKEY, kind: 1, content: 'pow' }),
+      8,
+      expect.any(Object)
+    )
+    expect(signer.signEvent).toHaveBeenCalledWith({
+      kind: 1,
+      content: 'pow',
+      created_at: 100,
+      tags: [['nonce', '42', '8']],
+    })
+  })
+
+  it('routes pubkey and NIP-44 requests to the remote signer', async () => {
+    const signer = makeFakeSigner()
+    setActiveRemoteSigner(signer as unknown as BunkerSigner, REMOTE_PUBKEY)
+
+    await expect(getActiveSignerPubkey()).resolves.toBe(REMOTE_PUBKEY)
+    await expect(nip44Encrypt('b'.repeat(64), 'hi')).resolves.toBe('enc:hi')
+    expect(signer.nip44Encrypt).toHaveBeenCalledWith('b'.repeat(64), 'hi')
+  })
+
+  it('closes the previous signer when replaced', () => {
+    const first = makeFakeSigner()
+    setActiveRemoteSigner(first as unknown as BunkerSigner, REMOTE_PUBKEY)
+    setActiveRemoteSigner(null)
+    expect(first.close).toHaveBeenCalled()
+    expect(hasActiveRemoteSigner()).toBe(false)
+  })
+
+  it('builds a nostrconnect URI with relays and a secret', () => {
+    const request = createNostrConnectRequest(['wss://relay.example'])
+    expect(request.uri.startsWith('nostrconnect://')).toBe(true)
+    expect(request.uri).toContain(encodeURIComponent('wss://relay.example'))
+    expect(request.uri).toContain('secret=')
+    expect(request.clientSecretHex).toMatch(/^[0-9a-f]{64}$/)
+  })
+})
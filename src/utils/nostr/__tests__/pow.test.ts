@@ -1,8 +1,11 @@
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, vi, afterEach } from 'vitest'
 
 import {
   countLeadingZeroBits,
   computeEventIdHex,
+  combineWorkerProgress,
+  getEffectivePow,
+  getPowWorkerCount,
   minePowForEventBase,
   type EventBaseForPow,
 } from '../../nostr/pow'
@@ -73,6 +76,47 @@ describe('pow utility', () => {
     ac.abort()
     await expect(minePowForEventBase(makeBase(), 12, { signal: ac.signal })).rejects.toThrow('aborted')
   })
-})
 
+  describe('multi-worker mining', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('uses one worker per core within bounds', () => {
+      vi.stubGlobal('navigator', { hardwareConcurrency: 6 })
+      expect(getPowWorkerCount()).toBe(6)
+      vi.stubGlobal('navigator', { hardwareConcurrency: 64 })
+      expect(getPowWorkerCount()).toBe(16)
+      vi.stubGlobal('navigator', {})
+      expect(getPowWorkerCount()).toBe(1)
+    })
+
+    it('combines worker progress into session totals', () => {
+      const combined = combineWorkerProgress(
+        [
+          { attempts: 300, hashesPerSecond: 1000, bestBits: 6 },
+          { attempts: 200, hashesPerSecond: 1000, bestBits: 9 },
+        ],
+        10
+      )
+      expect(combined.attempts).toBe(500)
+      expect(combined.hashesPerSecond).toBe(2000)
+      expect(combined.currentBits).toBe(9)
+      expect(combined.progress).toBeCloseTo((500 / 1024) * 100)
+      expect(combined.estimatedTimeRemaining).toBeCloseTo((1024 - 500) / 2000)
+    })
 
+    it('has no ETA before any hash rate is known', () => {
+      expect(combineWorkerProgress([{ attempts: 0, hashesPerSecond: 0, bestBits: 0 }], 8).estimatedTimeRemaining).toBeNull()
+    })
+  })
+
+  it('caps the effective PoW of a received note by its committed target', () => {
+    const id = '000' + 'f'.repeat(61) // 12 leading zero bits
+    expect(getEffectivePow({ id, tags: [['nonce', '1', '16']] })).toBe(12)
+    expect(getEffectivePow({ id, tags: [['nonce', '1', '8']] })).toBe(8)
+    // No nonce tag or no commitment: a lucky id claims nothing
+    expect(getEffectivePow({ id, tags: [] })).toBe(0)
+    expect(getEffectivePow({ id, tags: [['nonce', '1']] })).toBe(0)
+  })
+})
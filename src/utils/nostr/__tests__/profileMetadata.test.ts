@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import type { Event } from 'nostr-tools';
+import {
+  formatBirthday,
+  getProfileHistory,
+  mergeProfileContent,
+  parseBirthday,
+  parseProfileContent,
+  profileFormFromContent,
+} from '../profileMetadata';
+
+const ME = 'a'.repeat(64);
+const OTHER = 'b'.repeat(64);
+
+const kind0 = (id: string, created_at: number, content: string, pubkey = ME): Event => ({
+  id,
+  pubkey,
+  kind: 0,
+  created_at,
+  content,
+  tags: [],
+  sig: '',
+});
+
+describe('profileMetadata', () => {
+  it('keeps fields the form does not edit', () => {
+    const base = {
+      name: 'alice',
+      display_name: 'alice',
+      lud06: 'lnurl1xyz',
+      custom_field: { nested: true },
+      about: 'old',
+    };
+    const fields = { ...profileFormFromContent(base), about: 'new' };
+
+    expect(mergeProfileContent(base, fields)).toEqual({ ...base, about: 'new' });
+  });
+
+  it('leaves untouched values in their original shape', () => {
+    const base = { name: 'alice', bot: 'true', birthday: { month: 2, day: 29, extra: 1 } };
+    const fields = profileFormFromContent(base);
+
+    expect(fields.bot).toBe(true);
+    expect(fields.birthday).toBe('02-29');
+    expect(mergeProfileContent(base, fields)).toEqual(base);
+  });
+
+  it('removes cleared fields and writes website, bot and birthday', () => {
+    const base = { name: 'alice', picture: 'https://x/p.png' };
+    const merged = mergeProfileContent(base, {
+      ...profileFormFromContent(base),
+      picture: '',
+      website: 'https://alice.example',
+      bot: true,
+      birthday: '1990-04-01',
+    });
+
+    expect(merged).toEqual({
+      name: 'alice',
+      website: 'https://alice.example',
+      bot: true,
+      birthday: { year: 1990, month: 4, day: 1 },
+    });
+  });
+
+  it('renames display_name but keeps a separate handle', () => {
+    const base = { name: 'alice', display_name: 'Alice W' };
+    const merged = mergeProfileContent(base, { ...profileFormFromContent(base), name: 'Alice Wonder' });
+    expect(merged).toEqual({ name: 'alice', display_name: 'Alice Wonder' });
+
+    const synced = { name: 'alice' };
+    expect(mergeProfileContent(synced, { ...profileFormFromContent(synced), name: 'bob' })).toEqual({
+      name: 'bob',
+      display_name: 'bob',
+    });
+  });
+
+  it('rejects birthdays it cannot read', () => {
+    const base = {};
+    expect(() =>
+      mergeProfileContent(base, { ...profileFormFromContent(base), birthday: 'april' })
+    ).toThrow(/Birthday/);
+  });
+
+  it('round-trips partial birthdays', () => {
+    expect(parseBirthday('04-01')).toEqual({ month: 4, day: 1 });
+    expect(parseBirthday('1990')).toEqual({ year: 1990 });
+    expect(parseBirthday('1990-13-01')).toBeNull();
+    expect(formatBirthday({ month: 4, day: 1 })).toBe('04-01');
+    expect(formatBirthday({ year: 1990 })).toBe('1990');
+    expect(formatBirthday('1990-04-01')).toBe('');
+  });
+
+  it('parses only JSON objects', () => {
+    expect(parseProfileContent('{"name":"a"}')).toEqual({ name: 'a' });
+    expect(parseProfileContent('[]')).toBeNull();
+    expect(parseProfileContent('not json')).toBeNull();
+  });
+
+  it('lists our readable kind 0 events newest first', () => {
+    const history = getProfileHistory(
+      [
+        kind0('old', 100, '{"name":"a"}'),
+        kind0('new', 300, '{"name":"c"}'),
+        kind0('new', 300, '{"name":"c"}'),
+        kind0('broken', 400, 'not json'),
+        kind0('theirs', 500, '{"name":"x"}', OTHER),
+        kind0('mid', 200, '{"name":"b"}'),
+      ],
+      ME
+    );
+
+    expect(history.map((e) => e.id)).toEqual(['new', 'mid', 'old']);
+  });
+});
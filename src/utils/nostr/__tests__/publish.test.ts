@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { publishReaction, publishReply, publishMuteList, publishUnmuteList, filterRelaysByEventKind, publishNote } from '../../nostr/publish';
+import { publishReaction, publishReply, filterRelaysByEventKind, publishNote, publishDeletion, publishArticle } from '../../nostr/publish';
+import type { nip07SignEvent } from '../../nostr/nip07';
 
 // Mock nostr-tools SimplePool and nip07SignEvent indirectly via dynamic import not needed
 vi.mock('nostr-tools', () => ({
@@ -7,11 +8,16 @@ vi.mock('nostr-tools', () => ({
 }));
 
 vi.mock('../../nostr/nip07', () => ({
-  nip07SignEvent: vi.fn(async (e: any) => ({ ...e, id: 'signed-id', pubkey: 'me' }))
+  nip07SignEvent: vi.fn(async (e: Parameters<typeof nip07SignEvent>[0]) => ({ ...e, id: 'signed-id', pubkey: 'me', sig: 'sig' }))
 }));
 
 describe('publish utilities', () => {
-  const pool = { publish: vi.fn(async () => {} ) } as any;
+  const pool = {
+    publish: vi.fn(async () => {} ),
+    publishWithReceipts: vi.fn(async (urls: string[]) =>
+      urls.map(url => ({ url, outcome: 'ok', message: '', notices: [] }))
+    ),
+  } as any;
   const relays = ['wss://relay.example'];
 
   beforeEach(() => {
@@ -36,8 +42,9 @@ describe('publish utilities', () => {
 
   it('publishReply adds marked e and p tags', async () => {
     const parent = { id: 'parent1', pubkey: 'author1', kind: 1, tags: [['p','x']] as string[][] };
-    await publishReply({ pool, relayUrls: relays, parent, content: 'hi', relayHint: relays[0] });
-    expect(pool.publish).toHaveBeenCalledTimes(1);
+    const { delivery } = await publishReply({ pool, relayUrls: relays, parent, content: 'hi', relayHint: relays[0] });
+    expect(pool.publishWithReceipts).toHaveBeenCalledTimes(1);
+    expect(delivery.relays[relays[0]].status).toBe('success');
     const signed = (vi.mocked(await import('../../nostr/nip07')) as any).nip07SignEvent.mock.calls[0][0];
     expect(signed.kind).toBe(1);
     const eTags = signed.tags.filter((t: string[]) => t[0] === 'e');
@@ -89,96 +96,75 @@ describe('publish utilities', () => {
     expect(args[1].signal).toBe(abort.signal);
   });
 
-  it('publishMuteList builds correct tags', async () => {
-    const { id } = await publishMuteList({ 
-      pool, 
-      relayUrls: relays, 
-      pubkeyToMute: '1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
-      existingMutedPubkeys: ['abcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890', 'fedcba0987654321fedcba0987654321fedcba0987654321fedcba0987654321']
+  it('publishDeletion builds e and k tags for own events', async () => {
+    const { id } = await publishDeletion({
+      pool,
+      relayUrls: relays,
+      targets: [
+        { id: 'note1', kind: 1, pubkey: 'me' },
+        { id: 'reaction1', kind: 7, pubkey: 'me' },
+      ],
+      authorPubkey: 'me',
+      reason: 'typo',
     });
     expect(id).toBe('signed-id');
     expect(pool.publish).toHaveBeenCalledTimes(1);
-    const signed = (vi.mocked(await import('../../nostr/nip07')) as any).nip07SignEvent.mock.calls[0][0];
-    expect(signed.kind).toBe(10000);
-    expect(signed.content).toBe('');
-    const pTags = signed.tags.filter((t: string[]) => t[0] === 'p');
-    expect(pTags).toHaveLength(3);
-    expect(pTags).toContainEqual(['p', '1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef']);
-    expect(pTags).toContainEqual(['p', 'abcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890']);
-    expect(pTags).toContainEqual(['p', 'fedcba0987654321fedcba0987654321fedcba0987654321fedcba0987654321']);
+    const { nip07SignEvent } = await import('../../nostr/nip07');
+    const signed = vi.mocked(nip07SignEvent).mock.calls[0][0];
+    expect(signed.kind).toBe(5);
+    expect(signed.content).toBe('typo');
+    expect(signed.tags.filter((t: string[]) => t[0] === 'e')).toEqual([['e', 'note1'], ['e', 'reaction1']]);
+    expect(signed.tags.filter((t: string[]) => t[0] === 'k')).toEqual([['k', '1'], ['k', '7']]);
   });
 
-  it('publishUnmuteList removes pubkey from list', async () => {
-    const { id } = await publishUnmuteList({ 
-      pool, 
-      relayUrls: relays, 
-      pubkeyToUnmute: '1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
-      existingMutedPubkeys: ['1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef', 'abcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890', 'fedcba0987654321fedcba0987654321fedcba0987654321fedcba0987654321']
+  it('publishDeletion adds an a tag for addressable targets', async () => {
+    await publishDeletion({
+      pool,
+      relayUrls: relays,
+      targets: [{ id: 'draft1', kind: 30024, pubkey: 'me', tags: [['d', 'my-post']] }],
+      authorPubkey: 'me',
     });
-    expect(id).toBe('signed-id');
-    expect(pool.publish).toHaveBeenCalledTimes(1);
-    const signed = (vi.mocked(await import('../../nostr/nip07')) as any).nip07SignEvent.mock.calls[0][0];
-    expect(signed.kind).toBe(10000);
-    expect(signed.content).toBe('');
-    const pTags = signed.tags.filter((t: string[]) => t[0] === 'p');
-    expect(pTags).toHaveLength(2);
-    expect(pTags).not.toContainEqual(['p', '1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef']);
-    expect(pTags).toContainEqual(['p', 'abcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890']);
-    expect(pTags).toContainEqual(['p', 'fedcba0987654321fedcba0987654321fedcba0987654321fedcba0987654321']);
+    const { nip07SignEvent } = await import('../../nostr/nip07');
+    const signed = vi.mocked(nip07SignEvent).mock.calls[0][0];
+    expect(signed.tags.filter((t: string[]) => t[0] === 'e')).toEqual([['e', 'draft1']]);
+    expect(signed.tags.filter((t: string[]) => t[0] === 'a')).toEqual([['a', '30024:me:my-post']]);
   });
 
-  it('publishMuteList filters out indexer relays', async () => {
-    const relayUrls = ['wss://relay1.com', 'wss://relay2.com', 'wss://indexer.com'];
-    const relayPermissions = new Map([
-      ['wss://relay1.com', 'readwrite'],
-      ['wss://relay2.com', 'write'],
-      ['wss://indexer.com', 'indexer']
-    ]);
-
-    await publishMuteList({ 
-      pool, 
-      relayUrls, 
-      relayPermissions,
-      pubkeyToMute: '1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
-      existingMutedPubkeys: []
-    });
-
-    expect(pool.publish).toHaveBeenCalledTimes(1);
-    const [filteredRelays] = pool.publish.mock.calls[0];
-    
-    // Should include readwrite and write relays
-    expect(filteredRelays).toContain('wss://relay1.com');
-    expect(filteredRelays).toContain('wss://relay2.com');
-    
-    // Should exclude indexer relays
-    expect(filteredRelays).not.toContain('wss://indexer.com');
+  it('publishDeletion rejects events written by someone else', async () => {
+    await expect(
+      publishDeletion({
+        pool,
+        relayUrls: relays,
+        targets: [{ id: 'note1', kind: 1, pubkey: 'someone-else' }],
+        authorPubkey: 'me',
+      })
+    ).rejects.toThrow('Only your own events can be deleted');
+    expect(pool.publish).not.toHaveBeenCalled();
   });
 
-  it('publishUnmuteList filters out indexer relays', async () => {
-    const relayUrls = ['wss://relay1.com', 'wss://relay2.com', 'wss://indexer.com'];
-    const relayPermissions = new Map([
-      ['wss://relay1.com', 'readwrite'],
-      ['wss://relay2.com', 'write'],
-      ['wss://indexer.com', 'indexer']
-    ]);
-
-    await publishUnmuteList({ 
-      pool, 
-      relayUrls, 
-      relayPermissions,
-      pubkeyToUnmute: '1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
-      existingMutedPubkeys: ['1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef']
-    });
-
-    expect(pool.publish).toHaveBeenCalledTimes(1);
-    const [filteredRelays] = pool.publish.mock.calls[0];
-    
-    // Should include readwrite and write relays
-    expect(filteredRelays).toContain('wss://relay1.com');
-    expect(filteredRelays).toContain('wss://relay2.com');
-    
-    // Should exclude indexer relays
-    expect(filteredRelays).not.toContain('wss://indexer.com');
+  it('publishArticle signs kind 30023 articles and kind 30024 drafts', async () => {
+    const fields = {
+      identifier: 'post',
+      title: 'Post',
+      summary: '',
+      image: '',
+      hashtags: [],
+      content: 'body',
+    };
+    await publishArticle({ pool, relayUrls: relays, fields, powTargetBits: 12 });
+    await publishArticle({ pool, relayUrls: relays, fields: { ...fields, title: '' }, draft: true });
+    const { nip07SignEvent } = await import('../../nostr/nip07');
+    const signCalls = vi.mocked(nip07SignEvent).mock.calls;
+    const [article, options] = signCalls[0];
+    expect(article.kind).toBe(30023);
+    expect(article.tags).toContainEqual(['d', 'post']);
+    expect(options?.powTargetBits).toBe(12);
+    expect(signCalls[1][0].kind).toBe(30024);
+    expect(pool.publishWithReceipts).toHaveBeenCalledTimes(2);
+
+    await expect(
+      publishArticle({ pool, relayUrls: relays, fields: { ...fields, title: '' } })
+    ).rejects.toThrow('title');
   });
 
   it('filterRelaysByEventKind excludes indexer relays for mute list events', () => {
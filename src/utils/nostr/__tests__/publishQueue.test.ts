@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Event } from 'nostr-tools';
+import {
+  MAX_PUBLISH_ATTEMPTS,
+  cancelQueuedPublish,
+  enqueuePublish,
+  getNextDueTime,
+  getRetryDelay,
+  loadPublishQueue,
+  processQueuedPublish,
+  publishNow,
+  retryPendingNow,
+  runPublishQueue,
+  startPublishQueue,
+} from '../publishQueue';
+import { publishQueueActions, publishQueueStore } from '../../../stores/publishQueueStore';
+import type { RelayConnectionPool, RelayPublishReceipt } from '../relayConnectionPool';
+
+const RELAY_A = 'wss://a.example';
+const RELAY_B = 'wss://b.example';
+
+const makeEvent = (id: string): Event => ({
+  id,
+  pubkey: 'p'.repeat(64),
+  created_at: 1700000000,
+  kind: 1,
+  tags: [],
+  content: 'scheduled',
+  sig: 's'.repeat(128),
+});
+
+const makePool = (responses: Record<string, Partial<RelayPublishReceipt>> = {}) =>
+  ({
+    publishWithReceipts: vi.fn(async (relays: string[]) =>
+      relays.map((url) => ({ url, outcome: 'ok', message: '', notices: [], ...responses[url] }))
+    ),
+  }) as unknown as RelayConnectionPool;
+
+const TIMEOUT = { outcome: 'timeout', message: 'publish timed out' } as const;
+
+describe('publishQueue', () => {
+  beforeEach(async () => {
+    for (const id of Object.keys(publishQueueStore.state.entries)) {
+      await cancelQueuedPublish(id);
+    }
+    publishQueueActions.reset();
+  });
+
+  it('backs off exponentially up to a cap', () => {
+    expect(getRetryDelay(1)).toBe(30000);
+    expect(getRetryDelay(2)).toBe(60000);
+    expect(getRetryDelay(3)).toBe(120000);
+    expect(getRetryDelay(20)).toBe(30 * 60 * 1000);
+  });
+
+  it('does not publish before the scheduled time', async () => {
+    const now = Date.now();
+    const entry = await enqueuePublish({
+      event: makeEvent('1'.repeat(64)),
+      relayUrls: [RELAY_A],
+      publishAt: now + 60000,
+    });
+    const pool = makePool();
+
+    const result = await processQueuedPublish(pool, entry, now);
+    expect(pool.publishWithReceipts).not.toHaveBeenCalled();
+    expect(result.state).toBe('scheduled');
+    expect(getNextDueTime([result])).toBe(now + 60000);
+  });
+
+  it('records per-relay receipts and retries only failed relays', async () => {
+    const pool = makePool({
+      [RELAY_A]: { message: 'stored', notices: ['slow down'] },
+      [RELAY_B]: TIMEOUT,
+    });
+
+    const first = await publishNow(pool, makeEvent('2'.repeat(64)), [RELAY_A, RELAY_B]);
+    expect(first.relays[RELAY_A]).toMatchObject({
+      status: 'success',
+      outcome: 'ok',
+      message: 'stored',
+      notices: ['slow down'],
+    });
+    expect(first.relays[RELAY_B]).toMatchObject({ status: 'failed', outcome: 'timeout', attempts: 1 });
+    expect(first.state).toBe('scheduled');
+
+    const retryAt = first.relays[RELAY_B].nextAttemptAt;
+    const second = await processQueuedPublish(makePool(), first, retryAt);
+    expect(second.relays[RELAY_B]).toMatchObject({ status: 'success', attempts: 2 });
+    expect(second.state).toBe('done');
+  });
+
+  it('gives up after the maximum number of attempts', async () => {
+    let entry = await enqueuePublish({ event: makeEvent('3'.repeat(64)), relayUrls: [RELAY_A] });
+    const pool = makePool({ [RELAY_A]: TIMEOUT });
+
+    for (let i = 0; i < MAX_PUBLISH_ATTEMPTS; i++) {
+      entry = await processQueuedPublish(pool, entry, entry.relays[RELAY_A].nextAttemptAt);
+    }
+    expect(entry.state).toBe('failed');
+    expect(getNextDueTime([entry])).toBeNull();
+  });
+
+  it('stops retrying relays that reject the event outright', async () => {
+    const pool = makePool({
+      [RELAY_A]: { outcome: 'rejected', message: 'blocked: not on allowlist' },
+      [RELAY_B]: { outcome: 'rejected', message: 'duplicate: already have it' },
+    });
+
+    const entry = await publishNow(pool, makeEvent('5'.repeat(64)), [RELAY_A, RELAY_B]);
+    expect(entry.relays[RELAY_A]).toMatchObject({ status: 'failed', rejected: true });
+    expect(entry.relays[RELAY_B].status).toBe('success');
+    expect(entry.state).toBe('done');
+    expect(getNextDueTime([entry])).toBeNull();
+  });
+
+  it('holds off while offline and retries as soon as it is back online', async () => {
+    const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    const pool = makePool();
+    const entry = await publishNow(pool, makeEvent('6'.repeat(64)), [RELAY_A]);
+    expect(pool.publishWithReceipts).not.toHaveBeenCalled();
+    expect(entry.relays[RELAY_A].attempts).toBe(0);
+    onLine.mockRestore();
+
+    const failed = await processQueuedPublish(makePool({ [RELAY_A]: TIMEOUT }), entry);
+    expect(failed.relays[RELAY_A].nextAttemptAt).toBeGreaterThan(Date.now());
+
+    await retryPendingNow();
+    const due = publishQueueStore.state.entries[entry.id];
+    expect(due.relays[RELAY_A].nextAttemptAt).toBeLessThanOrEqual(Date.now());
+    const delivered = await processQueuedPublish(pool, due);
+    expect(delivered.state).toBe('done');
+  });
+
+  it('restores queued entries after a reload', async () => {
+    await enqueuePublish({
+      event: makeEvent('4'.repeat(64)),
+      relayUrls: [RELAY_A],
+      publishAt: Date.now() + 60000,
+    });
+    publishQueueActions.reset();
+
+    const entries = await loadPublishQueue();
+    expect(entries.map((e) => e.id)).toEqual(['4'.repeat(64)]);
+    expect(publishQueueStore.state.loaded).toBe(true);
+  });
+
+  it('keeps polling until the relay pool is available', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    await enqueuePublish({ event: makeEvent('7'.repeat(64)), relayUrls: [RELAY_A] });
+    let pool: RelayConnectionPool | null = null;
+    const stop = startPublishQueue(() => pool);
+    try {
+      await loadPublishQueue();
+      // The entry is due but there is no pool to publish with yet
+      await vi.advanceTimersByTimeAsync(0);
+      await runPublishQueue();
+
+      pool = makePool();
+      await vi.advanceTimersByTimeAsync(5000);
+      await vi.waitFor(() => expect(pool!.publishWithReceipts).toHaveBeenCalledTimes(1));
+    } finally {
+      stop();
+      vi.useRealTimers();
+    }
+  });
+});
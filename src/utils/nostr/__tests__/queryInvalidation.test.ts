@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { QueryClient } from '@tanstack/react-query'
+import {
+  clearRecordedDeletions,
+  getEventAddress,
+  isEventDeleted,
+  recordDeletion,
+  removeDeletedEventsFromCaches,
+  syncDeletionsForEvents,
+} from '../queryInvalidation'
+import { useThreadStore } from '../../../state/threadStore'
+
+const ME = 'a'.repeat(64)
+const OTHER = 'b'.repeat(64)
+
+const note = (id: string, pubkey: string) => ({ id, pubkey, kind: 1, content: id, tags: [], created_at: 1 })
+
+describe('NIP-09 deletion handling', () => {
+  beforeEach(() => {
+    clearRecordedDeletions()
+    useThreadStore.setState({ threads: {} })
+  })
+
+  it('only treats an event as deleted when its author issued the deletion', () => {
+    recordDeletion({ kind: 5, pubkey: ME, tags: [['e', 'n1'], ['e', 'n2'], ['k', '1']] })
+
+    expect(isEventDeleted({ id: 'n1', pubkey: ME })).toBe(true)
+    expect(isEventDeleted({ id: 'n2', pubkey: OTHER })).toBe(false)
+    expect(isEventDeleted({ id: 'n3', pubkey: ME })).toBe(false)
+  })
+
+  it('ignores events that are not kind 5', () => {
+    expect(recordDeletion({ kind: 1, pubkey: ME, tags: [['e', 'n1']] })).toEqual([])
+    expect(isEventDeleted({ id: 'n1', pubkey: ME })).toBe(false)
+  })
+
+  it('prunes feed, notification and thread caches', () => {
+    const queryClient = new QueryClient()
+    const feedKey = ['nostrify-feed', ME, '1', 'r', 'f', '', 0, 20]
+    queryClient.setQueryData(feedKey, {
+      pages: [{ notes: [note('n1', ME), note('n2', OTHER)], nextCursor: 5 }],
+      pageParams: [undefined],
+    })
+    const notificationsKey = ['notifications-nostrify', OTHER, 'r']
+    queryClient.setQueryData(notificationsKey, {
+      pages: [[{ type: 'reply', actor: ME, created_at: 1, event: note('n1', ME) }]],
+      pageParams: [undefined],
+    })
+    useThreadStore.getState().initThread('root', 'root')
+    useThreadStore.getState().applyWorkerPatch('root', {
+      updatedChildren: { root: ['n1'] },
+      notes: [note('n1', ME) as never],
+    })
+
+    removeDeletedEventsFromCaches(queryClient, { kind: 5, pubkey: ME, tags: [['e', 'n1']] })
+
+    const feed = queryClient.getQueryData<{ pages: Array<{ notes: Array<{ id: string }> }> }>(feedKey)
+    expect(feed?.pages[0].notes.map((n) => n.id)).toEqual(['n2'])
+    const notifications = queryClient.getQueryData<{ pages: unknown[][] }>(notificationsKey)
+    expect(notifications?.pages[0]).toHaveLength(0)
+    const thread = useThreadStore.getState().threads.root
+    expect(thread.notesById.has('n1')).toBe(false)
+    expect(thread.directChildrenIds).toEqual([])
+  })
+
+  it('deletes addressable events by address up to the deletion time', () => {
+    const draft = (created_at: number) => ({ id: `d${created_at}`, pubkey: ME, kind: 30024, created_at, tags: [['d', 'post']] })
+    expect(getEventAddress(draft(1))).toBe(`30024:${ME}:post`)
+
+    recordDeletion({ kind: 5, pubkey: ME, created_at: 100, tags: [['a', `30024:${ME}:post`]] })
+
+    expect(isEventDeleted(draft(90))).toBe(true)
+    expect(isEventDeleted(draft(110))).toBe(false)
+    // Someone else's address in our deletion is ignored
+    recordDeletion({ kind: 5, pubkey: ME, created_at: 100, tags: [['a', `30024:${OTHER}:post`]] })
+    expect(isEventDeleted({ ...draft(90), pubkey: OTHER })).toBe(false)
+  })
+
+  it('restores recorded deletions after a reload', async () => {
+    recordDeletion({ kind: 5, pubkey: ME, created_at: 100, tags: [['e', 'n1'], ['a', `30024:${ME}:post`]] })
+    // Let the IndexedDB writes land, then load a fresh copy of the module
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    vi.resetModules()
+    const reloaded = await import('../queryInvalidation')
+    expect(reloaded.isEventDeleted({ id: 'n1', pubkey: ME })).toBe(false)
+
+    await reloaded.loadRecordedDeletions()
+
+    expect(reloaded.isEventDeleted({ id: 'n1', pubkey: ME })).toBe(true)
+    expect(
+      reloaded.isEventDeleted({ id: 'x', pubkey: ME, kind: 30024, created_at: 50, tags: [['d', 'post']] })
+    ).toBe(true)
+  })
+
+  it('applies deletions fetched from relays for the loaded notes', async () => {
+    const queryClient = new QueryClient()
+    const query = vi.fn(async () => [
+      { kind: 5, pubkey: ME, tags: [['e', 'n1']] },
+      // A deletion of someone else's note is not honored
+      { kind: 5, pubkey: ME, tags: [['e', 'n2']] },
+    ])
+
+    await syncDeletionsForEvents(queryClient, query, [note('n1', ME), note('n2', OTHER)])
+
+    expect(query).toHaveBeenCalledWith({ kinds: [5], authors: [ME, OTHER], '#e': ['n1', 'n2'] })
+    expect(isEventDeleted(note('n1', ME))).toBe(true)
+    expect(isEventDeleted(note('n2', OTHER))).toBe(false)
+  })
+})
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('../nip07', () => ({
+  hasActiveSigner: vi.fn(() => true),
+  nip07SignEvent: vi.fn(async (event: object) => ({ ...event, pubkey: 'p'.repeat(64), id: 'auth-id', sig: 'auth-sig' })),
+}))
+
+import { hasActiveSigner, nip07SignEvent } from '../nip07'
+import {
+  getRelayAuthPolicy,
+  setRelayAuthPolicy,
+  nextRelayAuthPolicy,
+  signRelayAuthEvent,
+  resolveRelayAuthRequest,
+  markRelayAuthResult,
+  RelayAuthDeniedError,
+  RELAY_AUTH_KIND,
+  RELAY_AUTH_PROMPT_TIMEOUT_MS,
+} from '../relayAuth'
+import { relayAuthActions, relayAuthStore } from '../../../stores/relayAuthStore'
+
+const RELAY = 'wss://auth.example'
+
+const makeTemplate = (relay = RELAY) => ({
+  kind: RELAY_AUTH_KIND,
+  created_at: 100,
+  tags: [
+    ['relay', relay],
+    ['challenge', 'abc'],
+  ],
+  content: '',
+})
+
+describe('relay auth policies', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    relayAuthActions.reset()
+    vi.clearAllMocks()
+  })
+
+  it('defaults to ask and stores policies per user with normalized urls', () => {
+    expect(getRelayAuthPolicy(RELAY)).toBe('ask')
+
+    setRelayAuthPolicy('wss://Auth.example/', 'always', 'user1')
+    expect(getRelayAuthPolicy(RELAY, 'user1')).toBe('always')
+    expect(getRelayAuthPolicy(RELAY, 'user2')).toBe('ask')
+  })
+
+  it('cycles always -> ask -> never', () => {
+    expect(nextRelayAuthPolicy('always')).toBe('ask')
+    expect(nextRelayAuthPolicy('ask')).toBe('never')
+    expect(nextRelayAuthPolicy('never')).toBe('always')
+  })
+
+  it('refuses to sign when the policy is never', async () => {
+    setRelayAuthPolicy(RELAY, 'never')
+
+    await expect(signRelayAuthEvent(makeTemplate())).rejects.toBeInstanceOf(RelayAuthDeniedError)
+    expect(nip07SignEvent).not.toHaveBeenCalled()
+    expect(relayAuthStore.state.statuses[RELAY]).toBe('denied')
+  })
+
+  it('signs without prompting when the policy is always', async () => {
+    setRelayAuthPolicy(RELAY, 'always')
+
+    const signed = await signRelayAuthEvent(makeTemplate())
+
+    expect(signed.id).toBe('auth-id')
+    expect(nip07SignEvent).toHaveBeenCalledWith(expect.objectContaining({ kind: RELAY_AUTH_KIND }), expect.anything())
+    expect(relayAuthStore.state.pending).toHaveLength(0)
+
+    markRelayAuthResult(RELAY, true)
+    expect(relayAuthStore.state.statuses[RELAY]).toBe('authenticated')
+  })
+
+  it('waits for the user when the policy is ask and remembers "always"', async () => {
+    const pending = signRelayAuthEvent(makeTemplate())
+
+    expect(relayAuthStore.state.pending).toHaveLength(1)
+    const request = relayAuthStore.state.pending[0]
+    expect(request.relayUrl).toBe(RELAY)
+
+    resolveRelayAuthRequest(request.id, 'always')
+
+    await expect(pending).resolves.toMatchObject({ id: 'auth-id' })
+    expect(relayAuthStore.state.pending).toHaveLength(0)
+    expect(getRelayAuthPolicy(RELAY)).toBe('always')
+  })
+
+  it('rejects when the user declines once without saving a policy', async () => {
+    const pending = signRelayAuthEvent(makeTemplate())
+    resolveRelayAuthRequest(relayAuthStore.state.pending[0].id, 'deny')
+
+    await expect(pending).rejects.toBeInstanceOf(RelayAuthDeniedError)
+    expect(getRelayAuthPolicy(RELAY)).toBe('ask')
+  })
+
+  it('refuses without prompting when there is no signer', async () => {
+    vi.mocked(hasActiveSigner).mockReturnValueOnce(false)
+
+    await expect(signRelayAuthEvent(makeTemplate())).rejects.toBeInstanceOf(RelayAuthDeniedError)
+    expect(relayAuthStore.state.pending).toHaveLength(0)
+  })
+
+  it('treats an unanswered prompt as a one-off deny', async () => {
+    vi.useFakeTimers()
+    try {
+      const pending = signRelayAuthEvent(makeTemplate())
+      const assertion = expect(pending).rejects.toBeInstanceOf(RelayAuthDeniedError)
+      await vi.advanceTimersByTimeAsync(RELAY_AUTH_PROMPT_TIMEOUT_MS)
+
+      await assertion
+      expect(relayAuthStore.state.pending).toHaveLength(0)
+      expect(getRelayAuthPolicy(RELAY)).toBe('ask')
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+})
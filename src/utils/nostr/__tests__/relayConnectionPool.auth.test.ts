@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Event, EventTemplate } from 'nostr-tools';
+
+vi.mock('../nip07', () => ({
+  hasActiveSigner: vi.fn(() => true),
+  nip07SignEvent: vi.fn(async (event: object) => ({ ...event, pubkey: 'p'.repeat(64), id: 'auth-id', sig: 'auth-sig' })),
+}));
+
+import { RelayConnectionPool } from '../relayConnectionPool';
+import { setRelayAuthPolicy } from '../relayAuth';
+import { relayAuthActions } from '../../../stores/relayAuthStore';
+
+const RELAY = 'wss://auth.example';
+
+const event = { id: 'e1', pubkey: 'p', kind: 5, created_at: 1, tags: [], content: '', sig: 's' } as Event;
+
+// Mirrors nostr-tools: relay.auth() swallows signer errors and never settles
+const makeRelay = () => ({
+  url: RELAY,
+  close: vi.fn(),
+  auth: vi.fn(
+    (signer: (template: EventTemplate) => Promise<unknown>) =>
+      new Promise(() => {
+        signer({ kind: 22242, created_at: 1, tags: [['relay', RELAY], ['challenge', 'c']], content: '' }).catch(() => {});
+      })
+  ),
+});
+
+describe('RelayConnectionPool auth-required publishes', () => {
+  let pool: RelayConnectionPool;
+
+  beforeEach(() => {
+    localStorage.clear();
+    relayAuthActions.reset();
+    pool = new RelayConnectionPool();
+  });
+
+  afterEach(() => {
+    pool.destroy();
+  });
+
+  it('finishes when the relay policy is never', async () => {
+    setRelayAuthPolicy(RELAY, 'never');
+    const relay = makeRelay();
+    const simplePool = pool.getPool() as unknown as { relays: Map<string, unknown> };
+    simplePool.relays.set(RELAY, relay);
+    vi.spyOn(pool.getPool(), 'publish').mockImplementation(() => [
+      Promise.reject(new Error('auth-required: members only')),
+    ]);
+
+    await expect(pool.publish([RELAY], event)).rejects.toThrow(/declined/);
+    expect(relay.auth).toHaveBeenCalledTimes(1);
+  });
+
+  it('only answers connect-time challenges for relays set to always', () => {
+    const automaticallyAuth = pool.getPool().automaticallyAuth!;
+    expect(automaticallyAuth(RELAY)).toBeNull();
+
+    setRelayAuthPolicy(RELAY, 'always');
+    expect(automaticallyAuth(RELAY)).toBeTypeOf('function');
+  });
+});
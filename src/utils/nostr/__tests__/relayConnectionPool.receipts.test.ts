@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Event } from 'nostr-tools';
+import { RelayConnectionPool } from '../relayConnectionPool';
+
+const RELAY = 'wss://notices.example';
+
+const makeEvent = (id: string) =>
+  ({ id, pubkey: 'p', kind: 1, created_at: 1, tags: [], content: '', sig: 's' }) as Event;
+
+const deferred = () => {
+  let resolve: (value: string) => void = () => {};
+  const promise = new Promise<string>((res) => {
+    resolve = res;
+  });
+  return { promise, resolve };
+};
+
+describe('RelayConnectionPool.publishWithReceipts', () => {
+  let pool: RelayConnectionPool;
+
+  beforeEach(() => {
+    pool = new RelayConnectionPool();
+  });
+
+  afterEach(() => {
+    pool.destroy();
+  });
+
+  it('routes notices to every overlapping publish and keeps the relay handler', async () => {
+    const original = vi.fn();
+    const relay = { url: RELAY, close: vi.fn(), onnotice: original as (msg: string) => void };
+    vi.spyOn(pool.getPool(), 'ensureRelay').mockResolvedValue(relay as never);
+
+    const replies = new Map<string, ReturnType<typeof deferred>>();
+    vi.spyOn(pool.getPool(), 'publish').mockImplementation((_relays, event) => {
+      const reply = deferred();
+      replies.set(event.id, reply);
+      return [reply.promise];
+    });
+
+    const first = pool.publishWithReceipts([RELAY], makeEvent('a'));
+    const second = pool.publishWithReceipts([RELAY], makeEvent('b'));
+    await vi.waitFor(() => expect(replies.size).toBe(2));
+
+    relay.onnotice('slow down');
+    replies.get('a')!.resolve('');
+    const [firstReceipt] = await first;
+
+    relay.onnotice('still slow');
+    replies.get('b')!.resolve('');
+    const [secondReceipt] = await second;
+
+    relay.onnotice('after');
+
+    expect(firstReceipt.notices).toEqual(['slow down']);
+    expect(secondReceipt.notices).toEqual(['slow down', 'still slow']);
+    expect(original.mock.calls.map(([msg]) => msg)).toEqual(['slow down', 'still slow', 'after']);
+  });
+
+  it('returns error receipts instead of throwing once destroyed', async () => {
+    pool.destroy();
+
+    await expect(pool.publishWithReceipts([RELAY], makeEvent('c'))).resolves.toEqual([
+      { url: RELAY, outcome: 'error', message: 'RelayConnectionPool has been destroyed', notices: [] },
+    ]);
+  });
+});
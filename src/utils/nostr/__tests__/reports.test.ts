@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Event } from 'nostr-tools';
+import {
+  REPORT_KIND,
+  buildReportTags,
+  describeReportSummary,
+  fetchNoteReports,
+  summarizeReports,
+} from '../reports';
+
+const AUTHOR = 'a'.repeat(64);
+const NOTE = 'b'.repeat(64);
+const FRIEND = 'c'.repeat(64);
+const OTHER_FRIEND = 'd'.repeat(64);
+const STRANGER = 'e'.repeat(64);
+
+const report = (pubkey: string, type: string, created_at = 100, id = `${pubkey}:${created_at}`) => ({
+  id,
+  pubkey,
+  kind: REPORT_KIND,
+  created_at,
+  tags: [
+    ['e', NOTE, type],
+    ['p', AUTHOR],
+  ],
+});
+
+describe('reports', () => {
+  it('puts the report type on the e tag for notes and the p tag for profiles', () => {
+    expect(buildReportTags({ pubkey: AUTHOR, eventId: NOTE }, 'spam')).toEqual([
+      ['e', NOTE, 'spam'],
+      ['p', AUTHOR],
+    ]);
+    expect(buildReportTags({ pubkey: AUTHOR }, 'impersonation')).toEqual([
+      ['p', AUTHOR, 'impersonation'],
+    ]);
+    expect(() => buildReportTags({ pubkey: 'npub1x' }, 'spam')).toThrow();
+  });
+
+  it('counts one report per trusted reporter and ignores strangers', () => {
+    const trusted = new Set([FRIEND, OTHER_FRIEND]);
+    const summary = summarizeReports(
+      [
+        report(FRIEND, 'spam', 100),
+        report(FRIEND, 'nudity', 200),
+        report(OTHER_FRIEND, 'bogus'),
+        report(STRANGER, 'illegal'),
+      ],
+      NOTE,
+      trusted
+    );
+    expect(summary.count).toBe(2);
+    expect(summary.reporters.sort()).toEqual([FRIEND, OTHER_FRIEND]);
+    expect(summary.types.sort()).toEqual(['nudity', 'other']);
+  });
+
+  it('ignores reports about other notes', () => {
+    const summary = summarizeReports([report(FRIEND, 'spam')], 'f'.repeat(64), new Set([FRIEND]));
+    expect(summary.count).toBe(0);
+  });
+
+  it('describes a summary for the placeholder', () => {
+    expect(describeReportSummary({ count: 1, reporters: [FRIEND], types: ['spam'] })).toBe(
+      'Reported by 1 trusted account: spam'
+    );
+    expect(
+      describeReportSummary({ count: 2, reporters: [FRIEND, OTHER_FRIEND], types: ['spam', 'nudity'] })
+    ).toBe('Reported by 2 trusted accounts: spam, nudity');
+  });
+
+  it('fetches reports for notes rendered together in one query', async () => {
+    const OTHER_NOTE = 'f'.repeat(64);
+    const otherReport = { ...report(FRIEND, 'spam', 200), tags: [['e', OTHER_NOTE, 'spam']] };
+    const pool = {
+      querySync: vi.fn(async () => [report(FRIEND, 'nudity'), otherReport] as unknown as Event[]),
+    };
+    const relays = ['wss://a.example'];
+
+    const [forNote, forOther, again] = await Promise.all([
+      fetchNoteReports(pool, relays, NOTE),
+      fetchNoteReports(pool, relays, OTHER_NOTE),
+      fetchNoteReports(pool, relays, NOTE),
+    ]);
+
+    expect(pool.querySync).toHaveBeenCalledTimes(1);
+    expect(pool.querySync).toHaveBeenCalledWith(
+      relays,
+      expect.objectContaining({ kinds: [REPORT_KIND], '#e': [NOTE, OTHER_NOTE] })
+    );
+    expect(forNote.map((e) => e.created_at)).toEqual([100]);
+    expect(again).toEqual(forNote);
+    expect(forOther).toEqual([otherReport]);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  fetchZapperPubkey,
+  getLnurlEndpoint,
+  parseInvoiceMsats,
+  validateZapReceipt,
+} from '../zapReceipts';
+
+// 20u = 2000 sats
+const INVOICE =
+  'lnbc20u1p3y0x3hpp5743k2g0fsqqxj7n8qzuhns5gmkk4djeejk3wkp64ppevgekvc0jsdqcve5kzar2v9nr5gpqd4hkuetesp5ez2g297jduwc20t6lmqlsg3man0vf2jfd8ar9fh8fhn2g8yttfkqxqy9gcqcqzys9qrsgqrzjqtx3k77yrrav9hye7zar2rtqlfkytl094dsp0ms5majzth6gt7ca6uhdkxl983uywgqqqqlgqqqvx5qqjqrzjqd98kxkpyw0l9tyy8r8q57k7zpy9zjmh6sez752wj6gcumqnj3yxzhdsmg6qq56utgqqqqqqqqqqqeqqjq7jd56882gtxhrjm03c93aacyfy306m4fq0tskf83c0nmet8zc2lxyyg3saz8x6vwcp26xnrlagf9semau3qm2glysp7sv95693fphvsp54l567';
+const INVOICE_MSATS = 2_000_000;
+
+const ZAPPER = 'a'.repeat(64);
+const RECIPIENT = 'b'.repeat(64);
+const SENDER = 'c'.repeat(64);
+const NOTE = 'd'.repeat(64);
+
+const zapRequest = (tags: string[][]) => ({
+  id: 'req',
+  pubkey: SENDER,
+  kind: 9734,
+  created_at: 1,
+  content: 'great note',
+  sig: 'sig',
+  tags,
+});
+
+const receipt = (overrides: { pubkey?: string; request?: object; tags?: string[][] } = {}) => ({
+  kind: 9735,
+  pubkey: overrides.pubkey ?? ZAPPER,
+  tags: overrides.tags ?? [
+    ['p', RECIPIENT],
+    ['e', NOTE],
+    ['bolt11', INVOICE],
+    [
+      'description',
+      JSON.stringify(
+        overrides.request ??
+          zapRequest([
+            ['p', RECIPIENT],
+            ['e', NOTE],
+            ['amount', String(INVOICE_MSATS)],
+          ])
+      ),
+    ],
+  ],
+});
+
+const context = { zapperPubkey: ZAPPER, recipientPubkey: RECIPIENT, noteId: NOTE };
+
+describe('zapReceipts', () => {
+  it('reads the invoice amount in millisatoshis', () => {
+    expect(parseInvoiceMsats(INVOICE)).toBe(INVOICE_MSATS);
+    expect(parseInvoiceMsats('lnbc-not-an-invoice')).toBeNull();
+  });
+
+  it('accepts a receipt signed by the zapper that matches its request', () => {
+    const result = validateZapReceipt(receipt(), context);
+    expect(result.valid).toBe(true);
+    if (result.valid) {
+      expect(result.amountMsats).toBe(INVOICE_MSATS);
+      expect(result.request.pubkey).toBe(SENDER);
+    }
+  });
+
+  it('rejects receipts signed by anyone but the zapper', () => {
+    expect(validateZapReceipt(receipt({ pubkey: SENDER }), context).valid).toBe(false);
+  });
+
+  it('rejects a request amount that differs from the invoice', () => {
+    const request = zapRequest([
+      ['p', RECIPIENT],
+      ['e', NOTE],
+      ['amount', '21000000'],
+    ]);
+    expect(validateZapReceipt(receipt({ request }), context).valid).toBe(false);
+  });
+
+  it('rejects requests for another recipient or note', () => {
+    const otherNote = zapRequest([
+      ['p', RECIPIENT],
+      ['e', 'e'.repeat(64)],
+    ]);
+    const otherRecipient = zapRequest([
+      ['p', SENDER],
+      ['e', NOTE],
+    ]);
+    expect(validateZapReceipt(receipt({ request: otherNote }), context).valid).toBe(false);
+    expect(validateZapReceipt(receipt({ request: otherRecipient }), context).valid).toBe(false);
+  });
+
+  it('rejects receipts without an invoice or request', () => {
+    expect(validateZapReceipt(receipt({ tags: [['p', RECIPIENT], ['e', NOTE]] }), context).valid).toBe(false);
+  });
+
+  it('resolves the LNURL endpoint from lud16', () => {
+    expect(getLnurlEndpoint({ lud16: 'alice@example.com' })).toBe(
+      'https://example.com/.well-known/lnurlp/alice'
+    );
+    expect(getLnurlEndpoint({ lud16: 'nonsense' })).toBeNull();
+    expect(getLnurlEndpoint({})).toBeNull();
+  });
+
+  it('only trusts a nostrPubkey from endpoints that allow nostr', async () => {
+    const respond = (body: object) =>
+      vi.fn().mockResolvedValue({ ok: true, json: async () => body }) as unknown as typeof fetch;
+    await expect(
+      fetchZapperPubkey('https://x.test', respond({ allowsNostr: true, nostrPubkey: ZAPPER }))
+    ).resolves.toBe(ZAPPER);
+    await expect(
+      fetchZapperPubkey('https://x.test', respond({ allowsNostr: false, nostrPubkey: ZAPPER }))
+    ).resolves.toBeNull();
+    await expect(
+      fetchZapperPubkey('https://x.test', respond({ allowsNostr: true, nostrPubkey: 'npub1x' }))
+    ).resolves.toBeNull();
+  });
+});
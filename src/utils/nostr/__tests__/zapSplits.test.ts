@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { buildZapSplitTags, getZapSplits, splitZapAmount, withZapSplits } from '../zapSplits';
+
+const ALICE = 'a'.repeat(64);
+const BOB = 'b'.repeat(64);
+const CAROL = 'c'.repeat(64);
+
+describe('zapSplits', () => {
+  it('reads weighted zap tags and skips invalid or zero-weight ones', () => {
+    expect(
+      getZapSplits([
+        ['zap', ALICE, 'wss://relay.test', '3'],
+        ['zap', BOB, '', '1'],
+        ['zap', CAROL, '', '0'],
+        ['zap', 'npub1nothex', '', '5'],
+        ['p', ALICE],
+      ])
+    ).toEqual([
+      { pubkey: ALICE, relay: 'wss://relay.test', weight: 3 },
+      { pubkey: BOB, relay: undefined, weight: 1 },
+    ]);
+  });
+
+  it('splits equally when no tag has a weight', () => {
+    expect(getZapSplits([['zap', ALICE], ['zap', BOB]]).map((s) => s.weight)).toEqual([1, 1]);
+  });
+
+  it('divides whole sats by weight without losing any to rounding', () => {
+    const shares = splitZapAmount(100, [
+      { pubkey: ALICE, weight: 1 },
+      { pubkey: BOB, weight: 1 },
+      { pubkey: CAROL, weight: 1 },
+    ]);
+    expect(shares.map((s) => s.amount)).toEqual([34, 33, 33]);
+    expect(splitZapAmount(1, [{ pubkey: ALICE, weight: 1 }, { pubkey: BOB, weight: 1 }])).toEqual([
+      { pubkey: ALICE, relay: undefined, amount: 1 },
+    ]);
+    expect(splitZapAmount(0, [{ pubkey: ALICE, weight: 1 }])).toEqual([]);
+  });
+
+  it('round-trips through tags and replaces existing splits', () => {
+    const splits = [{ pubkey: ALICE, weight: 2 }];
+    expect(buildZapSplitTags(splits)).toEqual([['zap', ALICE, '', '2']]);
+    expect(withZapSplits([['t', 'art'], ['zap', BOB, '', '1']], splits)).toEqual([
+      ['t', 'art'],
+      ['zap', ALICE, '', '2'],
+    ]);
+    expect(withZapSplits([['zap', BOB, '', '1']], [])).toEqual([]);
+  });
+});
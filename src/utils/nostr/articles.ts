@@ -0,0 +1,175 @@
+import { nip19, type Event, type Filter } from 'nostr-tools';
+import type { RelayConnectionPool } from './relayConnectionPool';
+
+// NIP-23 long-form content and its drafts
+export const ARTICLE_KIND = 30023;
+export const ARTICLE_DRAFT_KIND = 30024;
+
+export interface ArticleFields {
+  identifier: string; // d tag
+  title: string;
+  summary: string;
+  image: string;
+  publishedAt?: number; // unix seconds; set once on first publish
+  hashtags: string[];
+  content: string; // markdown
+}
+
+export const EMPTY_ARTICLE: ArticleFields = {
+  identifier: '',
+  title: '',
+  summary: '',
+  image: '',
+  hashtags: [],
+  content: '',
+};
+
+// Tags the editor owns; everything else on an edited article is carried over
+const EDITOR_TAGS = new Set(['d', 'title', 'summary', 'image', 'published_at', 't']);
+
+/**
+ * Turn a title into a d tag: lowercase words joined by dashes
+ */
+export function slugifyIdentifier(title: string): string {
+  return title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80);
+}
+
+/**
+ * Read editor fields back out of a kind 30023/30024 event
+ */
+export function parseArticleEvent(event: Pick<Event, 'tags' | 'content'>): ArticleFields {
+  const getTag = (name: string) => event.tags.find((t) => t[0] === name)?.[1] ?? '';
+  const publishedAt = Number(getTag('published_at'));
+  return {
+    identifier: getTag('d'),
+    title: getTag('title'),
+    summary: getTag('summary'),
+    image: getTag('image'),
+    publishedAt: Number.isFinite(publishedAt) && publishedAt > 0 ? publishedAt : undefined,
+    hashtags: event.tags.filter((t) => t[0] === 't' && t[1]).map((t) => t[1]),
+    content: event.content ?? '',
+  };
+}
+
+/**
+ * Build the tags for an article or draft. `preservedTags` are the tags of the
+ * event being edited; ones the editor doesn't manage (e.g. imeta) are kept.
+ */
+export function buildArticleTags(fields: ArticleFields, preservedTags: string[][] = []): string[][] {
+  const identifier = fields.identifier.trim();
+  if (!identifier) throw new Error('Article identifier (d tag) required');
+
+  const tags: string[][] = [['d', identifier]];
+  if (fields.title.trim()) tags.push(['title', fields.title.trim()]);
+  if (fields.summary.trim()) tags.push(['summary', fields.summary.trim()]);
+  if (fields.image.trim()) tags.push(['image', fields.image.trim()]);
+  if (fields.publishedAt) tags.push(['published_at', String(fields.publishedAt)]);
+
+  const hashtags = new Set(fields.hashtags.map((t) => t.trim().replace(/^#/, '').toLowerCase()).filter(Boolean));
+  hashtags.forEach((t) => tags.push(['t', t]));
+
+  const seen = new Set(tags.map((t) => JSON.stringify(t)));
+  for (const tag of preservedTags) {
+    if (!Array.isArray(tag) || EDITOR_TAGS.has(tag[0])) continue;
+    const key = JSON.stringify(tag);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    tags.push(tag);
+  }
+  return tags;
+}
+
+/**
+ * Parse an naddr or a "kind:pubkey:identifier" coordinate
+ */
+export function parseArticleAddress(
+  addr: string
+): { kind: number; pubkey: string; identifier: string; relays?: string[] } | null {
+  try {
+    if (addr.startsWith('naddr')) {
+      const decoded = nip19.decode(addr);
+      if (decoded.type !== 'naddr') return null;
+      return {
+        kind: decoded.data.kind,
+        pubkey: decoded.data.pubkey,
+        identifier: decoded.data.identifier,
+        relays: decoded.data.relays,
+      };
+    }
+    const raw = addr.startsWith('a:') ? addr.slice(2) : addr;
+    const [kind, pubkey, ...rest] = raw.split(':');
+    if (!kind || !pubkey || rest.length === 0) return null;
+    return { kind: Number(kind), pubkey, identifier: rest.join(':') };
+  } catch {
+    return null;
+  }
+}
+
+export function encodeArticleAddress(
+  pubkey: string,
+  identifier: string,
+  kind: number = ARTICLE_KIND,
+  relays?: string[]
+): string {
+  return nip19.naddrEncode({ kind, pubkey, identifier, relays });
+}
+
+/**
+ * Newest version of an addressable article (or draft) by its d tag
+ */
+export async function fetchArticle(params: {
+  pool: RelayConnectionPool;
+  relayUrls: string[];
+  pubkey: string;
+  identifier: string;
+  kind?: number;
+}): Promise<Event | null> {
+  const { pool, relayUrls, pubkey, identifier } = params;
+  const filter: Filter = {
+    kinds: [params.kind ?? ARTICLE_KIND],
+    authors: [pubkey],
+    '#d': [identifier],
+    limit: 1,
+  };
+  try {
+    const events = await pool.querySync(relayUrls, filter);
+    return events.sort((a, b) => b.created_at - a.created_at)[0] ?? null;
+  } catch (error) {
+    console.error('Failed to fetch article:', error);
+    return null;
+  }
+}
+
+/**
+ * The user's kind 30024 drafts, newest version of each d tag first
+ */
+export async function fetchArticleDrafts(params: {
+  pool: RelayConnectionPool;
+  relayUrls: string[];
+  pubkey: string;
+}): Promise<Event[]> {
+  const { pool, relayUrls, pubkey } = params;
+  try {
+    const events = await pool.querySync(relayUrls, {
+      kinds: [ARTICLE_DRAFT_KIND],
+      authors: [pubkey],
+      limit: 50,
+    });
+    const newest = new Map<string, Event>();
+    for (const event of events) {
+      const d = event.tags.find((t) => t[0] === 'd')?.[1] ?? '';
+      const current = newest.get(d);
+      if (!current || event.created_at > current.created_at) newest.set(d, event);
+    }
+    return Array.from(newest.values()).sort((a, b) => b.created_at - a.created_at);
+  } catch (error) {
+    console.error('Failed to fetch article drafts:', error);
+    return [];
+  }
+}
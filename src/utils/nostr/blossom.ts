@@ -0,0 +1,246 @@
+import type { Event } from 'nostr-tools';
+import { nip07SignEvent } from './nip07';
+
+// Blossom: BUD-01/02 (auth, list, delete), BUD-03 (server list), BUD-04 (mirror)
+
+export const BLOSSOM_AUTH_KIND = 24242;
+export const BLOSSOM_SERVER_LIST_KIND = 10063;
+
+const SHA256_HEX = /^[0-9a-f]{64}$/;
+
+export type BlossomVerb = 'upload' | 'delete';
+
+/**
+ * Blob descriptor returned by Blossom servers for upload, mirror and list
+ */
+export interface BlobDescriptor {
+  url: string;
+  sha256: string;
+  size: number;
+  type?: string;
+  uploaded: number;
+}
+
+export interface BlossomRequestOptions {
+  fetchImpl?: typeof fetch;
+  sign?: (template: { kind: number; content: string; tags: string[][] }) => Promise<Event>;
+  // Seconds the auth event stays valid
+  expiresIn?: number;
+}
+
+export interface BlossomMirrorResult {
+  server: string;
+  status: 'pending' | 'mirrored' | 'failed';
+  blob?: BlobDescriptor;
+  error?: string;
+}
+
+/**
+ * Server URL with a trailing slash so endpoints resolve beneath it
+ */
+export function normalizeBlossomServerUrl(server: string): string {
+  const trimmed = server.trim();
+  return trimmed.endsWith('/') ? trimmed : `${trimmed}/`;
+}
+
+const endpoint = (server: string, path: string) =>
+  new URL(path, normalizeBlossomServerUrl(server)).toString();
+
+const sameServer = (a: string, b: string) =>
+  normalizeBlossomServerUrl(a).toLowerCase() === normalizeBlossomServerUrl(b).toLowerCase();
+
+const toBase64 = (text: string): string => {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+  return btoa(binary);
+};
+
+/**
+ * Authorization header value for a Blossom request, signed with the
+ * current session's signer
+ */
+export async function createBlossomAuthHeader(
+  verb: BlossomVerb,
+  hashes: string[] = [],
+  options: BlossomRequestOptions = {}
+): Promise<string> {
+  const sign = options.sign ?? nip07SignEvent;
+  const expiration = Math.floor(Date.now() / 1000) + (options.expiresIn ?? 60);
+  const event = await sign({
+    kind: BLOSSOM_AUTH_KIND,
+    content: `${verb[0].toUpperCase()}${verb.slice(1)} blob`,
+    tags: [['t', verb], ['expiration', String(expiration)], ...hashes.map((x) => ['x', x])],
+  });
+  return `Nostr ${toBase64(JSON.stringify(event))}`;
+}
+
+const readError = async (response: Response): Promise<string> => {
+  // BUD-01 servers put a human readable reason in X-Reason
+  const reason = response.headers.get('X-Reason');
+  return reason ? `${response.status} ${reason}` : `${response.status} ${response.statusText}`.trim();
+};
+
+const isBlobDescriptor = (value: unknown): value is BlobDescriptor => {
+  const blob = value as BlobDescriptor | null;
+  return Boolean(
+    blob &&
+      typeof blob.url === 'string' &&
+      typeof blob.sha256 === 'string' &&
+      SHA256_HEX.test(blob.sha256.toLowerCase())
+  );
+};
+
+const normalizeBlob = (blob: BlobDescriptor): BlobDescriptor => ({
+  url: blob.url,
+  sha256: blob.sha256.toLowerCase(),
+  size: Number(blob.size) || 0,
+  type: typeof blob.type === 'string' && blob.type ? blob.type : undefined,
+  uploaded: Number(blob.uploaded) || 0,
+});
+
+/**
+ * Ask a server to copy a blob from another server's URL (BUD-04 PUT /mirror)
+ */
+export async function mirrorBlob(
+  server: string,
+  url: string,
+  sha256: string,
+  options: BlossomRequestOptions = {}
+): Promise<BlobDescriptor> {
+  const fetchImpl = options.fetchImpl ?? fetch;
+  const response = await fetchImpl(endpoint(server, 'mirror'), {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: await createBlossomAuthHeader('upload', [sha256], options),
+    },
+    body: JSON.stringify({ url }),
+  });
+  if (!response.ok) throw new Error(await readError(response));
+  const data = await response.json();
+  if (!isBlobDescriptor(data)) throw new Error('Server returned an invalid blob descriptor');
+  if (data.sha256.toLowerCase() !== sha256.toLowerCase()) {
+    throw new Error('Mirrored blob hash does not match the original');
+  }
+  return normalizeBlob(data);
+}
+
+/**
+ * Mirror an uploaded blob to every other server. One failing server does not
+ * stop the rest; each gets its own result.
+ */
+export async function mirrorBlobToServers(
+  sourceServer: string,
+  servers: string[],
+  url: string,
+  sha256: string,
+  options: BlossomRequestOptions & { onResult?: (result: BlossomMirrorResult) => void } = {}
+): Promise<BlossomMirrorResult[]> {
+  const targets = getMirrorTargets(sourceServer, servers);
+  return Promise.all(
+    targets.map(async (server): Promise<BlossomMirrorResult> => {
+      let result: BlossomMirrorResult;
+      try {
+        result = { server, status: 'mirrored', blob: await mirrorBlob(server, url, sha256, options) };
+      } catch (error) {
+        result = {
+          server,
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Mirror failed',
+        };
+      }
+      options.onResult?.(result);
+      return result;
+    })
+  );
+}
+
+/**
+ * Configured servers other than the one the blob was uploaded to, without duplicates
+ */
+export function getMirrorTargets(sourceServer: string, servers: string[]): string[] {
+  const targets: string[] = [];
+  for (const server of servers) {
+    if (!server.trim() || sameServer(server, sourceServer)) continue;
+    if (targets.some((t) => sameServer(t, server))) continue;
+    targets.push(server);
+  }
+  return targets;
+}
+
+/**
+ * Blobs a pubkey has stored on a server, newest first (BUD-02 GET /list)
+ */
+export async function listBlobs(
+  server: string,
+  pubkey: string,
+  options: Pick<BlossomRequestOptions, 'fetchImpl'> = {}
+): Promise<BlobDescriptor[]> {
+  const fetchImpl = options.fetchImpl ?? fetch;
+  // Listing is unauthenticated so browsing the library never prompts the signer
+  const response = await fetchImpl(endpoint(server, `list/${pubkey}`));
+  if (!response.ok) throw new Error(await readError(response));
+  const data = await response.json();
+  if (!Array.isArray(data)) throw new Error('Server returned an invalid blob list');
+  return data
+    .filter(isBlobDescriptor)
+    .map(normalizeBlob)
+    .sort((a, b) => b.uploaded - a.uploaded);
+}
+
+/**
+ * Delete one of our blobs from a server (BUD-02 DELETE /<sha256>)
+ */
+export async function deleteBlob(
+  server: string,
+  sha256: string,
+  options: BlossomRequestOptions = {}
+): Promise<void> {
+  const fetchImpl = options.fetchImpl ?? fetch;
+  const response = await fetchImpl(endpoint(server, sha256), {
+    method: 'DELETE',
+    headers: { Authorization: await createBlossomAuthHeader('delete', [sha256], options) },
+  });
+  if (!response.ok) throw new Error(await readError(response));
+}
+
+/**
+ * NIP-94 style tags for a stored blob, the same shape an upload produces, so
+ * composers can insert a past upload like a fresh one
+ */
+export function blobToFileTags(blob: BlobDescriptor): string[][] {
+  const tags: string[][] = [['url', blob.url], ['x', blob.sha256], ['ox', blob.sha256]];
+  if (blob.size > 0) tags.push(['size', String(blob.size)]);
+  if (blob.type) tags.push(['m', blob.type]);
+  return tags;
+}
+
+/**
+ * Servers from a kind 10063 list in order of preference; the first is where
+ * clients upload
+ */
+export function getBlossomServersFromTags(tags: string[][] | undefined | null): string[] {
+  const servers: string[] = [];
+  for (const tag of tags || []) {
+    if (!Array.isArray(tag) || tag[0] !== 'server' || !tag[1]) continue;
+    try {
+      const url = new URL(tag[1].trim());
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') continue;
+    } catch {
+      continue;
+    }
+    const server = normalizeBlossomServerUrl(tag[1]);
+    if (!servers.some((s) => sameServer(s, server))) servers.push(server);
+  }
+  return servers;
+}
+
+/**
+ * Kind 10063 server tags with the primary server first
+ */
+export function buildBlossomServerTags(servers: string[], primary?: string): string[][] {
+  const ordered = primary && servers.some((s) => sameServer(s, primary))
+    ? [primary, ...servers.filter((s) => !sameServer(s, primary))]
+    : servers;
+  return getBlossomServersFromTags(ordered.map((s) => ['server', s])).map((s) => ['server', s]);
+}
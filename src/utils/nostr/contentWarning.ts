@@ -0,0 +1,32 @@
+// NIP-36 content warnings: ["content-warning", <optional reason>]
+
+export const CONTENT_WARNING_TAG = 'content-warning';
+
+const MAX_REASON_LENGTH = 200;
+
+/**
+ * The stated reason of a note's content warning: '' when the tag has no
+ * reason, null when the note has no content warning at all.
+ */
+export function getContentWarning(tags: string[][] | undefined | null): string | null {
+  const tag = (tags || []).find((t) => Array.isArray(t) && t[0] === CONTENT_WARNING_TAG);
+  if (!tag) return null;
+  return typeof tag[1] === 'string' ? tag[1].trim().slice(0, MAX_REASON_LENGTH) : '';
+}
+
+export function buildContentWarningTag(reason: string): string[] {
+  const trimmed = reason.trim();
+  return trimmed ? [CONTENT_WARNING_TAG, trimmed] : [CONTENT_WARNING_TAG];
+}
+
+/**
+ * Add, replace or (with null) remove the content warning in a tag list
+ */
+export function withContentWarning(tags: string[][], reason: string | null): string[][] {
+  const rest = tags.filter((t) => t[0] !== CONTENT_WARNING_TAG);
+  return reason === null ? rest : [...rest, buildContentWarningTag(reason)];
+}
+
+export function describeContentWarning(reason: string): string {
+  return reason ? `Content warning: ${reason}` : 'Content warning';
+}
@@ -203,4 +203,40 @@ export const listEncryptedSecrets = async (): Promise<Array<{ pubkey: string; ti
   });
 };
 
+// Remote signer (NIP-46) sessions share the keystore, keyed as 'nip46_<userPubkey>'.
+// The client key is a throwaway the bunker authorized, so it's stored without a passphrase.
+export interface RemoteSignerSessionRecord {
+  pubkey: string;
+  clientSecretHex: string;
+  bunkerPubkey: string;
+  relays: string[];
+  version: number;
+  timestamp: number;
+}
+
+export const storeRemoteSignerSession = async (record: RemoteSignerSessionRecord): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([KEYSTORE_STORE], 'readwrite');
+    const store = transaction.objectStore(KEYSTORE_STORE);
+    const request = store.put(record);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve();
+  });
+};
+
+export const getRemoteSignerSession = async (key: string): Promise<RemoteSignerSessionRecord | null> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([KEYSTORE_STORE], 'readonly');
+    const store = transaction.objectStore(KEYSTORE_STORE);
+    const request = store.get(key);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const record = request.result as RemoteSignerSessionRecord | undefined;
+      resolve(record && typeof record.clientSecretHex === 'string' ? record : null);
+    };
+  });
+};
+
 // Note: ASCII Cache management functions removed - ASCII renderer now renders dynamically
\ No newline at end of file
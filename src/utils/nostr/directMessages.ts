@@ -0,0 +1,326 @@
+import { nip44, generateSecretKey, finalizeEvent, getEventHash, verifyEvent } from 'nostr-tools';
+import type { Event, Filter } from 'nostr-tools';
+import { nip07SignEvent, nip44Encrypt, nip44Decrypt } from './nip07';
+import { RelayConnectionPool } from './relayConnectionPool';
+
+// NIP-17 private direct messages
+export const DM_CHAT_KIND = 14;
+export const DM_SEAL_KIND = 13;
+export const DM_GIFT_WRAP_KIND = 1059;
+export const DM_RELAY_LIST_KIND = 10050;
+
+// Seal and wrap timestamps are randomized up to two days in the past (NIP-59)
+const TIMESTAMP_JITTER_SECONDS = 2 * 24 * 60 * 60;
+
+/**
+ * Unsigned kind 14 event carried inside the seal
+ */
+export interface DmRumor {
+  id: string;
+  pubkey: string;
+  created_at: number;
+  kind: number;
+  tags: string[][];
+  content: string;
+}
+
+/**
+ * A decrypted direct message, flattened for display
+ */
+export interface DirectMessage {
+  id: string;
+  wrapId: string;
+  sender: string;
+  recipients: string[];
+  content: string;
+  created_at: number;
+  replyTo?: string;
+  subject?: string;
+}
+
+/**
+ * All messages exchanged with a single peer
+ */
+export interface DmConversation {
+  peer: string;
+  messages: DirectMessage[];
+  lastMessageAt: number;
+}
+
+const isHexPubkey = (value: string) => /^[0-9a-f]{64}$/i.test(value);
+
+function randomPastTimestamp(): number {
+  const now = Math.floor(Date.now() / 1000);
+  return now - Math.floor(Math.random() * TIMESTAMP_JITTER_SECONDS);
+}
+
+/**
+ * Build the kind 14 rumor (unsigned, but with a computed id)
+ */
+export function createDmRumor(params: {
+  senderPubkey: string;
+  recipientPubkey: string;
+  content: string;
+  replyTo?: { id: string; relayUrl?: string };
+  subject?: string;
+  createdAt?: number;
+}): DmRumor {
+  const { senderPubkey, recipientPubkey, content } = params;
+  if (!isHexPubkey(senderPubkey)) throw new Error('Invalid sender pubkey');
+  if (!isHexPubkey(recipientPubkey)) throw new Error('Invalid recipient pubkey');
+  if (!content || content.trim().length === 0) throw new Error('Message content required');
+
+  const tags: string[][] = [['p', recipientPubkey]];
+  if (params.replyTo?.id) {
+    tags.push(['e', params.replyTo.id, params.replyTo.relayUrl || '', 'reply']);
+  }
+  if (params.subject) {
+    tags.push(['subject', params.subject]);
+  }
+
+  const unsigned = {
+    pubkey: senderPubkey,
+    created_at: params.createdAt ?? Math.floor(Date.now() / 1000),
+    kind: DM_CHAT_KIND,
+    tags,
+    content,
+  };
+  return { ...unsigned, id: getEventHash(unsigned) };
+}
+
+/**
+ * Seal (kind 13) the rumor for one recipient with the active signer
+ */
+export async function sealDmRumor(rumor: DmRumor, recipientPubkey: string): Promise<Event> {
+  const encrypted = await nip44Encrypt(recipientPubkey, JSON.stringify(rumor));
+  const signed = await nip07SignEvent({
+    kind: DM_SEAL_KIND,
+    content: encrypted,
+    tags: [],
+    created_at: randomPastTimestamp(),
+  });
+  return signed as Event;
+}
+
+/**
+ * Gift wrap (kind 1059) a seal with a throwaway key so relays only see the recipient
+ */
+export function giftWrapSeal(seal: Event, recipientPubkey: string): Event {
+  const ephemeralKey = generateSecretKey();
+  const conversationKey = nip44.v2.utils.getConversationKey(ephemeralKey, recipientPubkey);
+  const content = nip44.v2.encrypt(JSON.stringify(seal), conversationKey);
+  return finalizeEvent(
+    {
+      kind: DM_GIFT_WRAP_KIND,
+      content,
+      tags: [['p', recipientPubkey]],
+      created_at: randomPastTimestamp(),
+    },
+    ephemeralKey
+  );
+}
+
+/**
+ * Open a gift wrap addressed to the active signer and return the inner rumor.
+ * Throws when the wrap or seal can't be decrypted or the seal was forged.
+ */
+export async function unwrapGiftWrap(wrap: Event): Promise<DmRumor> {
+  if (wrap.kind !== DM_GIFT_WRAP_KIND) throw new Error('Not a gift wrap event');
+
+  const sealJson = await nip44Decrypt(wrap.pubkey, wrap.content);
+  const seal = JSON.parse(sealJson) as Event;
+  if (seal.kind !== DM_SEAL_KIND || !verifyEvent(seal)) {
+    throw new Error('Invalid seal');
+  }
+
+  const rumorJson = await nip44Decrypt(seal.pubkey, seal.content);
+  const rumor = JSON.parse(rumorJson) as DmRumor;
+  // The rumor must be authored by whoever signed the seal, otherwise it's an impersonation attempt
+  if (rumor.pubkey !== seal.pubkey) {
+    throw new Error('Rumor author does not match seal signer');
+  }
+  return rumor;
+}
+
+/**
+ * Flatten a kind 14 rumor into a DirectMessage
+ */
+export function rumorToDirectMessage(rumor: DmRumor, wrapId: string): DirectMessage {
+  const tags = Array.isArray(rumor.tags) ? rumor.tags : [];
+  const recipients = tags.filter(t => t[0] === 'p' && t[1]).map(t => t[1]);
+  const replyTag = tags.find(t => t[0] === 'e' && t[1]);
+  const subjectTag = tags.find(t => t[0] === 'subject' && t[1]);
+  return {
+    id: rumor.id,
+    wrapId,
+    sender: rumor.pubkey,
+    recipients,
+    content: rumor.content || '',
+    created_at: rumor.created_at,
+    replyTo: replyTag?.[1],
+    subject: subjectTag?.[1],
+  };
+}
+
+/**
+ * The other party of a one-to-one message from the user's point of view.
+ * Messages to self are grouped under the user's own pubkey.
+ */
+export function getConversationPeer(message: DirectMessage, userPubkey: string): string {
+  if (message.sender !== userPubkey) return message.sender;
+  return message.recipients.find(pk => pk !== userPubkey) || userPubkey;
+}
+
+/**
+ * Group messages into per-peer conversations, newest conversation first.
+ * Messages inside a conversation are sorted oldest first and de-duplicated by rumor id
+ * (we receive our own sent messages back through the self-addressed wrap).
+ */
+export function groupDmConversations(messages: DirectMessage[], userPubkey: string): DmConversation[] {
+  const byPeer = new Map<string, Map<string, DirectMessage>>();
+  for (const message of messages) {
+    const peer = getConversationPeer(message, userPubkey);
+    if (!byPeer.has(peer)) byPeer.set(peer, new Map());
+    byPeer.get(peer)!.set(message.id, message);
+  }
+
+  const conversations: DmConversation[] = [];
+  byPeer.forEach((map, peer) => {
+    const sorted = Array.from(map.values()).sort((a, b) => a.created_at - b.created_at);
+    conversations.push({
+      peer,
+      messages: sorted,
+      lastMessageAt: sorted.length > 0 ? sorted[sorted.length - 1].created_at : 0,
+    });
+  });
+
+  return conversations.sort((a, b) => b.lastMessageAt - a.lastMessageAt);
+}
+
+/**
+ * Extract relay URLs from a kind 10050 DM relay list
+ */
+export function parseDmRelayList(event: Pick<Event, 'tags'> | null | undefined): string[] {
+  if (!event || !Array.isArray(event.tags)) return [];
+  const urls = event.tags
+    .filter(t => t[0] === 'relay' && typeof t[1] === 'string' && /^wss?:\/\//i.test(t[1]))
+    .map(t => t[1].trim());
+  return Array.from(new Set(urls));
+}
+
+/**
+ * Fetch a user's preferred DM inbox relays (kind 10050)
+ */
+export async function fetchDmRelays(params: {
+  pool: RelayConnectionPool;
+  relayUrls: string[];
+  pubkey: string;
+}): Promise<string[]> {
+  const { pool, relayUrls, pubkey } = params;
+  if (!pool) throw new Error('Nostr client not ready');
+  if (!Array.isArray(relayUrls) || relayUrls.length === 0) throw new Error('No relays configured');
+  if (!isHexPubkey(pubkey)) throw new Error('Invalid pubkey');
+
+  try {
+    const filter: Filter = { kinds: [DM_RELAY_LIST_KIND], authors: [pubkey], limit: 1 };
+    const events: Event[] = await pool.querySync(relayUrls, filter);
+    if (events.length === 0) return [];
+    const latest = events.sort((a, b) => (b.created_at || 0) - (a.created_at || 0))[0];
+    return parseDmRelayList(latest);
+  } catch (error) {
+    console.error('Failed to fetch DM relay list:', error);
+    return [];
+  }
+}
+
+/**
+ * Send a NIP-17 direct message.
+ * The rumor is sealed and wrapped twice: once for the recipient (published to their
+ * kind 10050 relays) and once for ourselves so the message shows up on our other devices.
+ * Falls back to the given relays when either side has no DM relay list.
+ */
+export async function publishDirectMessage(params: {
+  pool: RelayConnectionPool;
+  relayUrls: string[];
+  senderPubkey: string;
+  recipientPubkey: string;
+  content: string;
+  replyTo?: { id: string; relayUrl?: string };
+}): Promise<{ message: DirectMessage; recipientRelays: string[] }> {
+  const { pool, relayUrls, senderPubkey, recipientPubkey, content } = params;
+  if (!pool) throw new Error('Nostr client not ready');
+  if (!Array.isArray(relayUrls) || relayUrls.length === 0) throw new Error('No relays configured');
+
+  const [recipientDmRelays, ownDmRelays] = await Promise.all([
+    fetchDmRelays({ pool, relayUrls, pubkey: recipientPubkey }),
+    recipientPubkey === senderPubkey
+      ? Promise.resolve<string[]>([])
+      : fetchDmRelays({ pool, relayUrls, pubkey: senderPubkey }),
+  ]);
+  const recipientRelays = recipientDmRelays.length > 0 ? recipientDmRelays : relayUrls;
+  const ownRelays = ownDmRelays.length > 0 ? ownDmRelays : relayUrls;
+
+  const rumor = createDmRumor({ senderPubkey, recipientPubkey, content, replyTo: params.replyTo });
+
+  const recipientWrap = giftWrapSeal(await sealDmRumor(rumor, recipientPubkey), recipientPubkey);
+  await pool.publish(recipientRelays, recipientWrap);
+
+  if (recipientPubkey !== senderPubkey) {
+    try {
+      const selfWrap = giftWrapSeal(await sealDmRumor(rumor, senderPubkey), senderPubkey);
+      await pool.publish(ownRelays, selfWrap);
+    } catch (error) {
+      // The recipient already has the message; only our own copy is missing
+      console.warn('Failed to publish self-addressed DM copy:', error);
+    }
+  }
+
+  return { message: rumorToDirectMessage(rumor, recipientWrap.id), recipientRelays };
+}
+
+/**
+ * Fetch and decrypt gift-wrapped DMs addressed to the user.
+ * Wraps that fail to decrypt or don't carry a kind 14 rumor are skipped.
+ */
+export async function fetchDirectMessages(params: {
+  pool: RelayConnectionPool;
+  relayUrls: string[];
+  userPubkey: string;
+  since?: number;
+  limit?: number;
+}): Promise<DirectMessage[]> {
+  const { pool, relayUrls, userPubkey } = params;
+  if (!pool) throw new Error('Nostr client not ready');
+  if (!Array.isArray(relayUrls) || relayUrls.length === 0) throw new Error('No relays configured');
+  if (!isHexPubkey(userPubkey)) throw new Error('Invalid user pubkey');
+
+  const dmRelays = await fetchDmRelays({ pool, relayUrls, pubkey: userPubkey });
+  const queryRelays = Array.from(new Set([...dmRelays, ...relayUrls]));
+
+  const filter: Filter = {
+    kinds: [DM_GIFT_WRAP_KIND],
+    '#p': [userPubkey],
+    limit: params.limit ?? 200,
+  };
+  // Wrap timestamps are randomized into the past, so widen the window accordingly
+  if (params.since) filter.since = Math.max(0, params.since - TIMESTAMP_JITTER_SECONDS);
+
+  const wraps: Event[] = await pool.querySync(queryRelays, filter);
+  const seen = new Set<string>();
+  const messages: DirectMessage[] = [];
+
+  // Decrypt sequentially: NIP-07 extensions serialize prompts anyway
+  for (const wrap of wraps) {
+    if (seen.has(wrap.id)) continue;
+    seen.add(wrap.id);
+    try {
+      const rumor = await unwrapGiftWrap(wrap);
+      if (rumor.kind !== DM_CHAT_KIND) continue;
+      messages.push(rumorToDirectMessage(rumor, wrap.id));
+    } catch (error) {
+      console.warn('Skipping undecryptable gift wrap:', wrap.id.slice(0, 8), error);
+    }
+  }
+
+  return messages;
+}
@@ -0,0 +1,267 @@
+import type { Event, Filter } from 'nostr-tools';
+import { nip07SignEvent, nip44Decrypt, nip44Encrypt } from './nip07';
+import { RelayConnectionPool } from './relayConnectionPool';
+import { filterRelaysByEventKind, filterRelaysByEventKindAndCapabilities } from './publish';
+import type { RelayPermission } from '../../types/nostr/types';
+import type { RelayInfo } from './relayInfo';
+
+// NIP-51 list kinds used by the app
+export const MUTE_LIST_KIND = 10000;
+export const BOOKMARK_LIST_KIND = 10003;
+export const FOLLOW_SET_KIND = 30000;
+export const BOOKMARK_SET_KIND = 30003;
+
+/**
+ * A decoded NIP-51 list. Private entries come from the NIP-44 encrypted content
+ * and are only present when the list belongs to the current signer.
+ */
+export interface NostrList {
+  kind: number;
+  pubkey: string;
+  dTag: string; // '' for replaceable (non-parameterized) lists
+  title?: string;
+  description?: string;
+  publicTags: string[][];
+  privateTags: string[][];
+  // Other list metadata (image, alt, ...) we don't edit but write back as is
+  metadataTags?: string[][];
+  created_at: number;
+  // False when the content was present but could not be decrypted
+  privateReadable: boolean;
+  event?: Event;
+}
+
+// Tags that describe the list itself rather than its entries
+const LIST_METADATA_TAGS = new Set(['d', 'title', 'name', 'description', 'image', 'client', 'alt']);
+// The subset publishList writes itself
+const MANAGED_METADATA_TAGS = new Set(['d', 'title', 'description']);
+
+const isParameterizedKind = (kind: number) => kind >= 30000 && kind < 40000;
+
+/**
+ * Address of a list in NIP-01 "kind:pubkey:d" form
+ */
+export function getListAddress(list: Pick<NostrList, 'kind' | 'pubkey' | 'dTag'>): string {
+  return `${list.kind}:${list.pubkey}:${list.dTag}`;
+}
+
+export function getListTitle(list: NostrList): string {
+  return list.title || list.dTag || (list.kind === BOOKMARK_LIST_KIND ? 'Bookmarks' : 'Untitled list');
+}
+
+/**
+ * All entries of a list, public first. Duplicates across public/private are dropped.
+ */
+export function getListEntries(list: NostrList): string[][] {
+  const seen = new Set<string>();
+  const entries: string[][] = [];
+  for (const tag of [...list.publicTags, ...list.privateTags]) {
+    const key = `${tag[0]}:${tag[1]}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    entries.push(tag);
+  }
+  return entries;
+}
+
+/**
+ * Pubkeys (p tags) of a list, e.g. the authors of a follow set
+ */
+export function getListPubkeys(list: NostrList): string[] {
+  return getListEntries(list)
+    .filter(t => t[0] === 'p' && /^[0-9a-f]{64}$/i.test(t[1] || ''))
+    .map(t => t[1].toLowerCase());
+}
+
+/**
+ * Decode a NIP-51 list event. Pass the current user's pubkey to decrypt private entries
+ * when the list is theirs; other users' private entries are never readable.
+ */
+export async function parseListEvent(event: Event, ownerPubkey?: string): Promise<NostrList> {
+  const tags = Array.isArray(event.tags) ? event.tags : [];
+  const dTag = tags.find(t => t[0] === 'd')?.[1] ?? '';
+  const title = tags.find(t => t[0] === 'title' || t[0] === 'name')?.[1];
+  const description = tags.find(t => t[0] === 'description')?.[1];
+  const publicTags = tags.filter(t => Array.isArray(t) && t.length >= 2 && !LIST_METADATA_TAGS.has(t[0]));
+  const metadataTags = tags.filter(
+    t => Array.isArray(t) && LIST_METADATA_TAGS.has(t[0]) && !MANAGED_METADATA_TAGS.has(t[0])
+  );
+
+  let privateTags: string[][] = [];
+  let privateReadable = true;
+  const content = (event.content || '').trim();
+  if (content) {
+    privateReadable = false;
+    // Legacy NIP-04 payloads contain "?iv=" and aren't supported
+    if (ownerPubkey && event.pubkey === ownerPubkey && !content.includes('?iv=')) {
+      try {
+        const decrypted = await nip44Decrypt(ownerPubkey, content);
+        const parsed = JSON.parse(decrypted) as unknown;
+        if (Array.isArray(parsed)) {
+          privateTags = parsed.filter(
+            (t): t is string[] => Array.isArray(t) && t.length >= 2 && t.every(v => typeof v === 'string')
+          );
+          privateReadable = true;
+        }
+      } catch (error) {
+        console.warn('Failed to decrypt private list entries:', error);
+      }
+    }
+  }
+
+  return {
+    kind: event.kind,
+    pubkey: event.pubkey,
+    dTag,
+    title,
+    description,
+    publicTags,
+    privateTags,
+    metadataTags,
+    created_at: event.created_at,
+    privateReadable,
+    event,
+  };
+}
+
+/**
+ * Fetch the latest version of each list of the given kinds for a pubkey
+ */
+export async function fetchLists(params: {
+  pool: RelayConnectionPool;
+  relayUrls: string[];
+  pubkey: string;
+  kinds: number[];
+  ownerPubkey?: string; // decrypt private entries when equal to pubkey
+}): Promise<NostrList[]> {
+  const { pool, relayUrls, pubkey, kinds } = params;
+  if (!pool || relayUrls.length === 0 || !pubkey) return [];
+
+  const filter: Filter = { kinds, authors: [pubkey], limit: 100 };
+  const events: Event[] = await pool.querySync(relayUrls, filter);
+
+  // Replaceable semantics: keep newest per kind + d tag
+  const latest = new Map<string, Event>();
+  for (const ev of events) {
+    if (ev.pubkey !== pubkey || !kinds.includes(ev.kind)) continue;
+    const d = isParameterizedKind(ev.kind) ? ev.tags.find(t => t[0] === 'd')?.[1] ?? '' : '';
+    const key = `${ev.kind}:${d}`;
+    const existing = latest.get(key);
+    if (!existing || ev.created_at > existing.created_at) {
+      latest.set(key, ev);
+    }
+  }
+
+  const lists = await Promise.all(
+    Array.from(latest.values()).map(ev => parseListEvent(ev, params.ownerPubkey))
+  );
+  // Empty follow sets are how clients "delete" them; hide those
+  return lists
+    .filter(l => l.kind === BOOKMARK_LIST_KIND || l.publicTags.length > 0 || l.privateTags.length > 0 || !l.privateReadable)
+    .sort((a, b) => getListTitle(a).localeCompare(getListTitle(b)));
+}
+
+/**
+ * Sign and publish a NIP-51 list. Private entries are NIP-44 encrypted to the author.
+ */
+export async function publishList(params: {
+  pool: RelayConnectionPool;
+  relayUrls: string[];
+  ownerPubkey: string;
+  kind: number;
+  dTag?: string;
+  title?: string;
+  description?: string;
+  metadataTags?: string[][];
+  publicTags: string[][];
+  privateTags?: string[][];
+  relayPermissions?: Map<string, RelayPermission>;
+  relayInfoMap?: Map<string, RelayInfo>;
+}): Promise<NostrList> {
+  const { pool, relayUrls, ownerPubkey, kind } = params;
+  if (!pool) throw new Error('Nostr client not ready');
+  if (!Array.isArray(relayUrls) || relayUrls.length === 0) throw new Error('No relays configured');
+  if (isParameterizedKind(kind) && !params.dTag) throw new Error('List identifier is required');
+
+  const tags: string[][] = [];
+  if (isParameterizedKind(kind)) tags.push(['d', params.dTag as string]);
+  if (params.title) tags.push(['title', params.title]);
+  if (params.description) tags.push(['description', params.description]);
+  tags.push(...(params.metadataTags ?? []).filter(t => !MANAGED_METADATA_TAGS.has(t[0])));
+  tags.push(...params.publicTags);
+
+  const privateTags = params.privateTags ?? [];
+  const content = privateTags.length > 0 ? await nip44Encrypt(ownerPubkey, JSON.stringify(privateTags)) : '';
+
+  const signed = await nip07SignEvent({ kind, content, tags });
+
+  // Filter relays based on event kind, permissions, and capabilities
+  let filteredRelayUrls: string[];
+  if (params.relayPermissions && params.relayInfoMap) {
+    filteredRelayUrls = filterRelaysByEventKindAndCapabilities(relayUrls, params.relayPermissions, params.relayInfoMap, kind);
+  } else if (params.relayPermissions) {
+    filteredRelayUrls = filterRelaysByEventKind(relayUrls, params.relayPermissions, kind);
+  } else {
+    filteredRelayUrls = relayUrls;
+  }
+
+  await pool.publish(filteredRelayUrls, signed as unknown as Event);
+
+  return {
+    kind,
+    pubkey: signed.pubkey,
+    dTag: params.dTag ?? '',
+    title: params.title,
+    description: params.description,
+    publicTags: params.publicTags,
+    privateTags,
+    metadataTags: params.metadataTags,
+    created_at: signed.created_at,
+    privateReadable: true,
+    event: signed as unknown as Event,
+  };
+}
+
+/**
+ * Add or move an entry between the public and private parts of a list
+ */
+export function upsertListEntry(list: NostrList, entry: string[], isPrivate: boolean): NostrList {
+  const matches = (t: string[]) => t[0] === entry[0] && t[1] === entry[1];
+  const publicTags = list.publicTags.filter(t => !matches(t));
+  const privateTags = list.privateTags.filter(t => !matches(t));
+  if (isPrivate) privateTags.push(entry);
+  else publicTags.push(entry);
+  return { ...list, publicTags, privateTags };
+}
+
+export function removeListEntry(list: NostrList, entry: string[]): NostrList {
+  const matches = (t: string[]) => t[0] === entry[0] && t[1] === entry[1];
+  return {
+    ...list,
+    publicTags: list.publicTags.filter(t => !matches(t)),
+    privateTags: list.privateTags.filter(t => !matches(t)),
+  };
+}
+
+/**
+ * Derive a d tag from a human title ("Work feed" -> "work-feed")
+ */
+export function slugifyListTitle(title: string): string {
+  const slug = title
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug || `list-${Date.now().toString(36)}`;
+}
+
+/**
+ * d tag for a new list that doesn't replace one of `existing` ("work", "work-2", ...)
+ */
+export function uniqueListDTag(title: string, existing: Iterable<string>): string {
+  const taken = new Set(existing);
+  const base = slugifyListTitle(title);
+  let dTag = base;
+  for (let n = 2; taken.has(dTag); n++) dTag = `${base}-${n}`;
+  return dTag;
+}
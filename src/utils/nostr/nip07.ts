@@ -1,5 +1,6 @@
-import { nip19, getPublicKey as nostrGetPublicKey, finalizeEvent } from 'nostr-tools';
+import { nip19, nip44, getPublicKey as nostrGetPublicKey, finalizeEvent } from 'nostr-tools';
 import { minePowForEventBase, type EventBaseForPow } from './pow';
+import { getActiveRemoteSigner, getActiveRemoteSignerPubkey } from './nip46';
 import { storeEncryptedSecret, getEncryptedSecret, removeEncryptedSecret, listEncryptedSecrets } from './db';
 import { pbkdf2 as noblePbkdf2 } from '@noble/hashes/pbkdf2';
 import { sha256 } from '@noble/hashes/sha2';
@@ -44,6 +45,13 @@ export function hasInMemorySecretKey(): boolean {
   return Boolean(inMemorySecretKeyHex);
 }
 
+/**
+ * Whether any signer is available: unlocked key, remote signer or extension
+ */
+export function hasActiveSigner(): boolean {
+  return Boolean(inMemorySecretKeyHex) || Boolean(getActiveRemoteSigner()) || hasNip07();
+}
+
 // WebCrypto helpers for secure persistence
 function getWebCrypto(): Crypto | null {
   if (typeof window === 'undefined') return null;
@@ -331,7 +339,7 @@ export async function listPersistedAccounts(): Promise<Array<{ pubkey: string; t
     .concat(
       // Also include old format accounts (for backward compatibility during migration)
       records
-        .filter(r => !r.pubkey.startsWith('nsec_') && !r.pubkey.startsWith('nwc_'))
+        .filter(r => !r.pubkey.startsWith('nsec_') && !r.pubkey.startsWith('nwc_') && !r.pubkey.startsWith('nip46_'))
         .map(r => ({ pubkey: r.pubkey, timestamp: r.timestamp || 0 }))
     );
 }
@@ -382,19 +390,6 @@ export async function nip07SignEvent(
   base: { kind: number; created_at?: number; tags?: string[][]; content: string },
   options?: { timeoutMs?: number; powTargetBits?: number; signal?: AbortSignal }
 ): Promise<any> {
-  // Serialize concurrent NIP-07 sign requests to avoid extension deadlocks/timeouts
-  // Many extensions only handle one prompt at a time; concurrent calls can cause timeouts
-  // We keep a simple global promise chain to ensure sequential execution
-  if (!(globalThis as any).__nip07SignQueue) {
-    (globalThis as any).__nip07SignQueue = Promise.resolve();
-  }
-  const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
-    const q: Promise<any> = (globalThis as any).__nip07SignQueue;
-    const next = q.then(task, task);
-    // Ensure the queue continues even if this task rejects
-    (globalThis as any).__nip07SignQueue = next.catch(() => undefined);
-    return next;
-  };
   // If PoW is requested, mine first using the pubkey that will sign
   if (options?.powTargetBits && options.powTargetBits > 0) {
     const createdAt = base.created_at ?? Math.floor(Date.now() / 1000);
@@ -431,6 +426,29 @@ export async function nip07SignEvent(
       return signed;
     }
 
+    // Remote signer (NIP-46): mine locally, then only the final signature goes over the wire
+    if (getActiveRemoteSigner()) {
+      const pubkey = await getRemoteSignerPubkey(options?.timeoutMs ?? 15000);
+      const toMine: EventBaseForPow = {
+        pubkey,
+        kind: base.kind,
+        created_at: createdAt,
+        tags,
+        content: base.content,
+      };
+      const sessionId = `nip46-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+      const mined = await minePowForEventBase(toMine, options.powTargetBits, {
+        signal: options.signal,
+        sessionId
+      });
+
+      return signWithRemoteSigner(
+        { kind: mined.kind, created_at: mined.created_at, tags: mined.tags, content: mined.content },
+        options?.timeoutMs ?? 60000
+      );
+    }
+
     if (hasNip07()) {
 
       const pubkey = await nip07GetPublicKey({ timeoutMs: options?.timeoutMs ?? 15000 });
@@ -459,7 +477,7 @@ export async function nip07SignEvent(
       } as any;
       const timeoutMs = options?.timeoutMs ?? 30000; // Increased timeout for signing
 
-      const signed = await enqueue(() =>
+      const signed = await enqueueNip07Request(() =>
         withTimeout(
           window.nostr!.signEvent(minedEvent),
           timeoutMs,
@@ -497,6 +515,10 @@ export async function nip07SignEvent(
     return signed;
   }
 
+  if (getActiveRemoteSigner()) {
+    return signWithRemoteSigner(event, options?.timeoutMs ?? 60000);
+  }
+
   if (hasNip07()) {
     const timeoutMs = options?.timeoutMs ?? 30000;
 
@@ -504,7 +526,7 @@ export async function nip07SignEvent(
     const pubkey = await nip07GetPublicKey({ timeoutMs });
     const eventWithPubkey = { ...event, pubkey };
     
-    const signed = await enqueue(() =>
+    const signed = await enqueueNip07Request(() =>
       withTimeout(
         window.nostr!.signEvent(eventWithPubkey),
         timeoutMs,
@@ -518,6 +540,127 @@ export async function nip07SignEvent(
   throw new Nip07Error('No signing method available');
 }
 
+async function getRemoteSignerPubkey(timeoutMs: number): Promise<string> {
+  const known = getActiveRemoteSignerPubkey();
+  if (known) return known;
+  const signer = getActiveRemoteSigner();
+  if (!signer) throw new Nip07Error('No remote signer connected');
+  return withTimeout(signer.getPublicKey(), timeoutMs, 'Remote signer did not respond in time');
+}
+
+async function signWithRemoteSigner(
+  event: { kind: number; created_at: number; tags: string[][]; content: string },
+  timeoutMs: number
+) {
+  const signer = getActiveRemoteSigner();
+  if (!signer) throw new Nip07Error('No remote signer connected');
+  return withTimeout(
+    signer.signEvent(event),
+    timeoutMs,
+    'Remote signer did not respond to sign request in time. Please check your signer app and try again.'
+  );
+}
+
+// Serialize concurrent NIP-07 requests (sign, encrypt, decrypt) to avoid extension deadlocks/timeouts
+// Many extensions only handle one prompt at a time; concurrent calls can cause timeouts
+// We keep a simple global promise chain to ensure sequential execution
+function enqueueNip07Request<T>(task: () => Promise<T>): Promise<T> {
+  if (!(globalThis as any).__nip07SignQueue) {
+    (globalThis as any).__nip07SignQueue = Promise.resolve();
+  }
+  const q: Promise<any> = (globalThis as any).__nip07SignQueue;
+  const next = q.then(task, task);
+  // Ensure the queue continues even if this task rejects
+  (globalThis as any).__nip07SignQueue = next.catch(() => undefined);
+  return next;
+}
+
+/**
+ * Returns the pubkey of whichever signer nip07SignEvent would use right now
+ * (in-memory nsec first, then a NIP-46 remote signer, then the NIP-07 extension)
+ */
+export async function getActiveSignerPubkey(options?: { timeoutMs?: number }): Promise<string> {
+  if (inMemorySecretKeyHex) {
+    return derivePubkeyHexFromSecretHex(inMemorySecretKeyHex);
+  }
+  if (getActiveRemoteSigner()) {
+    return getRemoteSignerPubkey(options?.timeoutMs ?? 30000);
+  }
+  if (hasNip07()) {
+    return nip07GetPublicKey(options);
+  }
+  throw new Nip07Error('No signing method available');
+}
+
+/**
+ * NIP-44 (v2) encryption with the active signer.
+ * Uses the in-memory secret key when unlocked, otherwise the remote signer or the extension's nip44 API.
+ */
+export async function nip44Encrypt(
+  peerPubkeyHex: string,
+  plaintext: string,
+  options?: { timeoutMs?: number }
+): Promise<string> {
+  if (inMemorySecretKeyHex) {
+    const conversationKey = nip44.v2.utils.getConversationKey(hexToBytes(inMemorySecretKeyHex), peerPubkeyHex);
+    return nip44.v2.encrypt(plaintext, conversationKey);
+  }
+
+  const remoteSigner = getActiveRemoteSigner();
+  if (remoteSigner) {
+    return withTimeout(
+      remoteSigner.nip44Encrypt(peerPubkeyHex, plaintext),
+      options?.timeoutMs ?? 60000,
+      'Remote signer did not respond to encrypt request in time'
+    );
+  }
+
+  if (hasNip07()) {
+    const ext = window.nostr!.nip44;
+    if (!ext) throw new Nip07Error('Your Nostr extension does not support NIP-44 encryption');
+    const timeoutMs = options?.timeoutMs ?? 30000;
+    return enqueueNip07Request(() =>
+      withTimeout(ext.encrypt(peerPubkeyHex, plaintext), timeoutMs, 'Extension did not respond to encrypt request in time')
+    );
+  }
+
+  throw new Nip07Error('No signing method available');
+}
+
+/**
+ * NIP-44 (v2) decryption with the active signer.
+ */
+export async function nip44Decrypt(
+  peerPubkeyHex: string,
+  ciphertext: string,
+  options?: { timeoutMs?: number }
+): Promise<string> {
+  if (inMemorySecretKeyHex) {
+    const conversationKey = nip44.v2.utils.getConversationKey(hexToBytes(inMemorySecretKeyHex), peerPubkeyHex);
+    return nip44.v2.decrypt(ciphertext, conversationKey);
+  }
+
+  const remoteSigner = getActiveRemoteSigner();
+  if (remoteSigner) {
+    return withTimeout(
+      remoteSigner.nip44Decrypt(peerPubkeyHex, ciphertext),
+      options?.timeoutMs ?? 60000,
+      'Remote signer did not respond to decrypt request in time'
+    );
+  }
+
+  if (hasNip07()) {
+    const ext = window.nostr!.nip44;
+    if (!ext) throw new Nip07Error('Your Nostr extension does not support NIP-44 decryption');
+    const timeoutMs = options?.timeoutMs ?? 30000;
+    return enqueueNip07Request(() =>
+      withTimeout(ext.decrypt(peerPubkeyHex, ciphertext), timeoutMs, 'Extension did not respond to decrypt request in time')
+    );
+  }
+
+  throw new Nip07Error('No signing method available');
+}
+
 async function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
   let timeoutHandle: number | undefined;
   const timeoutPromise = new Promise<never>((_, reject) => {
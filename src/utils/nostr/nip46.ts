@@ -0,0 +1,205 @@
+import { generateSecretKey, getPublicKey } from 'nostr-tools';
+import {
+  BunkerSigner,
+  createNostrConnectURI,
+  parseBunkerInput,
+  type BunkerPointer,
+} from 'nostr-tools/nip46';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import {
+  getRemoteSignerSession,
+  listEncryptedSecrets,
+  removeEncryptedSecret,
+  storeRemoteSignerSession,
+} from './db';
+
+// Relays used for nostrconnect:// handshakes when the caller doesn't supply any
+export const DEFAULT_NOSTR_CONNECT_RELAYS = [
+  'wss://relay.nsec.app',
+  'wss://relay.damus.io',
+];
+
+const SESSION_KEY_PREFIX = 'nip46_';
+
+// Permissions we ask the remote signer for up front so it doesn't prompt for every kind
+const REQUESTED_PERMISSIONS = [
+  'get_public_key',
+  'sign_event',
+  'nip04_encrypt',
+  'nip04_decrypt',
+  'nip44_encrypt',
+  'nip44_decrypt',
+];
+
+const CLIENT_METADATA = { name: 'NRIC-1', url: typeof window !== 'undefined' ? window.location.origin : undefined };
+
+export class Nip46Error extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'Nip46Error';
+  }
+}
+
+export interface RemoteSignerConnection {
+  signer: BunkerSigner;
+  userPubkey: string;
+  clientSecretHex: string;
+  bunker: BunkerPointer;
+}
+
+export interface NostrConnectRequest {
+  uri: string;
+  clientSecretHex: string;
+  relays: string[];
+}
+
+// Active remote signer for this page session (mirrors the in-memory nsec in nip07.ts)
+let activeRemoteSigner: BunkerSigner | null = null;
+let activeRemoteSignerPubkey: string | null = null;
+
+export function setActiveRemoteSigner(signer: BunkerSigner | null, userPubkey?: string | null) {
+  if (activeRemoteSigner && activeRemoteSigner !== signer) {
+    activeRemoteSigner.close().catch(() => {});
+  }
+  activeRemoteSigner = signer;
+  activeRemoteSignerPubkey = signer && userPubkey ? userPubkey.toLowerCase() : null;
+}
+
+export function getActiveRemoteSigner(): BunkerSigner | null {
+  return activeRemoteSigner;
+}
+
+export function getActiveRemoteSignerPubkey(): string | null {
+  return activeRemoteSignerPubkey;
+}
+
+export function hasActiveRemoteSigner(): boolean {
+  return Boolean(activeRemoteSigner && activeRemoteSignerPubkey);
+}
+
+/**
+ * Connect to a remote signer from a bunker:// URI (or a NIP-05 that advertises one)
+ */
+export async function connectBunker(
+  input: string,
+  options?: { onauth?: (url: string) => void; timeoutMs?: number }
+): Promise<RemoteSignerConnection> {
+  const trimmed = (input || '').trim();
+  if (!trimmed) throw new Nip46Error('No bunker URI provided');
+
+  const bunker = await parseBunkerInput(trimmed);
+  if (!bunker || bunker.relays.length === 0) {
+    throw new Nip46Error('Invalid bunker URI');
+  }
+
+  const clientSecret = generateSecretKey();
+  const signer = BunkerSigner.fromBunker(clientSecret, bunker, { onauth: options?.onauth });
+  try {
+    await withTimeout(signer.connect(), options?.timeoutMs ?? 60000, 'Remote signer did not respond in time');
+    const userPubkey = await withTimeout(signer.getPublicKey(), options?.timeoutMs ?? 60000, 'Remote signer did not return a public key');
+    return {
+      signer,
+      userPubkey,
+      clientSecretHex: bytesToHex(clientSecret),
+      // The connect secret is single-use; never keep it around
+      bunker: { ...bunker, secret: null },
+    };
+  } catch (error) {
+    signer.close().catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Build a nostrconnect:// URI for the user to open or paste into their signer app
+ */
+export function createNostrConnectRequest(relays: string[] = DEFAULT_NOSTR_CONNECT_RELAYS): NostrConnectRequest {
+  const clientSecret = generateSecretKey();
+  const secret = bytesToHex(generateSecretKey()).slice(0, 16);
+  const uri = createNostrConnectURI({
+    clientPubkey: getPublicKey(clientSecret),
+    relays,
+    secret,
+    perms: REQUESTED_PERMISSIONS,
+    name: CLIENT_METADATA.name,
+    url: CLIENT_METADATA.url,
+  });
+  return { uri, clientSecretHex: bytesToHex(clientSecret), relays };
+}
+
+/**
+ * Wait for the signer app to accept a nostrconnect:// request
+ */
+export async function waitForNostrConnect(
+  request: NostrConnectRequest,
+  options?: { onauth?: (url: string) => void; signal?: AbortSignal; timeoutMs?: number }
+): Promise<RemoteSignerConnection> {
+  const signer = await BunkerSigner.fromURI(
+    hexToBytes(request.clientSecretHex),
+    request.uri,
+    { onauth: options?.onauth },
+    options?.signal ?? options?.timeoutMs ?? 120000
+  );
+  try {
+    const userPubkey = await withTimeout(signer.getPublicKey(), options?.timeoutMs ?? 60000, 'Remote signer did not return a public key');
+    return {
+      signer,
+      userPubkey,
+      clientSecretHex: request.clientSecretHex,
+      bunker: { ...signer.bp, secret: null },
+    };
+  } catch (error) {
+    signer.close().catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Save a remote signer session to the keystore so it survives reloads
+ */
+export async function persistRemoteSignerSession(connection: RemoteSignerConnection): Promise<void> {
+  await storeRemoteSignerSession({
+    pubkey: `${SESSION_KEY_PREFIX}${connection.userPubkey.toLowerCase()}`,
+    clientSecretHex: connection.clientSecretHex,
+    bunkerPubkey: connection.bunker.pubkey,
+    relays: connection.bunker.relays,
+    version: 1,
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Recreate a remote signer from a saved session. Returns null when none is stored.
+ */
+export async function restoreRemoteSignerSession(
+  userPubkey: string,
+  options?: { onauth?: (url: string) => void }
+): Promise<RemoteSignerConnection | null> {
+  const record = await getRemoteSignerSession(`${SESSION_KEY_PREFIX}${userPubkey.toLowerCase()}`);
+  if (!record || !/^[0-9a-f]{64}$/i.test(record.clientSecretHex)) return null;
+
+  const bunker: BunkerPointer = { pubkey: record.bunkerPubkey, relays: record.relays, secret: null };
+  const signer = BunkerSigner.fromBunker(hexToBytes(record.clientSecretHex), bunker, { onauth: options?.onauth });
+  return { signer, userPubkey: userPubkey.toLowerCase(), clientSecretHex: record.clientSecretHex, bunker };
+}
+
+export async function listRemoteSignerSessions(): Promise<Array<{ pubkey: string; timestamp: number }>> {
+  const records = await listEncryptedSecrets();
+  return records
+    .filter(r => r.pubkey.startsWith(SESSION_KEY_PREFIX))
+    .map(r => ({ pubkey: r.pubkey.substring(SESSION_KEY_PREFIX.length), timestamp: r.timestamp || 0 }));
+}
+
+export async function removeRemoteSignerSession(userPubkey: string): Promise<void> {
+  await removeEncryptedSecret(`${SESSION_KEY_PREFIX}${userPubkey.toLowerCase()}`);
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Nip46Error(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => {
+    if (timer) clearTimeout(timer);
+  }) as Promise<T>;
+}
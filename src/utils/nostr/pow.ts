@@ -35,10 +35,190 @@ export function countLeadingZeroBits(hex: string): number {
   return nip13.getPow(hex)
 }
 
+/**
+ * Proof-of-work a received event can claim: the leading zero bits of its id,
+ * capped by the target committed in its nonce tag. Events without a nonce
+ * tag or a committed target claim none, so lucky ids don't count.
+ */
+export function getEffectivePow(event: { id: string; tags?: string[][] }): number {
+  const nonceTag = (event.tags || []).find(t => Array.isArray(t) && t[0] === 'nonce')
+  const committed = Number(nonceTag?.[2])
+  if (!nonceTag || !Number.isInteger(committed) || committed <= 0) return 0
+  if (!/^[0-9a-f]{64}$/.test(event.id || '')) return 0
+  return Math.min(countLeadingZeroBits(event.id), committed)
+}
+
 function removeExistingNonceTags(tags: string[][]): string[][] {
   return tags.filter(t => !(Array.isArray(t) && t[0] === 'nonce'))
 }
 
+// Upper bound on parallel workers, whatever the device reports
+const MAX_POW_WORKERS = 16
+
+// A worker that stops reporting for this long is considered hung
+const WORKER_STALL_TIMEOUT_MS = 120000
+
+/**
+ * One mining worker per logical core
+ */
+export function getPowWorkerCount(): number {
+  const cores = typeof navigator !== 'undefined' ? Number(navigator.hardwareConcurrency) : 1
+  return Math.min(Math.max(Number.isFinite(cores) ? Math.floor(cores) : 1, 1), MAX_POW_WORKERS)
+}
+
+type WorkerProgress = {
+  attempts: number
+  hashesPerSecond: number
+  bestBits: number
+}
+
+/**
+ * Combine per-worker progress into session totals: attempts and hash rates
+ * add up, the best hash is the best any worker has seen.
+ */
+export function combineWorkerProgress(
+  workers: WorkerProgress[],
+  targetBits: number
+): { attempts: number; hashesPerSecond: number; currentBits: number; progress: number; estimatedTimeRemaining: number | null } {
+  const attempts = workers.reduce((sum, w) => sum + w.attempts, 0)
+  const hashesPerSecond = workers.reduce((sum, w) => sum + w.hashesPerSecond, 0)
+  const currentBits = workers.reduce((best, w) => Math.max(best, w.bestBits), 0)
+  // Expected attempts to find target: 2^targetBits
+  const avgAttempts = Math.pow(2, targetBits)
+  const progress = Math.min((attempts / avgAttempts) * 100, 99.9)
+  const remainingAttempts = Math.max(avgAttempts - attempts, 0)
+  const estimatedTimeRemaining = hashesPerSecond > 0 ? remainingAttempts / hashesPerSecond : null
+  return { attempts, hashesPerSecond, currentBits, progress, estimatedTimeRemaining }
+}
+
+/**
+ * Mine on several workers at once. Worker i tries nonces i, i + n, i + 2n, ...
+ * so the nonce space is split without overlap. The first solution wins and
+ * every worker is terminated, as they are on abort or error.
+ */
+function mineWithWorkers(
+  base: EventBaseForPow,
+  targetBits: number,
+  sessionId: string,
+  workerCount: number,
+  signal?: AbortSignal
+): Promise<EventBaseForPow> {
+  return new Promise<EventBaseForPow>((resolve, reject) => {
+    const workers: Worker[] = []
+    const progressByWorker: WorkerProgress[] = Array.from({ length: workerCount }, () => ({
+      attempts: 0,
+      hashesPerSecond: 0,
+      bestBits: 0,
+    }))
+    let settled = false
+    let lastStoreUpdate = 0
+    let stallTimeoutId: ReturnType<typeof setTimeout> | undefined
+
+    const finish = () => {
+      settled = true
+      clearTimeout(stallTimeoutId)
+      try { if (signal) signal.removeEventListener('abort', onAbort) } catch {}
+      for (const worker of workers) {
+        try { worker.terminate() } catch {}
+      }
+    }
+
+    const fail = (error: unknown) => {
+      if (settled) return
+      finish()
+      powActions.setMiningError(sessionId, String(error))
+      reject(error instanceof Error ? error : new Error(String(error)))
+    }
+
+    // Reset on every message so only a hung worker pool times out
+    const armStallTimeout = () => {
+      clearTimeout(stallTimeoutId)
+      stallTimeoutId = setTimeout(() => {
+        console.error(`❌ POW: Workers silent for ${WORKER_STALL_TIMEOUT_MS / 1000} seconds`)
+        fail(new Error('Worker timeout'))
+      }, WORKER_STALL_TIMEOUT_MS)
+    }
+
+    function onAbort() {
+      if (settled) return
+      finish()
+      powActions.abortMining(sessionId)
+      reject(new Error('aborted'))
+    }
+    if (signal) signal.addEventListener('abort', onAbort, { once: true })
+
+    powActions.setWorkerCount(sessionId, workerCount)
+    armStallTimeout()
+
+    try {
+      for (let index = 0; index < workerCount; index++) {
+        startWorker(index)
+      }
+    } catch (error) {
+      fail(error)
+      return
+    }
+    console.log('✅ POW: Sent work to', workerCount, 'workers for session', sessionId)
+
+    function startWorker(index: number) {
+      const worker = new Worker(new URL('../../workers/powWorker.ts', import.meta.url), { type: 'module' } as any)
+      workers.push(worker)
+
+      worker.onmessage = (ev: MessageEvent) => {
+        if (settled) return
+        const data = ev.data || {}
+        armStallTimeout()
+        if (data.error) {
+          fail(new Error(String(data.error)))
+          return
+        }
+        if (data.progress) {
+          progressByWorker[index] = {
+            attempts: data.progress.attempts || 0,
+            hashesPerSecond: data.progress.hashesPerSecond || 0,
+            bestBits: data.progress.bestBits || data.progress.currentBits || 0,
+          }
+          // Workers report independently; publish the combined view at most every 100ms
+          const now = Date.now()
+          if (now - lastStoreUpdate < 100) return
+          lastStoreUpdate = now
+          const combined = combineWorkerProgress(progressByWorker, targetBits)
+          powActions.updateProgress(sessionId, {
+            currentBits: combined.currentBits,
+            nonce: combined.attempts,
+            progress: combined.progress,
+            hashesPerSecond: combined.hashesPerSecond,
+            estimatedTimeRemaining: combined.estimatedTimeRemaining,
+          })
+          return
+        }
+        if (data.mined) {
+          progressByWorker[index] = { ...progressByWorker[index], attempts: data.attempts || 0 }
+          finish()
+          powActions.updateProgress(sessionId, {
+            nonce: combineWorkerProgress(progressByWorker, targetBits).attempts,
+          })
+          powActions.completeMining(sessionId, data.mined)
+          resolve(data.mined as EventBaseForPow)
+        }
+      }
+
+      worker.onerror = (err) => {
+        console.error('❌ POW: Worker error event:', err)
+        fail(err)
+      }
+
+      worker.postMessage({
+        base,
+        targetBits,
+        sessionId,
+        startNonce: index,
+        stride: workerCount,
+      })
+    }
+  })
+}
+
 export type MineOptions = {
   signal?: AbortSignal
   maxIterations?: number
@@ -81,79 +261,15 @@ export async function minePowForEventBase(
   console.log('🚀 POW: Starting mining session...')
   powActions.startMining(sessionId, targetBits)
 
-  // Try web worker for responsiveness
+  // Try web workers for responsiveness, one per core
   if (typeof window !== 'undefined' && typeof Worker !== 'undefined') {
-    console.log('✅ POW: Web worker supported, creating module worker...')
+    const workerCount = getPowWorkerCount()
+    console.log('✅ POW: Web worker supported, creating', workerCount, 'module workers...')
     try {
-      const worker = new Worker(new URL('../../workers/powWorker.ts', import.meta.url), { type: 'module' } as any)
-      console.log('✅ POW: Module worker created successfully')
-
-      const mined = await new Promise<EventBaseForPow>((resolve, reject) => {
-        const onAbort = () => {
-          try { worker.terminate() } catch {}
-          powActions.abortMining(sessionId)
-          reject(new Error('aborted'))
-        }
-        if (signal) signal.addEventListener('abort', onAbort, { once: true })
-
-        worker.onmessage = (ev: MessageEvent) => {
-          const data = ev.data || {}
-          if (data.error) {
-            clearTimeout(timeoutId)
-            try { if (signal) signal.removeEventListener('abort', onAbort) } catch {}
-            try { worker.terminate() } catch {}
-            powActions.setMiningError(sessionId, String(data.error))
-            reject(new Error(String(data.error)))
-            return
-          }
-          if (data.progress) {
-            powActions.updateProgress(sessionId, {
-              currentBits: data.progress.currentBits || 0,
-              nonce: data.progress.nonce || 0,
-              progress: data.progress.progress || 0,
-              hashesPerSecond: data.progress.hashesPerSecond || 0,
-              estimatedTimeRemaining: data.progress.estimatedTimeRemaining || null,
-            })
-            return
-          }
-          if (data.mined) {
-            clearTimeout(timeoutId)
-            try { if (signal) signal.removeEventListener('abort', onAbort) } catch {}
-            try { worker.terminate() } catch {}
-            powActions.completeMining(sessionId, data.mined)
-            resolve(data.mined as EventBaseForPow)
-            return
-          }
-        }
-
-        worker.onerror = (err) => {
-          console.error('❌ POW: Worker error event:', err)
-          try { if (signal) signal.removeEventListener('abort', onAbort) } catch {}
-          try { worker.terminate() } catch {}
-          powActions.setMiningError(sessionId, String(err))
-          reject(err as any)
-        }
-
-        // Add timeout to detect if worker hangs
-        const timeoutId = setTimeout(() => {
-          console.error('❌ POW: Worker timeout after 120 seconds')
-          try { worker.terminate() } catch {}
-          powActions.setMiningError(sessionId, 'Worker timeout')
-          reject(new Error('Worker timeout'))
-        }, 120000)
-
-        // Send session info to worker
-        console.log('📤 POW: Sending data to worker:', { targetBits, sessionId })
-        worker.postMessage({
-          base: { ...base, tags: coreTags },
-          targetBits,
-          sessionId
-        })
-        console.log('✅ POW: Worker message sent, waiting for response...')
-      })
-      return mined
+      return await mineWithWorkers({ ...base, tags: coreTags }, targetBits, sessionId, workerCount, signal)
     } catch (error) {
-      console.log('⚠️ POW: Module worker failed or timed out, falling back to main-thread mining:', error)
+      if (signal?.aborted) throw error
+      console.log('⚠️ POW: Module workers failed or timed out, falling back to main-thread mining:', error)
       // Fallback to main-thread mining
     }
   }
@@ -0,0 +1,137 @@
+import type { Event } from 'nostr-tools';
+
+// Kind 0 profile content (NIP-01, NIP-24), kept as raw JSON so fields other
+// clients set survive our edits
+
+export type ProfileContent = Record<string, unknown>;
+
+export interface ProfileBirthday {
+  year?: number;
+  month?: number;
+  day?: number;
+}
+
+// What the edit form shows; birthday is the text form of ProfileBirthday
+export interface ProfileFormFields {
+  name: string;
+  about: string;
+  picture: string;
+  banner: string;
+  nip05: string;
+  lud16: string;
+  website: string;
+  bot: boolean;
+  birthday: string;
+}
+
+const STRING_FIELDS = ['about', 'picture', 'banner', 'nip05', 'lud16', 'website'] as const;
+
+const str = (value: unknown): string => (typeof value === 'string' ? value : '');
+const pad = (value: number, length: number) => String(value).padStart(length, '0');
+
+export function parseProfileContent(content: string): ProfileContent | null {
+  try {
+    const parsed = JSON.parse(content);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * "YYYY-MM-DD", "MM-DD" or "YYYY" depending on which parts are set
+ */
+export function formatBirthday(birthday: unknown): string {
+  if (!birthday || typeof birthday !== 'object') return '';
+  const { year, month, day } = birthday as ProfileBirthday;
+  const monthDay =
+    typeof month === 'number' && typeof day === 'number' ? `${pad(month, 2)}-${pad(day, 2)}` : '';
+  if (typeof year === 'number') return monthDay ? `${pad(year, 4)}-${monthDay}` : pad(year, 4);
+  return monthDay;
+}
+
+/**
+ * Inverse of formatBirthday. Returns null for text it can't read.
+ */
+export function parseBirthday(text: string): ProfileBirthday | null {
+  const value = text.trim();
+  let match = value.match(/^(\d{4})$/);
+  if (match) return { year: Number(match[1]) };
+
+  match = value.match(/^(?:(\d{4})-)?(\d{1,2})-(\d{1,2})$/);
+  if (!match) return null;
+  const month = Number(match[2]);
+  const day = Number(match[3]);
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return match[1] ? { year: Number(match[1]), month, day } : { month, day };
+}
+
+export function profileFormFromContent(content: ProfileContent): ProfileFormFields {
+  return {
+    name: str(content.display_name) || str(content.name),
+    about: str(content.about),
+    picture: str(content.picture),
+    banner: str(content.banner),
+    nip05: str(content.nip05),
+    lud16: str(content.lud16),
+    website: str(content.website),
+    bot: content.bot === true || content.bot === 'true',
+    birthday: formatBirthday(content.birthday),
+  };
+}
+
+/**
+ * Apply form values onto the latest raw content. Only fields that differ
+ * from what the form showed for `base` are written, so unknown keys and
+ * values in shapes we don't edit are left exactly as they were.
+ */
+export function mergeProfileContent(base: ProfileContent, fields: ProfileFormFields): ProfileContent {
+  const before = profileFormFromContent(base);
+  const next: ProfileContent = { ...base };
+  const assign = (key: string, value: string) => {
+    if (value) next[key] = value;
+    else delete next[key];
+  };
+
+  if (fields.name !== before.name) {
+    assign('display_name', fields.name);
+    // Leave a separate handle alone; otherwise keep the two in step
+    if (!str(base.name) || str(base.name) === before.name) assign('name', fields.name);
+  }
+
+  for (const key of STRING_FIELDS) {
+    if (fields[key] !== before[key]) assign(key, fields[key]);
+  }
+
+  if (fields.bot !== before.bot) {
+    if (fields.bot) next.bot = true;
+    else delete next.bot;
+  }
+
+  if (fields.birthday.trim() !== before.birthday) {
+    if (!fields.birthday.trim()) {
+      delete next.birthday;
+    } else {
+      const birthday = parseBirthday(fields.birthday);
+      if (!birthday) throw new Error('Birthday must be YYYY-MM-DD, MM-DD or YYYY');
+      next.birthday = birthday;
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Our readable kind 0 events, newest first and without duplicates
+ */
+export function getProfileHistory(events: Event[], pubkey: string): Event[] {
+  const byId = new Map<string, Event>();
+  for (const event of events) {
+    if (event.kind !== 0 || event.pubkey !== pubkey) continue;
+    if (!parseProfileContent(event.content)) continue;
+    byId.set(event.id, event);
+  }
+  return Array.from(byId.values()).sort(
+    (a, b) => b.created_at - a.created_at || a.id.localeCompare(b.id)
+  );
+}
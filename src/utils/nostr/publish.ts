@@ -7,6 +7,12 @@ import type { RelayPermission } from '../../types/nostr/types';
 
 import { INDEXER_EVENT_KINDS } from './relayClassification';
 import type { RelayInfo } from './relayInfo';
+import { getRelayAuthPolicy } from './relayAuth';
+import { publishNow } from './publishQueue';
+import { ARTICLE_DRAFT_KIND, ARTICLE_KIND, buildArticleTags, type ArticleFields } from './articles';
+import type { QueuedPublish } from '../../stores/publishQueueStore';
+import { REPORT_KIND, buildReportTags, type ReportTarget, type ReportType } from './reports';
+import { getEventAddress } from './queryInvalidation';
 
 /**
  * Enhanced relay filtering that respects both permissions and NIP-11 capabilities
@@ -67,9 +73,13 @@ export function filterRelaysByEventKindAndCapabilities(
       
       // Check authentication requirements
       if (relayInfo.limitation?.auth_required) {
-        console.log(`🔍 filterRelaysByEventKindAndCapabilities: ${url} requires authentication - assuming user is authenticated`);
-        // Note: We assume the user is authenticated if they're trying to publish
-        // In a more sophisticated implementation, we'd check the actual auth status
+        // The pool answers AUTH challenges (NIP-42) unless the user told us never to auth here,
+        // in which case the relay would only reject the event
+        if (getRelayAuthPolicy(url) === 'never') {
+          console.log(`🔍 filterRelaysByEventKindAndCapabilities: ${url} requires authentication but auth policy is "never", skipping`);
+          return false;
+        }
+        console.log(`🔍 filterRelaysByEventKindAndCapabilities: ${url} requires authentication - will answer AUTH challenge`);
       }
       
       // Check payment requirements
@@ -196,6 +206,10 @@ function getRequiredNipForEventKind(eventKind: number): number | null {
       return 58;
     case 30009: // Badge definition - NIP-58 (badges)
       return 58;
+    case 30023: // Long-form article - NIP-23 (long-form content)
+      return 23;
+    case 30024: // Long-form draft - NIP-23 (long-form content)
+      return 23;
     case 30078: // Application-specific data - NIP-78 (application-specific data)
       return 78;
     default:
@@ -211,7 +225,7 @@ export async function publishNote(
   relayPermissions?: Map<string, RelayPermission>,
   relayInfoMap?: Map<string, RelayInfo>,
   options?: { powTargetBits?: number; signal?: AbortSignal }
-): Promise<{ id: string; event: Event }> {
+): Promise<{ id: string; event: Event; delivery: QueuedPublish }> {
   if (!pool) throw new Error('Nostr client not ready');
   if (!Array.isArray(relayUrls) || relayUrls.length === 0) throw new Error('No relays configured');
   const signed = await nip07SignEvent({ 
@@ -232,13 +246,10 @@ export async function publishNote(
     filteredRelayUrls = relayUrls;
   }
   
-  // SimplePool.publish expects an array of relay urls
-  await pool.publish(filteredRelayUrls, signed);
-
-  // Trigger haptic feedback for successful note publish
-  // Haptic feedback now handled in components
+  // Goes through the outbox: relays that fail now are retried later
+  const delivery = await publishNow(pool, signed as unknown as Event, filteredRelayUrls);
 
-  return { id: signed.id, event: signed as unknown as Event };
+  return { id: signed.id, event: signed as unknown as Event, delivery };
 }
 
 /**
@@ -309,6 +320,7 @@ export async function publishReaction(params: {
  * Publish a reply (kind 1) to a parent event, using marked e tags per preferred scheme.
  * - Includes 'root' marker for thread root and 'reply' marker for direct parent (if replying to a comment)
  * - Includes p tags of the parent plus the parent's author
+ * - Goes through the outbox, so `delivery` holds each relay's receipt
  */
 export async function publishReply(params: {
   pool: RelayConnectionPool;
@@ -320,7 +332,7 @@ export async function publishReply(params: {
   relayInfoMap?: Map<string, RelayInfo>;
   powTargetBits?: number;
   signal?: AbortSignal;
-}): Promise<{ id: string; event: Event }> {
+}): Promise<{ id: string; event: Event; delivery: QueuedPublish }> {
   const { pool, relayUrls, parent, content } = params;
   const relayHint = params.relayHint ?? (relayUrls && relayUrls[0] ? relayUrls[0] : '');
   if (!pool) throw new Error('Nostr client not ready');
@@ -365,12 +377,59 @@ export async function publishReply(params: {
     filteredRelayUrls = relayUrls;
   }
   
-  await pool.publish(filteredRelayUrls, signed);
+  const delivery = await publishNow(pool, signed as unknown as Event, filteredRelayUrls);
 
-  // Trigger haptic feedback for successful reaction publish
-  // Haptic feedback now handled in components
+  return { id: signed.id, event: signed as unknown as Event, delivery };
+}
 
-  return { id: signed.id, event: signed as unknown as Event };
+/**
+ * Publish a long-form article (kind 30023) or article draft (kind 30024).
+ * Re-publishing with the same d tag replaces the previous version; tags of the
+ * edited event that the editor doesn't manage are passed in `preservedTags`.
+ */
+export async function publishArticle(params: {
+  pool: RelayConnectionPool;
+  relayUrls: string[];
+  fields: ArticleFields;
+  draft?: boolean;
+  preservedTags?: string[][];
+  relayPermissions?: Map<string, RelayPermission>;
+  relayInfoMap?: Map<string, RelayInfo>;
+  powTargetBits?: number;
+  signal?: AbortSignal;
+}): Promise<{ id: string; event: Event; delivery: QueuedPublish }> {
+  const { pool, relayUrls, fields } = params;
+  if (!pool) throw new Error('Nostr client not ready');
+  if (!Array.isArray(relayUrls) || relayUrls.length === 0) throw new Error('No relays configured');
+  if (!params.draft && !fields.title.trim()) throw new Error('Article title required');
+  if (!params.draft && !fields.content.trim()) throw new Error('Article content required');
+
+  const kind = params.draft ? ARTICLE_DRAFT_KIND : ARTICLE_KIND;
+  const tags = buildArticleTags(fields, params.preservedTags);
+  // Add client field
+  if (!tags.some(t => t[0] === 'client')) tags.push(['client', 'NRIC-1']);
+
+  const signed = await nip07SignEvent(
+    { kind, content: fields.content, tags },
+    { powTargetBits: params.powTargetBits, signal: params.signal }
+  );
+
+  // Filter relays based on event kind, permissions, and capabilities
+  let filteredRelayUrls: string[];
+  if (params.relayPermissions && params.relayInfoMap) {
+    // Use enhanced filtering with NIP-11 capabilities
+    filteredRelayUrls = filterRelaysByEventKindAndCapabilities(relayUrls, params.relayPermissions, params.relayInfoMap, kind);
+  } else if (params.relayPermissions) {
+    // Fallback to basic permission filtering
+    filteredRelayUrls = filterRelaysByEventKind(relayUrls, params.relayPermissions, kind);
+  } else {
+    // No filtering if no permissions provided
+    filteredRelayUrls = relayUrls;
+  }
+
+  const delivery = await publishNow(pool, signed as unknown as Event, filteredRelayUrls);
+
+  return { id: signed.id, event: signed as unknown as Event, delivery };
 }
 
 /**
@@ -506,104 +565,97 @@ export async function publishQuoteRepost(params: {
 }
 
 /**
- * Publish a mute list (kind 10000) event.
- * Adds the specified pubkey to the user's mute list.
- * Mute lists are replaceable events, so only one mute list per user.
+ * Publish a deletion request (kind 5) for the user's own events.
+ * Adds an e tag per target and a k tag per distinct target kind, per NIP-09.
+ * Targets authored by someone else are rejected since relays would ignore them.
  */
-export async function publishMuteList(params: {
+export async function publishDeletion(params: {
   pool: RelayConnectionPool;
   relayUrls: string[];
-  pubkeyToMute: string;
-  existingMutedPubkeys?: string[];
+  // tags are needed to address addressable targets by their d tag
+  targets: Array<{ id: string; kind: number; pubkey?: string; tags?: string[][] }>;
+  authorPubkey?: string; // when given, every target must belong to this pubkey
+  reason?: string;
   relayPermissions?: Map<string, RelayPermission>;
   relayInfoMap?: Map<string, RelayInfo>;
 }): Promise<{ id: string; event: Event }> {
-  const { pool, relayUrls, pubkeyToMute, existingMutedPubkeys = [] } = params;
-  
+  const { pool, relayUrls, targets, authorPubkey } = params;
   if (!pool) throw new Error('Nostr client not ready');
   if (!Array.isArray(relayUrls) || relayUrls.length === 0) throw new Error('No relays configured');
-  if (!pubkeyToMute || !/^[0-9a-fA-F]{64}$/.test(pubkeyToMute)) throw new Error('Invalid pubkey to mute');
+  if (!Array.isArray(targets) || targets.length === 0 || targets.some(t => !t || !t.id)) {
+    throw new Error('Invalid deletion target');
+  }
+  if (authorPubkey && targets.some(t => t.pubkey && t.pubkey !== authorPubkey)) {
+    throw new Error('Only your own events can be deleted');
+  }
 
-  // Create tags array with existing muted pubkeys plus the new one
-  const allMutedPubkeys = Array.from(new Set([...existingMutedPubkeys, pubkeyToMute]));
-  const tags = allMutedPubkeys.map(pubkey => ['p', pubkey]);
+  const tags: string[][] = [];
+  targets.forEach(t => tags.push(['e', t.id]));
+  // NIP-09: replaceable and addressable targets are also deleted by address,
+  // which covers versions published after this one
+  targets.forEach(t => {
+    const address = getEventAddress({ ...t, pubkey: t.pubkey ?? authorPubkey });
+    if (address) tags.push(['a', address]);
+  });
+  const kinds = Array.from(new Set(targets.map(t => String(t.kind))));
+  kinds.forEach(k => tags.push(['k', k]));
   // Add client field
   tags.push(['client', 'NRIC-1']);
 
-  const signed = await nip07SignEvent({ 
-    kind: 10000, 
-    content: '', 
-    tags 
-  });
-  
+  const signed = await nip07SignEvent({ kind: 5, content: params.reason ?? '', tags });
+
   // Filter relays based on event kind, permissions, and capabilities
   let filteredRelayUrls: string[];
   if (params.relayPermissions && params.relayInfoMap) {
     // Use enhanced filtering with NIP-11 capabilities
-    filteredRelayUrls = filterRelaysByEventKindAndCapabilities(relayUrls, params.relayPermissions, params.relayInfoMap, 10000);
+    filteredRelayUrls = filterRelaysByEventKindAndCapabilities(relayUrls, params.relayPermissions, params.relayInfoMap, 5);
   } else if (params.relayPermissions) {
     // Fallback to basic permission filtering
-    filteredRelayUrls = filterRelaysByEventKind(relayUrls, params.relayPermissions, 10000);
+    filteredRelayUrls = filterRelaysByEventKind(relayUrls, params.relayPermissions, 5);
   } else {
     // No filtering if no permissions provided
     filteredRelayUrls = relayUrls;
   }
-  
-  await pool.publish(filteredRelayUrls, signed);
 
-  // Trigger haptic feedback for successful reaction publish
-  // Haptic feedback now handled in components
+  await pool.publish(filteredRelayUrls, signed);
 
   return { id: signed.id, event: signed as unknown as Event };
 }
 
 /**
- * Publish an unmute list (kind 10000) event.
- * Removes the specified pubkey from the user's mute list.
+ * Publish a NIP-56 report (kind 1984) about a note or a profile.
+ * The optional reason goes in the content.
  */
-export async function publishUnmuteList(params: {
+export async function publishReport(params: {
   pool: RelayConnectionPool;
   relayUrls: string[];
-  pubkeyToUnmute: string;
-  existingMutedPubkeys: string[];
+  target: ReportTarget;
+  reportType: ReportType;
+  reason?: string;
   relayPermissions?: Map<string, RelayPermission>;
   relayInfoMap?: Map<string, RelayInfo>;
 }): Promise<{ id: string; event: Event }> {
-  const { pool, relayUrls, pubkeyToUnmute, existingMutedPubkeys } = params;
-  
+  const { pool, relayUrls, target, reportType } = params;
   if (!pool) throw new Error('Nostr client not ready');
   if (!Array.isArray(relayUrls) || relayUrls.length === 0) throw new Error('No relays configured');
-  if (!pubkeyToUnmute || !/^[0-9a-fA-F]{64}$/.test(pubkeyToUnmute)) throw new Error('Invalid pubkey to unmute');
 
-  // Remove the pubkey from the list
-  const remainingMutedPubkeys = existingMutedPubkeys.filter(pubkey => pubkey !== pubkeyToUnmute);
-  const tags = remainingMutedPubkeys.map(pubkey => ['p', pubkey]);
+  const tags = buildReportTags(target, reportType);
   // Add client field
   tags.push(['client', 'NRIC-1']);
 
-  const signed = await nip07SignEvent({ 
-    kind: 10000, 
-    content: '', 
-    tags 
-  });
-  
+  const signed = await nip07SignEvent({ kind: REPORT_KIND, content: (params.reason ?? '').trim(), tags });
+
   // Filter relays based on event kind, permissions, and capabilities
   let filteredRelayUrls: string[];
   if (params.relayPermissions && params.relayInfoMap) {
-    // Use enhanced filtering with NIP-11 capabilities
-    filteredRelayUrls = filterRelaysByEventKindAndCapabilities(relayUrls, params.relayPermissions, params.relayInfoMap, 10000);
+    filteredRelayUrls = filterRelaysByEventKindAndCapabilities(relayUrls, params.relayPermissions, params.relayInfoMap, REPORT_KIND);
   } else if (params.relayPermissions) {
-    // Fallback to basic permission filtering
-    filteredRelayUrls = filterRelaysByEventKind(relayUrls, params.relayPermissions, 10000);
+    filteredRelayUrls = filterRelaysByEventKind(relayUrls, params.relayPermissions, REPORT_KIND);
   } else {
-    // No filtering if no permissions provided
     filteredRelayUrls = relayUrls;
   }
-  
-  await pool.publish(filteredRelayUrls, signed);
 
-  // Trigger haptic feedback for successful reaction publish
-  // Haptic feedback now handled in components
+  await pool.publish(filteredRelayUrls, signed);
 
   return { id: signed.id, event: signed as unknown as Event };
 }
@@ -0,0 +1,318 @@
+import { createStore, del, set, values } from 'idb-keyval';
+import type { Event } from 'nostr-tools';
+import type { RelayConnectionPool, RelayPublishReceipt } from './relayConnectionPool';
+import {
+  publishQueueActions,
+  publishQueueStore,
+  type QueuedPublish,
+  type QueuedRelayStatus,
+} from '../../stores/publishQueueStore';
+
+// Each relay gets this many tries before it is reported as failed
+export const MAX_PUBLISH_ATTEMPTS = 6;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+const RELAY_PUBLISH_TIMEOUT_MS = 10000;
+// Finished entries stay around so the UI can show their results
+const FINISHED_RETENTION_MS = 24 * 60 * 60 * 1000;
+// Upper bound between queue checks, so newly due entries aren't missed
+const MAX_POLL_INTERVAL_MS = 60 * 1000;
+// How soon to check again when the relay pool isn't ready yet
+const POOL_RETRY_DELAY_MS = 5 * 1000;
+
+const queueStore = createStore('nostr-publish-queue', 'events');
+
+/**
+ * Backoff before retry number `attempts + 1`: 30s, 1m, 2m, ... capped at 30m
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+const persist = async (entry: QueuedPublish) => {
+  publishQueueActions.upsertEntry(entry);
+  try {
+    await set(entry.id, entry, queueStore);
+  } catch (error) {
+    console.error('Failed to persist queued publish:', error);
+  }
+};
+
+/**
+ * Restore the queue from IndexedDB and drop entries that finished long ago
+ */
+export async function loadPublishQueue(now: number = Date.now()): Promise<QueuedPublish[]> {
+  let entries: QueuedPublish[] = [];
+  try {
+    entries = await values<QueuedPublish>(queueStore);
+  } catch (error) {
+    console.error('Failed to load publish queue:', error);
+  }
+
+  const kept: QueuedPublish[] = [];
+  for (const entry of entries) {
+    const finished = entry.state === 'done' || entry.state === 'failed';
+    if (finished && now - entry.publishAt > FINISHED_RETENTION_MS) {
+      await del(entry.id, queueStore).catch(() => undefined);
+      continue;
+    }
+    // A reload mid-publish leaves entries marked as publishing
+    kept.push(entry.state === 'publishing' ? { ...entry, state: 'scheduled' } : entry);
+  }
+
+  // Entries queued while loading take precedence over their stored copies
+  const current = publishQueueStore.state.entries;
+  const merged = [...kept.filter((e) => !current[e.id]), ...Object.values(current)];
+  publishQueueActions.setEntries(merged);
+  return merged;
+}
+
+/**
+ * Add a signed event to the outbox. It is published by the queue runner once
+ * `publishAt` has passed; pass the current time to publish right away.
+ */
+export async function enqueuePublish(params: {
+  event: Event;
+  relayUrls: string[];
+  publishAt?: number;
+}): Promise<QueuedPublish> {
+  const { event, relayUrls } = params;
+  if (!event?.id || !event.sig) throw new Error('Only signed events can be queued');
+  if (relayUrls.length === 0) throw new Error('No relays to publish to');
+
+  const now = Date.now();
+  const publishAt = params.publishAt ?? now;
+  const relays: Record<string, QueuedRelayStatus> = {};
+  for (const url of relayUrls) {
+    relays[url] = { status: 'pending', attempts: 0, nextAttemptAt: publishAt };
+  }
+
+  const entry: QueuedPublish = {
+    id: event.id,
+    event,
+    publishAt,
+    createdAt: now,
+    state: 'scheduled',
+    relays,
+  };
+  await persist(entry);
+  scheduleNextRun();
+  return entry;
+}
+
+/**
+ * Remove an entry from the outbox (e.g. cancel a scheduled post)
+ */
+export async function cancelQueuedPublish(id: string): Promise<void> {
+  publishQueueActions.removeEntry(id);
+  try {
+    await del(id, queueStore);
+  } catch (error) {
+    console.error('Failed to remove queued publish:', error);
+  }
+}
+
+// Relay OK prefixes (NIP-01) that won't change on a retry
+const PERMANENT_REJECTION = /^(blocked|invalid|pow|restricted|mute):/i;
+
+/**
+ * Whether a relay still has attempts left for this event
+ */
+export const canRetryRelay = (relay: QueuedRelayStatus) =>
+  relay.status !== 'success' && !relay.rejected && relay.attempts < MAX_PUBLISH_ATTEMPTS;
+
+const isRelayDue = (relay: QueuedRelayStatus, now: number) => canRetryRelay(relay) && relay.nextAttemptAt <= now;
+
+const getEntryState = (relays: Record<string, QueuedRelayStatus>): QueuedPublish['state'] => {
+  const statuses = Object.values(relays);
+  if (statuses.every((r) => r.status === 'success')) return 'done';
+  if (statuses.some(canRetryRelay)) return 'scheduled';
+  return statuses.some((r) => r.status === 'success') ? 'done' : 'failed';
+};
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+const toRelayStatus = (
+  previous: QueuedRelayStatus,
+  receipt: RelayPublishReceipt,
+  finishedAt: number
+): QueuedRelayStatus => {
+  const attempts = previous.attempts + 1;
+  const receiptFields = {
+    attempts,
+    updatedAt: finishedAt,
+    outcome: receipt.outcome,
+    message: receipt.message,
+    notices: receipt.notices.length > 0 ? receipt.notices : undefined,
+  };
+  // "duplicate:" means the relay already has the event
+  if (receipt.outcome === 'ok' || /^duplicate:/i.test(receipt.message)) {
+    return { ...receiptFields, status: 'success', nextAttemptAt: finishedAt };
+  }
+  return {
+    ...receiptFields,
+    status: 'failed',
+    nextAttemptAt: finishedAt + getRetryDelay(attempts),
+    error: receipt.message || receipt.outcome,
+    rejected: receipt.outcome === 'rejected' && PERMANENT_REJECTION.test(receipt.message),
+  };
+};
+
+const inFlight = new Map<string, Promise<QueuedPublish>>();
+
+/**
+ * Publish one entry to every relay that is due, recording each relay's receipt.
+ * While offline nothing is attempted, so no retries are used up.
+ */
+export function processQueuedPublish(
+  pool: RelayConnectionPool,
+  entry: QueuedPublish,
+  now: number = Date.now()
+): Promise<QueuedPublish> {
+  // The runner and an immediate publish can reach the same entry together
+  const running = inFlight.get(entry.id);
+  if (running) return running;
+
+  const dueUrls = Object.keys(entry.relays).filter((url) => isRelayDue(entry.relays[url], now));
+  if (entry.publishAt > now || dueUrls.length === 0 || isOffline()) return Promise.resolve(entry);
+
+  const run = (async () => {
+    await persist({ ...entry, state: 'publishing' });
+
+    const receipts = await pool.publishWithReceipts(dueUrls, entry.event, {
+      timeoutMs: RELAY_PUBLISH_TIMEOUT_MS,
+    });
+
+    // Cancelled while publishing
+    if (!publishQueueStore.state.entries[entry.id]) return entry;
+
+    const finishedAt = Date.now();
+    const relays = { ...entry.relays };
+    for (const receipt of receipts) {
+      if (!relays[receipt.url]) continue;
+      relays[receipt.url] = toRelayStatus(relays[receipt.url], receipt, finishedAt);
+    }
+
+    const updated: QueuedPublish = { ...entry, relays, state: getEntryState(relays) };
+    await persist(updated);
+    return updated;
+  })();
+
+  inFlight.set(entry.id, run);
+  return run.finally(() => inFlight.delete(entry.id));
+}
+
+/**
+ * Queue a signed event and publish it right away. Relays that fail stay in the
+ * outbox and are retried later, so the event isn't lost on a bad connection.
+ */
+export async function publishNow(
+  pool: RelayConnectionPool,
+  event: Event,
+  relayUrls: string[]
+): Promise<QueuedPublish> {
+  const entry = await enqueuePublish({ event, relayUrls });
+  return processQueuedPublish(pool, entry);
+}
+
+/**
+ * Whether at least one relay has accepted the event
+ */
+export const isAcceptedByAnyRelay = (entry: QueuedPublish) =>
+  Object.values(entry.relays).some((relay) => relay.status === 'success');
+
+let activePool: (() => RelayConnectionPool | null) | null = null;
+let runTimer: ReturnType<typeof setTimeout> | null = null;
+let running = false;
+
+/**
+ * Process every due entry in the queue
+ */
+export async function runPublishQueue(now: number = Date.now()): Promise<void> {
+  if (running || isOffline()) return;
+  running = true;
+  let pool: RelayConnectionPool | null = null;
+  try {
+    pool = activePool?.() ?? null;
+    if (!pool) return;
+    const entries = Object.values(publishQueueStore.state.entries).filter(
+      (e) => e.state === 'scheduled' || e.state === 'publishing'
+    );
+    for (const entry of entries) {
+      await processQueuedPublish(pool, entry, now);
+    }
+  } finally {
+    running = false;
+    // Due entries would otherwise spin on a zero delay until the pool exists
+    scheduleNextRun(pool ? 0 : POOL_RETRY_DELAY_MS);
+  }
+}
+
+/**
+ * Time of the next relay attempt across the queue, if any
+ */
+export function getNextDueTime(entries: QueuedPublish[]): number | null {
+  let next: number | null = null;
+  for (const entry of entries) {
+    if (entry.state === 'done' || entry.state === 'failed') continue;
+    for (const relay of Object.values(entry.relays)) {
+      if (!canRetryRelay(relay)) continue;
+      const due = Math.max(relay.nextAttemptAt, entry.publishAt);
+      if (next === null || due < next) next = due;
+    }
+  }
+  return next;
+}
+
+function scheduleNextRun(minDelay = 0) {
+  if (!activePool) return;
+  if (runTimer) clearTimeout(runTimer);
+  const next = getNextDueTime(Object.values(publishQueueStore.state.entries));
+  if (next === null) {
+    runTimer = null;
+    return;
+  }
+  const delay = Math.min(Math.max(minDelay, next - Date.now()), MAX_POLL_INTERVAL_MS);
+  runTimer = setTimeout(() => {
+    void runPublishQueue();
+  }, delay);
+}
+
+/**
+ * Make every relay that is waiting on a backoff due now, e.g. once connectivity returns
+ */
+export async function retryPendingNow(now: number = Date.now()): Promise<void> {
+  for (const entry of Object.values(publishQueueStore.state.entries)) {
+    if (entry.state !== 'scheduled' || entry.publishAt > now) continue;
+    const relays = { ...entry.relays };
+    let changed = false;
+    for (const [url, relay] of Object.entries(relays)) {
+      if (canRetryRelay(relay) && relay.nextAttemptAt > now) {
+        relays[url] = { ...relay, nextAttemptAt: now };
+        changed = true;
+      }
+    }
+    if (changed) await persist({ ...entry, relays });
+  }
+}
+
+/**
+ * Start publishing queued events in the background, retrying as soon as the
+ * browser comes back online. Returns a stop function.
+ */
+export function startPublishQueue(getPool: () => RelayConnectionPool | null): () => void {
+  activePool = getPool;
+  void loadPublishQueue().then(() => scheduleNextRun());
+
+  const handleOnline = () => {
+    void retryPendingNow().then(() => runPublishQueue());
+  };
+  window.addEventListener('online', handleOnline);
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    if (activePool === getPool) activePool = null;
+    if (runTimer) clearTimeout(runTimer);
+    runTimer = null;
+  };
+}
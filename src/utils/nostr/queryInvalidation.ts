@@ -1,5 +1,8 @@
 import { QueryClient } from '@tanstack/react-query'
+import { clear, createStore, entries, set } from 'idb-keyval'
+import type { Filter } from 'nostr-tools'
 import { CACHE_KEYS } from '../cacheKeys'
+import { useThreadStore } from '../../state/threadStore'
 
 /**
  * Utility functions for invalidating thread-related queries
@@ -237,7 +240,7 @@ export function invalidateProfileNotesAfterPublish(queryClient: QueryClient, not
   // CRITICAL: Remove ALL nostrify-feed queries that include this user as an author
   // This is necessary because useNostrifyFeed has refetchOnMount: false for scroll restoration
   // Simply invalidating won't refetch on mount, so we must remove the cached data entirely
-  // The query key structure is: ['nostrify-feed', authorKey, kindsKey, relayKey, flagsKey, hashtagsKey, mutedLen, pageSize]
+  // The query key structure is: ['nostrify-feed', authorKey, kindsKey, relayKey, flagsKey, hashtagsKey, mutedLen, muteKey, pageSize]
   // Where authorKey is the user's hex pubkey for profile queries
 
   if (invalidateAllProfiles) {
@@ -335,3 +338,197 @@ export function invalidateAllNoteQueries(queryClient: QueryClient) {
     queryKey: ['profile']
   })
 }
+
+/**
+ * NIP-09 deletions seen by this client: deleted event id -> pubkey of the deletion's author.
+ * A deletion only applies to events written by that same pubkey.
+ */
+const deletedEventAuthors = new Map<string, string>()
+// `a` coordinates (kind:pubkey:d) -> created_at of the newest deletion; versions up to then are gone
+const deletedAddresses = new Map<string, number>()
+
+// Persisted so deletions survive reloads; keys are event ids or `a:<coordinate>`
+const deletionStore = createStore('nostr-deletions', 'deleted-events')
+const ADDRESS_KEY_PREFIX = 'a:'
+
+type DeletionRecord = { pubkey: string } | { until: number }
+
+export interface DeletionEventLike {
+  kind?: number
+  pubkey: string
+  created_at?: number
+  tags: string[][]
+}
+
+type DeletableEvent =
+  | { id?: string; pubkey?: string; kind?: number; created_at?: number; tags?: string[][] }
+  | null
+  | undefined
+
+/**
+ * Replaceable (0, 3, 10000-19999) and addressable (30000-39999) kinds
+ */
+export function isReplaceableKind(kind: number): boolean {
+  return kind === 0 || kind === 3 || (kind >= 10000 && kind < 20000) || (kind >= 30000 && kind < 40000)
+}
+
+/**
+ * The `kind:pubkey:d` coordinate of a replaceable or addressable event
+ */
+export function getEventAddress(event: DeletableEvent): string | null {
+  if (!event?.pubkey || typeof event.kind !== 'number' || !isReplaceableKind(event.kind)) return null
+  const d = event.kind >= 30000 ? event.tags?.find(t => t[0] === 'd')?.[1] ?? '' : ''
+  return `${event.kind}:${event.pubkey}:${d}`
+}
+
+/**
+ * Remember the event ids and addresses referenced by a kind 5 event. Returns
+ * the recorded ids. `a` tags only count for the deletion's own pubkey.
+ */
+export function recordDeletion(deletion: DeletionEventLike): string[] {
+  if (!deletion || (deletion.kind !== undefined && deletion.kind !== 5) || !deletion.pubkey) return []
+  const ids = (deletion.tags || [])
+    .filter(t => Array.isArray(t) && t[0] === 'e' && typeof t[1] === 'string' && t[1])
+    .map(t => t[1])
+  ids.forEach(id => {
+    deletedEventAuthors.set(id, deletion.pubkey)
+    void set(id, { pubkey: deletion.pubkey } satisfies DeletionRecord, deletionStore).catch(() => undefined)
+  })
+
+  const until = deletion.created_at ?? Math.floor(Date.now() / 1000)
+  for (const tag of deletion.tags || []) {
+    if (!Array.isArray(tag) || tag[0] !== 'a' || typeof tag[1] !== 'string') continue
+    if (tag[1].split(':')[1] !== deletion.pubkey) continue
+    if ((deletedAddresses.get(tag[1]) ?? 0) >= until) continue
+    deletedAddresses.set(tag[1], until)
+    void set(ADDRESS_KEY_PREFIX + tag[1], { until } satisfies DeletionRecord, deletionStore).catch(() => undefined)
+  }
+  return ids
+}
+
+/**
+ * True when the event's own author has published a deletion for it, by id
+ * or, for addressable events, by address covering this version
+ */
+export function isEventDeleted(event: DeletableEvent): boolean {
+  if (!event?.id) return false
+  const deleter = deletedEventAuthors.get(event.id)
+  if (deleter && deleter === event.pubkey) return true
+  const address = getEventAddress(event)
+  if (!address) return false
+  const until = deletedAddresses.get(address)
+  return until !== undefined && (event.created_at ?? 0) <= until
+}
+
+/**
+ * Restore deletions recorded in earlier sessions
+ */
+export async function loadRecordedDeletions(): Promise<void> {
+  try {
+    const stored = await entries<string, DeletionRecord>(deletionStore)
+    for (const [key, record] of stored) {
+      if (key.startsWith(ADDRESS_KEY_PREFIX) && 'until' in record) {
+        const address = key.slice(ADDRESS_KEY_PREFIX.length)
+        deletedAddresses.set(address, Math.max(deletedAddresses.get(address) ?? 0, record.until))
+      } else if ('pubkey' in record && !deletedEventAuthors.has(key)) {
+        deletedEventAuthors.set(key, record.pubkey)
+      }
+    }
+  } catch (error) {
+    console.error('Failed to load recorded deletions:', error)
+  }
+}
+
+/**
+ * Reset the deletion registry (sign out, tests)
+ */
+export function clearRecordedDeletions() {
+  deletedEventAuthors.clear()
+  deletedAddresses.clear()
+  void clear(deletionStore).catch(() => undefined)
+}
+
+function withoutDeleted<T>(items: T[], getEvent: (item: T) => DeletableEvent): T[] {
+  const kept = items.filter(item => !isEventDeleted(getEvent(item)))
+  return kept.length === items.length ? items : kept
+}
+
+/**
+ * Hide events deleted by a kind 5 event from the feed, thread and notification caches.
+ * Caches are pruned in place so scroll positions survive; no refetch is triggered.
+ */
+export function removeDeletedEventsFromCaches(queryClient: QueryClient, deletion: DeletionEventLike) {
+  const ids = recordDeletion(deletion)
+  if (ids.length === 0 && !deletion.tags?.some(t => t[0] === 'a')) return
+
+  const pruneNotePages = (data: unknown) => {
+    const d = data as { pages?: Array<{ notes?: DeletableEvent[] }> } | undefined
+    if (!d || !Array.isArray(d.pages)) return data
+    return {
+      ...d,
+      pages: d.pages.map(page =>
+        page && Array.isArray(page.notes)
+          ? { ...page, notes: withoutDeleted(page.notes, n => n) }
+          : page
+      ),
+    }
+  }
+
+  // Feeds and profile feeds (useNostrifyFeed)
+  queryClient.setQueriesData({ queryKey: ['nostrify-feed'], exact: false }, pruneNotePages)
+
+  // Thread replies (useNostrifyThread)
+  queryClient.setQueriesData({ queryKey: ['nostrify-thread'], exact: false }, pruneNotePages)
+
+  // Notifications pages hold classified notifications wrapping the raw event
+  queryClient.setQueriesData({ queryKey: ['notifications-nostrify'], exact: false }, (data: unknown) => {
+    const d = data as { pages?: Array<Array<{ event?: DeletableEvent }>> } | undefined
+    if (!d || !Array.isArray(d.pages)) return data
+    return {
+      ...d,
+      pages: d.pages.map(page => (Array.isArray(page) ? withoutDeleted(page, n => n?.event) : page)),
+    }
+  })
+
+  // Individual note caches, unless cached as someone else's note
+  ids.forEach(id => {
+    const cached = queryClient.getQueryData<DeletableEvent>(CACHE_KEYS.NOTE(id))
+    if (cached?.pubkey && cached.pubkey !== deletion.pubkey) return
+    queryClient.removeQueries({ queryKey: CACHE_KEYS.NOTE(id), exact: true })
+    queryClient.removeQueries({ queryKey: ['nostrify-note', id], exact: true })
+  })
+
+  // Thread view store (ThreadPage)
+  useThreadStore.getState().removeNotes(ids, deletion.pubkey)
+}
+
+// Event ids per kind 5 lookup, to stay under relay filter size limits
+const DELETION_LOOKUP_CHUNK = 200
+
+/**
+ * Fetch the kind 5 events the authors of `events` published about them, so
+ * deletions made on other devices or clients apply here too
+ */
+export async function syncDeletionsForEvents(
+  queryClient: QueryClient,
+  query: (filter: Filter) => Promise<DeletionEventLike[]>,
+  events: DeletableEvent[]
+): Promise<void> {
+  const targets = events.filter(
+    (e): e is { id: string; pubkey: string } => Boolean(e?.id && e.pubkey)
+  )
+  for (let i = 0; i < targets.length; i += DELETION_LOOKUP_CHUNK) {
+    const chunk = targets.slice(i, i + DELETION_LOOKUP_CHUNK)
+    const filter: Filter = {
+      kinds: [5],
+      authors: Array.from(new Set(chunk.map(e => e.pubkey))),
+      '#e': chunk.map(e => e.id),
+    }
+    try {
+      const deletions = await query(filter)
+      deletions.forEach(deletion => removeDeletedEventsFromCaches(queryClient, deletion))
+    } catch (error) {
+      console.warn('Failed to fetch deletions:', error)
+    }
+  }
+}
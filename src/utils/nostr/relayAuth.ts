@@ -0,0 +1,216 @@
+import type { EventTemplate, VerifiedEvent } from 'nostr-tools';
+import { hasActiveSigner, nip07SignEvent } from './nip07';
+import {
+  relayAuthActions,
+  relayAuthStore,
+  type RelayAuthDecision,
+} from '../../stores/relayAuthStore';
+
+// NIP-42 client authentication
+export const RELAY_AUTH_KIND = 22242;
+
+export type RelayAuthPolicy = 'always' | 'ask' | 'never';
+
+export const DEFAULT_RELAY_AUTH_POLICY: RelayAuthPolicy = 'ask';
+
+// An unanswered prompt counts as a one-off deny so publishes waiting on it finish
+export const RELAY_AUTH_PROMPT_TIMEOUT_MS = 60000;
+export const RELAY_AUTH_SIGN_TIMEOUT_MS = 15000;
+
+// Stored next to the relay list and permissions (see useRelayManager)
+const GLOBAL_RELAY_AUTH_POLICIES_KEY = 'nostr_relay_auth_policies';
+
+const getPoliciesKey = (pubkeyHex?: string) =>
+  pubkeyHex ? `${GLOBAL_RELAY_AUTH_POLICIES_KEY}_${pubkeyHex}` : GLOBAL_RELAY_AUTH_POLICIES_KEY;
+
+const getCurrentPubkey = (): string | undefined => {
+  try {
+    return localStorage.getItem('nostrPubkey') || undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Normalize relay URLs so policies match regardless of trailing slash or case
+ */
+export function normalizeAuthRelayUrl(url: string): string {
+  try {
+    const parsed = new URL(url.trim());
+    let pathname = parsed.pathname || '';
+    if (pathname === '/') pathname = '';
+    else if (pathname.endsWith('/')) pathname = pathname.slice(0, -1);
+    const port = parsed.port ? `:${parsed.port}` : '';
+    return `${parsed.protocol}//${parsed.hostname.toLowerCase()}${port}${pathname}`;
+  } catch {
+    return url.trim().replace(/\/+$/, '');
+  }
+}
+
+export function getRelayAuthPolicies(pubkeyHex: string | undefined = getCurrentPubkey()): Record<string, RelayAuthPolicy> {
+  try {
+    const raw = localStorage.getItem(getPoliciesKey(pubkeyHex));
+    if (!raw) return {};
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    const result: Record<string, RelayAuthPolicy> = {};
+    Object.entries(parsed).forEach(([url, policy]) => {
+      if (policy === 'always' || policy === 'ask' || policy === 'never') {
+        result[url] = policy;
+      }
+    });
+    return result;
+  } catch {
+    return {};
+  }
+}
+
+export function getRelayAuthPolicy(url: string, pubkeyHex?: string): RelayAuthPolicy {
+  const policies = getRelayAuthPolicies(pubkeyHex ?? getCurrentPubkey());
+  return policies[normalizeAuthRelayUrl(url)] ?? DEFAULT_RELAY_AUTH_POLICY;
+}
+
+export function setRelayAuthPolicy(url: string, policy: RelayAuthPolicy, pubkeyHex?: string): void {
+  const owner = pubkeyHex ?? getCurrentPubkey();
+  const policies = getRelayAuthPolicies(owner);
+  const key = normalizeAuthRelayUrl(url);
+  if (policy === DEFAULT_RELAY_AUTH_POLICY) {
+    delete policies[key];
+  } else {
+    policies[key] = policy;
+  }
+  try {
+    localStorage.setItem(getPoliciesKey(owner), JSON.stringify(policies));
+  } catch (error) {
+    console.warn('Failed to save relay auth policy:', error);
+  }
+  try {
+    window.dispatchEvent(new CustomEvent('relayAuthPolicyChanged', { detail: { url: key, policy } }));
+  } catch {
+    // Non-browser environment
+  }
+}
+
+/**
+ * Cycle always -> ask -> never, matching the relay permission cycle button
+ */
+export function nextRelayAuthPolicy(policy: RelayAuthPolicy): RelayAuthPolicy {
+  switch (policy) {
+    case 'always':
+      return 'ask';
+    case 'ask':
+      return 'never';
+    default:
+      return 'always';
+  }
+}
+
+// Outstanding "ask" prompts: one per relay so parallel subscriptions share a decision
+const pendingDecisions = new Map<string, { id: string; promise: Promise<RelayAuthDecision> }>();
+const decisionResolvers = new Map<string, (decision: RelayAuthDecision) => void>();
+
+function requestRelayAuthDecision(relayUrl: string): Promise<RelayAuthDecision> {
+  const existing = pendingDecisions.get(relayUrl);
+  if (existing) return existing.promise;
+
+  const id = `auth-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+  const promise = new Promise<RelayAuthDecision>((resolve) => {
+    const timer = setTimeout(() => resolveRelayAuthRequest(id, 'deny'), RELAY_AUTH_PROMPT_TIMEOUT_MS);
+    decisionResolvers.set(id, (decision) => {
+      clearTimeout(timer);
+      resolve(decision);
+    });
+  });
+  pendingDecisions.set(relayUrl, { id, promise });
+  relayAuthActions.addPending({ id, relayUrl, requestedAt: Date.now() });
+  return promise;
+}
+
+/**
+ * Answer a pending "ask" prompt. 'always' and 'never' are saved as the relay's policy.
+ */
+export function resolveRelayAuthRequest(id: string, decision: RelayAuthDecision): void {
+  const request = relayAuthStore.state.pending.find((p) => p.id === id);
+  const resolve = decisionResolvers.get(id);
+  decisionResolvers.delete(id);
+  relayAuthActions.removePending(id);
+  if (request) {
+    pendingDecisions.delete(request.relayUrl);
+    if (decision === 'always' || decision === 'never') {
+      setRelayAuthPolicy(request.relayUrl, decision);
+    }
+  }
+  resolve?.(decision);
+}
+
+export class RelayAuthDeniedError extends Error {
+  constructor(relayUrl: string) {
+    super(`Authentication to ${relayUrl} was declined`);
+    this.name = 'RelayAuthDeniedError';
+  }
+}
+
+/**
+ * Sign a kind 22242 AUTH event for the relay named in the template,
+ * honoring the relay's always/ask/never policy. Always settles: rejects
+ * when declined, without a signer, or when the prompt or signer times out.
+ */
+export async function signRelayAuthEvent(template: EventTemplate): Promise<VerifiedEvent> {
+  const relayTag = template.tags.find((t) => t[0] === 'relay' && t[1]);
+  if (template.kind !== RELAY_AUTH_KIND || !relayTag) {
+    throw new Error('Invalid relay AUTH event');
+  }
+  const relayUrl = normalizeAuthRelayUrl(relayTag[1]);
+
+  relayAuthActions.setStatus(relayUrl, 'challenged');
+
+  const policy = getRelayAuthPolicy(relayUrl);
+  if (policy === 'never' || !hasActiveSigner()) {
+    relayAuthActions.setStatus(relayUrl, 'denied');
+    throw new RelayAuthDeniedError(relayUrl);
+  }
+
+  if (policy === 'ask') {
+    const decision = await requestRelayAuthDecision(relayUrl);
+    if (decision === 'deny' || decision === 'never') {
+      relayAuthActions.setStatus(relayUrl, 'denied');
+      throw new RelayAuthDeniedError(relayUrl);
+    }
+  }
+
+  try {
+    const signed = await nip07SignEvent({
+      kind: RELAY_AUTH_KIND,
+      created_at: template.created_at,
+      tags: template.tags,
+      content: template.content,
+    }, { timeoutMs: RELAY_AUTH_SIGN_TIMEOUT_MS });
+    relayAuthActions.setStatus(relayUrl, 'authenticating');
+    return signed as VerifiedEvent;
+  } catch (error) {
+    relayAuthActions.setStatus(relayUrl, 'failed');
+    throw error;
+  }
+}
+
+/**
+ * Whether to answer a connect-time challenge unprompted. Other relays only
+ * get an AUTH once they refuse something with "auth-required:".
+ */
+export function shouldAuthOnConnect(relayUrl: string): boolean {
+  return hasActiveSigner() && getRelayAuthPolicy(normalizeAuthRelayUrl(relayUrl)) === 'always';
+}
+
+/**
+ * Record the relay's OK/failure for our AUTH event
+ */
+export function markRelayAuthResult(relayUrl: string, ok: boolean): void {
+  relayAuthActions.setStatus(normalizeAuthRelayUrl(relayUrl), ok ? 'authenticated' : 'failed');
+}
+
+/**
+ * True when the relay replied with an auth-required/restricted prefix (NIP-42 machine-readable prefixes)
+ */
+export function isAuthRequiredMessage(message: string | undefined | null): boolean {
+  if (!message) return false;
+  return /^(auth-required|restricted):/i.test(message.trim()) || message.includes('auth-required:');
+}
@@ -1,5 +1,14 @@
-import { SimplePool, Relay, type Filter, type Event } from 'nostr-tools';
+import { SimplePool, Relay, type Filter, type Event, type EventTemplate, type VerifiedEvent } from 'nostr-tools';
 import { DEFAULT_RELAY_URLS } from './constants';
+import {
+  signRelayAuthEvent,
+  markRelayAuthResult,
+  normalizeAuthRelayUrl,
+  isAuthRequiredMessage,
+  shouldAuthOnConnect,
+  RELAY_AUTH_PROMPT_TIMEOUT_MS,
+  RELAY_AUTH_SIGN_TIMEOUT_MS,
+} from './relayAuth';
 
 export interface RelayConnectionStatus {
   url: string;
@@ -8,6 +17,38 @@ export interface RelayConnectionStatus {
   lastError?: string;
   connectionAttempts: number;
   lastHealthCheck?: number;
+  authenticated?: boolean;
+}
+
+export type RelayPublishOutcome = 'ok' | 'rejected' | 'timeout' | 'error';
+
+/**
+ * What one relay said about a published event
+ */
+export interface RelayPublishReceipt {
+  url: string;
+  outcome: RelayPublishOutcome;
+  // OK message from the relay, or the reason the publish failed
+  message: string;
+  notices: string[];
+}
+
+type PoolRelay = Awaited<ReturnType<SimplePool['ensureRelay']>>;
+
+// Prompt, signer and the relay's OK to our AUTH
+const AUTH_TIMEOUT_MS = RELAY_AUTH_PROMPT_TIMEOUT_MS + RELAY_AUTH_SIGN_TIMEOUT_MS + 10000;
+
+const getErrorText = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Relays reject with their OK message; everything else nostr-tools throws is about
+ * the connection or the publish timing out
+ */
+function classifyPublishError(message: string): RelayPublishOutcome {
+  if (/timed out|publish-timeout/i.test(message)) return 'timeout';
+  if (/^connection failure|connection closed|closed connection|duplicate url|connection skipped/i.test(message)) return 'error';
+  return 'rejected';
 }
 
 export interface RelayConnectionPoolConfig {
@@ -26,9 +67,14 @@ export class RelayConnectionPool {
   private config: Required<RelayConnectionPoolConfig>;
   private isDestroyed = false;
   private healthCheckInterval?: ReturnType<typeof setInterval>;
+  // Publishes waiting on each relay's NOTICEs, fed by one onnotice hook per relay
+  private noticeListeners: WeakMap<PoolRelay, Set<(message: string) => void>> = new WeakMap();
 
   constructor(config: RelayConnectionPoolConfig = {}) {
     this.pool = new SimplePool();
+    // Answer connect-time NIP-42 challenges only for relays set to "always";
+    // the rest are authenticated when they refuse with "auth-required:"
+    this.pool.automaticallyAuth = (url) => (shouldAuthOnConnect(url) ? this.handleAuthChallenge : null);
     this.config = {
       maxConnections: config.maxConnections ?? 20,
       connectionTimeout: config.connectionTimeout ?? 5000, // Reduced from 10s to 5s for faster failure detection
@@ -125,8 +171,10 @@ export class RelayConnectionPool {
       throw new Error('RelayConnectionPool has been destroyed');
     }
 
-    // Publish to all relays and consider success if at least one accepts.
-    const settled = await Promise.allSettled(this.pool.publish(relayUrls, event));
+    // Publish to all relays and consider success if at least one accepts
+    const settled = await Promise.allSettled(
+      relayUrls.map((url) => this.publishToRelay(url, event))
+    );
     const successes: string[] = [];
     const errors: Array<{ url: string; error: any }> = [];
     settled.forEach((res, idx) => {
@@ -141,6 +189,130 @@ export class RelayConnectionPool {
     return successes;
   }
 
+  /**
+   * Publish an event and report each relay's response separately: its OK message,
+   * any NOTICEs sent while publishing, or a timeout. Never throws; once the pool
+   * is destroyed every relay gets an error receipt.
+   */
+  async publishWithReceipts(
+    relayUrls: string[],
+    event: Event,
+    options: { timeoutMs?: number } = {}
+  ): Promise<RelayPublishReceipt[]> {
+    if (this.isDestroyed) {
+      return relayUrls.map((url) => ({
+        url,
+        outcome: 'error',
+        message: 'RelayConnectionPool has been destroyed',
+        notices: [],
+      }));
+    }
+    const timeoutMs = options.timeoutMs ?? 10000;
+
+    return Promise.all(
+      relayUrls.map(async (url): Promise<RelayPublishReceipt> => {
+        const notices: string[] = [];
+        let relay: PoolRelay;
+        try {
+          relay = await this.pool.ensureRelay(url, { connectionTimeout: this.config.connectionTimeout });
+        } catch (error) {
+          return { url, outcome: 'error', message: `connection failure: ${getErrorText(error)}`, notices };
+        }
+
+        // Collect NOTICEs the relay sends while we wait for its OK
+        const stopListening = this.listenForNotices(relay, (msg) => notices.push(msg));
+
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        try {
+          const publishPromise = this.publishToRelay(url, event);
+          const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new Error('publish timed out')), timeoutMs);
+          });
+          const message = await Promise.race([publishPromise, timeout]);
+          return { url, outcome: 'ok', message: message || '', notices };
+        } catch (error) {
+          const message = getErrorText(error);
+          return { url, outcome: classifyPublishError(message), message, notices };
+        } finally {
+          if (timer) clearTimeout(timer);
+          stopListening();
+        }
+      })
+    );
+  }
+
+  /**
+   * Route a relay's NOTICEs to a listener until the returned function is called.
+   * The relay's own onnotice is wrapped once and never restored, so overlapping
+   * publishes can't clobber each other's handlers.
+   */
+  private listenForNotices(relay: PoolRelay, listener: (message: string) => void): () => void {
+    let listeners = this.noticeListeners.get(relay);
+    if (!listeners) {
+      const active = new Set<(message: string) => void>();
+      const previousOnNotice = relay.onnotice;
+      relay.onnotice = (msg: string) => {
+        active.forEach((notify) => notify(msg));
+        previousOnNotice?.call(relay, msg);
+      };
+      this.noticeListeners.set(relay, active);
+      listeners = active;
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Publish to one relay; on "auth-required:" authenticate and retry once
+   */
+  private async publishToRelay(url: string, event: Event): Promise<string> {
+    const [first] = this.pool.publish([url], event);
+    try {
+      return await first;
+    } catch (error) {
+      if (!isAuthRequiredMessage(getErrorText(error))) throw error;
+    }
+    await this.authenticate(url);
+    const [retry] = this.pool.publish([url], event);
+    return retry;
+  }
+
+  /**
+   * nostr-tools' relay.auth() swallows signer errors and then never settles,
+   * so race it against the signer failing and bound the whole exchange.
+   */
+  private async authenticate(url: string): Promise<void> {
+    const relay = this.findPoolRelay(url);
+    if (!relay) throw new Error(`auth-required: not connected to ${url}`);
+
+    let rejectSigning: (error: unknown) => void = () => {};
+    const signingFailed = new Promise<never>((_, reject) => {
+      rejectSigning = reject;
+    });
+    const signer = (template: EventTemplate) =>
+      this.handleAuthChallenge(template).catch((error) => {
+        rejectSigning(error);
+        throw error;
+      });
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`auth to ${url} timed out`)), AUTH_TIMEOUT_MS);
+    });
+
+    try {
+      await Promise.race([relay.auth(signer), signingFailed, timeout]);
+    } catch (error) {
+      // Drop the stuck AUTH so the next refusal can start a fresh one
+      (relay as unknown as { authPromise?: Promise<string> }).authPromise = undefined;
+      throw error;
+    } finally {
+      if (timer) clearTimeout(timer);
+    }
+  }
+
   /**
    * Subscribe to multiple relays
    */
@@ -149,7 +321,59 @@ export class RelayConnectionPool {
       throw new Error('RelayConnectionPool has been destroyed');
     }
 
-    return this.pool.subscribeMany(relayUrls, filters, params);
+    return this.pool.subscribeMany(relayUrls, filters, { onauth: this.handleAuthChallenge, ...params });
+  }
+
+  /**
+   * Sign a NIP-42 AUTH event for a relay's challenge and track whether the relay accepts it.
+   * Arrow property so it can be handed to nostr-tools as a callback.
+   */
+  private handleAuthChallenge = async (template: EventTemplate): Promise<VerifiedEvent> => {
+    const relayTag = template.tags.find(t => t[0] === 'relay');
+    const signed = await signRelayAuthEvent(template);
+    if (relayTag?.[1]) {
+      this.watchAuthResult(relayTag[1]);
+    }
+    return signed;
+  };
+
+  /**
+   * nostr-tools keeps the pending AUTH as relay.authPromise, resolving on the relay's OK
+   */
+  private watchAuthResult(relayUrl: string): void {
+    const normalizedUrl = this.normalizeRelayUrl(relayUrl);
+    const relay = this.findPoolRelay(relayUrl);
+    const authPromise = (relay as { authPromise?: Promise<unknown> } | undefined)?.authPromise;
+    if (!authPromise) return;
+    authPromise.then(
+      () => {
+        markRelayAuthResult(relayUrl, true);
+        this.updateConnectionStatus(normalizedUrl, { authenticated: true });
+      },
+      (error: unknown) => {
+        markRelayAuthResult(relayUrl, false);
+        this.updateConnectionStatus(normalizedUrl, {
+          authenticated: false,
+          lastError: error instanceof Error ? error.message : String(error),
+        });
+      }
+    );
+  }
+
+  private findPoolRelay(relayUrl: string): Relay | undefined {
+    const target = normalizeAuthRelayUrl(relayUrl);
+    const relays: Map<string, Relay> = this.relays;
+    for (const [url, relay] of relays) {
+      if (normalizeAuthRelayUrl(url) === target) return relay;
+    }
+    return undefined;
+  }
+
+  /**
+   * Whether the relay has accepted our NIP-42 AUTH on the current connection
+   */
+  isAuthenticated(url: string): boolean {
+    return this.getConnectionStatus(url)?.authenticated ?? false;
   }
 
   /**
@@ -160,7 +384,8 @@ export class RelayConnectionPool {
 
     relayUrls.forEach(url => {
       const normalizedUrl = this.normalizeRelayUrl(url);
-      this.updateConnectionStatus(normalizedUrl, { connected: false });
+      // AUTH is per connection, so closing drops it
+      this.updateConnectionStatus(normalizedUrl, { connected: false, authenticated: false });
 
       // Remove from active connections
       this.activeConnections.delete(normalizedUrl);
@@ -0,0 +1,165 @@
+import type { Event, Filter, SimplePool } from 'nostr-tools';
+import { isEventDeleted } from './queryInvalidation';
+
+// NIP-56 reports (kind 1984)
+
+export const REPORT_KIND = 1984;
+
+export const REPORT_TYPES = [
+  'spam',
+  'nudity',
+  'profanity',
+  'illegal',
+  'impersonation',
+  'malware',
+  'other',
+] as const;
+
+export type ReportType = (typeof REPORT_TYPES)[number];
+
+export const REPORT_TYPE_LABELS: Record<ReportType, string> = {
+  spam: 'Spam',
+  nudity: 'Nudity',
+  profanity: 'Profanity or hateful speech',
+  illegal: 'Illegal content',
+  impersonation: 'Impersonation',
+  malware: 'Malware',
+  other: 'Other',
+};
+
+export interface ReportTarget {
+  pubkey: string;
+  // Omitted when reporting a profile
+  eventId?: string;
+}
+
+export interface ReportSummary {
+  count: number;
+  reporters: string[];
+  types: ReportType[];
+}
+
+export const EMPTY_REPORT_SUMMARY: ReportSummary = { count: 0, reporters: [], types: [] };
+
+export function isReportType(value: unknown): value is ReportType {
+  return typeof value === 'string' && (REPORT_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Tags for a report. The type goes on the e tag for notes and on the p tag
+ * for profiles; the p tag is always present so the author can be looked up.
+ */
+export function buildReportTags(target: ReportTarget, type: ReportType): string[][] {
+  if (!/^[0-9a-f]{64}$/.test(target?.pubkey || '')) throw new Error('Invalid report target');
+  if (target.eventId) {
+    return [
+      ['e', target.eventId, type],
+      ['p', target.pubkey],
+    ];
+  }
+  return [['p', target.pubkey, type]];
+}
+
+/**
+ * Reports of one note by the given reporters, one per reporter (their
+ * latest wins). Reports deleted by their author are skipped.
+ */
+export function summarizeReports(
+  events: Pick<Event, 'id' | 'pubkey' | 'kind' | 'tags' | 'created_at'>[],
+  noteId: string,
+  trustedReporters: Set<string>
+): ReportSummary {
+  const latest = new Map<string, { created_at: number; type: ReportType }>();
+  for (const event of events || []) {
+    if (!event || event.kind !== REPORT_KIND || !trustedReporters.has(event.pubkey)) continue;
+    if (isEventDeleted(event)) continue;
+    const eTag = (event.tags || []).find((t) => t[0] === 'e' && t[1] === noteId);
+    if (!eTag) continue;
+    const type = isReportType(eTag[2]) ? eTag[2] : 'other';
+    const previous = latest.get(event.pubkey);
+    if (!previous || event.created_at > previous.created_at) {
+      latest.set(event.pubkey, { created_at: event.created_at, type });
+    }
+  }
+  if (latest.size === 0) return EMPTY_REPORT_SUMMARY;
+  const types = Array.from(new Set(Array.from(latest.values()).map((r) => r.type)));
+  return { count: latest.size, reporters: Array.from(latest.keys()), types };
+}
+
+/**
+ * One-line description for the placeholder shown over reported notes
+ */
+export function describeReportSummary(summary: ReportSummary): string {
+  const who = summary.count === 1 ? '1 trusted account' : `${summary.count} trusted accounts`;
+  const types = summary.types.map((t) => REPORT_TYPE_LABELS[t].toLowerCase()).join(', ');
+  return types ? `Reported by ${who}: ${types}` : `Reported by ${who}`;
+}
+
+// Lookups made while a feed page renders are collected and sent as one REQ
+const REPORT_BATCH_DELAY_MS = 20;
+const REPORT_BATCH_MAX_IDS = 100;
+const REPORT_BATCH_LIMIT = 1000;
+
+interface ReportLookup {
+  resolve: (events: Event[]) => void;
+  reject: (error: unknown) => void;
+}
+
+interface PendingReportBatch {
+  pool: Pick<SimplePool, 'querySync'>;
+  relayUrls: string[];
+  lookups: Map<string, ReportLookup[]>;
+}
+
+const pendingReportBatches = new Map<string, PendingReportBatch>();
+
+async function flushReportBatch(key: string): Promise<void> {
+  const batch = pendingReportBatches.get(key);
+  pendingReportBatches.delete(key);
+  if (!batch) return;
+
+  const ids = Array.from(batch.lookups.keys());
+  for (let i = 0; i < ids.length; i += REPORT_BATCH_MAX_IDS) {
+    const chunk = ids.slice(i, i + REPORT_BATCH_MAX_IDS);
+    const byNote = new Map<string, Event[]>(chunk.map((id) => [id, []]));
+    try {
+      const filter: Filter = { kinds: [REPORT_KIND], '#e': chunk, limit: REPORT_BATCH_LIMIT };
+      const events = await batch.pool.querySync(batch.relayUrls, filter);
+      for (const event of events || []) {
+        for (const tag of event?.tags || []) {
+          if (tag[0] === 'e') byNote.get(tag[1])?.push(event);
+        }
+      }
+      for (const id of chunk) {
+        batch.lookups.get(id)?.forEach((lookup) => lookup.resolve(byNote.get(id) || []));
+      }
+    } catch (error) {
+      for (const id of chunk) {
+        batch.lookups.get(id)?.forEach((lookup) => lookup.reject(error));
+      }
+    }
+  }
+}
+
+/**
+ * Reports (kind 1984) that reference a note. Calls made within a few
+ * milliseconds of each other for the same relays share one `#e` query.
+ */
+export function fetchNoteReports(
+  pool: Pick<SimplePool, 'querySync'>,
+  relayUrls: string[],
+  noteId: string
+): Promise<Event[]> {
+  const key = [...relayUrls].sort().join(',');
+  let batch = pendingReportBatches.get(key);
+  if (!batch) {
+    batch = { pool, relayUrls, lookups: new Map() };
+    pendingReportBatches.set(key, batch);
+    setTimeout(() => void flushReportBatch(key), REPORT_BATCH_DELAY_MS);
+  }
+  const lookups = batch.lookups.get(noteId) || [];
+  batch.lookups.set(noteId, lookups);
+  return new Promise((resolve, reject) => {
+    lookups.push({ resolve, reject });
+  });
+}
@@ -0,0 +1,131 @@
+import type { Event } from 'nostr-tools';
+import { decode as decodeInvoice } from 'light-bolt11-decoder';
+import { decodeLnurlBech32, getLnurlpEndpoint } from '../lnurl';
+import type { Metadata } from '../../types/nostr/types';
+
+// NIP-57 Appendix F: validating zap receipts (kind 9735)
+
+export const ZAP_REQUEST_KIND = 9734;
+export const ZAP_RECEIPT_KIND = 9735;
+
+const HEX_PUBKEY = /^[0-9a-f]{64}$/;
+
+export interface ZapReceiptContext {
+  // nostrPubkey advertised by the recipient's LNURL endpoint
+  zapperPubkey: string;
+  recipientPubkey: string;
+  noteId?: string;
+}
+
+export type ZapReceiptValidation =
+  | { valid: true; amountMsats: number; request: Event }
+  | { valid: false; reason: string };
+
+const firstTagValue = (tags: string[][] | undefined, name: string): string | undefined =>
+  (tags || []).find((t) => Array.isArray(t) && t[0] === name && t[1])?.[1];
+
+/**
+ * Amount of a bolt11 invoice in millisatoshis, or null when the invoice
+ * is malformed or has no amount
+ */
+export function parseInvoiceMsats(invoice: string): number | null {
+  try {
+    const decoded = decodeInvoice(invoice);
+    const amount = decoded.sections.find((s) => s.name === 'amount');
+    const msats = Number(amount && 'value' in amount ? amount.value : NaN);
+    return Number.isFinite(msats) && msats > 0 ? msats : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The kind 9734 zap request embedded in a receipt's description tag
+ */
+export function getZapRequest(receipt: Pick<Event, 'tags'>): Event | null {
+  const description = firstTagValue(receipt.tags, 'description');
+  if (!description) return null;
+  try {
+    const parsed = JSON.parse(description);
+    if (parsed && typeof parsed === 'object' && parsed.kind === ZAP_REQUEST_KIND && Array.isArray(parsed.tags)) {
+      return parsed as Event;
+    }
+  } catch {
+    // ignore invalid JSON
+  }
+  return null;
+}
+
+/**
+ * Check a receipt against the recipient's LNURL nostrPubkey: the receipt must
+ * be signed by that key, pay a valid invoice whose amount matches the zap
+ * request's amount tag, and point at the same recipient (and note) as the
+ * embedded request.
+ */
+export function validateZapReceipt(
+  receipt: Pick<Event, 'kind' | 'pubkey' | 'tags'>,
+  context: ZapReceiptContext
+): ZapReceiptValidation {
+  if (receipt.kind !== ZAP_RECEIPT_KIND) return { valid: false, reason: 'Not a zap receipt' };
+  if (receipt.pubkey !== context.zapperPubkey) {
+    return { valid: false, reason: 'Receipt not signed by the recipient’s zapper' };
+  }
+
+  const invoice = firstTagValue(receipt.tags, 'bolt11');
+  const amountMsats = invoice ? parseInvoiceMsats(invoice) : null;
+  if (!amountMsats) return { valid: false, reason: 'Missing or invalid invoice' };
+
+  const request = getZapRequest(receipt);
+  if (!request) return { valid: false, reason: 'Missing zap request' };
+
+  const requestedAmount = firstTagValue(request.tags, 'amount');
+  if (requestedAmount !== undefined && Number(requestedAmount) !== amountMsats) {
+    return { valid: false, reason: 'Invoice amount does not match the zap request' };
+  }
+
+  if (
+    firstTagValue(receipt.tags, 'p') !== context.recipientPubkey ||
+    firstTagValue(request.tags, 'p') !== context.recipientPubkey
+  ) {
+    return { valid: false, reason: 'Recipient does not match' };
+  }
+
+  if (context.noteId) {
+    if (
+      firstTagValue(receipt.tags, 'e') !== context.noteId ||
+      firstTagValue(request.tags, 'e') !== context.noteId
+    ) {
+      return { valid: false, reason: 'Zapped note does not match' };
+    }
+  }
+
+  return { valid: true, amountMsats, request };
+}
+
+/**
+ * LNURL-pay endpoint from a profile's lud16, falling back to lud06
+ */
+export function getLnurlEndpoint(metadata: Pick<Metadata, 'lud16' | 'lud06'> | null | undefined): string | null {
+  try {
+    if (metadata?.lud16) return getLnurlpEndpoint(metadata.lud16.trim());
+    if (metadata?.lud06) return decodeLnurlBech32(metadata.lud06.trim().toLowerCase());
+  } catch {
+    // unusable lightning address
+  }
+  return null;
+}
+
+/**
+ * The nostrPubkey an LNURL-pay endpoint signs zap receipts with, or null
+ * when the endpoint does not support zaps
+ */
+export async function fetchZapperPubkey(
+  endpoint: string,
+  fetchImpl: typeof fetch = fetch
+): Promise<string | null> {
+  const response = await fetchImpl(endpoint);
+  if (!response.ok) throw new Error(`LNURL endpoint returned ${response.status}`);
+  const data = await response.json();
+  const nostrPubkey = typeof data?.nostrPubkey === 'string' ? data.nostrPubkey.toLowerCase() : '';
+  return data?.allowsNostr === true && HEX_PUBKEY.test(nostrPubkey) ? nostrPubkey : null;
+}
@@ -0,0 +1,76 @@
+// NIP-57 Appendix G: zap splits, ["zap", <pubkey>, <relay>, <weight>]
+
+export const ZAP_SPLIT_TAG = 'zap';
+
+const HEX_PUBKEY = /^[0-9a-f]{64}$/;
+
+export interface ZapSplit {
+  pubkey: string;
+  relay?: string;
+  weight: number;
+}
+
+export interface ZapSplitShare {
+  pubkey: string;
+  relay?: string;
+  amount: number;
+}
+
+/**
+ * Split recipients declared on a note. When no tag carries a weight every
+ * recipient gets an equal share; otherwise tags without one get nothing.
+ */
+export function getZapSplits(tags: string[][] | undefined | null): ZapSplit[] {
+  const zapTags = (tags || []).filter(
+    (t) => Array.isArray(t) && t[0] === ZAP_SPLIT_TAG && HEX_PUBKEY.test(t[1] || '')
+  );
+  const anyWeighted = zapTags.some((t) => t[3] !== undefined && t[3] !== '');
+  const byPubkey = new Map<string, ZapSplit>();
+  for (const tag of zapTags) {
+    const weight = anyWeighted ? Number(tag[3]) : 1;
+    if (!Number.isFinite(weight) || weight <= 0) continue;
+    const existing = byPubkey.get(tag[1]);
+    if (existing) {
+      existing.weight += weight;
+    } else {
+      byPubkey.set(tag[1], { pubkey: tag[1], relay: tag[2] || undefined, weight });
+    }
+  }
+  return Array.from(byPubkey.values());
+}
+
+/**
+ * Divide a whole-sat amount by weight. Leftover sats from rounding go to the
+ * largest remainders so the shares always add up to the amount; recipients
+ * whose share rounds to zero are dropped.
+ */
+export function splitZapAmount(amount: number, splits: ZapSplit[]): ZapSplitShare[] {
+  const total = splits.reduce((sum, s) => sum + s.weight, 0);
+  if (!Number.isFinite(amount) || amount <= 0 || total <= 0) return [];
+  const shares = splits.map((split, index) => {
+    const exact = (amount * split.weight) / total;
+    return { split, index, amount: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+  let leftover = amount - shares.reduce((sum, s) => sum + s.amount, 0);
+  for (const share of [...shares].sort((a, b) => b.remainder - a.remainder || a.index - b.index)) {
+    if (leftover <= 0) break;
+    share.amount += 1;
+    leftover -= 1;
+  }
+  return shares
+    .filter((s) => s.amount > 0)
+    .map((s) => ({ pubkey: s.split.pubkey, relay: s.split.relay, amount: s.amount }));
+}
+
+export function buildZapSplitTags(splits: ZapSplit[]): string[][] {
+  return splits
+    .filter((s) => HEX_PUBKEY.test(s.pubkey) && s.weight > 0)
+    .map((s) => [ZAP_SPLIT_TAG, s.pubkey, s.relay || '', String(s.weight)]);
+}
+
+/**
+ * Replace the zap split tags in a tag list (an empty list removes them)
+ */
+export function withZapSplits(tags: string[][], splits: ZapSplit[]): string[][] {
+  return [...tags.filter((t) => t[0] !== ZAP_SPLIT_TAG), ...buildZapSplitTags(splits)];
+}
@@ -1,7 +1,11 @@
 /**
  * NSFW content filtering utilities
+ *
+ * A built-in preset evaluated by the same filter as the user's mute list.
  */
 
+import { createMuteFilter, createWordMatcher } from './muteFilter';
+
 // Blocked pubkeys (hex format) - users who consistently post NSFW content
 const BLOCKED_PUBKEYS = [
   '2b14efa5b01b30dbcbecb2b8353904c45fcfafda4fee4177abcba93ac55dd76f', // npub19v2wlfdsrvcdhjlvk2ur2wgyc30ult76flhyzaatew5n432a6ahs6ptsgt
@@ -112,6 +116,13 @@ const NSFW_WORDS = [
   '貧乳', // hinnyū - small breasts
 ];
 
+const NSFW_HASHTAGS = ['nsfw', 'adult', 'explicit', '18+'];
+
+// Word matchers are compiled once rather than per note
+const NSFW_WORD_MATCHERS = NSFW_WORDS.map(createWordMatcher);
+
+const NSFW_PUBKEY_FILTER = createMuteFilter(BLOCKED_PUBKEYS.map(pubkey => ['p', pubkey]));
+
 /**
  * Check if content contains NSFW hashtags
  */
@@ -123,12 +134,7 @@ export function hasNsfwHashtags(tags: string[][]): boolean {
     .map(tag => tag[1]?.toLowerCase())
     .filter(Boolean);
     
-  return hashtags.some(tag => 
-    tag === 'nsfw' || 
-    tag === 'adult' || 
-    tag === 'explicit' ||
-    tag === '18+'
-  );
+  return hashtags.some(tag => NSFW_HASHTAGS.includes(tag));
 }
 
 /**
@@ -137,23 +143,15 @@ export function hasNsfwHashtags(tags: string[][]): boolean {
 export function hasNsfwContent(content: string): boolean {
   if (!content || typeof content !== 'string') return false;
   
-  const normalizedContent = content.toLowerCase();
-  
-  return NSFW_WORDS.some(word => {
-    // Check for whole word matches to avoid false positives
-    // Use a more flexible boundary pattern that handles special characters
-    const escapedWord = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-    const regex = new RegExp(`(^|[^a-zA-Z0-9])${escapedWord}([^a-zA-Z0-9]|$)`, 'i');
-    return regex.test(normalizedContent);
-  });
+  // Check for whole word matches to avoid false positives
+  return NSFW_WORD_MATCHERS.some(regex => regex.test(content));
 }
 
 /**
  * Check if a pubkey is in the blocked list
  */
 export function isBlockedPubkey(pubkey: string | undefined): boolean {
-  if (!pubkey) return false;
-  return BLOCKED_PUBKEYS.includes(pubkey.toLowerCase());
+  return NSFW_PUBKEY_FILTER.isPubkeyMuted(pubkey);
 }
 
 /**
@@ -168,5 +166,3 @@ export function isNsfwNote(note: { content: string; tags: string[][]; pubkey?: s
   // Check for NSFW content
   return hasNsfwHashtags(note.tags) || hasNsfwContent(note.content);
 }
-
-
@@ -0,0 +1,58 @@
+// Profiles and threads the user opened recently, newest first
+
+export type RecentVisitType = 'profile' | 'thread';
+
+export interface RecentVisit {
+  type: RecentVisitType;
+  // npub for profiles, hex note id for threads
+  id: string;
+  visitedAt: number;
+}
+
+const STORAGE_KEY = 'recentVisits';
+export const MAX_RECENT_VISITS = 20;
+
+export function getRecentVisits(): RecentVisit[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (v): v is RecentVisit =>
+        v &&
+        (v.type === 'profile' || v.type === 'thread') &&
+        typeof v.id === 'string' &&
+        typeof v.visitedAt === 'number'
+    );
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Move an entry to the front, dropping the oldest beyond the limit
+ */
+export function addRecentVisit(
+  type: RecentVisitType,
+  id: string,
+  visitedAt: number = Date.now()
+): RecentVisit[] {
+  const visits = [
+    { type, id, visitedAt },
+    ...getRecentVisits().filter((v) => !(v.type === type && v.id === id)),
+  ].slice(0, MAX_RECENT_VISITS);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(visits));
+  } catch (error) {
+    console.warn('Failed to save recent visits:', error);
+  }
+  return visits;
+}
+
+export function clearRecentVisits(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.warn('Failed to clear recent visits:', error);
+  }
+}
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { fuzzyFilter, fuzzyMatch } from '../fuzzy';
+
+describe('fuzzyMatch', () => {
+  it('matches characters in order and records their positions', () => {
+    expect(fuzzyMatch('dkm', 'Dark mode')?.positions).toEqual([0, 3, 5]);
+    expect(fuzzyMatch('mkd', 'Dark mode')).toBeNull();
+  });
+
+  it('matches everything for an empty query', () => {
+    expect(fuzzyMatch('  ', 'anything')).toEqual({ score: 0, positions: [] });
+  });
+
+  it('scores word starts and consecutive runs above scattered matches', () => {
+    const wordStarts = fuzzyMatch('dm', 'Dark mode')!.score;
+    const scattered = fuzzyMatch('dm', 'Add media')!.score;
+    expect(wordStarts).toBeGreaterThan(scattered);
+    expect(fuzzyMatch('rep', 'Reply to note')!.score).toBeGreaterThan(
+      fuzzyMatch('rep', 'Scroll up (page)')?.score ?? -Infinity
+    );
+  });
+});
+
+describe('fuzzyFilter', () => {
+  it('drops non-matches and ranks the best match first', () => {
+    const labels = ['Add media', 'Bookmarks', 'Dark mode'];
+    expect(fuzzyFilter('dm', labels, (l) => l)).toEqual(['Dark mode', 'Add media']);
+  });
+
+  it('keeps the original order when nothing is typed', () => {
+    const labels = ['b', 'a', 'c'];
+    expect(fuzzyFilter('', labels, (l) => l)).toEqual(labels);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { parseSearchQuery } from '../parse';
+import {
+  MAX_INDEXED_NOTES,
+  MAX_POSTINGS_PER_TERM,
+  addNotesToIndex,
+  clearIndex,
+  getIndexSize,
+  queryIndex,
+  tokenize,
+  type IndexedNote,
+} from '../localIndex';
+
+const PUBKEY = 'a'.repeat(64);
+
+const makeNote = (n: number, content: string, extra: Partial<IndexedNote> = {}): IndexedNote => ({
+  id: n.toString(16).padStart(64, '0'),
+  pubkey: PUBKEY,
+  created_at: 1700000000 + n,
+  kind: 1,
+  tags: [],
+  content,
+  ...extra,
+});
+
+describe('localIndex', () => {
+  beforeEach(async () => {
+    await clearIndex();
+  });
+
+  it('tokenizes words, folds accents and skips URLs', () => {
+    expect(tokenize('Café MEETUP at https://x.example/a.png, café!')).toEqual(['cafe', 'meetup']);
+  });
+
+  it('finds notes containing every search word and applies operators', async () => {
+    await addNotesToIndex([
+      makeNote(1, 'Bitcoin meetup in Berlin'),
+      makeNote(2, 'Berlin meetup photos https://img.example/x.jpg'),
+      makeNote(3, 'Nothing to see', { tags: [['t', 'Berlin']] }),
+      makeNote(4, 'Berlin meetup reaction', { kind: 7 }),
+    ]);
+
+    const ids = async (q: string) => (await queryIndex(parseSearchQuery(q))).map((n) => n.created_at - 1700000000);
+    expect(await ids('meetup berlin')).toEqual([2, 1]);
+    expect(await ids('berlin meetup has:image')).toEqual([2]);
+    expect(await ids('#berlin')).toEqual([3]);
+    expect(await ids(`meetup until:${1700000001}`)).toEqual([1]);
+    expect(await ids('meetup from:' + 'b'.repeat(64))).toEqual([]);
+    expect(await ids('munich')).toEqual([]);
+  });
+
+  it('ignores notes it has already indexed', async () => {
+    expect(await addNotesToIndex([makeNote(1, 'hello world')])).toBe(1);
+    expect(await addNotesToIndex([makeNote(1, 'hello world'), makeNote(2, 'hello again')])).toBe(1);
+    expect(await getIndexSize()).toBe(2);
+  });
+
+  it('evicts the oldest indexed notes and caps common terms', async () => {
+    const notes = Array.from({ length: MAX_INDEXED_NOTES + 2 }, (_, i) =>
+      makeNote(i + 1, i < 2 ? `evicted${i} common` : 'common')
+    );
+    await addNotesToIndex(notes.slice(0, 2));
+    await addNotesToIndex(notes.slice(2));
+
+    expect(await getIndexSize()).toBe(MAX_INDEXED_NOTES);
+    expect(await queryIndex(parseSearchQuery('evicted0'))).toEqual([]);
+    const common = await queryIndex(parseSearchQuery('common'), MAX_INDEXED_NOTES);
+    expect(common).toHaveLength(MAX_POSTINGS_PER_TERM);
+    expect(common[0].created_at).toBe(1700000000 + MAX_INDEXED_NOTES + 2);
+  });
+});
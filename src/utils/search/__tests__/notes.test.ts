@@ -0,0 +1,153 @@
+import { describe, it, expect, vi } from 'vitest';
+import { nip19, type Event } from 'nostr-tools';
+import { parseSearchQuery, DEFAULT_SEARCH_KINDS } from '../parse';
+import {
+  buildSearchFilter,
+  getSearchRelayCandidates,
+  searchNotes,
+} from '../notes';
+import type { RelayConnectionPool } from '../../nostr/relayConnectionPool';
+import type { RelayPermission } from '../../../types/nostr/types';
+
+const PUBKEY = 'ab'.repeat(32);
+
+const makeEvent = (id: string, created_at: number, content: string): Event => ({
+  id,
+  pubkey: PUBKEY,
+  created_at,
+  kind: 1,
+  tags: [],
+  content,
+  sig: 's'.repeat(128),
+});
+
+describe('parseSearchQuery', () => {
+  it('separates operators from free text', () => {
+    const npub = nip19.npubEncode(PUBKEY);
+    const query = parseSearchQuery(
+      `bitcoin  from:${npub} #Nostr since:2024-01-01 until:2024-01-31 kind:article has:image meetup`
+    );
+    expect(query).toEqual({
+      text: 'bitcoin meetup',
+      authors: [PUBKEY],
+      hashtags: ['nostr'],
+      since: Date.UTC(2024, 0, 1) / 1000,
+      until: Date.UTC(2024, 0, 31) / 1000 + 86399,
+      kinds: [30023],
+      hasImage: true,
+    });
+  });
+
+  it('defaults to notes and articles and keeps malformed operators as text', () => {
+    const query = parseSearchQuery('from:nobody since:yesterday time:12:30 1700000000');
+    expect(query.kinds).toEqual(DEFAULT_SEARCH_KINDS);
+    expect(query.authors).toEqual([]);
+    expect(query.since).toBeUndefined();
+    expect(query.text).toBe('from:nobody since:yesterday time:12:30 1700000000');
+    expect(parseSearchQuery('since:1700000000 kind:1').since).toBe(1700000000);
+  });
+});
+
+describe('buildSearchFilter', () => {
+  it('maps the query onto a NIP-50 filter', () => {
+    const query = parseSearchQuery(`zaps #bitcoin from:${PUBKEY} since:1700000000`);
+    expect(buildSearchFilter(query, { limit: 10 })).toEqual({
+      kinds: DEFAULT_SEARCH_KINDS,
+      limit: 10,
+      search: 'zaps',
+      authors: [PUBKEY],
+      '#t': ['bitcoin'],
+      since: 1700000000,
+    });
+  });
+
+  it('uses the tighter of the paging cursor and until:', () => {
+    const query = parseSearchQuery('zaps until:1700000000');
+    expect(buildSearchFilter(query, { until: 1600000000 }).until).toBe(1600000000);
+    expect(buildSearchFilter(query, { until: 1800000000 }).until).toBe(1700000000);
+    expect(buildSearchFilter(parseSearchQuery('#nostr')).search).toBeUndefined();
+  });
+});
+
+describe('searchNotes', () => {
+  it('pages by created_at and filters has:image client-side', async () => {
+    const pool = {
+      querySync: vi.fn(async () => [
+        makeEvent('1'.repeat(64), 300, 'look https://img.example/a.png'),
+        makeEvent('2'.repeat(64), 100, 'no picture'),
+        makeEvent('1'.repeat(64), 300, 'look https://img.example/a.png'),
+      ]),
+    } as unknown as RelayConnectionPool;
+
+    const page = await searchNotes({
+      pool,
+      relays: ['wss://search.example'],
+      query: parseSearchQuery('look has:image'),
+      until: 500,
+    });
+    expect(pool.querySync).toHaveBeenCalledWith(
+      ['wss://search.example'],
+      expect.objectContaining({ search: 'look', until: 500 })
+    );
+    expect(page.notes.map((n) => n.id)).toEqual(['1'.repeat(64)]);
+    expect(page.nextUntil).toBe(100);
+  });
+
+  it('resumes from the newest per-relay oldest timestamp', async () => {
+    const pages: Record<string, Event[]> = {
+      'wss://deep.example': [makeEvent('3'.repeat(64), 300, 'a'), makeEvent('4'.repeat(64), 100, 'b')],
+      'wss://shallow.example': [makeEvent('3'.repeat(64), 300, 'a'), makeEvent('5'.repeat(64), 250, 'c')],
+    };
+    const pool = {
+      querySync: vi.fn(async ([url]: string[]) => pages[url]),
+    } as unknown as RelayConnectionPool;
+
+    const page = await searchNotes({
+      pool,
+      relays: Object.keys(pages),
+      query: parseSearchQuery('x'),
+    });
+    expect(page.notes.map((n) => n.created_at)).toEqual([300, 250, 100]);
+    expect(page.nextUntil).toBe(250);
+  });
+
+  it('steps past a second that fills a whole page', async () => {
+    const pool = {
+      querySync: vi.fn(async () => [makeEvent('6'.repeat(64), 200, 'same second')]),
+    } as unknown as RelayConnectionPool;
+
+    const page = await searchNotes({ pool, relays: ['wss://a.example'], query: parseSearchQuery('x'), until: 200 });
+    expect(page.nextUntil).toBe(199);
+  });
+
+  it('fails only when every relay fails', async () => {
+    const pool = {
+      querySync: vi.fn(async ([url]: string[]) => {
+        if (url === 'wss://down.example') throw new Error('offline');
+        return [makeEvent('7'.repeat(64), 50, 'ok')];
+      }),
+    } as unknown as RelayConnectionPool;
+
+    const page = await searchNotes({ pool, relays: ['wss://down.example', 'wss://up.example'], query: parseSearchQuery('x') });
+    expect(page.nextUntil).toBe(50);
+    await expect(
+      searchNotes({ pool, relays: ['wss://down.example'], query: parseSearchQuery('x') })
+    ).rejects.toThrow('offline');
+  });
+
+  it('stops paging when a page comes back empty', async () => {
+    const pool = { querySync: vi.fn(async () => []) } as unknown as RelayConnectionPool;
+    const page = await searchNotes({ pool, relays: [], query: parseSearchQuery('x') });
+    expect(page).toEqual({ notes: [], nextUntil: null });
+  });
+});
+
+describe('getSearchRelayCandidates', () => {
+  it('returns relays with the Indexer permission', () => {
+    const permissions = new Map<string, RelayPermission>([
+      ['wss://a.example', 'readwrite'],
+      ['wss://search.example', 'indexer'],
+    ]);
+    expect(getSearchRelayCandidates(permissions)).toEqual(['wss://search.example']);
+  });
+});
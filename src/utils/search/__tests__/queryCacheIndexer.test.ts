@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { collectNotes } from '../queryCacheIndexer';
+
+const note = (n: number, kind?: number) => ({
+  id: n.toString(16).padStart(64, '0'),
+  pubkey: 'a'.repeat(64),
+  created_at: 1700000000 + n,
+  content: `note ${n}`,
+  tags: [],
+  ...(kind === undefined ? {} : { kind }),
+});
+
+describe('collectNotes', () => {
+  it('finds notes in the shapes query data comes in', () => {
+    const data = {
+      pages: [{ notes: [note(1), note(2, 1)], nextCursor: 5 }],
+      thread: new Map([['root', [note(3, 30023), note(1)]]]),
+      reactions: [note(4, 7)],
+      profile: { ...note(5, 0), content: '{"name":"x"}' },
+    };
+    expect(collectNotes(data).map((n) => n.created_at - 1700000000).sort()).toEqual([1, 2, 3]);
+    expect(collectNotes(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,57 @@
+// Subsequence matching for short labels (command palette entries)
+
+const WORD_SEPARATORS = /[\s\-_/.:@]/;
+
+export interface FuzzyMatch {
+  score: number;
+  // Indices in text of the matched characters, for highlighting
+  positions: number[];
+}
+
+/**
+ * Match query characters in order anywhere in text. Consecutive characters
+ * and characters that start a word score higher, so "dm" ranks "Dark mode"
+ * above "Add media". Null when some query character is missing.
+ */
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const q = query.trim().toLowerCase();
+  if (!q) return { score: 0, positions: [] };
+  const t = text.toLowerCase();
+
+  const positions: number[] = [];
+  let score = 0;
+  let from = 0;
+  for (const char of q) {
+    if (char === " ") continue;
+    const index = t.indexOf(char, from);
+    if (index === -1) return null;
+
+    const previous = positions[positions.length - 1];
+    if (previous !== undefined && index === previous + 1) score += 5;
+    if (index === 0 || WORD_SEPARATORS.test(t[index - 1])) score += 8;
+    // Gaps cost a little so tight matches win ties
+    score -= Math.min(index - from, 3);
+    score += 1;
+
+    positions.push(index);
+    from = index + 1;
+  }
+
+  if (t.startsWith(q)) score += 10;
+  return { score, positions };
+}
+
+/**
+ * Items matching the query, best first; ties keep their original order
+ */
+export function fuzzyFilter<T>(
+  query: string,
+  items: T[],
+  getText: (item: T) => string
+): T[] {
+  return items
+    .map((item, index) => ({ item, index, match: fuzzyMatch(query, getText(item)) }))
+    .filter((entry): entry is { item: T; index: number; match: FuzzyMatch } => entry.match !== null)
+    .sort((a, b) => b.match.score - a.match.score || a.index - b.index)
+    .map((entry) => entry.item);
+}
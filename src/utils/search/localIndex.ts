@@ -0,0 +1,191 @@
+import { clear, createStore, delMany, get, getMany, set, setMany } from 'idb-keyval';
+import { extractImageUrls } from '../nostr/utils';
+import type { SearchQuery } from './parse';
+
+// Inverted index over notes we've already fetched. Runs inside
+// searchIndexWorker; kept free of DOM/React imports for that reason.
+
+export interface IndexedNote {
+  id: string;
+  pubkey: string;
+  created_at: number;
+  kind: number;
+  tags: string[][];
+  content: string;
+}
+
+export const INDEXED_KINDS = [1, 30023];
+export const MAX_INDEXED_NOTES = 5000;
+// Very common terms stop growing past this; their oldest ids fall off
+export const MAX_POSTINGS_PER_TERM = 2000;
+const MAX_CONTENT_LENGTH = 20000;
+const MAX_TERM_LENGTH = 40;
+
+const indexStore = createStore('nostr-search-index', 'index');
+const META_KEY = 'meta';
+const docKey = (id: string) => `doc:${id}`;
+const termKey = (term: string) => `term:${term}`;
+
+interface IndexMeta {
+  order: string[]; // note ids, oldest indexed first (eviction order)
+}
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'was',
+  'its', 'it', 'is', 'in', 'on', 'of', 'to', 'a', 'an', 'at', 'be', 'or', 'as',
+  'this', 'that', 'with', 'from', 'have', 'has', 'https', 'http', 'www',
+]);
+
+/**
+ * Lowercased, accent-folded words; URLs and nostr: references are dropped
+ */
+export function tokenize(text: string): string[] {
+  const cleaned = (text || '')
+    .replace(/https?:\/\/\S+/gi, ' ')
+    .replace(/nostr:[a-z0-9]+/gi, ' ')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+  const terms = new Set<string>();
+  for (const word of cleaned.split(/[^\p{L}\p{N}_]+/u)) {
+    if (word.length < 2 || word.length > MAX_TERM_LENGTH || STOP_WORDS.has(word)) continue;
+    terms.add(word);
+  }
+  return Array.from(terms);
+}
+
+// Hashtags are indexed as "#tag" so `#nostr` and the word "nostr" stay apart
+function termsForNote(note: IndexedNote): string[] {
+  const terms = new Set(tokenize(note.content));
+  for (const tag of note.tags || []) {
+    if (tag[0] === 't' && tag[1]) terms.add(`#${tag[1].toLowerCase()}`);
+  }
+  return Array.from(terms);
+}
+
+function isIndexable(note: IndexedNote): boolean {
+  return (
+    typeof note?.id === 'string' &&
+    typeof note.content === 'string' &&
+    note.content.length > 0 &&
+    note.content.length <= MAX_CONTENT_LENGTH &&
+    INDEXED_KINDS.includes(note.kind)
+  );
+}
+
+// IndexedDB read-modify-write cycles must not interleave
+let pending: Promise<unknown> = Promise.resolve();
+function serialize<T>(task: () => Promise<T>): Promise<T> {
+  const run = pending.then(task, task);
+  pending = run.catch(() => undefined);
+  return run;
+}
+
+async function loadMeta(): Promise<IndexMeta> {
+  return ((await get(META_KEY, indexStore)) as IndexMeta | undefined) ?? { order: [] };
+}
+
+/**
+ * Add notes to the index, evicting the oldest-indexed ones past the size
+ * limit. Returns how many new notes were indexed.
+ */
+export function addNotesToIndex(notes: IndexedNote[]): Promise<number> {
+  return serialize(async () => {
+    const meta = await loadMeta();
+    const known = new Set(meta.order);
+    const fresh = new Map<string, IndexedNote>();
+    for (const note of notes) {
+      if (isIndexable(note) && !known.has(note.id)) {
+        fresh.set(note.id, {
+          id: note.id,
+          pubkey: note.pubkey,
+          created_at: note.created_at,
+          kind: note.kind,
+          tags: note.tags || [],
+          content: note.content,
+        });
+      }
+    }
+    if (fresh.size === 0) return 0;
+
+    const order = [...meta.order, ...fresh.keys()];
+    const evictedIds = order.length > MAX_INDEXED_NOTES ? order.splice(0, order.length - MAX_INDEXED_NOTES) : [];
+    const evictedSet = new Set(evictedIds);
+    const evicted = (await getMany<IndexedNote | undefined>(evictedIds.map(docKey), indexStore)).filter(
+      (doc): doc is IndexedNote => !!doc
+    );
+
+    const added = new Map<string, string[]>();
+    for (const note of fresh.values()) {
+      if (evictedSet.has(note.id)) continue;
+      for (const term of termsForNote(note)) {
+        if (!added.has(term)) added.set(term, []);
+        added.get(term)!.push(note.id);
+      }
+    }
+    const removed = new Map<string, Set<string>>();
+    for (const doc of evicted) {
+      for (const term of termsForNote(doc)) {
+        if (!removed.has(term)) removed.set(term, new Set());
+        removed.get(term)!.add(doc.id);
+      }
+    }
+
+    const terms = Array.from(new Set([...added.keys(), ...removed.keys()]));
+    const current = await getMany<string[] | undefined>(terms.map(termKey), indexStore);
+    const writes: [string, unknown][] = [];
+    const deletes: string[] = evictedIds.map(docKey);
+    terms.forEach((term, i) => {
+      const drop = removed.get(term);
+      let ids = (current[i] ?? []).filter((id) => !drop?.has(id)).concat(added.get(term) ?? []);
+      if (ids.length > MAX_POSTINGS_PER_TERM) ids = ids.slice(ids.length - MAX_POSTINGS_PER_TERM);
+      if (ids.length > 0) writes.push([termKey(term), ids]);
+      else deletes.push(termKey(term));
+    });
+    for (const note of fresh.values()) {
+      if (!evictedSet.has(note.id)) writes.push([docKey(note.id), note]);
+    }
+
+    await setMany(writes, indexStore);
+    if (deletes.length > 0) await delMany(deletes, indexStore);
+    await set(META_KEY, { order } satisfies IndexMeta, indexStore);
+    return fresh.size;
+  });
+}
+
+/**
+ * Notes containing every search word and hashtag, narrowed by the other
+ * operators, newest first. Author-only queries aren't served locally.
+ */
+export function queryIndex(query: SearchQuery, limit: number = 50): Promise<IndexedNote[]> {
+  return serialize(async () => {
+    const terms = [...tokenize(query.text), ...query.hashtags.map((t) => `#${t.toLowerCase()}`)];
+    if (terms.length === 0) return [];
+
+    const lists = await getMany<string[] | undefined>(terms.map(termKey), indexStore);
+    if (lists.some((ids) => !ids || ids.length === 0)) return [];
+    const [smallest, ...rest] = (lists as string[][]).sort((a, b) => a.length - b.length);
+    const others = rest.map((ids) => new Set(ids));
+    const ids = smallest.filter((id) => others.every((set) => set.has(id)));
+
+    const docs = (await getMany<IndexedNote | undefined>(ids.map(docKey), indexStore)).filter(
+      (doc): doc is IndexedNote => !!doc
+    );
+    return docs
+      .filter((doc) => query.kinds.includes(doc.kind))
+      .filter((doc) => query.authors.length === 0 || query.authors.includes(doc.pubkey))
+      .filter((doc) => query.since === undefined || doc.created_at >= query.since)
+      .filter((doc) => query.until === undefined || doc.created_at <= query.until)
+      .filter((doc) => !query.hasImage || extractImageUrls(doc.content).length > 0)
+      .sort((a, b) => b.created_at - a.created_at)
+      .slice(0, limit);
+  });
+}
+
+export function getIndexSize(): Promise<number> {
+  return serialize(async () => (await loadMeta()).order.length);
+}
+
+export function clearIndex(): Promise<void> {
+  return serialize(() => clear(indexStore));
+}
@@ -0,0 +1,163 @@
+import type { Event, Filter } from "nostr-tools";
+import type { Note, RelayPermission } from "../../types/nostr/types";
+import type { RelayConnectionPool } from "../nostr/relayConnectionPool";
+import { fetchRelayInfo } from "../nostr/relayInfo";
+import { extractImageUrls, extractVideoUrls } from "../nostr/utils";
+import type { SearchQuery } from "./parse";
+
+// Used when no relay is marked "Indexer" (or none of them speak NIP-50)
+export const DEFAULT_SEARCH_RELAYS = [
+  "wss://relay.nostr.band",
+  "wss://search.nos.today",
+];
+
+export const SEARCH_PAGE_SIZE = 30;
+
+/**
+ * Relays the user marked with the "Indexer" permission, in settings order
+ */
+export function getSearchRelayCandidates(
+  relayPermissions: Map<string, RelayPermission>
+): string[] {
+  return Array.from(relayPermissions.entries())
+    .filter(([, permission]) => permission === "indexer")
+    .map(([url]) => url);
+}
+
+/**
+ * Indexer relays that support NIP-50. Relays whose NIP-11 document can't be
+ * fetched are kept; ones that list their NIPs without 50 are dropped.
+ */
+export async function resolveSearchRelays(
+  relayPermissions: Map<string, RelayPermission>
+): Promise<string[]> {
+  const candidates = getSearchRelayCandidates(relayPermissions);
+  const results = await Promise.all(
+    candidates.map(async (url) => {
+      const { info } = await fetchRelayInfo(url);
+      const nips = info?.supported_nips;
+      return !Array.isArray(nips) || nips.includes(50) ? url : null;
+    })
+  );
+  const relays = results.filter((url): url is string => url !== null);
+  return relays.length > 0 ? relays : DEFAULT_SEARCH_RELAYS;
+}
+
+export function buildSearchFilter(
+  query: SearchQuery,
+  options: { until?: number; limit?: number } = {}
+): Filter {
+  const filter: Filter = {
+    kinds: query.kinds,
+    limit: options.limit ?? SEARCH_PAGE_SIZE,
+  };
+  if (query.text) filter.search = query.text;
+  if (query.authors.length > 0) filter.authors = query.authors;
+  if (query.hashtags.length > 0) filter["#t"] = query.hashtags;
+  if (query.since !== undefined) filter.since = query.since;
+
+  // Page cursor and until: operator both bound the window; the tighter wins
+  const bounds = [options.until, query.until].filter(
+    (v): v is number => v !== undefined
+  );
+  if (bounds.length > 0) filter.until = Math.min(...bounds);
+  return filter;
+}
+
+export function eventToSearchNote(
+  event: Pick<Event, "id" | "pubkey" | "created_at" | "kind" | "tags" | "content">
+): Note {
+  return {
+    id: event.id,
+    content: event.content || "",
+    pubkey: event.pubkey,
+    created_at: event.created_at,
+    kind: event.kind,
+    tags: event.tags || [],
+    imageUrls: extractImageUrls(event.content || ""),
+    videoUrls: extractVideoUrls(event.content || ""),
+    receivedAt: Date.now(),
+  } as Note;
+}
+
+/**
+ * Merge result lists (e.g. local index hits and relay pages), newest first
+ */
+export function mergeSearchResults(current: Note[], incoming: Note[]): Note[] {
+  const byId = new Map<string, Note>();
+  for (const note of [...current, ...incoming]) {
+    if (!byId.has(note.id)) byId.set(note.id, note);
+  }
+  return Array.from(byId.values()).sort(
+    (a, b) => (b.created_at || 0) - (a.created_at || 0)
+  );
+}
+
+export interface SearchNotesPage {
+  notes: Note[];
+  // Pass back as `until` for the next page; null when the relays ran dry.
+  // Inclusive, so the next page can repeat notes: merge with mergeSearchResults
+  nextUntil: number | null;
+}
+
+/**
+ * One page of note search results, newest first. Text queries go to NIP-50
+ * relays; operator-only queries (hashtags, authors) work on any relay.
+ */
+export async function searchNotes(params: {
+  pool: RelayConnectionPool;
+  relays: string[];
+  query: SearchQuery;
+  until?: number;
+  limit?: number;
+}): Promise<SearchNotesPage> {
+  const { pool, relays, query } = params;
+  const limit = params.limit ?? SEARCH_PAGE_SIZE;
+  const filter = buildSearchFilter(query, { until: params.until, limit });
+
+  // Ask each relay separately: their pages cover different time spans
+  const results = await Promise.allSettled(
+    relays.map((url) => pool.querySync([url], filter))
+  );
+  const failed = results.find(
+    (r): r is PromiseRejectedResult => r.status === "rejected"
+  );
+  if (failed && results.every((r) => r.status === "rejected")) {
+    throw failed.reason;
+  }
+
+  const byId = new Map<string, Event>();
+  // Resume from the newest of the per-relay oldest timestamps, so a relay that
+  // reached far back doesn't make us skip what the others haven't sent yet
+  let nextUntil: number | null = null;
+  for (const result of results) {
+    if (result.status !== "fulfilled") continue;
+    let relayOldest: number | null = null;
+    for (const event of result.value || []) {
+      if (!event) continue;
+      if (!byId.has(event.id)) byId.set(event.id, event);
+      if (relayOldest === null || event.created_at < relayOldest) {
+        relayOldest = event.created_at;
+      }
+    }
+    if (relayOldest !== null && (nextUntil === null || relayOldest > nextUntil)) {
+      nextUntil = relayOldest;
+    }
+  }
+  // A full second of results would otherwise come back forever
+  if (nextUntil !== null && filter.until !== undefined && nextUntil >= filter.until) {
+    nextUntil = filter.until - 1;
+  }
+
+  const page = Array.from(byId.values()).sort(
+    (a, b) => b.created_at - a.created_at
+  );
+
+  // has:image isn't a NIP-50 extension, so filter client-side. The cursor
+  // still follows the raw page so empty filtered pages don't stop paging.
+  const notes = page
+    .map(eventToSearchNote)
+    .filter((note) => !query.hasImage || (note.imageUrls?.length ?? 0) > 0);
+
+  return { notes, nextUntil };
+}
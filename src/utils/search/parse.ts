@@ -4,6 +4,7 @@ export type SearchEntityType =
   | "person"
   | "note"
   | "nip05"
+  | "address"
   | "ambiguous_hex"
   | "unknown";
 
@@ -12,9 +13,17 @@ export type SearchEntitySubtype =
   | "nprofile"
   | "note"
   | "nevent"
+  | "naddr"
   | "hex"
   | "nip05";
 
+// Coordinates of a replaceable event (kind:pubkey:d-tag), e.g. an article
+export interface AddressPointer {
+  kind: number;
+  pubkey: string;
+  identifier: string;
+}
+
 export interface ParseResult {
   type: SearchEntityType;
   subtype?: SearchEntitySubtype;
@@ -22,6 +31,7 @@ export interface ParseResult {
   pubkeyHex?: string;
   npub?: string;
   noteIdHex?: string;
+  address?: AddressPointer;
   relayHints?: string[];
 }
 
@@ -85,6 +95,28 @@ export function parseSearchInput(inputRaw: string): ParseResult {
     };
   }
 
+  if (/^naddr1[ac-hj-np-z02-9]+$/i.test(input)) {
+    try {
+      const decoded = nip19.decode(input);
+      if (decoded.type === "naddr") {
+        return {
+          type: "address",
+          subtype: "naddr",
+          input,
+          pubkeyHex: decoded.data.pubkey,
+          address: {
+            kind: decoded.data.kind,
+            pubkey: decoded.data.pubkey,
+            identifier: decoded.data.identifier,
+          },
+          relayHints: decoded.data.relays ?? [],
+        };
+      }
+    } catch {
+      // fall through to other checks
+    }
+  }
+
   // Other Bech32 types
   if (/^(npub|nprofile|note)1[ac-hj-np-z02-9]+$/i.test(input)) {
     try {
@@ -133,3 +165,108 @@ export function parseSearchInput(inputRaw: string): ParseResult {
 }
 
 
+
+// Kinds covered by full-text note search: short notes and NIP-23 articles
+export const DEFAULT_SEARCH_KINDS = [1, 30023];
+
+const KIND_ALIASES: Record<string, number> = {
+  note: 1,
+  notes: 1,
+  article: 30023,
+  articles: 30023,
+  longform: 30023,
+};
+
+export interface SearchQuery {
+  text: string; // free text sent as the NIP-50 `search` field
+  authors: string[]; // hex pubkeys from from:
+  hashtags: string[]; // lowercase, without "#"
+  since?: number; // unix seconds
+  until?: number; // unix seconds
+  kinds: number[];
+  hasImage: boolean;
+}
+
+// YYYY-MM-DD (UTC midnight) or a unix timestamp in seconds
+function parseDateOperand(value: string, endOfDay: boolean): number | undefined {
+  if (/^\d{9,11}$/.test(value)) return Number(value);
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return undefined;
+  const ms = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  if (!Number.isFinite(ms)) return undefined;
+  return Math.floor(ms / 1000) + (endOfDay ? 24 * 60 * 60 - 1 : 0);
+}
+
+function parseAuthorOperand(value: string): string | undefined {
+  const parsed = parseSearchInput(value);
+  if (parsed.type === "person" && parsed.pubkeyHex) return parsed.pubkeyHex;
+  if (isHex64(value)) return value.toLowerCase();
+  return undefined;
+}
+
+/**
+ * Split a note search into free text and operators:
+ * `from:npub…`, `#tag`, `since:`/`until:` (YYYY-MM-DD or unix), `kind:` and
+ * `has:image`. Operators that don't parse are kept as search text.
+ */
+export function parseSearchQuery(inputRaw: string): SearchQuery {
+  const authors = new Set<string>();
+  const hashtags = new Set<string>();
+  const kinds = new Set<number>();
+  const words: string[] = [];
+  let since: number | undefined;
+  let until: number | undefined;
+  let hasImage = false;
+
+  for (const token of (inputRaw || "").trim().split(/\s+/).filter(Boolean)) {
+    const colon = token.indexOf(":");
+    const op = colon > 0 ? token.slice(0, colon).toLowerCase() : "";
+    const arg = colon > 0 ? token.slice(colon + 1) : "";
+
+    if (token.startsWith("#") && token.length > 1) {
+      hashtags.add(token.slice(1).toLowerCase());
+      continue;
+    }
+    if (op === "from") {
+      const pubkey = parseAuthorOperand(stripNostrPrefix(arg));
+      if (pubkey) {
+        authors.add(pubkey);
+        continue;
+      }
+    }
+    if (op === "since" || op === "until") {
+      const ts = parseDateOperand(arg, op === "until");
+      if (ts !== undefined) {
+        if (op === "since") since = ts;
+        else until = ts;
+        continue;
+      }
+    }
+    if (op === "kind") {
+      const kind = /^\d+$/.test(arg) ? Number(arg) : KIND_ALIASES[arg.toLowerCase()];
+      if (kind !== undefined) {
+        kinds.add(kind);
+        continue;
+      }
+    }
+    if (op === "has" && arg.toLowerCase() === "image") {
+      hasImage = true;
+      continue;
+    }
+    words.push(token);
+  }
+
+  return {
+    text: words.join(" "),
+    authors: Array.from(authors),
+    hashtags: Array.from(hashtags),
+    since,
+    until,
+    kinds: kinds.size > 0 ? Array.from(kinds) : [...DEFAULT_SEARCH_KINDS],
+    hasImage,
+  };
+}
+
+export function isEmptySearchQuery(query: SearchQuery): boolean {
+  return !query.text && query.authors.length === 0 && query.hashtags.length === 0;
+}
@@ -0,0 +1,113 @@
+import type { QueryClient } from "@tanstack/react-query";
+import { indexNotes } from "../../workers/searchIndexBridge";
+import { INDEXED_KINDS, type IndexedNote } from "./localIndex";
+
+// Feeds notes entering the TanStack Query cache into the local search index.
+// Query data comes in many shapes (single notes, arrays, infinite pages,
+// thread maps), so it is walked generically for note-like objects.
+
+const FLUSH_DELAY_MS = 2000;
+const MAX_WALK_DEPTH = 5;
+const MAX_WALK_NODES = 20000;
+
+let unsubscribe: (() => void) | null = null;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+const pendingNotes = new Map<string, IndexedNote>();
+
+function asIndexedNote(value: Record<string, unknown>): IndexedNote | null {
+  const { id, pubkey, created_at, content, tags } = value;
+  // Notes mapped without a kind are kind 1 throughout the app
+  const kind = value.kind === undefined ? 1 : value.kind;
+  if (
+    typeof id !== "string" ||
+    !/^[0-9a-f]{64}$/.test(id) ||
+    typeof pubkey !== "string" ||
+    typeof content !== "string" ||
+    typeof created_at !== "number" ||
+    typeof kind !== "number" ||
+    !INDEXED_KINDS.includes(kind)
+  ) {
+    return null;
+  }
+  return {
+    id,
+    pubkey,
+    created_at,
+    kind,
+    content,
+    tags: Array.isArray(tags) ? (tags as string[][]) : [],
+  };
+}
+
+/**
+ * Collect indexable notes from arbitrary query data
+ */
+export function collectNotes(data: unknown): IndexedNote[] {
+  const found = new Map<string, IndexedNote>();
+  let visited = 0;
+
+  const walk = (value: unknown, depth: number) => {
+    if (!value || typeof value !== "object" || depth > MAX_WALK_DEPTH) return;
+    if (++visited > MAX_WALK_NODES) return;
+
+    if (Array.isArray(value)) {
+      value.forEach((item) => walk(item, depth + 1));
+      return;
+    }
+    if (value instanceof Map) {
+      value.forEach((item) => walk(item, depth + 1));
+      return;
+    }
+    const note = asIndexedNote(value as Record<string, unknown>);
+    if (note) {
+      found.set(note.id, note);
+      return;
+    }
+    Object.values(value as Record<string, unknown>).forEach((item) =>
+      walk(item, depth + 1)
+    );
+  };
+
+  walk(data, 0);
+  return Array.from(found.values());
+}
+
+function flush() {
+  flushTimer = null;
+  const notes = Array.from(pendingNotes.values());
+  pendingNotes.clear();
+  indexNotes(notes);
+}
+
+function queue(data: unknown) {
+  for (const note of collectNotes(data)) pendingNotes.set(note.id, note);
+  if (pendingNotes.size > 0 && !flushTimer) {
+    flushTimer = setTimeout(flush, FLUSH_DELAY_MS);
+  }
+}
+
+/**
+ * Start indexing query results. Restored (persisted) queries are indexed too.
+ */
+export function initializeLocalSearchIndex(queryClient: QueryClient) {
+  if (unsubscribe) return;
+  const cache = queryClient.getQueryCache();
+  cache.getAll().forEach((query) => queue(query.state.data));
+
+  unsubscribe = cache.subscribe((event) => {
+    if (event.type === "added" && event.query.state.data !== undefined) {
+      queue(event.query.state.data);
+    } else if (event.type === "updated" && event.action.type === "success") {
+      queue(event.query.state.data);
+    }
+  });
+}
+
+export function cleanupLocalSearchIndex() {
+  unsubscribe?.();
+  unsubscribe = null;
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flush();
+  }
+}
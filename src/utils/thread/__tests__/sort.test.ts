@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { getNewReplyIds, sortReplies } from "../../thread/sort";
+import type { Note } from "../../../types/nostr/types";
+
+const mk = (id: string, created_at: number, pubkey = "x"): Note => ({
+  id,
+  created_at,
+  content: "",
+  pubkey,
+  tags: [],
+  imageUrls: [],
+  videoUrls: [],
+  receivedAt: created_at,
+});
+
+const ids = (notes: { id: string }[]) => notes.map((n) => n.id);
+
+describe("sortReplies", () => {
+  const a = mk("a", 1, "alice");
+  const b = mk("b", 2, "bob");
+  const c = mk("c", 3, "carol");
+
+  it("orders by time in either direction without mutating input", () => {
+    const input = [b, c, a];
+    expect(ids(sortReplies(input, "oldest"))).toEqual(["a", "b", "c"]);
+    expect(ids(sortReplies(input, "newest"))).toEqual(["c", "b", "a"]);
+    expect(ids(input)).toEqual(["b", "c", "a"]);
+  });
+
+  it("ranks by reactions, then zapped sats, then age", () => {
+    const engagement: Record<string, { reactions: number; zapSats: number }> = {
+      a: { reactions: 1, zapSats: 0 },
+      b: { reactions: 1, zapSats: 500 },
+    };
+    const sorted = sortReplies([a, b, c], "top", {
+      getEngagement: (id) => engagement[id],
+    });
+    expect(ids(sorted)).toEqual(["b", "a", "c"]);
+  });
+
+  it("puts follows and our own replies first, oldest first within each group", () => {
+    const sorted = sortReplies([a, b, c], "follows", {
+      isFollowing: (pk) => pk === "carol",
+      myPubkey: "bob",
+    });
+    expect(ids(sorted)).toEqual(["b", "c", "a"]);
+  });
+});
+
+describe("getNewReplyIds", () => {
+  it("marks other people's replies newer than the last visit", () => {
+    const notes = [mk("old", 10), mk("mine", 30, "me"), mk("new", 30)];
+    expect(Array.from(getNewReplyIds(notes, 20, "me"))).toEqual(["new"]);
+  });
+
+  it("marks nothing on a first visit", () => {
+    expect(getNewReplyIds([mk("a", 30)], null).size).toBe(0);
+  });
+});
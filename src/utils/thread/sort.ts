@@ -0,0 +1,82 @@
+import type { Note } from "../../types/nostr/types";
+
+export type ThreadSortMode = "oldest" | "newest" | "top" | "follows";
+
+export const DEFAULT_THREAD_SORT_MODE: ThreadSortMode = "oldest";
+
+export const THREAD_SORT_MODES: {
+  mode: ThreadSortMode;
+  label: string;
+  title: string;
+}[] = [
+  { mode: "oldest", label: "oldest", title: "Oldest replies first" },
+  { mode: "newest", label: "newest", title: "Newest replies first" },
+  { mode: "top", label: "top", title: "Most reactions first, then most sats zapped" },
+  { mode: "follows", label: "follows", title: "Replies from people you follow first" },
+];
+
+export interface ReplyEngagement {
+  reactions: number;
+  zapSats: number;
+}
+
+interface SortRepliesOptions {
+  // Needed for "top"; replies without data count as zero
+  getEngagement?: (noteId: string) => ReplyEngagement | undefined;
+  // Needed for "follows"
+  isFollowing?: (pubkey: string) => boolean;
+  myPubkey?: string | null;
+}
+
+const byCreatedAt = (a: Note, b: Note) => a.created_at - b.created_at || a.id.localeCompare(b.id);
+
+/**
+ * Replies ordered for display. Every mode falls back to oldest first, so
+ * replies with equal rank keep the chronological order.
+ */
+export function sortReplies(
+  notes: Note[],
+  mode: ThreadSortMode,
+  { getEngagement, isFollowing, myPubkey }: SortRepliesOptions = {}
+): Note[] {
+  const sorted = [...notes];
+  switch (mode) {
+    case "newest":
+      return sorted.sort((a, b) => byCreatedAt(b, a));
+    case "top":
+      return sorted.sort((a, b) => {
+        const ea = getEngagement?.(a.id);
+        const eb = getEngagement?.(b.id);
+        return (
+          (eb?.reactions ?? 0) - (ea?.reactions ?? 0) ||
+          (eb?.zapSats ?? 0) - (ea?.zapSats ?? 0) ||
+          byCreatedAt(a, b)
+        );
+      });
+    case "follows": {
+      // Our own replies rank with the people we follow
+      const rank = (note: Note) =>
+        note.pubkey === myPubkey || isFollowing?.(note.pubkey) ? 0 : 1;
+      return sorted.sort((a, b) => rank(a) - rank(b) || byCreatedAt(a, b));
+    }
+    default:
+      return sorted.sort(byCreatedAt);
+  }
+}
+
+/**
+ * Replies created after the previous visit, excluding our own. Nothing is
+ * new on a first visit.
+ */
+export function getNewReplyIds(
+  notes: Iterable<Note>,
+  lastVisitAt: number | null | undefined,
+  myPubkey?: string | null
+): Set<string> {
+  const ids = new Set<string>();
+  if (!lastVisitAt) return ids;
+  for (const note of notes) {
+    if (note.created_at > lastVisitAt && note.pubkey !== myPubkey) ids.add(note.id);
+  }
+  return ids;
+}
@@ -1,7 +1,8 @@
 /// <reference lib="webworker" />
 
 // Enhanced PoW worker with progress updates and session tracking
-// Receives { base, targetBits, sessionId } and sends progress updates + final result
+// Receives { base, targetBits, sessionId, startNonce?, stride? } and sends progress updates + final result.
+// Several workers share one session by each trying nonces startNonce, startNonce + stride, ...
 
 import { sha256 } from '@noble/hashes/sha2'
 
@@ -56,6 +57,8 @@ function onMessage(e: MessageEvent) {
   console.log('👷 WORKER: Received message:', e.data)
 
   const { base, targetBits, sessionId } = e.data || {}
+  const startNonce = Number.isInteger(e.data?.startNonce) ? e.data.startNonce : 0
+  const stride = Number.isInteger(e.data?.stride) && e.data.stride > 0 ? e.data.stride : 1
 
   console.log('👷 WORKER: Parsed data:', { base: !!base, targetBits, sessionId })
 
@@ -70,7 +73,9 @@ function onMessage(e: MessageEvent) {
   const originalTags = Array.isArray(base.tags) ? base.tags.slice() : []
   const coreTags = originalTags.filter((t: string[]) => !(Array.isArray(t) && t[0] === 'nonce'))
 
-  let nonce = 0
+  let nonce = startNonce
+  let attempts = 0
+  let bestBits = 0
   const startTime = Date.now()
   let lastProgressUpdate = startTime
   let hashesPerSecond = 0
@@ -86,28 +91,31 @@ function onMessage(e: MessageEvent) {
 
     const id = computeEventIdHex(candidate)
     const currentBits = countLeadingZeroBitsHex(id)
+    attempts++
+    if (currentBits > bestBits) bestBits = currentBits
 
     if (currentBits >= targetBits) {
       ;(self as any).postMessage({
         mined: candidate,
+        attempts,
         sessionId
       })
       break
     }
 
-    nonce++
+    nonce += stride
 
     // Send progress updates every 4096 iterations or every 200ms
-    if ((nonce & 0xfff) === 0 || Date.now() - lastProgressUpdate > 200) {
+    if ((attempts & 0xfff) === 0 || Date.now() - lastProgressUpdate > 200) {
       const elapsed = Date.now() - startTime
-      hashesPerSecond = nonce / (elapsed / 1000)
+      hashesPerSecond = attempts / (elapsed / 1000)
 
       // Expected attempts to find target: 2^targetBits
       const avgAttempts = Math.pow(2, targetBits)
       // Time-based/probabilistic progress: fraction of attempts completed
-      const progress = Math.min((nonce / avgAttempts) * 100, 99.9)
+      const progress = Math.min((attempts / avgAttempts) * 100, 99.9)
       // ETA based on remaining expected attempts and current hash rate
-      const remainingAttempts = Math.max(avgAttempts - nonce, 0)
+      const remainingAttempts = Math.max(avgAttempts - attempts, 0)
       const estimatedTimeRemaining = hashesPerSecond > 0
         ? (remainingAttempts / hashesPerSecond)
         : null
@@ -115,7 +123,9 @@ function onMessage(e: MessageEvent) {
       ;(self as any).postMessage({
         progress: {
           currentBits,
+          bestBits,
           nonce,
+          attempts,
           progress,
           hashesPerSecond,
           estimatedTimeRemaining,
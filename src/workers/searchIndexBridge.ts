@@ -0,0 +1,125 @@
+// Main-thread bridge to searchIndexWorker
+// Falls back to running the index in-thread where workers aren't available
+
+import * as localIndex from "../utils/search/localIndex";
+import type { IndexedNote } from "../utils/search/localIndex";
+import type { SearchQuery } from "../utils/search/parse";
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let requestId = 0;
+const pendingRequests = new Map<
+  number,
+  { resolve: (result: unknown) => void; reject: (err: Error) => void }
+>();
+
+// Lazy-load worker; null means use the in-thread fallback
+function getWorker(): Worker | null {
+  if (workerFailed || typeof Worker === "undefined") return null;
+  if (!worker) {
+    try {
+      worker = new Worker(
+        new URL("./searchIndexWorker.ts", import.meta.url),
+        { type: "module" }
+      );
+    } catch (err) {
+      console.warn("Search index worker unavailable, indexing in-thread:", err);
+      workerFailed = true;
+      return null;
+    }
+
+    worker.onmessage = (event) => {
+      const { type, requestId: id, result, error } = event.data || {};
+      const pending = pendingRequests.get(id);
+      if (!pending) return;
+      pendingRequests.delete(id);
+      if (type === "error") pending.reject(new Error(error));
+      else pending.resolve(result);
+    };
+
+    worker.onerror = (err: ErrorEvent) => {
+      console.error("Search index worker error:", err.message);
+      for (const [, { reject }] of pendingRequests) {
+        reject(new Error(err.message || "Worker error"));
+      }
+      pendingRequests.clear();
+    };
+  }
+  return worker;
+}
+
+function request<T>(message: Record<string, unknown>): Promise<T> {
+  const target = getWorker();
+  if (!target) return Promise.reject(new Error("Search index worker unavailable"));
+
+  return new Promise<T>((resolve, reject) => {
+    const id = requestId++;
+    const timeout = setTimeout(() => {
+      pendingRequests.delete(id);
+      reject(new Error("Search index timeout"));
+    }, REQUEST_TIMEOUT_MS);
+    pendingRequests.set(id, {
+      resolve: (result) => {
+        clearTimeout(timeout);
+        resolve(result as T);
+      },
+      reject: (err) => {
+        clearTimeout(timeout);
+        reject(err);
+      },
+    });
+    target.postMessage({ ...message, requestId: id });
+  });
+}
+
+// Fire-and-forget: add notes to the local index
+export function indexNotes(notes: IndexedNote[]): void {
+  if (notes.length === 0) return;
+  const target = getWorker();
+  if (target) {
+    target.postMessage({ type: "add", notes });
+    return;
+  }
+  localIndex.addNotesToIndex(notes).catch((err) => {
+    console.error("Failed to index notes:", err);
+  });
+}
+
+// Search the local index; resolves to [] if it can't be read
+export async function searchLocalIndex(
+  query: SearchQuery,
+  limit: number = 50
+): Promise<IndexedNote[]> {
+  try {
+    if (!getWorker()) return await localIndex.queryIndex(query, limit);
+    return await request<IndexedNote[]>({ type: "query", query, limit });
+  } catch (err) {
+    console.error("Local search failed:", err);
+    return [];
+  }
+}
+
+export async function getLocalIndexSize(): Promise<number> {
+  try {
+    if (!getWorker()) return await localIndex.getIndexSize();
+    return await request<number>({ type: "size" });
+  } catch {
+    return 0;
+  }
+}
+
+export async function clearLocalIndex(): Promise<void> {
+  if (!getWorker()) return localIndex.clearIndex();
+  await request({ type: "clear" });
+}
+
+// Terminate worker (for cleanup)
+export function terminateSearchIndexWorker(): void {
+  if (worker) {
+    worker.terminate();
+    worker = null;
+  }
+  pendingRequests.clear();
+}
@@ -0,0 +1,58 @@
+/// <reference lib="webworker" />
+
+// Web Worker owning the local full-text index (see utils/search/localIndex)
+// Tokenizing and IndexedDB writes stay off the main thread
+
+import {
+  addNotesToIndex,
+  clearIndex,
+  getIndexSize,
+  queryIndex,
+  type IndexedNote,
+} from "../utils/search/localIndex";
+import type { SearchQuery } from "../utils/search/parse";
+
+type SearchIndexRequest =
+  | { type: "add"; notes: IndexedNote[] }
+  | { type: "query"; requestId: number; query: SearchQuery; limit: number }
+  | { type: "size"; requestId: number }
+  | { type: "clear"; requestId: number };
+
+self.onmessage = async (event: MessageEvent<SearchIndexRequest>) => {
+  const message = event.data;
+  try {
+    switch (message.type) {
+      case "add":
+        await addNotesToIndex(message.notes);
+        break;
+      case "query":
+        self.postMessage({
+          type: "result",
+          requestId: message.requestId,
+          result: await queryIndex(message.query, message.limit),
+        });
+        break;
+      case "size":
+        self.postMessage({
+          type: "result",
+          requestId: message.requestId,
+          result: await getIndexSize(),
+        });
+        break;
+      case "clear":
+        await clearIndex();
+        self.postMessage({ type: "result", requestId: message.requestId });
+        break;
+    }
+  } catch (error) {
+    if ("requestId" in message) {
+      self.postMessage({
+        type: "error",
+        requestId: message.requestId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } else {
+      console.error("Search index worker error:", error);
+    }
+  }
+};